@@ -12,9 +12,17 @@
  * 
  * Tools Access:
  * - Accessibility MCP: check_color_contrast, check_aria_labels, check_keyboard_navigation
+ *
+ * Component checks go through the Accessibility MCP server when an MCP client
+ * is provided, and run the same rules in-process otherwise.
  */
 
-import { AgentConfig, AgentResponse, UISpec, AccessibilityReport, ComponentSpec } from "./types";
+import { v4 as uuidv4 } from "uuid";
+import { AgentConfig, AgentResponse, UISpec, AccessibilityReport, ComponentSpec, ProposedChange } from "./types";
+import { applyProposedChanges } from "./proposed-changes";
+import { describeComponentLocation, flattenComponents, getComponentAt } from "./spec-tree";
+import type { MCPToolClient } from "./mcp-tools";
+import { checkComponentAccessibility, ComponentAccessibilityResult } from "@/mcp/accessibility/rules";
 
 export const accessibilityAgentConfig: AgentConfig = {
     name: "Accessibility Agent",
@@ -60,6 +68,12 @@ Always prioritize fixing CRITICAL and SERIOUS issues before passing to the next
  * Accessibility Agent Class
  */
 export class AccessibilityAgent {
+    private tools?: MCPToolClient;
+
+    constructor(tools?: MCPToolClient) {
+        this.tools = tools;
+    }
+
     /**
      * Validate a UI specification for accessibility
      */
@@ -68,7 +82,8 @@ export class AccessibilityAgent {
             const report = await this.runAccessibilityChecks(uiSpec);
 
             // Auto-fix what we can
-            const fixedUI = this.applyAccessibilityFixes(uiSpec, report);
+            const proposedChanges = this.proposeFixes(uiSpec, report);
+            const fixedUI = applyProposedChanges(uiSpec, proposedChanges);
 
             // If there are still critical violations, return failure
             const criticalViolations = report.violations.filter(v => v.impact === "critical");
@@ -76,7 +91,7 @@ export class AccessibilityAgent {
             if (criticalViolations.length > 0) {
                 return {
                     success: false,
-                    data: { report, fixedUI },
+                    data: { report, fixedUI, proposedChanges },
                     errors: criticalViolations.map(v => ({
                         code: `A11Y_${v.rule.toUpperCase()}`,
                         message: v.description,
@@ -88,7 +103,7 @@ export class AccessibilityAgent {
 
             return {
                 success: true,
-                data: { report, fixedUI },
+                data: { report, fixedUI, proposedChanges },
                 nextAgent: "export-engineer",
             };
         } catch (error) {
@@ -114,10 +129,16 @@ export class AccessibilityAgent {
             warnings: [],
         };
 
-        // Check each component
-        uiSpec.components.forEach((component, index) => {
-            this.checkComponentAccessibility(component, index, report);
-        });
+        // Check each component, nested ones included
+        for (const { component, path } of flattenComponents(uiSpec.components)) {
+            const result = await this.checkComponent(component, describeComponentLocation(path));
+            report.violations.push(...result.violations.map(violation => ({
+                ...violation,
+                componentIndex: path[0],
+                ...(path.length > 1 && { componentPath: path }),
+            })));
+            report.warnings.push(...result.warnings);
+        }
 
         // Check overall page structure
         this.checkPageStructure(uiSpec, report);
@@ -130,176 +151,34 @@ export class AccessibilityAgent {
     }
 
     /**
-     * Check individual component accessibility
+     * Check individual component accessibility, preferring the MCP server
      */
-    private checkComponentAccessibility(
-        component: ComponentSpec,
-        index: number,
-        report: AccessibilityReport
-    ): void {
+    private async checkComponent(component: ComponentSpec, location: string): Promise<ComponentAccessibilityResult> {
         const props = component.props as Record<string, unknown>;
 
-        // Check Button accessibility
-        if (component.name === "Button") {
-            // Icon-only buttons need aria-label
-            if (props.iconOnly && !props.ariaLabel && !props["aria-label"]) {
-                report.violations.push({
-                    rule: "button-name",
-                    impact: "critical",
-                    description: `Button at index ${index} is icon-only without accessible name`,
-                    fix: "Add ariaLabel prop to the Button component",
-                    componentIndex: index,
+        if (this.tools) {
+            try {
+                const result = await this.tools.callTool("a11y:check_aria_labels", {
+                    componentName: component.name,
+                    props,
+                    location,
                 });
-            }
-
-            // Check text content
-            if (!props.iconOnly && !props.text && !props.children) {
-                report.violations.push({
-                    rule: "button-name",
-                    impact: "critical",
-                    description: `Button at index ${index} has no text content`,
-                    fix: "Add text prop or children to the Button",
-                    componentIndex: index,
-                });
-            }
-        }
-
-        // Check Form accessibility
-        if (component.name === "Form") {
-            const fields = (props.fields || props.sections) as Array<Record<string, unknown>> | undefined;
-
-            if (fields) {
-                const flatFields = Array.isArray(fields[0]?.fields)
-                    ? fields.flatMap((s: Record<string, unknown>) => (s.fields as Array<Record<string, unknown>>) || [])
-                    : fields;
-
-                flatFields.forEach((field: Record<string, unknown>, fieldIndex: number) => {
-                    // Check for labels
-                    if (!field.label && !field["aria-label"]) {
-                        report.violations.push({
-                            rule: "form-field-label",
-                            impact: "critical",
-                            description: `Form field "${field.name}" at index ${fieldIndex} has no label`,
-                            fix: `Add label prop to field "${field.name}"`,
-                            componentIndex: index,
-                        });
-                    }
-
-                    // Check required field indication
-                    if (field.required && !field.label?.toString().includes("*")) {
-                        report.warnings.push({
-                            rule: "required-indication",
-                            description: `Required field "${field.name}" doesn't visually indicate requirement`,
-                            recommendation: "Required fields should be visually indicated (e.g., asterisk)",
-                        });
-                    }
-                });
-            }
-        }
-
-        // Check Modal accessibility
-        if (component.name === "Modal") {
-            // Check for accessible name
-            if (!props.title && !props["aria-label"] && !props.ariaLabel) {
-                report.violations.push({
-                    rule: "modal-name",
-                    impact: "serious",
-                    description: `Modal at index ${index} has no accessible name`,
-                    fix: "Add title or aria-label prop to the Modal",
-                    componentIndex: index,
-                });
-            }
-
-            // Check for close mechanism
-            if (props.showCloseButton === false && !props.closeOnEscape && !props.closeOnOverlayClick) {
-                report.violations.push({
-                    rule: "modal-escape",
-                    impact: "serious",
-                    description: `Modal at index ${index} has no way to close`,
-                    fix: "Enable at least one close mechanism: showCloseButton, closeOnEscape, or closeOnOverlayClick",
-                    componentIndex: index,
-                });
-            }
-        }
 
-        // Check Card accessibility
-        if (component.name === "Card") {
-            // Check clickable cards for keyboard accessibility
-            if (props.clickable && !props.href && !props.onClick) {
-                report.warnings.push({
-                    rule: "card-interactive",
-                    description: `Clickable card at index ${index} should have clear interactive purpose`,
-                    recommendation: "Add href or ensure onClick handles keyboard events",
-                });
-            }
-
-            // Check images for alt text
-            if (props.imageUrl && !props.imageAlt) {
-                report.violations.push({
-                    rule: "image-alt",
-                    impact: "serious",
-                    description: `Card image at index ${index} has no alt text`,
-                    fix: "Add imageAlt prop with descriptive text",
-                    componentIndex: index,
-                });
-            }
-        }
-
-        // Check Chart accessibility
-        if (component.name === "Chart") {
-            // Charts should have accessible descriptions
-            if (!props.title && !props["aria-label"]) {
-                report.violations.push({
-                    rule: "chart-label",
-                    impact: "serious",
-                    description: `Chart at index ${index} has no accessible label`,
-                    fix: "Add title or aria-label to describe the chart data",
-                    componentIndex: index,
-                });
-            }
-        }
-
-        // Check TestimonialSection accessibility
-        if (component.name === "TestimonialSection") {
-            const testimonials = props.testimonials as Array<Record<string, unknown>> | undefined;
-
-            if (testimonials) {
-                testimonials.forEach((testimonial, tIndex) => {
-                    // Check for author avatar alt text
-                    if (testimonial.authorAvatarUrl && !testimonial.authorName) {
-                        report.warnings.push({
-                            rule: "image-alt",
-                            description: `Testimonial ${tIndex} has avatar without author name for alt text`,
-                            recommendation: "Ensure authorName is provided for avatar alt text",
-                        });
-                    }
-                });
+                return {
+                    violations: result.issues.map(issue => ({
+                        rule: issue.rule,
+                        impact: issue.severity,
+                        description: issue.issue,
+                        fix: issue.fix,
+                    })),
+                    warnings: result.warnings,
+                };
+            } catch {
+                // Server unavailable - the same rules run in-process below
             }
         }
 
-        // Check DashboardLayout accessibility
-        if (component.name === "DashboardLayout") {
-            const sidebar = props.sidebar as Record<string, unknown> | undefined;
-
-            if (sidebar) {
-                const navItems = sidebar.navItems as Array<Record<string, unknown>> | undefined;
-
-                if (navItems) {
-                    navItems.forEach((item, itemIndex) => {
-                        // Check nav items for labels when using icons
-                        if (item.icon && !item.label) {
-                            report.violations.push({
-                                rule: "nav-item-label",
-                                impact: "serious",
-                                description: `Navigation item ${itemIndex} has icon but no label`,
-                                fix: "Add label prop to navigation item",
-                                componentIndex: index,
-                            });
-                        }
-                    });
-                }
-            }
-        }
+        return checkComponentAccessibility(component.name, props, location);
     }
 
     /**
@@ -319,7 +198,7 @@ export class AccessibilityAgent {
 
         // Check for heading hierarchy
         // In a real implementation, we'd analyze the actual heading structure
-        const hasHeadings = uiSpec.components.some(c => {
+        const hasHeadings = flattenComponents(uiSpec.components).some(({ component: c }) => {
             const props = c.props as Record<string, unknown>;
             return props.title || props.headline;
         });
@@ -364,45 +243,61 @@ export class AccessibilityAgent {
     }
 
     /**
-     * Apply automatic accessibility fixes
+     * Work out the prop changes that automatically fix violations,
+     * one reviewable change per fixable violation
      */
-    private applyAccessibilityFixes(uiSpec: UISpec, report: AccessibilityReport): UISpec {
-        const fixed: UISpec = JSON.parse(JSON.stringify(uiSpec));
+    proposeFixes(uiSpec: UISpec, report: AccessibilityReport): ProposedChange[] {
+        const changes: ProposedChange[] = [];
 
-        // Apply fixes for each violation that has a componentIndex
         report.violations.forEach(violation => {
             if (violation.componentIndex === undefined) return;
 
-            const component = fixed.components[violation.componentIndex];
+            const component = getComponentAt(
+                uiSpec.components,
+                violation.componentPath ?? [violation.componentIndex]
+            );
             if (!component) return;
 
             const props = component.props as Record<string, unknown>;
+            let fix: Record<string, unknown> | undefined;
 
             // Auto-fix icon-only buttons
             if (violation.rule === "button-name" && props.iconOnly) {
-                props.ariaLabel = `${props.icon || "Action"} button`;
+                fix = { ariaLabel: `${props.icon || "Action"} button` };
             }
 
             // Auto-fix modal without title
             if (violation.rule === "modal-name" && !props.title) {
-                props["aria-label"] = "Dialog";
+                fix = { "aria-label": "Dialog" };
             }
 
             // Auto-fix card images without alt
             if (violation.rule === "image-alt" && props.imageUrl) {
-                props.imageAlt = String(props.title || "Image");
+                fix = { imageAlt: String(props.title || "Image") };
             }
 
             // Auto-fix charts without labels
             if (violation.rule === "chart-label") {
-                props["aria-label"] = `Chart: ${props.subtitle || "Data visualization"}`;
+                fix = { "aria-label": `Chart: ${props.subtitle || "Data visualization"}` };
             }
+
+            if (!fix) return;
+
+            changes.push({
+                id: uuidv4(),
+                agent: "accessibility",
+                componentIndex: violation.componentIndex,
+                componentPath: violation.componentPath,
+                componentName: component.name,
+                description: violation.fix,
+                props: fix,
+            });
         });
 
-        return fixed;
+        return changes;
     }
 }
 
-export function createAccessibilityAgent(): AccessibilityAgent {
-    return new AccessibilityAgent();
+export function createAccessibilityAgent(tools?: MCPToolClient): AccessibilityAgent {
+    return new AccessibilityAgent(tools);
 }
@@ -0,0 +1,130 @@
+/**
+ * Agent Registry
+ * ==============
+ * Custom pipeline stages (brand compliance, copywriting, localization, ...)
+ * registered against a common interface. The orchestrator adds every
+ * registered agent to its plan automatically.
+ *
+ * Placement in the plan follows from what an agent declares:
+ * - every stage runs after the UI Architect
+ * - reading `designFeedback` / `accessibilityReport` waits for that review
+ * - `after` lists further stages (built-in or custom) to wait for
+ * - export waits for every custom stage
+ */
+
+import {
+    AccessibilityReport,
+    AgentConfig,
+    AgentResponse,
+    AgentRole,
+    CustomAgentRole,
+    DesignFeedback,
+    UISpec,
+} from "./types";
+
+export type PipelineAgentInput = "userMessage" | "uiSpec" | "designFeedback" | "accessibilityReport";
+
+export type PipelineAgentOutput = "uiSpec" | "report";
+
+/**
+ * What a custom agent receives. Only the declared inputs are filled in.
+ */
+export interface PipelineAgentRequest {
+    userMessage?: string;
+    uiSpec?: UISpec;
+    designFeedback?: DesignFeedback;
+    accessibilityReport?: AccessibilityReport;
+}
+
+/**
+ * Shape of `AgentResponse.data` for a custom agent. Only the declared outputs are used.
+ */
+export interface PipelineAgentResult {
+    /** Updated spec; its prop changes are merged into the current UI */
+    uiSpec?: UISpec;
+    /** Free-form findings, surfaced on the pipeline result under the agent's role */
+    report?: unknown;
+}
+
+/**
+ * A custom pipeline stage
+ */
+export interface PipelineAgent {
+    config: AgentConfig & { role: CustomAgentRole };
+    inputs: PipelineAgentInput[];
+    outputs: PipelineAgentOutput[];
+    /** Other stages that must finish first (export always runs last) */
+    after?: AgentRole[];
+    /** A failed required stage skips the stages after it and fails the request. Default false */
+    required?: boolean;
+    run(request: PipelineAgentRequest): Promise<AgentResponse>;
+}
+
+/**
+ * Pipeline Agent Registry Class
+ */
+export class PipelineAgentRegistry {
+    private agents: Map<CustomAgentRole, PipelineAgent>;
+
+    constructor(agentList: PipelineAgent[] = []) {
+        this.agents = new Map();
+        agentList.forEach(agent => this.register(agent));
+    }
+
+    /**
+     * Register a custom agent. Roles must be unique and start with "custom:".
+     */
+    register(agent: PipelineAgent): void {
+        const { role } = agent.config;
+
+        if (!role.startsWith("custom:")) {
+            throw new Error(`Custom agent role must start with "custom:", got "${role}"`);
+        }
+        if (this.agents.has(role)) {
+            throw new Error(`Agent "${role}" is already registered`);
+        }
+        if (agent.outputs.includes("uiSpec") && !agent.inputs.includes("uiSpec")) {
+            throw new Error(`Agent "${role}" outputs a uiSpec so it must also take one as input`);
+        }
+
+        this.agents.set(role, agent);
+    }
+
+    /**
+     * Remove an agent. Returns whether it was registered.
+     */
+    unregister(role: CustomAgentRole): boolean {
+        return this.agents.delete(role);
+    }
+
+    /**
+     * Get an agent by role
+     */
+    get(role: AgentRole): PipelineAgent | undefined {
+        return this.agents.get(role as CustomAgentRole);
+    }
+
+    /**
+     * Check if an agent is registered
+     */
+    has(role: AgentRole): boolean {
+        return this.agents.has(role as CustomAgentRole);
+    }
+
+    /**
+     * Get all registered roles
+     */
+    getRoles(): CustomAgentRole[] {
+        return Array.from(this.agents.keys());
+    }
+
+    /**
+     * Get all agents in registration order
+     */
+    getAll(): PipelineAgent[] {
+        return Array.from(this.agents.values());
+    }
+}
+
+// Export singleton registry
+export const agentRegistry = new PipelineAgentRegistry();
@@ -0,0 +1,61 @@
+/**
+ * Code Formatter
+ * ==============
+ * Runs the TypeScript and JavaScript of an export through Prettier, so the
+ * files read like hand-written code however the generators lay them out.
+ * Uses Prettier's standalone build with its default style; it works in the
+ * browser and in Node and doesn't pick up config files from the disk.
+ */
+
+import { format } from "prettier/standalone";
+import * as babelPlugin from "prettier/plugins/babel";
+import * as estreePlugin from "prettier/plugins/estree";
+import * as typescriptPlugin from "prettier/plugins/typescript";
+import { ExportPackage } from "./types";
+
+type ExportFile = ExportPackage["files"][number];
+
+const PARSERS: Record<string, "typescript" | "babel"> = {
+    ts: "typescript",
+    tsx: "typescript",
+    mts: "typescript",
+    js: "babel",
+    jsx: "babel",
+    mjs: "babel",
+};
+
+const PLUGINS = [babelPlugin, estreePlugin, typescriptPlugin];
+
+/**
+ * Whether Prettier formats this file, by its extension
+ */
+export function isFormattedFile(name: string): boolean {
+    return parserFor(name) !== undefined;
+}
+
+/**
+ * Format source code for the file it goes in. Throws when the code doesn't
+ * parse, which means the generator emitted broken code.
+ */
+export async function formatCode(code: string, fileName: string): Promise<string> {
+    const parser = parserFor(fileName);
+    if (!parser) return code;
+
+    try {
+        return await format(code, { parser, plugins: PLUGINS, filepath: fileName });
+    } catch (error) {
+        throw new Error(`Generated ${fileName} does not parse: ${error instanceof Error ? error.message : error}`);
+    }
+}
+
+/**
+ * The files with their code formatted; other files are returned as they are
+ */
+export function formatExportFiles(files: ExportFile[]): Promise<ExportFile[]> {
+    return Promise.all(files.map(async file => ({ ...file, content: await formatCode(file.content, file.name) })));
+}
+
+function parserFor(name: string): "typescript" | "babel" | undefined {
+    const extension = name.slice(name.lastIndexOf(".") + 1);
+    return name.includes(".") ? PARSERS[extension] : undefined;
+}
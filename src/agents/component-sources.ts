@@ -0,0 +1,238 @@
+/**
+ * Component Sources
+ * =================
+ * Copies of the generative components for exports that must work outside
+ * UI-Smith. Starting from the components a UISpec uses, follows their imports
+ * to every local file they need (schemas, `cn` from lib/utils, ...) and
+ * collects the npm packages they import along the way.
+ *
+ * Paths are relative to the app's `src/` directory, and the copies keep that
+ * layout under whatever directory the export puts them in. Local imports,
+ * `@/` ones included, are rewritten to relative paths so the copies resolve
+ * without any path alias.
+ */
+
+import { componentRegistry } from "@/tambo/component-registry";
+
+/**
+ * Reads the app's own source files (see createFileComponentSources)
+ */
+export interface ComponentSources {
+    /** Content of a file under src/, e.g. "components/generative/button.tsx" */
+    read(file: string): Promise<string>;
+}
+
+export interface VendoredFile {
+    /** Relative to src/, and to the directory the copies go in */
+    path: string;
+    content: string;
+}
+
+export interface VendoredComponents {
+    files: VendoredFile[];
+    /** npm packages the copied files import, sorted */
+    dependencies: string[];
+}
+
+/** Where the components' index goes; import the page's components from here */
+export const VENDORED_COMPONENTS_INDEX = "components/generative/index.ts";
+
+/** Versions UI-Smith is built with, for the packages its components may import */
+const PACKAGE_VERSIONS: Record<string, string> = {
+    "@radix-ui/react-accordion": "^1.2.0",
+    "@radix-ui/react-alert-dialog": "^1.1.1",
+    "@radix-ui/react-avatar": "^1.1.0",
+    "@radix-ui/react-checkbox": "^1.1.0",
+    "@radix-ui/react-dialog": "^1.1.1",
+    "@radix-ui/react-dropdown-menu": "^2.1.1",
+    "@radix-ui/react-label": "^2.1.0",
+    "@radix-ui/react-popover": "^1.1.1",
+    "@radix-ui/react-progress": "^1.1.0",
+    "@radix-ui/react-radio-group": "^1.2.0",
+    "@radix-ui/react-select": "^2.1.1",
+    "@radix-ui/react-separator": "^1.1.0",
+    "@radix-ui/react-slider": "^1.2.0",
+    "@radix-ui/react-slot": "^1.1.0",
+    "@radix-ui/react-switch": "^1.1.0",
+    "@radix-ui/react-tabs": "^1.1.0",
+    "@radix-ui/react-toast": "^1.2.1",
+    "@radix-ui/react-tooltip": "^1.1.2",
+    "class-variance-authority": "^0.7.0",
+    clsx: "^2.1.1",
+    "framer-motion": "^11.0.0",
+    "lucide-react": "^0.400.0",
+    react: "^19.2.3",
+    "react-dom": "^19.2.3",
+    recharts: "^2.12.0",
+    "tailwind-merge": "^2.4.0",
+    zod: "^3.23.8",
+};
+
+/** `import ... from "x"`, `import "x"`, `export ... from "x"` and `import("x")` */
+const IMPORT_PATTERN = /\b(?:import|export)\s+(?:type\s+)?(?:[^"'`;]*?\s+from\s+)?(["'])([^"']+)\1|\bimport\(\s*(["'])([^"']+)\3\s*\)/g;
+
+const SOURCE_EXTENSIONS = [".ts", ".tsx"];
+
+/**
+ * "PricingTable" -> "pricing-table", the file name of a component
+ */
+export function componentFileName(name: string): string {
+    return name.replace(/([a-z0-9])([A-Z])/g, "$1-$2").toLowerCase();
+}
+
+/**
+ * Copies of the given components and everything they import from the app,
+ * plus a components/generative/index.ts that exports just those components
+ */
+export async function vendorComponents(names: string[], sources: ComponentSources): Promise<VendoredComponents> {
+    const unique = [...new Set(names)];
+    const unknown = unique.filter(name => !componentRegistry.has(name));
+    if (unknown.length > 0) {
+        throw new Error(`No generative component to vendor for: ${unknown.join(", ")}`);
+    }
+
+    // Resolving an import reads the file too; read each one once
+    const cache = new Map<string, Promise<string>>();
+    const cached: ComponentSources = {
+        read(file) {
+            if (!cache.has(file)) cache.set(file, sources.read(file));
+            return cache.get(file)!;
+        },
+    };
+
+    const files = new Map<string, string>();
+    const dependencies = new Set<string>();
+    const queue = unique.map(name => `components/generative/${componentFileName(name)}.tsx`);
+
+    // Breadth-first over local imports
+    while (queue.length > 0) {
+        const file = queue.shift()!;
+        if (files.has(file)) continue;
+
+        const source = await cached.read(file);
+        const imports = new Map<string, string>();
+
+        for (const specifier of importSpecifiers(source)) {
+            if (imports.has(specifier)) continue;
+            const local = localImportPath(file, specifier);
+            if (local === undefined) {
+                dependencies.add(packageName(specifier));
+                continue;
+            }
+            const target = await resolveSourceFile(local, cached, `"${specifier}" in ${file}`);
+            imports.set(specifier, relativeImport(file, target));
+            queue.push(target);
+        }
+
+        files.set(file, rewriteImports(source, imports));
+    }
+
+    const typeExports = unique
+        .map(name => ({ name, schema: `schemas/${componentFileName(name)}.schema.ts` }))
+        .filter(({ schema }) => files.has(schema))
+        .map(({ name, schema }) => `export type { ${name}Props } from "${relativeImport(VENDORED_COMPONENTS_INDEX, schema)}";`);
+    const index = `/**
+ * UI-Smith Components
+ * ===================
+ * The generative components this page uses, copied from UI-Smith.
+ */
+
+${unique.map(name => `export { ${name} } from "./${componentFileName(name)}";`).join("\n")}
+${typeExports.length > 0 ? `\n${typeExports.join("\n")}\n` : ""}`;
+    files.set(VENDORED_COMPONENTS_INDEX, index);
+
+    return {
+        files: [...files].map(([path, content]) => ({ path, content })),
+        dependencies: [...dependencies].sort(),
+    };
+}
+
+/**
+ * package.json entries for npm packages, at the versions UI-Smith uses
+ */
+export function dependencyVersions(packages: string[]): Record<string, string> {
+    return Object.fromEntries([...new Set(packages)].sort().map(name => [name, PACKAGE_VERSIONS[name] ?? "latest"]));
+}
+
+/**
+ * Module specifiers a source file imports or re-exports from
+ */
+function importSpecifiers(source: string): string[] {
+    return [...source.matchAll(IMPORT_PATTERN)].map(match => match[2] ?? match[4]);
+}
+
+function rewriteImports(source: string, imports: Map<string, string>): string {
+    return source.replace(IMPORT_PATTERN, statement => {
+        for (const [specifier, replacement] of imports) {
+            for (const quote of ['"', "'"]) {
+                const quoted = `${quote}${specifier}${quote}`;
+                if (statement.includes(quoted)) return statement.replace(quoted, `${quote}${replacement}${quote}`);
+            }
+        }
+        return statement;
+    });
+}
+
+/**
+ * The src/-relative path an app import points at, undefined for npm packages
+ */
+function localImportPath(importer: string, specifier: string): string | undefined {
+    if (specifier.startsWith("@/")) return normalizePath(specifier.slice(2));
+    if (specifier.startsWith("./") || specifier.startsWith("../")) {
+        const resolved = normalizePath(`${dirname(importer)}/${specifier}`);
+        if (resolved.startsWith("../")) throw new Error(`"${specifier}" in ${importer} points outside src/`);
+        return resolved;
+    }
+    return undefined;
+}
+
+/**
+ * The file an extensionless import resolves to, the way TypeScript looks it up
+ */
+async function resolveSourceFile(path: string, sources: ComponentSources, description: string): Promise<string> {
+    const candidates = SOURCE_EXTENSIONS.some(extension => path.endsWith(extension))
+        ? [path]
+        : [...SOURCE_EXTENSIONS.map(extension => `${path}${extension}`), ...SOURCE_EXTENSIONS.map(extension => `${path}/index${extension}`)];
+
+    for (const candidate of candidates) {
+        try {
+            await sources.read(candidate);
+            return candidate;
+        } catch {
+            // Try the next candidate
+        }
+    }
+    throw new Error(`Cannot find the file for ${description}`);
+}
+
+function packageName(specifier: string): string {
+    const parts = specifier.split("/");
+    return specifier.startsWith("@") ? parts.slice(0, 2).join("/") : parts[0];
+}
+
+/**
+ * Specifier for importing `target` from `importer`, both src/-relative
+ */
+function relativeImport(importer: string, target: string): string {
+    const from = dirname(importer).split("/").filter(Boolean);
+    const to = target.replace(/\.tsx?$/, "").replace(/\/index$/, "").split("/");
+    let common = 0;
+    while (common < from.length && common < to.length - 1 && from[common] === to[common]) common++;
+
+    const relative = [...from.slice(common).map(() => ".."), ...to.slice(common)].join("/");
+    return relative.startsWith("..") ? relative : `./${relative}`;
+}
+
+function dirname(path: string): string {
+    return path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : "";
+}
+
+function normalizePath(path: string): string {
+    const parts: string[] = [];
+    for (const part of path.split("/")) {
+        if (part === "" || part === ".") continue;
+        if (part === ".." && parts.length > 0 && parts[parts.length - 1] !== "..") parts.pop();
+        else parts.push(part);
+    }
+    return parts.join("/");
+}
@@ -0,0 +1,204 @@
+/**
+ * Config Importer
+ * ===============
+ * Reads an exported `ui-smith.config.json` (see the Export Engineer) back into
+ * a UISpec, so exported work can be loaded into the orchestrator and edited.
+ *
+ * Older configs are migrated first (see spec-migrations), then checked against
+ * the config format and every component's props schema. Props are repaired
+ * where possible (see spec-validator); anything left is reported by JSON
+ * Pointer into the config, e.g. `/components/0/props/tiers/1/billingPeriod`.
+ *
+ * `importUIDocument` also accepts a saved UISpec, for callers (such as the
+ * `ui-smith` CLI) that take either.
+ */
+
+import { z } from "zod";
+import { v4 as uuidv4 } from "uuid";
+import { ComponentSpec, UISpec, uiSpecSchema } from "./types";
+import { escapePointerToken } from "./spec-tree";
+import { detectDocumentKind, migrateExportConfig, migrateUISpec } from "./spec-migrations";
+import { repairUISpec, SpecRepair, SpecValidationError } from "./spec-validator";
+
+/**
+ * A component entry in an exported config
+ */
+export interface ConfigComponent {
+    id?: string;
+    type: string;
+    props: Record<string, unknown>;
+    slot?: string;
+    children?: ConfigComponent[];
+}
+
+export const configComponentSchema: z.ZodType<ConfigComponent> = z.lazy(() =>
+    z.object({
+        id: z.string().optional(),
+        type: z.string().min(1),
+        props: z.record(z.unknown()),
+        slot: z.string().optional(),
+        children: z.array(configComponentSchema).optional(),
+    })
+);
+
+export const exportConfigSchema = z.object({
+    $schema: z.string().optional(),
+    schemaVersion: z.number().int().positive().optional(),
+    name: z.string().optional(),
+    description: z.string().optional(),
+    version: z.number().optional(),
+    generatedAt: z.string().optional(),
+    generatedBy: z.string().optional(),
+    components: z.array(configComponentSchema),
+    layout: uiSpecSchema.shape.layout,
+});
+
+export type ExportConfig = z.infer<typeof exportConfigSchema>;
+
+export interface ConfigImportResult {
+    valid: boolean;
+    /** The reconstructed spec, when the document imported */
+    uiSpec?: UISpec;
+    /** Props the validator repaired; paths point into the imported document */
+    repairs: SpecRepair[];
+    /** `path` is a JSON Pointer into the imported document */
+    errors: Array<Pick<SpecValidationError, "path" | "message"> & { code: string }>;
+    /** Format version the document was written in */
+    fromVersion?: number;
+}
+
+/**
+ * Reconstruct a UISpec from an exported config, given as parsed JSON or as
+ * the file's text
+ */
+export function importExportConfig(config: unknown): ConfigImportResult {
+    const data = parseDocument(config);
+    if (!data.ok) return data.result;
+
+    let migrated;
+    try {
+        migrated = migrateExportConfig(data.value);
+    } catch (error) {
+        return invalid("", error instanceof Error ? error.message : String(error), "INVALID_CONFIG");
+    }
+
+    const parsed = exportConfigSchema.safeParse(migrated.document);
+    if (!parsed.success) {
+        return {
+            valid: false,
+            repairs: [],
+            errors: parsed.error.issues.map(issue => ({
+                path: toPointer(issue.path),
+                message: issue.message,
+                code: "INVALID_CONFIG",
+            })),
+            fromVersion: migrated.fromVersion,
+        };
+    }
+
+    const { uiSpec, repairs, errors } = repairUISpec(toUISpec(parsed.data));
+
+    return {
+        valid: errors.length === 0,
+        ...(errors.length === 0 && { uiSpec }),
+        repairs,
+        errors: errors.map(({ path, message, code }) => ({
+            // Configs call a component's `name` its `type`
+            path: code === "UNKNOWN_COMPONENT" ? path.replace(/\/name$/, "/type") : path,
+            message,
+            code,
+        })),
+        fromVersion: migrated.fromVersion,
+    };
+}
+
+/**
+ * Reconstruct a UISpec from an exported config or a saved UISpec, given as
+ * parsed JSON or as the file's text
+ */
+export function importUIDocument(document: unknown): ConfigImportResult {
+    const data = parseDocument(document);
+    if (!data.ok) return data.result;
+
+    const kind = detectDocumentKind(data.value);
+    if (kind === "config") return importExportConfig(data.value);
+    if (!kind) {
+        return invalid("", "Not a UI-Smith config or spec: expected an object with a components array", "INVALID_SPEC");
+    }
+
+    let migrated;
+    try {
+        migrated = migrateUISpec(data.value);
+    } catch (error) {
+        return invalid("", error instanceof Error ? error.message : String(error), "INVALID_SPEC");
+    }
+
+    const parsed = uiSpecSchema.safeParse({ id: uuidv4(), ...migrated.document });
+    if (!parsed.success) {
+        return {
+            valid: false,
+            repairs: [],
+            errors: parsed.error.issues.map(issue => ({
+                path: toPointer(issue.path),
+                message: issue.message,
+                code: "INVALID_SPEC",
+            })),
+            fromVersion: migrated.fromVersion,
+        };
+    }
+
+    const { uiSpec, repairs, errors } = repairUISpec(parsed.data);
+
+    return {
+        valid: errors.length === 0,
+        ...(errors.length === 0 && { uiSpec }),
+        repairs,
+        errors: errors.map(({ path, message, code }) => ({ path, message, code })),
+        fromVersion: migrated.fromVersion,
+    };
+}
+
+function parseDocument(document: unknown): { ok: true; value: unknown } | { ok: false; result: ConfigImportResult } {
+    if (typeof document !== "string") return { ok: true, value: document };
+
+    try {
+        return { ok: true, value: JSON.parse(document) };
+    } catch (error) {
+        return {
+            ok: false,
+            result: invalid("", `Not valid JSON: ${error instanceof Error ? error.message : error}`, "INVALID_JSON"),
+        };
+    }
+}
+
+function toUISpec(config: ExportConfig): UISpec {
+    return {
+        schemaVersion: config.schemaVersion,
+        id: uuidv4(),
+        name: config.name,
+        description: config.description,
+        components: config.components.map(toComponentSpec),
+        layout: config.layout,
+        metadata: {
+            createdAt: config.generatedAt,
+            version: config.version,
+        },
+    };
+}
+
+function toComponentSpec(component: ConfigComponent): ComponentSpec {
+    return {
+        name: component.type,
+        props: component.props,
+        ...(component.slot && { slot: component.slot }),
+        ...(component.children?.length && { children: component.children.map(toComponentSpec) }),
+    };
+}
+
+function invalid(path: string, message: string, code: string): ConfigImportResult {
+    return { valid: false, repairs: [], errors: [{ path, message, code }] };
+}
+
+function toPointer(tokens: Array<string | number>): string {
+    return tokens.map(token => `/${escapePointerToken(token)}`).join("");
+}
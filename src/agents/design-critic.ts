@@ -13,9 +13,26 @@
  * Tools Access:
  * - Design System MCP: get_design_tokens, get_layout_rules
  * - UX Best Practices MCP: analyze_layout, get_visual_hierarchy_tips
+ *
+ * With an MCP client, layout analysis comes from the UX Best Practices server
+ * and props and nesting are validated by the Design System server. Without
+ * one, the layout and composition checks run inline.
  */
 
-import { AgentConfig, AgentResponse, UISpec, DesignFeedback, ComponentSpec } from "./types";
+import { v4 as uuidv4 } from "uuid";
+import {
+    AgentConfig,
+    AgentResponse,
+    UISpec,
+    DesignFeedback,
+    ComponentPath,
+    ComponentSpec,
+    ProposedChange,
+} from "./types";
+import { applyProposedChanges } from "./proposed-changes";
+import { describeComponentLocation, flattenComponents, getComponentAt } from "./spec-tree";
+import type { MCPToolClient, MCPToolMap } from "./mcp-tools";
+import { checkComposition, CompositionIssue } from "@/mcp/design-system/layout-rules";
 
 export const designCriticConfig: AgentConfig = {
     name: "Design Critic",
@@ -74,6 +91,12 @@ Return a DesignFeedback object with:
  * Design Critic Agent Class
  */
 export class DesignCriticAgent {
+    private tools?: MCPToolClient;
+
+    constructor(tools?: MCPToolClient) {
+        this.tools = tools;
+    }
+
     /**
      * Review a UI specification and provide feedback
      */
@@ -98,13 +121,15 @@ export class DesignCriticAgent {
             }
 
             // Optionally apply suggested improvements
-            const improvedUI = this.applyImprovements(uiSpec, feedback);
+            const proposedChanges = this.proposeChanges(uiSpec, feedback);
+            const improvedUI = applyProposedChanges(uiSpec, proposedChanges);
 
             return {
                 success: true,
                 data: {
                     feedback,
                     improvedUI,
+                    proposedChanges,
                 },
                 nextAgent: "accessibility",
             };
@@ -130,16 +155,21 @@ export class DesignCriticAgent {
             improvements: [],
         };
 
-        // Analyze each component
-        uiSpec.components.forEach((component, index) => {
-            this.checkComponent(component, index, feedback);
+        const nodes = flattenComponents(uiSpec.components);
+
+        // Analyze each component, nested ones included
+        nodes.forEach(({ component, path }) => {
+            this.checkComponent(component, path, feedback);
         });
 
         // Check overall layout
-        this.checkLayout(uiSpec, feedback);
+        if (!this.tools || !(await this.checkWithTools(uiSpec, feedback))) {
+            this.checkLayout(uiSpec, feedback);
+        }
+        this.checkVisualImpact(uiSpec, feedback);
 
         // Check consistency across components
-        this.checkConsistency(uiSpec.components, feedback);
+        this.checkConsistency(nodes.map(node => node.component), feedback);
 
         // Calculate final score
         feedback.score = this.calculateScore(feedback);
@@ -152,10 +182,11 @@ export class DesignCriticAgent {
      */
     private checkComponent(
         component: ComponentSpec,
-        index: number,
+        path: ComponentPath,
         feedback: DesignFeedback
     ): void {
         const props = component.props as Record<string, unknown>;
+        const target = { componentIndex: path[0], ...(path.length > 1 && { componentPath: path }) };
 
         // Check button design
         if (component.name === "Button") {
@@ -163,7 +194,7 @@ export class DesignCriticAgent {
             const size = props.size as string;
             if (size === "xs" || size === "sm") {
                 feedback.improvements.push({
-                    componentIndex: index,
+                    ...target,
                     suggestion: "Consider using a larger button for better visibility",
                     proposedProps: { size: "md" },
                 });
@@ -174,7 +205,7 @@ export class DesignCriticAgent {
                 feedback.issues.push({
                     type: "hierarchy",
                     severity: "warning",
-                    message: `Button at index ${index} is icon-only without an aria-label`,
+                    message: `Button at ${describeComponentLocation(path)} is icon-only without an aria-label`,
                 });
             }
         }
@@ -184,7 +215,7 @@ export class DesignCriticAgent {
             // Check for missing title
             if (!props.title && !props.header) {
                 feedback.improvements.push({
-                    componentIndex: index,
+                    ...target,
                     suggestion: "Add a title for better visual hierarchy",
                     proposedProps: { title: "Section Title" },
                 });
@@ -193,7 +224,7 @@ export class DesignCriticAgent {
             // Check variant
             if (!props.variant) {
                 feedback.improvements.push({
-                    componentIndex: index,
+                    ...target,
                     suggestion: "Specify a card variant for visual interest",
                     proposedProps: { variant: "elevated" },
                 });
@@ -207,7 +238,7 @@ export class DesignCriticAgent {
             // Check for featured tier
             if (tiers && !tiers.some(t => t.featured)) {
                 feedback.improvements.push({
-                    componentIndex: index,
+                    ...target,
                     suggestion: "Mark one tier as featured to guide user attention",
                 });
             }
@@ -227,7 +258,7 @@ export class DesignCriticAgent {
             // Check for validation
             if (!props.showValidationOnBlur && !props.showValidationOnChange) {
                 feedback.improvements.push({
-                    componentIndex: index,
+                    ...target,
                     suggestion: "Enable validation feedback for better UX",
                     proposedProps: { showValidationOnBlur: true },
                 });
@@ -239,7 +270,7 @@ export class DesignCriticAgent {
             // Check for title
             if (!props.title) {
                 feedback.improvements.push({
-                    componentIndex: index,
+                    ...target,
                     suggestion: "Add a title to provide context for the chart",
                     proposedProps: { title: "Data Overview" },
                 });
@@ -248,7 +279,7 @@ export class DesignCriticAgent {
             // Check for legend
             if (props.showLegend === false) {
                 feedback.improvements.push({
-                    componentIndex: index,
+                    ...target,
                     suggestion: "Consider showing the legend for better data understanding",
                     proposedProps: { showLegend: true },
                 });
@@ -262,7 +293,7 @@ export class DesignCriticAgent {
             // Check for breadcrumbs on complex layouts
             if (header && !header.showBreadcrumbs) {
                 feedback.improvements.push({
-                    componentIndex: index,
+                    ...target,
                     suggestion: "Add breadcrumbs for better navigation context",
                 });
             }
@@ -275,7 +306,7 @@ export class DesignCriticAgent {
             // Check testimonial count
             if (testimonials && testimonials.length < 3) {
                 feedback.improvements.push({
-                    componentIndex: index,
+                    ...target,
                     suggestion: "Add more testimonials for stronger social proof",
                 });
             }
@@ -283,7 +314,7 @@ export class DesignCriticAgent {
             // Check for ratings
             if (!props.showRatings) {
                 feedback.improvements.push({
-                    componentIndex: index,
+                    ...target,
                     suggestion: "Show ratings to increase credibility",
                     proposedProps: { showRatings: true },
                 });
@@ -291,6 +322,57 @@ export class DesignCriticAgent {
         }
     }
 
+    /**
+     * Layout analysis and prop validation through the MCP servers.
+     * Resolves to false, leaving the feedback untouched, if a server is unavailable.
+     */
+    private async checkWithTools(uiSpec: UISpec, feedback: DesignFeedback): Promise<boolean> {
+        const tools = this.tools!;
+        const components = uiSpec.components.map(c => ({ name: c.name, props: c.props }));
+        const nodes = flattenComponents(uiSpec.components);
+
+        try {
+            const [layout, composition, ...validations] = await Promise.all([
+                tools.callTool("ux:analyze_layout", { components, pageType: inferPageType(uiSpec) }),
+                tools.callTool("design-system:validate_composition", { components: uiSpec.components }),
+                ...nodes.map(({ component: c }) =>
+                    tools.callTool("design-system:validate_props", { componentName: c.name, props: c.props })
+                ),
+            ]) as [
+                MCPToolMap["ux:analyze_layout"]["result"],
+                MCPToolMap["design-system:validate_composition"]["result"],
+                ...MCPToolMap["design-system:validate_props"]["result"][],
+            ];
+
+            layout.issues.forEach(issue => {
+                feedback.issues.push({
+                    type: "hierarchy",
+                    // A missing UX best practice shouldn't fail the review on its own
+                    severity: issue.severity === "error" ? "warning" : issue.severity,
+                    message: `${issue.issue}. ${issue.recommendation}`,
+                });
+            });
+
+            this.addCompositionIssues(composition.issues, feedback);
+
+            validations.forEach((validation, index) => {
+                if (validation.valid) return;
+
+                const { component, path } = nodes[index];
+                const problems = validation.errors?.map(e => `${e.path || "(props)"}: ${e.message}`) ?? [validation.error ?? "invalid"];
+                feedback.issues.push({
+                    type: "consistency",
+                    severity: "warning",
+                    message: `${component.name} at ${describeComponentLocation(path)} has invalid props (${problems.join("; ")})`,
+                });
+            });
+
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
     /**
      * Check overall layout
      */
@@ -304,6 +386,38 @@ export class DesignCriticAgent {
             });
         }
 
+        // Check for call-to-action, nested ones included
+        const names = flattenComponents(uiSpec.components).map(node => node.component.name);
+        if (!names.includes("Button") && !names.includes("Form")) {
+            feedback.issues.push({
+                type: "hierarchy",
+                severity: "suggestion",
+                message: "Consider adding a call-to-action button",
+            });
+        }
+
+        // Check nesting against component slots and pairs
+        this.addCompositionIssues(checkComposition(uiSpec.components), feedback);
+    }
+
+    /**
+     * Report parent/child composition problems; discouraged pairs and
+     * children in unsupported slots fail the review
+     */
+    private addCompositionIssues(issues: Array<Pick<CompositionIssue, "severity" | "message">>, feedback: DesignFeedback): void {
+        issues.forEach(issue => {
+            feedback.issues.push({
+                type: "hierarchy",
+                severity: issue.severity,
+                message: issue.message,
+            });
+        });
+    }
+
+    /**
+     * Check that the page has a visually dominant element
+     */
+    private checkVisualImpact(uiSpec: UISpec, feedback: DesignFeedback): void {
         // Check for hero/main content
         const hasHeroContent = uiSpec.components.some(c => {
             const props = c.props as Record<string, unknown>;
@@ -317,16 +431,6 @@ export class DesignCriticAgent {
                 proposedProps: { size: "lg" },
             });
         }
-
-        // Check for call-to-action
-        const hasButton = uiSpec.components.some(c => c.name === "Button");
-        if (!hasButton && !uiSpec.components.some(c => c.name === "Form")) {
-            feedback.issues.push({
-                type: "hierarchy",
-                severity: "suggestion",
-                message: "Consider adding a call-to-action button",
-            });
-        }
     }
 
     /**
@@ -389,29 +493,48 @@ export class DesignCriticAgent {
     }
 
     /**
-     * Apply improvements to the UI specification
+     * Turn the improvements that carry proposed props into individually
+     * reviewable changes
      */
-    private applyImprovements(uiSpec: UISpec, feedback: DesignFeedback): UISpec {
-        // Clone the UI spec
-        const improved: UISpec = JSON.parse(JSON.stringify(uiSpec));
+    proposeChanges(uiSpec: UISpec, feedback: DesignFeedback): ProposedChange[] {
+        const changes: ProposedChange[] = [];
 
-        // Apply automatic improvements for high-confidence suggestions
         feedback.improvements.forEach(improvement => {
-            if (improvement.proposedProps && improvement.componentIndex !== undefined) {
-                const component = improved.components[improvement.componentIndex];
-                if (component) {
-                    component.props = {
-                        ...component.props,
-                        ...improvement.proposedProps,
-                    };
-                }
-            }
+            if (!improvement.proposedProps || improvement.componentIndex === undefined) return;
+
+            const component = getComponentAt(
+                uiSpec.components,
+                improvement.componentPath ?? [improvement.componentIndex]
+            );
+            if (!component) return;
+
+            changes.push({
+                id: uuidv4(),
+                agent: "design-critic",
+                componentIndex: improvement.componentIndex,
+                componentPath: improvement.componentPath,
+                componentName: component.name,
+                description: improvement.suggestion,
+                props: improvement.proposedProps,
+            });
         });
 
-        return improved;
+        return changes;
     }
 }
 
-export function createDesignCriticAgent(): DesignCriticAgent {
-    return new DesignCriticAgent();
+/**
+ * Page type for UX analysis, from the most specific component present
+ */
+function inferPageType(uiSpec: UISpec): MCPToolMap["ux:analyze_layout"]["args"]["pageType"] {
+    const names = uiSpec.components.map(c => c.name);
+
+    if (names.includes("DashboardLayout")) return "dashboard";
+    if (names.includes("PricingTable")) return "pricing";
+    if (names.includes("Form")) return "form";
+    return "landing";
+}
+
+export function createDesignCriticAgent(tools?: MCPToolClient): DesignCriticAgent {
+    return new DesignCriticAgent(tools);
 }
@@ -0,0 +1,142 @@
+/**
+ * Export Archive
+ * ==============
+ * Packs the files of an ExportPackage into a zip archive, keeping their
+ * nested paths (`src/components/generative/button.tsx`). Works in the browser
+ * and in Node: the workspace offers it as a download, the CLI writes it with
+ * `--zip`.
+ *
+ * Entries are stored uncompressed; exports are a few dozen small text files
+ * and every unzip tool reads stored entries.
+ */
+
+import { ExportPackage } from "./types";
+
+type ExportFile = ExportPackage["files"][number];
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP_VERSION = 20;
+/** General purpose flag: file names are UTF-8 */
+const UTF8_NAMES = 0x0800;
+
+let crcTable: Uint32Array | undefined;
+
+/**
+ * A file name of an export package as a safe relative path: forward slashes,
+ * no empty, "." or ".." segments and not absolute. Throws for names that
+ * would escape the export's directory.
+ */
+export function exportFilePath(name: string): string {
+    const normalized = name.replace(/\\/g, "/");
+    const segments = normalized.split("/");
+
+    if (normalized.startsWith("/") || /^[A-Za-z]:/.test(normalized) || segments.some(segment => segment === "..")) {
+        throw new Error(`Export file "${name}" must be a path inside the export`);
+    }
+
+    const path = segments.filter(segment => segment !== "" && segment !== ".").join("/");
+    if (!path) throw new Error(`Export file "${name}" has no file name`);
+    return path;
+}
+
+/**
+ * The files as a zip archive
+ */
+export function createZipArchive(files: ExportFile[], modifiedAt = new Date()): Uint8Array<ArrayBuffer> {
+    const encoder = new TextEncoder();
+    const { time, date } = dosDateTime(modifiedAt);
+    const seen = new Set<string>();
+    const localParts: Uint8Array[] = [];
+    const centralParts: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const file of files) {
+        const path = exportFilePath(file.name);
+        if (seen.has(path)) throw new Error(`Export file "${path}" appears more than once`);
+        seen.add(path);
+
+        const name = encoder.encode(path);
+        const data = encoder.encode(file.content);
+        const crc = crc32(data);
+
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, LOCAL_FILE_HEADER, true);
+        local.setUint16(4, ZIP_VERSION, true);
+        local.setUint16(6, UTF8_NAMES, true);
+        local.setUint16(8, 0, true); // stored
+        local.setUint16(10, time, true);
+        local.setUint16(12, date, true);
+        local.setUint32(14, crc, true);
+        local.setUint32(18, data.length, true);
+        local.setUint32(22, data.length, true);
+        local.setUint16(26, name.length, true);
+        local.setUint16(28, 0, true);
+        localParts.push(new Uint8Array(local.buffer), name, data);
+
+        const central = new DataView(new ArrayBuffer(46));
+        central.setUint32(0, CENTRAL_DIRECTORY_HEADER, true);
+        central.setUint16(4, ZIP_VERSION, true);
+        central.setUint16(6, ZIP_VERSION, true);
+        central.setUint16(8, UTF8_NAMES, true);
+        central.setUint16(10, 0, true);
+        central.setUint16(12, time, true);
+        central.setUint16(14, date, true);
+        central.setUint32(16, crc, true);
+        central.setUint32(20, data.length, true);
+        central.setUint32(24, data.length, true);
+        central.setUint16(28, name.length, true);
+        // Extra field, comment, disk number, attributes: all zero
+        central.setUint32(42, offset, true);
+        centralParts.push(new Uint8Array(central.buffer), name);
+
+        offset += 30 + name.length + data.length;
+    }
+
+    const centralSize = centralParts.reduce((size, part) => size + part.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+    end.setUint16(8, seen.size, true);
+    end.setUint16(10, seen.size, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+
+    return concat([...localParts, ...centralParts, new Uint8Array(end.buffer)]);
+}
+
+/**
+ * MS-DOS time and date fields; zip has no time zone, so this is local time
+ */
+function dosDateTime(when: Date): { time: number; date: number } {
+    const year = Math.min(Math.max(when.getFullYear(), 1980), 2107);
+    return {
+        time: (when.getHours() << 11) | (when.getMinutes() << 5) | Math.floor(when.getSeconds() / 2),
+        date: ((year - 1980) << 9) | ((when.getMonth() + 1) << 5) | when.getDate(),
+    };
+}
+
+function crc32(data: Uint8Array): number {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+            crcTable[n] = c >>> 0;
+        }
+    }
+
+    let crc = 0xffffffff;
+    for (const byte of data) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+    const result = new Uint8Array(parts.reduce((size, part) => size + part.length, 0));
+    let position = 0;
+    for (const part of parts) {
+        result.set(part, position);
+        position += part.length;
+    }
+    return result;
+}
@@ -0,0 +1,137 @@
+/**
+ * Export Directory
+ * ================
+ * Writes the files of an ExportPackage under a directory, keeping their
+ * nested paths. Files already there are replaced or kept according to the
+ * policy; files the export doesn't contain are never touched. A dry run
+ * reports what would happen without writing anything.
+ *
+ * Every write records a hash of each file in `.ui-smith-export.json`, so a
+ * later merge can tell files edited since the last export (kept) from ones
+ * only regenerated, whose timestamps alone differ (updated).
+ *
+ * Node-only: import this module from server code and scripts, not from the
+ * client bundle.
+ */
+
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { exportFilePath } from "./export-archive";
+import { ExportPackage } from "./types";
+
+/**
+ * What to do with a file that already exists with different content:
+ * - overwrite: replace it with the exported version
+ * - merge: keep it if it was edited since the last export, so local edits
+ *   survive a re-export; files as they were exported are updated, new files added
+ */
+export type ExistingFilePolicy = "overwrite" | "merge";
+
+export type ExportFileAction = "create" | "overwrite" | "keep" | "unchanged";
+
+export interface WriteExportOptions {
+    /** Default "overwrite" */
+    policy?: ExistingFilePolicy;
+    /** Report the actions without writing. Default false */
+    dryRun?: boolean;
+}
+
+export interface ExportFileResult {
+    /** Relative to the directory */
+    path: string;
+    action: ExportFileAction;
+}
+
+/** Where the hashes of the last written files are kept, in the directory */
+export const EXPORT_MANIFEST_FILE = ".ui-smith-export.json";
+
+interface ExportManifest {
+    /** sha256 of each file's content as last written, by path */
+    files: Record<string, string>;
+}
+
+export interface DirectoryExportReport {
+    directory: string;
+    dryRun: boolean;
+    files: ExportFileResult[];
+}
+
+/**
+ * Write the export package under `directory`, creating it as needed
+ */
+export async function writeExportToDirectory(
+    exportPackage: ExportPackage,
+    directory: string,
+    options: WriteExportOptions = {}
+): Promise<DirectoryExportReport> {
+    const { policy = "overwrite", dryRun = false } = options;
+    const root = path.resolve(directory);
+
+    // Check every path before writing anything, so a bad one can't leave a half-written export
+    const seen = new Set<string>();
+    const files = exportPackage.files.map(file => {
+        const relative = exportFilePath(file.name);
+        if (seen.has(relative)) throw new Error(`Export file "${relative}" appears more than once`);
+        if (relative === EXPORT_MANIFEST_FILE) throw new Error(`Export file "${relative}" is reserved for the export manifest`);
+        seen.add(relative);
+        return { relative, target: path.join(root, ...relative.split("/")), content: file.content };
+    });
+
+    const manifestPath = path.join(root, EXPORT_MANIFEST_FILE);
+    const manifest = await readManifest(manifestPath);
+    const results: ExportFileResult[] = [];
+
+    for (const file of files) {
+        const existing = await readExisting(file.target);
+        const exported = manifest.files[file.relative];
+        const edited = existing !== undefined && exported !== hash(existing);
+        const action: ExportFileAction = existing === undefined
+            ? "create"
+            : existing === file.content
+                ? "unchanged"
+                : policy === "merge" && edited ? "keep" : "overwrite";
+
+        if (!dryRun && (action === "create" || action === "overwrite")) {
+            await mkdir(path.dirname(file.target), { recursive: true });
+            await writeFile(file.target, file.content, "utf8");
+        }
+        // A kept file stays recorded as last exported, so it reads as edited next time too
+        if (action !== "keep") manifest.files[file.relative] = hash(file.content);
+        results.push({ path: file.relative, action });
+    }
+
+    if (!dryRun) {
+        await mkdir(root, { recursive: true });
+        await writeFile(manifestPath, `${JSON.stringify(manifest, null, 2)}\n`, "utf8");
+    }
+
+    return { directory: root, dryRun, files: results };
+}
+
+function hash(content: string): string {
+    return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * The manifest of the last export, empty when there is none or it is unreadable
+ */
+async function readManifest(file: string): Promise<ExportManifest> {
+    const text = await readExisting(file);
+    if (text === undefined) return { files: {} };
+    try {
+        const manifest = JSON.parse(text) as Partial<ExportManifest>;
+        return { files: typeof manifest.files === "object" && manifest.files !== null ? { ...manifest.files } : {} };
+    } catch {
+        return { files: {} };
+    }
+}
+
+async function readExisting(file: string): Promise<string | undefined> {
+    try {
+        return await readFile(file, "utf8");
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+        throw error;
+    }
+}
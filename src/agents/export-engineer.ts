@@ -7,13 +7,22 @@
  * - Generate React + Tailwind code
  * - Create JSON schema exports
  * - Generate Storybook stories
+ * - Render standalone HTML pages
+ * - Scaffold runnable Vite projects
  * - Produce production-ready packages
+ * - Format the code with Prettier and report its type errors
  * 
  * Tools Access:
  * - Export MCP: export_react_code, export_json_schema, generate_storybook_story
  */
 
-import { AgentConfig, AgentResponse, UISpec, ExportPackage } from "./types";
+import { AgentConfig, AgentResponse, UISpec, ExportPackage, ComponentSpec, ExportDiagnostic } from "./types";
+import { specMigrations } from "./spec-migrations";
+import { flattenComponents, getComponentSlots, groupChildrenBySlot } from "./spec-tree";
+import { renderStandaloneHtml, validateHtmlMarkup } from "./html-exporter";
+import { ComponentSources, dependencyVersions, VendoredComponents, vendorComponents } from "./component-sources";
+import { formatExportFiles } from "./code-formatter";
+import { jsxAttributes, propsWithDefaults, toJsLiteral } from "./jsx-writer";
 
 export const exportEngineerConfig: AgentConfig = {
   name: "Export Engineer",
@@ -25,6 +34,8 @@ export const exportEngineerConfig: AgentConfig = {
 - Create Tailwind CSS styling
 - Produce JSON configuration files
 - Generate Storybook stories for documentation
+- Render standalone HTML pages that need no build step
+- Scaffold complete Vite + React projects
 
 ## Code Quality Standards
 1. Use TypeScript with proper types
@@ -38,6 +49,8 @@ export const exportEngineerConfig: AgentConfig = {
 - react: Full React component code
 - json: JSON schema for configuration
 - storybook: Storybook story files
+- html: Single self-contained HTML page with inline CSS and vanilla JS
+- vite: Runnable Vite + React + Tailwind project with the components it uses
 - package: Complete export with all files
 
 ## File Structure
@@ -59,7 +72,7 @@ export const exportEngineerConfig: AgentConfig = {
   maxTokens: 4000,
 };
 
-export type ExportFormat = "react" | "json" | "storybook" | "full";
+export type ExportFormat = "react" | "json" | "storybook" | "html" | "vite" | "full";
 
 export interface ExportOptions {
   format: ExportFormat;
@@ -67,8 +80,31 @@ export interface ExportOptions {
   framework: "nextjs" | "vite" | "cra";
   includeStyles: boolean;
   includeReadme: boolean;
+  /** Typecheck the exported code, when the agent has a type checker */
+  typecheck: boolean;
 }
 
+/**
+ * Typechecks the files of an export (see createExportTypeChecker)
+ */
+export interface ExportTypeChecker {
+  check(files: ExportPackage["files"]): ExportDiagnostic[];
+}
+
+/** Build tooling of a Vite export; its runtime dependencies come from the copied components */
+const VITE_DEV_DEPENDENCIES: Record<string, string> = {
+  "@tailwindcss/vite": "^4.0.0",
+  "@types/react": "^19.0.0",
+  "@types/react-dom": "^19.0.0",
+  "@vitejs/plugin-react": "^4.3.0",
+  tailwindcss: "^4.0.0",
+  typescript: "^5.6.0",
+  vite: "^6.0.0",
+};
+
+/** Where exports that ship the components import them from, relative to the page */
+const VENDORED_COMPONENTS_IMPORT = "./components/generative";
+
 /**
  * Export Engineer Agent Class
  */
@@ -79,8 +115,19 @@ export class ExportEngineerAgent {
     framework: "nextjs",
     includeStyles: true,
     includeReadme: true,
+    typecheck: false,
   };
 
+  /**
+   * @param componentSources Where React and Vite exports copy the generative
+   * components from. Without it, React exports import them from
+   * `@/components/generative` and the Vite export is unavailable.
+   * @param typeChecker Typechecks the exported code when `options.typecheck`
+   * is set; its type errors are returned as the package's diagnostics.
+   * Without it nothing is checked.
+   */
+  constructor(private componentSources?: ComponentSources, private typeChecker?: ExportTypeChecker) {}
+
   /**
    * Export the UI specification to code
    */
@@ -110,11 +157,15 @@ export class ExportEngineerAgent {
    */
   private async generateExport(uiSpec: UISpec, options: ExportOptions): Promise<ExportPackage> {
     const files: ExportPackage["files"] = [];
+    const vendored = (options.format === "react" || options.format === "full") && this.componentSources
+      ? await this.vendorComponents(uiSpec, this.componentSources)
+      : undefined;
 
     // Generate based on format
     switch (options.format) {
       case "react":
-        files.push(this.generateReactFile(uiSpec, options));
+        files.push(this.generateReactFile(uiSpec, options, vendored && VENDORED_COMPONENTS_IMPORT));
+        files.push(...this.vendoredFiles(vendored));
         break;
       case "json":
         files.push(this.generateJsonFile(uiSpec));
@@ -122,44 +173,237 @@ export class ExportEngineerAgent {
       case "storybook":
         files.push(...this.generateStorybookFiles(uiSpec, options));
         break;
+      case "html":
+        files.push(this.generateHtmlFile(uiSpec));
+        break;
+      case "vite":
+        files.push(...await this.generateViteProject(uiSpec, options));
+        break;
       case "full":
       default:
-        files.push(this.generateReactFile(uiSpec, options));
+        files.push(this.generateReactFile(uiSpec, options, vendored && VENDORED_COMPONENTS_IMPORT));
+        files.push(...this.vendoredFiles(vendored));
         if (options.includeStyles) {
           files.push(this.generateStylesFile(uiSpec));
         }
         files.push(this.generateJsonFile(uiSpec));
         if (options.includeReadme) {
-          files.push(this.generateReadmeFile(uiSpec));
+          files.push(this.generateReadmeFile(uiSpec, vendored));
         }
         break;
     }
 
+    const formatted = await formatExportFiles(files);
+
     return {
       format: options.format === "full" ? "react" : options.format,
-      files,
-      instructions: this.generateInstructions(options),
+      files: formatted,
+      instructions: this.generateInstructions(options, vendored),
+      ...(this.typeChecker && options.typecheck && { diagnostics: this.typeChecker.check(formatted) }),
+    };
+  }
+
+  /**
+   * Copies of the components the spec uses, with everything they import
+   */
+  private vendorComponents(uiSpec: UISpec, componentSources: ComponentSources): Promise<VendoredComponents> {
+    return vendorComponents(flattenComponents(uiSpec.components).map(node => node.component.name), componentSources);
+  }
+
+  /**
+   * Package files for the copied components, under `directory`
+   */
+  private vendoredFiles(vendored: VendoredComponents | undefined, directory = ""): ExportPackage["files"] {
+    return (vendored?.files ?? []).map(file => ({
+      name: `${directory}${file.path}`,
+      content: file.content,
+      type: "component",
+    }));
+  }
+
+  /**
+   * Generate a standalone HTML page, refusing to ship invalid markup
+   */
+  private generateHtmlFile(uiSpec: UISpec): ExportPackage["files"][0] {
+    const content = renderStandaloneHtml(uiSpec);
+    const issues = validateHtmlMarkup(content);
+    if (issues.length > 0) {
+      throw new Error(`Generated HTML is invalid: ${issues.map(issue => `line ${issue.line}: ${issue.message}`).join("; ")}`);
+    }
+
+    return {
+      name: "index.html",
+      content,
+      type: "component",
+    };
+  }
+
+  /**
+   * Generate a Vite + React + Tailwind project around the page, with copies
+   * of the components it uses so it runs without UI-Smith
+   */
+  private async generateViteProject(uiSpec: UISpec, options: ExportOptions): Promise<ExportPackage["files"]> {
+    if (!this.componentSources) {
+      throw new Error("The vite export needs component sources to copy the components from");
+    }
+
+    const vendored = await this.vendorComponents(uiSpec, this.componentSources);
+    const page = this.generateReactFile(uiSpec, { ...options, typescript: true, framework: "vite" }, VENDORED_COMPONENTS_IMPORT);
+    const title = uiSpec.name || "Generated UI";
+
+    const packageJson = {
+      name: (uiSpec.name || "").toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "ui-smith-export",
+      private: true,
+      version: "0.1.0",
+      type: "module",
+      scripts: {
+        dev: "vite",
+        build: "vite build",
+        preview: "vite preview",
+        typecheck: "tsc --noEmit",
+      },
+      dependencies: dependencyVersions([...vendored.dependencies, "react", "react-dom"]),
+      devDependencies: VITE_DEV_DEPENDENCIES,
+    };
+
+    const tsconfig = {
+      compilerOptions: {
+        target: "ES2020",
+        lib: ["ES2020", "DOM", "DOM.Iterable"],
+        module: "ESNext",
+        moduleResolution: "bundler",
+        jsx: "react-jsx",
+        strict: true,
+        skipLibCheck: true,
+        isolatedModules: true,
+        noEmit: true,
+      },
+      include: ["src"],
+    };
+
+    const files: ExportPackage["files"] = [
+      { name: "package.json", content: `${JSON.stringify(packageJson, null, 2)}\n`, type: "config" },
+      { name: "tsconfig.json", content: `${JSON.stringify(tsconfig, null, 2)}\n`, type: "config" },
+      {
+        name: "vite.config.ts",
+        content: `import { defineConfig } from "vite";
+import react from "@vitejs/plugin-react";
+import tailwindcss from "@tailwindcss/vite";
+
+export default defineConfig({
+  plugins: [react(), tailwindcss()],
+});
+`,
+        type: "config",
+      },
+      {
+        name: "index.html",
+        content: `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${title.replace(/&/g, "&amp;").replace(/</g, "&lt;")}</title>
+  </head>
+  <body>
+    <div id="root"></div>
+    <script type="module" src="/src/main.tsx"></script>
+  </body>
+</html>
+`,
+        type: "component",
+      },
+      {
+        name: "src/main.tsx",
+        content: `import { StrictMode } from "react";
+import { createRoot } from "react-dom/client";
+import GeneratedPage from "./page";
+import "./index.css";
+
+createRoot(document.getElementById("root")!).render(
+  <StrictMode>
+    <GeneratedPage />
+  </StrictMode>
+);
+`,
+        type: "component",
+      },
+      { ...page, name: "src/page.tsx" },
+      {
+        name: "src/index.css",
+        content: `@import "tailwindcss";\n${options.includeStyles ? `@import "./generated.css";\n` : ""}`,
+        type: "style",
+      },
+      ...(options.includeStyles ? [{ ...this.generateStylesFile(uiSpec), name: "src/generated.css" }] : []),
+      ...this.vendoredFiles(vendored, "src/"),
+      this.generateJsonFile(uiSpec),
+      { name: ".gitignore", content: "node_modules\ndist\n", type: "config" },
+    ];
+
+    if (options.includeReadme) {
+      files.push(this.generateViteReadmeFile(uiSpec, vendored.files.map(file => file.path)));
+    }
+
+    return files;
+  }
+
+  /**
+   * README for the Vite project
+   */
+  private generateViteReadmeFile(uiSpec: UISpec, vendoredFiles: string[]): ExportPackage["files"][0] {
+    const readme = `# ${uiSpec.name || "Generated UI"}
+
+${uiSpec.description || "This UI was generated using UI-Smith."}
+
+## Getting Started
+
+\`\`\`bash
+npm install
+npm run dev        # Start the dev server
+npm run build      # Build to dist/
+npm run typecheck  # Check the types
+\`\`\`
+
+## Project Structure
+
+- \`src/page.tsx\` - The generated page
+- \`src/main.tsx\` - Mounts the page
+- \`src/index.css\` - Tailwind CSS entry
+- \`ui-smith.config.json\` - Load it with **Import config** in UI-Smith to keep editing
+
+Copied from UI-Smith, so the project runs on its own:
+
+${vendoredFiles.map(file => `- \`src/${file}\``).join("\n")}
+
+---
+
+Generated at ${new Date().toISOString()}
+`;
+
+    return {
+      name: "README.md",
+      content: readme,
+      type: "config",
     };
   }
 
   /**
    * Generate React component file
    */
-  private generateReactFile(uiSpec: UISpec, options: ExportOptions): ExportPackage["files"][0] {
+  private generateReactFile(
+    uiSpec: UISpec,
+    options: ExportOptions,
+    componentsImport = "@/components/generative"
+  ): ExportPackage["files"][0] {
     const ext = options.typescript ? "tsx" : "jsx";
-    const components = [...new Set(uiSpec.components.map(c => c.name))].join(", ");
+    const components = [...new Set(flattenComponents(uiSpec.components).map(node => node.component.name))].join(", ");
 
     const componentCode = uiSpec.components
-      .map((comp, index) => {
-        const propsStr = this.propsToString(comp.props as Record<string, unknown>);
-        return `      {/* ${comp.name} ${index + 1} */}
-      <${comp.name}
-        ${propsStr}
-      />`;
-      })
+      .map((comp, index) => `      {/* ${comp.name} ${index + 1} */}
+${this.componentToJsx(comp)}`)
       .join("\n\n");
 
-    const code = `${options.framework === "nextjs" ? '"use client";\n\n' : ""}import { ${components} } from "@/components/generative";
+    const code = `${options.framework === "nextjs" ? '"use client";\n\n' : ""}import { ${components} } from "${componentsImport}";
 
 /**
  * ${uiSpec.name || "Generated UI"}
@@ -275,16 +519,13 @@ ${options.framework !== "nextjs" ? "\nexport default GeneratedPage;" : ""}
   private generateJsonFile(uiSpec: UISpec): ExportPackage["files"][0] {
     const config = {
       $schema: "https://ui-smith.dev/schema/v1.json",
+      schemaVersion: uiSpec.schemaVersion ?? specMigrations.getLatestVersion(),
       name: uiSpec.name,
       description: uiSpec.description,
       version: uiSpec.metadata?.version || 1,
       generatedAt: new Date().toISOString(),
       generatedBy: "UI-Smith",
-      components: uiSpec.components.map((comp, index) => ({
-        id: `${comp.name.toLowerCase()}-${index}`,
-        type: comp.name,
-        props: comp.props,
-      })),
+      components: uiSpec.components.map((comp, index) => this.componentToConfig(comp, `${comp.name.toLowerCase()}-${index}`)),
       layout: uiSpec.layout,
     };
 
@@ -295,11 +536,30 @@ ${options.framework !== "nextjs" ? "\nexport default GeneratedPage;" : ""}
     };
   }
 
+  /**
+   * Config entry for a component and, recursively, its children
+   */
+  private componentToConfig(comp: ComponentSpec, id: string): Record<string, unknown> {
+    return {
+      id,
+      type: comp.name,
+      props: comp.props,
+      ...(comp.slot && { slot: comp.slot }),
+      ...(comp.children?.length && {
+        children: comp.children.map((child, index) =>
+          this.componentToConfig(child, `${id}-${child.name.toLowerCase()}-${index}`)
+        ),
+      }),
+    };
+  }
+
   /**
    * Generate README file
    */
-  private generateReadmeFile(uiSpec: UISpec): ExportPackage["files"][0] {
-    const componentList = uiSpec.components.map(c => `- \`${c.name}\``).join("\n");
+  private generateReadmeFile(uiSpec: UISpec, vendored?: VendoredComponents): ExportPackage["files"][0] {
+    const componentList = flattenComponents(uiSpec.components)
+      .map(({ component, path }) => `${"  ".repeat(path.length - 1)}- \`${component.name}\``)
+      .join("\n");
 
     const readme = `# ${uiSpec.name || "Generated UI"}
 
@@ -316,18 +576,24 @@ ${componentList}
 Ensure you have the following dependencies installed:
 
 \`\`\`bash
-npm install @tambo-ai/react framer-motion lucide-react recharts zod
+npm install ${vendored ? vendored.dependencies.join(" ") : "@tambo-ai/react framer-motion lucide-react recharts zod"}
 \`\`\`
 
 ### Setup
 
-1. Copy the generated \`page.tsx\` to your \`app/\` directory (for Next.js) or \`src/\` (for Vite/CRA)
+${vendored
+  ? `1. Copy the generated \`page.tsx\` together with ${this.vendoredDirectories(vendored)} to your \`app/\` directory (for Next.js) or \`src/\` (for Vite/CRA)
 2. Import the \`generated.css\` in your main CSS file or layout
-3. Ensure the \`@/components/generative\` path resolves correctly
+
+The components are copied from UI-Smith and import each other by relative paths, so no path alias is needed.`
+  : `1. Copy the generated \`page.tsx\` to your \`app/\` directory (for Next.js) or \`src/\` (for Vite/CRA)
+2. Import the \`generated.css\` in your main CSS file or layout
+3. Ensure the \`@/components/generative\` path resolves correctly`}
 
 ### Configuration
 
 Use \`ui-smith.config.json\` to:
+- Resume editing: load it with **Import config** in UI-Smith, or \`orchestrator.importConfig()\`
 - Programmatically regenerate the UI
 - Customize component props
 - Integrate with CI/CD pipelines
@@ -371,9 +637,9 @@ Generated at ${new Date().toISOString()}
     const files: ExportPackage["files"] = [];
     const ext = options.typescript ? "tsx" : "jsx";
 
-    // Group components by type
-    const componentGroups = new Map<string, typeof uiSpec.components>();
-    uiSpec.components.forEach(comp => {
+    // Group components by type, nested ones included
+    const componentGroups = new Map<string, ComponentSpec[]>();
+    flattenComponents(uiSpec.components).forEach(({ component: comp }) => {
       const existing = componentGroups.get(comp.name) || [];
       existing.push(comp);
       componentGroups.set(comp.name, existing);
@@ -399,7 +665,7 @@ type Story = StoryObj<typeof ${name}>;
 ${components.map((comp, index) => {
         const storyName = `Variant${index + 1}`;
         return `export const ${storyName}: Story = {
-  args: ${JSON.stringify(comp.props, null, 4).split("\n").join("\n  ")},
+  args: ${toJsLiteral(comp.props)},
 };`;
       }).join("\n\n")}
 `;
@@ -417,25 +683,45 @@ ${components.map((comp, index) => {
   /**
    * Generate installation instructions
    */
-  private generateInstructions(options: ExportOptions): string {
+  private generateInstructions(options: ExportOptions, vendored?: VendoredComponents): string {
     const steps: string[] = [];
 
+    if (options.format === "vite") {
+      steps.push("## Getting Started\n");
+      steps.push("1. Install the dependencies: `npm install`");
+      steps.push("2. Start the dev server: `npm run dev`");
+      steps.push("3. Build for production: `npm run build` (output in `dist/`)");
+      return steps.join("\n");
+    }
+
+    if (options.format === "html") {
+      steps.push("## Usage\n");
+      steps.push("1. Open `index.html` in a browser; no install or build step is needed");
+      steps.push("2. To publish, upload `index.html` to any static host");
+      steps.push("3. Forms only show a confirmation; point them at your backend to receive submissions");
+      return steps.join("\n");
+    }
+
     steps.push("## Installation Instructions\n");
     steps.push("1. Install required dependencies:");
     steps.push("```bash");
-    steps.push("npm install @tambo-ai/react framer-motion lucide-react recharts zod");
+    steps.push(`npm install ${vendored ? vendored.dependencies.join(" ") : "@tambo-ai/react framer-motion lucide-react recharts zod"}`);
     steps.push("```\n");
 
+    const copied = vendored ? ` with ${this.vendoredDirectories(vendored)}` : "";
     if (options.framework === "nextjs") {
-      steps.push("2. Copy `page.tsx` to your `app/` directory");
+      steps.push(`2. Copy \`page.tsx\`${copied} to your \`app/\` directory`);
     } else {
-      steps.push("2. Copy `page.tsx` to your `src/` directory");
+      steps.push(`2. Copy \`page.tsx\`${copied} to your \`src/\` directory`);
     }
 
     if (options.includeStyles) {
       steps.push("3. Import `generated.css` in your main layout or CSS file");
     }
 
+    // The copied components import each other by relative paths
+    if (vendored) return steps.join("\n");
+
     steps.push("\n## Path Configuration\n");
     steps.push("Ensure `@/components/generative` resolves correctly in your tsconfig.json:");
     steps.push("```json");
@@ -452,31 +738,60 @@ ${components.map((comp, index) => {
   }
 
   /**
-   * Convert props object to string representation
+   * "the `components/`, `lib/` and `schemas/` folders", for the copied files
    */
-  private propsToString(props: Record<string, unknown>): string {
-    return Object.entries(props)
-      .filter(([_, value]) => value !== undefined && value !== null)
-      .map(([key, value]) => {
-        if (typeof value === "string") {
-          return `${key}="${value}"`;
-        } else if (typeof value === "boolean") {
-          return value ? key : `${key}={false}`;
-        } else if (typeof value === "number") {
-          return `${key}={${value}}`;
-        } else {
-          // Complex objects: format with indentation
-          const formatted = JSON.stringify(value, null, 10)
-            .split("\n")
-            .map((line, i) => i === 0 ? line : "        " + line)
-            .join("\n");
-          return `${key}={${formatted}}`;
-        }
-      })
-      .join("\n        ");
+  private vendoredDirectories(vendored: VendoredComponents): string {
+    const directories = [...new Set(vendored.files.map(file => file.path.split("/")[0]))].sort().map(name => `\`${name}/\``);
+    const list = directories.length > 1
+      ? `${directories.slice(0, -1).join(", ")} and ${directories[directories.length - 1]}`
+      : directories[0];
+    return `the ${list} folder${directories.length > 1 ? "s" : ""}`;
+  }
+
+  /**
+   * JSX for a component. Children in the default slot become JSX children,
+   * the other slots are passed as props of the same name. Prettier lays it out.
+   */
+  private componentToJsx(comp: ComponentSpec): string {
+    const slots = groupChildrenBySlot(comp);
+    const [defaultSlot, ...namedSlots] = getComponentSlots(comp.name);
+
+    const attributes = jsxAttributes(propsWithDefaults(comp.name, comp.props as Record<string, unknown>));
+    namedSlots.forEach(slot => {
+      if (slots[slot]) {
+        attributes.push(`${slot}={${this.slotToJsx(slots[slot])}}`);
+      }
+    });
+
+    const opening = `<${comp.name} ${attributes.join(" ")}`;
+    const children = defaultSlot ? slots[defaultSlot] : undefined;
+
+    if (!children) {
+      return `${opening} />`;
+    }
+
+    return `${opening}>
+${children.map(child => this.componentToJsx(child)).join("\n")}
+</${comp.name}>`;
+  }
+
+  /**
+   * JSX expression for the components in a named slot
+   */
+  private slotToJsx(children: ComponentSpec[]): string {
+    if (children.length === 1) {
+      return this.componentToJsx(children[0]);
+    }
+
+    return `<>
+${children.map(child => this.componentToJsx(child)).join("\n")}
+</>`;
   }
 }
 
-export function createExportEngineerAgent(): ExportEngineerAgent {
-  return new ExportEngineerAgent();
+export function createExportEngineerAgent(
+  componentSources?: ComponentSources,
+  typeChecker?: ExportTypeChecker
+): ExportEngineerAgent {
+  return new ExportEngineerAgent(componentSources, typeChecker);
 }
@@ -0,0 +1,131 @@
+/**
+ * Export Type Checker
+ * ===================
+ * Typechecks the TypeScript files of an export with the TypeScript compiler
+ * API, the way the project it lands in would: strict, `react-jsx`, bundler
+ * module resolution. The files are checked in place of a directory under the
+ * project root, so `react`, `zod` and the other packages resolve from the
+ * app's node_modules, and `@/` imports resolve to the app's `src/`.
+ *
+ * Packages the app doesn't install (`vite`, `@storybook/react`, ...) are the
+ * export's own dependencies; imports of them are not reported.
+ *
+ * Node-only: import this module from server code and scripts, not from the
+ * client bundle.
+ */
+
+import path from "node:path";
+import ts from "typescript";
+import type { ExportTypeChecker } from "./export-engineer";
+import { ExportDiagnostic, ExportPackage } from "./types";
+
+/** "Cannot find module" and "Could not find a declaration file for module" */
+const MISSING_MODULE_CODES = new Set([2307, 7016]);
+
+const COMPILER_OPTIONS: ts.CompilerOptions = {
+    target: ts.ScriptTarget.ES2020,
+    lib: ["lib.es2020.d.ts", "lib.dom.d.ts", "lib.dom.iterable.d.ts"],
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    jsx: ts.JsxEmit.ReactJSX,
+    strict: true,
+    skipLibCheck: true,
+    isolatedModules: true,
+    esModuleInterop: true,
+    resolveJsonModule: true,
+    noEmit: true,
+    types: [],
+};
+
+/**
+ * Declaration files from TypeScript and node_modules, parsed once per process.
+ * The app's own sources are read fresh for every check.
+ */
+const declarationCache = new Map<string, ts.SourceFile>();
+
+/**
+ * A checker for exports of the app at `projectRoot` (by default the working
+ * directory, the project root under `next dev`, `next start` and the CLIs)
+ */
+export function createExportTypeChecker(projectRoot = process.cwd()): ExportTypeChecker {
+    const root = path.resolve(projectRoot);
+
+    return {
+        check(files) {
+            return typecheckExportFiles(files, root);
+        },
+    };
+}
+
+/**
+ * Type errors in the `.ts` and `.tsx` files of an export
+ */
+export function typecheckExportFiles(files: ExportPackage["files"], projectRoot: string): ExportDiagnostic[] {
+    // Outside the app's sources and tsconfig, next to its node_modules
+    const exportRoot = path.join(projectRoot, ".ui-smith-export");
+    const virtualFiles = new Map(files.map(file => [path.join(exportRoot, file.name), file]));
+    const checked = [...virtualFiles.keys()].filter(file => /\.(ts|tsx|mts)$/.test(file));
+    if (checked.length === 0) return [];
+
+    const options: ts.CompilerOptions = {
+        ...COMPILER_OPTIONS,
+        paths: { "@/*": [path.join(projectRoot, "src", "*")] },
+    };
+    const host = ts.createCompilerHost(options, true);
+    const { fileExists, readFile, directoryExists, getSourceFile } = host;
+
+    host.getCurrentDirectory = () => exportRoot;
+    host.fileExists = file => virtualFiles.has(file) || fileExists(file);
+    host.readFile = file => virtualFiles.get(file)?.content ?? readFile(file);
+    host.directoryExists = directory =>
+        directory === exportRoot ||
+        [...virtualFiles.keys()].some(file => file.startsWith(directory + path.sep)) ||
+        (directoryExists?.(directory) ?? true);
+    host.getSourceFile = (file, languageVersion, onError, shouldCreate) => {
+        const virtual = virtualFiles.get(file);
+        if (virtual) return ts.createSourceFile(file, virtual.content, languageVersion, true);
+
+        const cacheable = file.endsWith(".d.ts");
+        const cached = cacheable ? declarationCache.get(file) : undefined;
+        if (cached) return cached;
+
+        const sourceFile = getSourceFile(file, languageVersion, onError, shouldCreate);
+        if (sourceFile && cacheable) declarationCache.set(file, sourceFile);
+        return sourceFile;
+    };
+
+    const program = ts.createProgram(checked, options, host);
+    const diagnostics: ExportDiagnostic[] = [];
+
+    for (const file of checked) {
+        const sourceFile = program.getSourceFile(file);
+        if (!sourceFile) continue;
+
+        const found = [...program.getSyntacticDiagnostics(sourceFile), ...program.getSemanticDiagnostics(sourceFile)];
+        for (const diagnostic of found) {
+            if (isMissingPackage(diagnostic, sourceFile)) continue;
+
+            const { line, character } = sourceFile.getLineAndCharacterOfPosition(diagnostic.start ?? 0);
+            diagnostics.push({
+                file: virtualFiles.get(file)!.name,
+                line: line + 1,
+                column: character + 1,
+                code: diagnostic.code,
+                message: ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n"),
+            });
+        }
+    }
+
+    return diagnostics;
+}
+
+/**
+ * An import of an npm package the app doesn't have installed. Missing local
+ * files are still errors.
+ */
+function isMissingPackage(diagnostic: ts.Diagnostic, sourceFile: ts.SourceFile): boolean {
+    if (!MISSING_MODULE_CODES.has(diagnostic.code) || diagnostic.start === undefined) return false;
+
+    const specifier = sourceFile.text.slice(diagnostic.start + 1, diagnostic.start + (diagnostic.length ?? 2) - 1);
+    return !specifier.startsWith(".") && !specifier.startsWith("@/");
+}
@@ -0,0 +1,31 @@
+/**
+ * File Component Sources
+ * ======================
+ * ComponentSources that read the generative components from the app's `src/`
+ * directory on disk.
+ *
+ * Node-only: import this module from server code and scripts, not from the
+ * client bundle.
+ */
+
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { ComponentSources } from "./component-sources";
+
+/**
+ * Sources under `directory`, by default `src/` of the working directory
+ * (the project root under `next dev`, `next start` and the CLIs)
+ */
+export function createFileComponentSources(directory = path.join(process.cwd(), "src")): ComponentSources {
+    const root = path.resolve(directory);
+
+    return {
+        read(file) {
+            const target = path.resolve(root, file);
+            if (!target.startsWith(root + path.sep)) {
+                return Promise.reject(new Error(`${file} is outside the component sources`));
+            }
+            return readFile(target, "utf8");
+        },
+    };
+}
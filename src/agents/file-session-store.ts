@@ -0,0 +1,88 @@
+/**
+ * File Session Store
+ * ==================
+ * SessionStore that keeps each conversation in `<directory>/<conversationId>.json`.
+ *
+ * Node-only: import this module from server code and scripts, not from the
+ * client bundle.
+ */
+
+import { randomUUID } from "node:crypto";
+import { mkdir, readdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { AgentContext } from "./types";
+import { parseStoredContext, SessionStore } from "./session-store";
+
+const SESSION_FILE_EXTENSION = ".json";
+
+export class FileSessionStore implements SessionStore {
+    private directory: string;
+
+    constructor(directory: string) {
+        this.directory = path.resolve(directory);
+    }
+
+    async load(conversationId: string): Promise<AgentContext | undefined> {
+        let content: string;
+
+        try {
+            content = await readFile(this.filePath(conversationId), "utf8");
+        } catch (error) {
+            if (isNotFound(error)) return undefined;
+            throw error;
+        }
+
+        return parseStoredContext(JSON.parse(content));
+    }
+
+    async save(context: AgentContext): Promise<void> {
+        const target = this.filePath(context.conversationId);
+        // Unique per save, so concurrent saves of a session never share one
+        const temporary = `${target}.${randomUUID()}.tmp`;
+
+        await mkdir(this.directory, { recursive: true });
+
+        // Write then rename so a crash never leaves a half-written session behind
+        try {
+            await writeFile(temporary, JSON.stringify(context, null, 2), "utf8");
+            await rename(temporary, target);
+        } catch (error) {
+            await rm(temporary, { force: true });
+            throw error;
+        }
+    }
+
+    async delete(conversationId: string): Promise<void> {
+        await rm(this.filePath(conversationId), { force: true });
+    }
+
+    async list(): Promise<string[]> {
+        try {
+            const entries = await readdir(this.directory);
+            return entries
+                .filter(entry => entry.endsWith(SESSION_FILE_EXTENSION))
+                .map(entry => entry.slice(0, -SESSION_FILE_EXTENSION.length));
+        } catch (error) {
+            if (isNotFound(error)) return [];
+            throw error;
+        }
+    }
+
+    /**
+     * Map a conversation id to its file, refusing ids that could escape the directory
+     */
+    private filePath(conversationId: string): string {
+        if (!/^[A-Za-z0-9_-]+$/.test(conversationId)) {
+            throw new Error(`Invalid conversation id "${conversationId}"`);
+        }
+        return path.join(this.directory, `${conversationId}${SESSION_FILE_EXTENSION}`);
+    }
+}
+
+function isNotFound(error: unknown): boolean {
+    return (error as NodeJS.ErrnoException)?.code === "ENOENT";
+}
+
+export function createFileSessionStore(directory: string): FileSessionStore {
+    return new FileSessionStore(directory);
+}
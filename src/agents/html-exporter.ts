@@ -0,0 +1,1735 @@
+/**
+ * Standalone HTML Export
+ * ======================
+ * Renders a UISpec as a single self-contained HTML page: semantic markup,
+ * an inline stylesheet and a small vanilla JS runtime for the interactive
+ * parts (modal dialogs, chart tabs, the pricing billing toggle, testimonial
+ * carousels and form submission). No React, build step or CDN is needed.
+ *
+ * `validateHtmlMarkup` checks the result (balanced tags, unique ids, ARIA
+ * references, nesting); the Export Engineer refuses to ship a page that fails.
+ */
+
+import { z } from "zod";
+import {
+    buttonPropsSchema,
+    cardPropsSchema,
+    chartPropsSchema,
+    dashboardLayoutPropsSchema,
+    formPropsSchema,
+    modalPropsSchema,
+    pricingTablePropsSchema,
+    testimonialSectionPropsSchema,
+    type ChartProps,
+    type FormField,
+    type PricingTier,
+    type Testimonial,
+} from "@/schemas";
+import { ComponentSpec, UISpec } from "./types";
+import { getComponentSlots, groupChildrenBySlot } from "./spec-tree";
+
+export interface HtmlMarkupIssue {
+    /** 1-based line of the offending tag */
+    line: number;
+    message: string;
+}
+
+interface RenderContext {
+    /** A page-unique id */
+    nextId(prefix: string): string;
+    /** Set inside a Form, where another form may not start */
+    inForm: boolean;
+}
+
+type Renderer = (component: ComponentSpec, context: RenderContext) => string;
+
+const VOID_ELEMENTS = new Set(["area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta", "source", "track", "wbr"]);
+
+/** Elements whose content is not markup */
+const RAW_TEXT_ELEMENTS = new Set(["script", "style", "textarea", "title"]);
+
+/** Elements that may not contain interactive content */
+const INTERACTIVE_ELEMENTS = new Set(["a", "button"]);
+
+/** Attributes that navigate to or load a URL */
+const URL_ATTRIBUTES = new Set(["href", "src", "action", "formaction"]);
+
+/** URL schemes a page may link to; relative and fragment URLs have none */
+const SAFE_URL_SCHEMES = new Set(["http", "https", "mailto", "tel"]);
+
+/** Attributes that must name an element on the page */
+const ID_REFERENCE_ATTRIBUTES = ["for", "aria-controls", "aria-labelledby", "aria-describedby", "data-modal-open"];
+
+/** Text stand-ins for the Lucide icons the components use */
+const ICON_GLYPHS: Record<string, string> = {
+    check: "✓",
+    x: "✕",
+    plus: "+",
+    minus: "−",
+    "arrow-right": "→",
+    "arrow-left": "←",
+    "arrow-up": "↑",
+    "arrow-down": "↓",
+    "chevron-right": "›",
+    "chevron-left": "‹",
+    "chevron-up": "˄",
+    "chevron-down": "˅",
+    star: "★",
+    heart: "♥",
+    mail: "✉",
+    phone: "☎",
+    download: "↓",
+    upload: "↑",
+    "external-link": "↗",
+    sparkles: "✦",
+    zap: "⚡",
+    info: "ℹ",
+    "check-circle": "✓",
+    "x-circle": "✕",
+    "alert-triangle": "⚠",
+    "alert-circle": "!",
+    "help-circle": "?",
+    search: "⌕",
+    settings: "⚙",
+    home: "⌂",
+    menu: "☰",
+};
+
+const CHART_PALETTES: Record<NonNullable<ChartProps["colorScheme"]>, string[]> = {
+    default: ["#8b5cf6", "#06b6d4", "#f59e0b", "#10b981", "#ef4444", "#6366f1"],
+    warm: ["#f97316", "#ef4444", "#f59e0b", "#ec4899", "#e11d48", "#fb923c"],
+    cool: ["#06b6d4", "#3b82f6", "#6366f1", "#0ea5e9", "#14b8a6", "#8b5cf6"],
+    monochrome: ["#1e293b", "#475569", "#64748b", "#94a3b8", "#cbd5e1", "#334155"],
+    vibrant: ["#d946ef", "#22c55e", "#f43f5e", "#eab308", "#0ea5e9", "#a855f7"],
+    pastel: ["#c4b5fd", "#a5f3fc", "#fde68a", "#bbf7d0", "#fecaca", "#c7d2fe"],
+};
+
+/**
+ * The UISpec as a complete HTML document
+ */
+export function renderStandaloneHtml(uiSpec: UISpec): string {
+    const usedIds = new Map<string, number>();
+    const context: RenderContext = {
+        nextId(prefix) {
+            const count = (usedIds.get(prefix) ?? 0) + 1;
+            usedIds.set(prefix, count);
+            return `${prefix}-${count}`;
+        },
+        inForm: false,
+    };
+
+    const body = uiSpec.components.map(component => renderComponent(component, context));
+    const interactive = /data-(modal-open|billing-toggle|carousel|ui-form)|role="tablist"/.test(body.join("\n"));
+    const title = uiSpec.name || "Generated UI";
+    const container: Record<string, string | undefined> = {
+        class: "ui-page__container",
+        style: [
+            uiSpec.layout?.maxWidth && `max-width: ${cssValue(uiSpec.layout.maxWidth)}`,
+            uiSpec.layout?.spacing && `gap: ${cssValue(uiSpec.layout.spacing)}`,
+        ].filter(Boolean).join("; ") || undefined,
+    };
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <meta name="generator" content="UI-Smith">
+  <title>${escapeHtml(title)}</title>
+${uiSpec.description ? `  <meta name="description" content="${escapeHtml(uiSpec.description)}">\n` : ""}  <style>
+${indent(STYLES.trim(), 2)}
+  </style>
+</head>
+<body>
+${indent(h("main", { class: "ui-page" }, [h("div", container, body)]), 1)}
+${interactive ? `  <script>\n${indent(RUNTIME.trim(), 2)}\n  </script>\n` : ""}</body>
+</html>
+`;
+}
+
+function renderComponent(component: ComponentSpec, context: RenderContext): string {
+    const render = RENDERERS[component.name];
+    if (!render) {
+        return h("div", { class: "ui-unknown", role: "note" }, [`Unsupported component: ${escapeHtml(component.name)}`]);
+    }
+    return render(component, context);
+}
+
+/**
+ * Rendered children of a slot, the default slot when none is given
+ */
+function renderSlot(component: ComponentSpec, context: RenderContext, slot?: string): string[] {
+    const name = slot ?? getComponentSlots(component.name)[0];
+    if (!name) return [];
+    return (groupChildrenBySlot(component)[name] ?? []).map(child => renderComponent(child, context));
+}
+
+const RENDERERS: Record<string, Renderer> = {
+    Button: renderButton,
+    Card: renderCard,
+    PricingTable: renderPricingTable,
+    DashboardLayout: renderDashboardLayout,
+    Chart: renderChart,
+    Form: renderForm,
+    Modal: renderModal,
+    TestimonialSection: renderTestimonialSection,
+};
+
+// ============================================================================
+// COMPONENTS
+// ============================================================================
+
+function renderButton(component: ComponentSpec): string {
+    const props = parseProps(buttonPropsSchema, component);
+    const label = props.ariaLabel ?? props["aria-label"];
+    const leftIcon = props.leftIcon && icon(props.leftIcon);
+    const rightIcon = props.rightIcon && icon(props.rightIcon);
+    const content = props.iconOnly
+        ? [leftIcon || rightIcon || escapeHtml(props.text.charAt(0))]
+        : [
+            props.loading ? h("span", { class: "ui-spinner", "aria-hidden": "true" }) : leftIcon,
+            h("span", {}, [escapeHtml(props.text)]),
+            rightIcon,
+        ];
+    const attributes = {
+        ...baseAttributes(props),
+        class: classes(
+            "ui-button",
+            `ui-button--${props.variant}`,
+            `ui-color--${props.color}`,
+            `ui-size--${props.size}`,
+            props.fullWidth && "ui-button--full"
+        ),
+        "aria-label": props.iconOnly ? label ?? props.text : label,
+        "aria-busy": props.loading ? "true" : undefined,
+    };
+
+    if (props.href && !props.disabled) {
+        return h("a", {
+            ...attributes,
+            href: props.href,
+            target: props.openInNewTab ? "_blank" : undefined,
+            rel: props.openInNewTab ? "noopener noreferrer" : undefined,
+        }, content);
+    }
+    return h("button", { ...attributes, type: "button", disabled: props.disabled || props.loading }, content);
+}
+
+function renderCard(component: ComponentSpec, context: RenderContext): string {
+    const props = parseProps(cardPropsSchema, component);
+    const titleId = props.hasHeader && props.headerTitle ? context.nextId("card-title") : undefined;
+    const image = props.imageUrl
+        ? h("img", { class: "ui-card__image", src: props.imageUrl, alt: props.imageAlt ?? "" })
+        : undefined;
+    const footer = renderSlot(component, context, "footer");
+
+    return h("article", {
+        ...baseAttributes(props),
+        class: classes(
+            "ui-card",
+            `ui-card--${props.variant}`,
+            `ui-radius--${props.radius}`,
+            `ui-padding--${props.padding}`,
+            props.shadow && `ui-shadow--${props.shadow}`,
+            props.imageUrl && `ui-card--image-${props.imagePosition}`,
+            props.fullWidth && "ui-card--full",
+            (props.hoverable || props.clickable) && "ui-card--hoverable"
+        ),
+        "aria-labelledby": titleId,
+    }, [
+        image,
+        h("div", { class: "ui-card__body" }, [
+            props.hasHeader && h("header", { class: "ui-card__header" }, [
+                h("div", {}, [
+                    props.headerTitle && h("h3", { id: titleId, class: "ui-card__title" }, [escapeHtml(props.headerTitle)]),
+                    props.headerSubtitle && h("p", { class: "ui-muted" }, [escapeHtml(props.headerSubtitle)]),
+                ]),
+                props.headerAction && h("button", {
+                    type: "button",
+                    class: classes("ui-button", props.headerAction.variant === "link" ? "ui-button--link" : "ui-button--soft", "ui-size--sm"),
+                }, [escapeHtml(props.headerAction.text)]),
+            ]),
+            props.content && h("p", { class: "ui-card__content" }, [escapeHtml(props.content)]),
+            ...renderSlot(component, context),
+            props.hasFooter || footer.length > 0
+                ? h("footer", { class: "ui-card__footer" }, [
+                    props.footerContent && h("p", { class: "ui-muted" }, [escapeHtml(props.footerContent)]),
+                    ...footer,
+                ])
+                : undefined,
+        ]),
+    ]);
+}
+
+function renderPricingTable(component: ComponentSpec, context: RenderContext): string {
+    const props = parseProps(pricingTablePropsSchema, component);
+    const yearly = props.defaultBilling === "yearly";
+    const headingId = props.headline ? context.nextId("pricing-title") : undefined;
+
+    const toggle = props.showBillingToggle && h("div", { class: "ui-pricing__toggle" }, [
+        h("span", {}, ["Monthly"]),
+        h("button", {
+            type: "button",
+            class: "ui-switch",
+            role: "switch",
+            "aria-checked": String(yearly),
+            "aria-label": "Bill yearly",
+            "data-billing-toggle": true,
+        }, [h("span", { class: "ui-switch__thumb", "aria-hidden": "true" })]),
+        h("span", {}, [
+            "Yearly",
+            props.yearlyDiscount ? h("span", { class: "ui-badge ui-badge--success" }, [`Save ${props.yearlyDiscount}%`]) : undefined,
+        ]),
+    ]);
+
+    const tiers = props.layout === "comparison"
+        ? renderPricingComparison(props.tiers, props.yearlyDiscount, yearly)
+        : h("div", { class: "ui-pricing__tiers", style: `--ui-columns: ${props.tiers.length}` }, props.tiers.map(tier =>
+            renderPricingTier(tier, props.yearlyDiscount, yearly, props.showFeatureComparison, props.compact)
+        ));
+
+    return h("section", {
+        ...baseAttributes(props),
+        class: classes("ui-pricing", props.compact && "ui-pricing--compact"),
+        "aria-labelledby": headingId,
+    }, [
+        (props.headline || props.subheadline) && h("header", { class: "ui-section-header" }, [
+            props.headline && h("h2", { id: headingId }, [escapeHtml(props.headline)]),
+            props.subheadline && h("p", { class: "ui-muted" }, [escapeHtml(props.subheadline)]),
+        ]),
+        toggle,
+        tiers,
+        ...renderSlot(component, context),
+        props.faqItems?.length && h("div", { class: "ui-faq" }, [
+            h("h3", {}, ["Frequently asked questions"]),
+            ...props.faqItems.map(item => h("details", { class: "ui-faq__item" }, [
+                h("summary", {}, [escapeHtml(item.question)]),
+                h("p", {}, [escapeHtml(item.answer)]),
+            ])),
+        ]),
+    ]);
+}
+
+function renderPricingTier(
+    tier: PricingTier,
+    yearlyDiscount: number | undefined,
+    yearly: boolean,
+    showFeatures: boolean,
+    compact: boolean
+): string {
+    return h("div", { class: classes("ui-tier", tier.featured && "ui-tier--featured", compact && "ui-tier--compact") }, [
+        tier.badge && h("span", { class: "ui-tier__badge" }, [escapeHtml(tier.badge)]),
+        h("h3", { class: "ui-tier__name" }, [escapeHtml(tier.name)]),
+        tier.description && h("p", { class: "ui-tier__description" }, [escapeHtml(tier.description)]),
+        h("p", { class: "ui-tier__price" }, [renderPrice(tier, yearlyDiscount, yearly)]),
+        showFeatures && h("ul", { class: "ui-tier__features" }, tier.features.map(feature =>
+            h("li", { class: classes(!feature.included && "ui-tier__feature--excluded", feature.highlight && "ui-tier__feature--highlight") }, [
+                h("span", { class: "ui-tier__mark", "aria-hidden": "true" }, [feature.included ? "✓" : "✕"]),
+                h("span", { class: "ui-visually-hidden" }, [feature.included ? "Included:" : "Not included:"]),
+                h("span", { title: feature.tooltip }, [escapeHtml(feature.text)]),
+            ])
+        )),
+        h("button", {
+            type: "button",
+            class: classes("ui-button", `ui-button--${tier.ctaVariant}`, tier.featured ? "ui-color--light" : "ui-color--primary", "ui-button--full"),
+        }, [escapeHtml(tier.ctaText)]),
+    ]);
+}
+
+function renderPricingComparison(tiers: PricingTier[], yearlyDiscount: number | undefined, yearly: boolean): string {
+    const features = [...new Set(tiers.flatMap(tier => tier.features.map(feature => feature.text)))];
+    const includes = (tier: PricingTier, text: string) =>
+        tier.features.some(feature => feature.text === text && feature.included);
+
+    return h("div", { class: "ui-table-wrapper" }, [
+        h("table", { class: "ui-table ui-pricing__comparison" }, [
+            h("thead", {}, [
+                h("tr", {}, [
+                    h("th", { scope: "col" }, ["Feature"]),
+                    ...tiers.map(tier => h("th", { scope: "col", class: classes(tier.featured && "ui-tier--featured") }, [
+                        h("span", { class: "ui-tier__name" }, [escapeHtml(tier.name)]),
+                        h("span", { class: "ui-tier__price" }, [renderPrice(tier, yearlyDiscount, yearly)]),
+                    ])),
+                ]),
+            ]),
+            h("tbody", {}, features.map(text => h("tr", {}, [
+                h("th", { scope: "row" }, [escapeHtml(text)]),
+                ...tiers.map(tier => h("td", {}, [
+                    h("span", { "aria-hidden": "true" }, [includes(tier, text) ? "✓" : "✕"]),
+                    h("span", { class: "ui-visually-hidden" }, [includes(tier, text) ? "Included" : "Not included"]),
+                ])),
+            ]))),
+        ]),
+    ]);
+}
+
+/**
+ * Price with its period. Monthly tiers follow the billing toggle, which swaps
+ * between the data-* texts; other billing periods keep a fixed price.
+ */
+function renderPrice(tier: PricingTier, yearlyDiscount: number | undefined, yearly: boolean): string {
+    const suffix = { monthly: "/month", yearly: "/year", "one-time": " one-time", custom: "" }[tier.billingPeriod];
+    const price = `${formatPrice(tier.price, tier.currency)}${suffix}`;
+    const yearlyPrice = `${formatPrice(tier.price * 12 * (1 - (yearlyDiscount ?? 0) / 100), tier.currency)}/year`;
+    const toggles = tier.billingPeriod === "monthly";
+    const discounted = tier.originalPrice !== undefined && tier.originalPrice > tier.price;
+
+    return [
+        h("span", {
+            class: "ui-tier__amount",
+            "data-monthly": toggles ? price : undefined,
+            "data-yearly": toggles ? yearlyPrice : undefined,
+        }, [toggles && yearly ? yearlyPrice : price]),
+        discounted
+            ? h("s", { class: "ui-muted" }, [`${formatPrice(tier.originalPrice!, tier.currency)}${suffix}`])
+            : undefined,
+    ].filter(Boolean).join(" ");
+}
+
+function renderDashboardLayout(component: ComponentSpec, context: RenderContext): string {
+    const props = parseProps(dashboardLayoutPropsSchema, component);
+    const showSidebar = props.showSidebar && !!props.sidebar && (props.layout === "sidebar-header" || props.layout === "sidebar-only");
+    const showHeader = props.showHeader && (props.layout === "sidebar-header" || props.layout === "header-only");
+    const header = props.header;
+
+    const sidebar = showSidebar && props.sidebar && h("aside", {
+        class: classes("ui-dashboard__sidebar", `ui-dashboard__sidebar--${props.sidebar.width}`),
+    }, [
+        (props.sidebar.title || props.sidebar.logo) && h("div", { class: "ui-dashboard__brand" }, [
+            props.sidebar.logo && /^(https?:|\/|data:)/.test(props.sidebar.logo)
+                ? h("img", { src: props.sidebar.logo, alt: props.sidebar.logoAlt ?? props.sidebar.title ?? "" })
+                : props.sidebar.logo && h("span", { class: "ui-dashboard__logo" }, [escapeHtml(props.sidebar.logo)]),
+            props.sidebar.title && h("strong", {}, [escapeHtml(props.sidebar.title)]),
+        ]),
+        h("nav", { "aria-label": props.sidebar.title ? `${props.sidebar.title} navigation` : "Main navigation" }, [
+            h("ul", { class: "ui-nav" }, props.sidebar.navItems.map(item => h("li", {}, [
+                h("a", {
+                    class: classes("ui-nav__link", item.active && "ui-nav__link--active"),
+                    href: item.href ?? "#",
+                    "aria-current": item.active ? "page" : undefined,
+                }, [
+                    item.icon && icon(item.icon),
+                    h("span", {}, [escapeHtml(item.label)]),
+                    item.badge && h("span", { class: classes("ui-badge", item.badgeVariant && `ui-badge--${item.badgeVariant}`) }, [escapeHtml(item.badge)]),
+                ]),
+                item.children?.length && h("ul", { class: "ui-nav ui-nav--nested" }, item.children.map(child => h("li", {}, [
+                    h("a", { class: "ui-nav__link", href: child.href ?? "#" }, [
+                        child.icon && icon(child.icon),
+                        h("span", {}, [escapeHtml(child.label)]),
+                    ]),
+                ]))),
+            ]))),
+        ]),
+        props.sidebar.showUserProfile && props.sidebar.userInfo && h("div", { class: "ui-dashboard__user" }, [
+            h("strong", {}, [escapeHtml(props.sidebar.userInfo.name)]),
+            props.sidebar.userInfo.email && h("span", { class: "ui-muted" }, [escapeHtml(props.sidebar.userInfo.email)]),
+        ]),
+        props.sidebar.footerContent && h("p", { class: "ui-muted" }, [escapeHtml(props.sidebar.footerContent)]),
+    ]);
+
+    const searchId = context.nextId("dashboard-search");
+    const top = showHeader && header && h("header", { class: "ui-dashboard__header" }, [
+        h("div", {}, [
+            header.showBreadcrumbs && header.breadcrumbs?.length && h("nav", { "aria-label": "Breadcrumb" }, [
+                h("ol", { class: "ui-breadcrumbs" }, header.breadcrumbs.map((crumb, index) => h("li", {}, [
+                    crumb.href && index < header.breadcrumbs!.length - 1
+                        ? h("a", { href: crumb.href }, [escapeHtml(crumb.label)])
+                        : h("span", { "aria-current": index === header.breadcrumbs!.length - 1 ? "page" : undefined }, [escapeHtml(crumb.label)]),
+                ]))),
+            ]),
+            header.title && h("h1", { class: "ui-dashboard__title" }, [escapeHtml(header.title)]),
+            header.subtitle && h("p", { class: "ui-muted" }, [escapeHtml(header.subtitle)]),
+        ]),
+        h("div", { class: "ui-dashboard__actions" }, [
+            header.showSearch && h("div", { class: "ui-dashboard__search" }, [
+                h("label", { for: searchId, class: "ui-visually-hidden" }, ["Search"]),
+                h("input", { id: searchId, type: "search", class: "ui-input", placeholder: header.searchPlaceholder }),
+            ]),
+            ...(header.actions ?? []).map(action => h("button", {
+                type: "button",
+                class: classes("ui-button", `ui-button--${action.variant ?? "solid"}`, "ui-color--primary", "ui-size--sm"),
+            }, [action.icon && icon(action.icon), h("span", {}, [escapeHtml(action.label)])])),
+            header.showNotifications && h("button", {
+                type: "button",
+                class: "ui-button ui-button--ghost ui-color--secondary ui-size--sm",
+                "aria-label": header.notificationCount ? `Notifications (${header.notificationCount})` : "Notifications",
+            }, [
+                h("span", { "aria-hidden": "true" }, ["🔔"]),
+                header.notificationCount ? h("span", { class: "ui-badge ui-badge--destructive", "aria-hidden": "true" }, [String(header.notificationCount)]) : undefined,
+            ]),
+        ]),
+    ]);
+
+    return h("div", {
+        ...baseAttributes(props),
+        class: classes("ui-dashboard", sidebar && "ui-dashboard--with-sidebar", props.sidebar?.position === "right" && "ui-dashboard--sidebar-right"),
+    }, [
+        sidebar,
+        h("div", { class: "ui-dashboard__main" }, [
+            top,
+            h("div", { class: classes("ui-dashboard__content", `ui-padding--${props.contentPadding}`) }, [
+                props.pageTitle && h("h2", {}, [escapeHtml(props.pageTitle)]),
+                props.pageDescription && h("p", { class: "ui-muted" }, [escapeHtml(props.pageDescription)]),
+                ...renderSlot(component, context),
+            ]),
+        ]),
+    ]);
+}
+
+function renderChart(component: ComponentSpec, context: RenderContext): string {
+    const props = parseProps(chartPropsSchema, component);
+    const chartTab = context.nextId("chart-tab");
+    const dataTab = context.nextId("chart-data-tab");
+    const chartPanel = context.nextId("chart-panel");
+    const dataPanel = context.nextId("chart-data-panel");
+    const series = chartSeries(props);
+    const title = props.title ?? `${props.type} chart`;
+
+    return h("figure", { ...baseAttributes(props), class: "ui-chart" }, [
+        (props.title || props.subtitle) && h("figcaption", { class: "ui-chart__caption" }, [
+            props.title && h("strong", {}, [escapeHtml(props.title)]),
+            props.subtitle && h("span", { class: "ui-muted" }, [escapeHtml(props.subtitle)]),
+        ]),
+        h("div", { class: "ui-tabs", role: "tablist", "aria-label": `${title} view` }, [
+            h("button", { type: "button", role: "tab", id: chartTab, "aria-controls": chartPanel, "aria-selected": "true" }, ["Chart"]),
+            h("button", { type: "button", role: "tab", id: dataTab, "aria-controls": dataPanel, "aria-selected": "false", tabindex: -1 }, ["Data"]),
+        ]),
+        h("div", { id: chartPanel, role: "tabpanel", "aria-labelledby": chartTab, class: "ui-chart__panel" }, [
+            renderChartSvg(props, series, title),
+            props.showLegend && series.length > 0 && !isRadial(props) && h("ul", { class: "ui-chart__legend" }, series.map(entry =>
+                h("li", {}, [
+                    h("span", { class: "ui-chart__swatch", style: `background: ${entry.color}`, "aria-hidden": "true" }),
+                    escapeHtml(entry.name),
+                ])
+            )),
+            props.showLegend && isRadial(props) && h("ul", { class: "ui-chart__legend" }, props.data.map((point, index) =>
+                h("li", {}, [
+                    h("span", { class: "ui-chart__swatch", style: `background: ${pointColor(props, index)}`, "aria-hidden": "true" }),
+                    `${escapeHtml(point.name)}: ${point.value}`,
+                ])
+            )),
+        ]),
+        h("div", { id: dataPanel, role: "tabpanel", "aria-labelledby": dataTab, class: "ui-chart__panel", hidden: true }, [
+            h("div", { class: "ui-table-wrapper" }, [
+                h("table", { class: "ui-table" }, [
+                    h("thead", {}, [h("tr", {}, [
+                        h("th", { scope: "col" }, [escapeHtml(props.xAxisLabel ?? "Name")]),
+                        ...series.map(entry => h("th", { scope: "col" }, [escapeHtml(entry.name)])),
+                    ])]),
+                    h("tbody", {}, props.data.map(point => h("tr", {}, [
+                        h("th", { scope: "row" }, [escapeHtml(point.name)]),
+                        ...series.map(entry => h("td", {}, [String(dataValue(point, entry.dataKey) ?? "")])),
+                    ]))),
+                ]),
+            ]),
+        ]),
+    ]);
+}
+
+function renderForm(component: ComponentSpec, context: RenderContext): string {
+    const props = parseProps(formPropsSchema, component);
+    const titleId = props.title ? context.nextId("form-title") : undefined;
+    const inner: RenderContext = { ...context, inForm: true };
+    const fields = (list: FormField[]) => h("div", { class: "ui-form__fields" }, list.map(field => renderField(field, context)));
+
+    const content = [
+        props.title && h("h2", { id: titleId, class: "ui-form__title" }, [escapeHtml(props.title)]),
+        props.description && h("p", { class: "ui-muted" }, [escapeHtml(props.description)]),
+        props.showProgress && props.currentStep !== undefined && props.totalSteps
+            ? h("p", { class: "ui-muted" }, [`Step ${props.currentStep} of ${props.totalSteps}`])
+            : undefined,
+        ...(props.sections ?? []).map(section => {
+            const legend = section.title && h("legend", {}, [escapeHtml(section.title)]);
+            const body = [
+                section.description && h("p", { class: "ui-muted" }, [escapeHtml(section.description)]),
+                fields(section.fields),
+            ];
+            return section.collapsible
+                ? h("details", { class: "ui-form__section", open: section.defaultExpanded }, [
+                    h("summary", {}, [escapeHtml(section.title ?? "Details")]),
+                    h("fieldset", {}, body),
+                ])
+                : h("fieldset", { class: "ui-form__section" }, [legend, ...body]);
+        }),
+        props.fields?.length && fields(props.fields),
+        ...renderSlot(component, inner),
+        (props.showSubmitButton || props.showCancelButton) && h("div", { class: classes("ui-form__actions", `ui-form__actions--${props.submitPosition}`) }, [
+            props.showCancelButton && h("button", { type: "reset", class: "ui-button ui-button--outline ui-color--secondary" }, [escapeHtml(props.cancelText)]),
+            props.showSubmitButton && h("button", {
+                type: "submit",
+                class: classes("ui-button ui-button--solid ui-color--primary", props.submitPosition === "full" && "ui-button--full"),
+                disabled: props.disabled || props.loading,
+                "aria-busy": props.loading ? "true" : undefined,
+            }, [escapeHtml(props.submitText)]),
+        ]),
+        h("p", { class: "ui-form__status", role: "status" }),
+    ];
+
+    // A form inside a form is invalid; nested ones become groups of the outer form
+    const attributes = {
+        ...baseAttributes(props),
+        class: classes("ui-form", `ui-form--${props.layout}`, `ui-size--${props.size}`),
+        "aria-labelledby": titleId,
+    };
+    return context.inForm
+        ? h("div", { ...attributes, role: "group" }, content)
+        : h("form", { ...attributes, "data-ui-form": true }, content);
+}
+
+function renderField(field: FormField, context: RenderContext): string {
+    const id = context.nextId(`field-${slug(field.id)}`);
+    const helpId = field.helpText ? `${id}-help` : undefined;
+    const help = field.helpText && h("p", { id: helpId, class: "ui-field__help" }, [escapeHtml(field.helpText)]);
+    const common = {
+        name: field.name,
+        disabled: field.disabled,
+        required: field.required,
+        "aria-describedby": helpId,
+    };
+    const value = field.defaultValue;
+    const wrapper = (content: Array<string | false | undefined>) =>
+        h("div", { class: classes("ui-field", `ui-field--${field.width}`) }, content);
+
+    if (field.type === "hidden") {
+        return h("input", { type: "hidden", id, name: field.name, value: value === undefined ? undefined : String(value) });
+    }
+
+    if (field.type === "radio" || ((field.type === "checkbox" || field.type === "multiselect") && field.options?.length)) {
+        const checked = Array.isArray(value) ? value : value === undefined ? [] : [String(value)];
+        return wrapper([
+            h("fieldset", { class: "ui-field__group", "aria-describedby": helpId }, [
+                h("legend", {}, [`${escapeHtml(field.label)}${field.required ? " *" : ""}`]),
+                ...(field.options ?? []).map((option, index) => {
+                    const optionId = `${id}-${index + 1}`;
+                    return h("div", { class: "ui-choice" }, [
+                        h("input", {
+                            type: field.type === "radio" ? "radio" : "checkbox",
+                            id: optionId,
+                            name: field.name,
+                            value: option.value,
+                            checked: checked.includes(option.value),
+                            disabled: field.disabled || option.disabled,
+                            required: field.type === "radio" && field.required,
+                        }),
+                        h("label", { for: optionId }, [escapeHtml(option.label)]),
+                    ]);
+                }),
+            ]),
+            help,
+        ]);
+    }
+
+    if (field.type === "checkbox" || field.type === "switch") {
+        return wrapper([
+            h("div", { class: "ui-choice" }, [
+                h("input", {
+                    ...common,
+                    type: "checkbox",
+                    id,
+                    role: field.type === "switch" ? "switch" : undefined,
+                    checked: value === true,
+                }),
+                h("label", { for: id }, [escapeHtml(field.label)]),
+            ]),
+            help,
+        ]);
+    }
+
+    const label = h("label", { for: id, class: "ui-field__label" }, [
+        escapeHtml(field.label),
+        field.required ? h("span", { "aria-hidden": "true" }, ["*"]) : undefined,
+    ]);
+
+    let control: string;
+    if (field.type === "select") {
+        control = h("select", { ...common, id, class: "ui-input" }, [
+            field.placeholder && h("option", { value: "" }, [escapeHtml(field.placeholder)]),
+            ...(field.options ?? []).map(option => h("option", {
+                value: option.value,
+                disabled: option.disabled,
+                selected: value === option.value,
+            }, [escapeHtml(option.label)])),
+        ]);
+    } else if (field.type === "textarea") {
+        control = h("textarea", { ...common, id, class: "ui-input", rows: 4, placeholder: field.placeholder, readonly: field.readOnly }, [
+            value === undefined ? "" : escapeHtml(String(value)),
+        ]);
+    } else {
+        const rule = (type: string) => field.validation?.find(validation => validation.type === type)?.value;
+        control = h("input", {
+            ...common,
+            id,
+            class: "ui-input",
+            type: field.type === "datetime" ? "datetime-local" : field.type,
+            placeholder: field.placeholder,
+            readonly: field.readOnly,
+            value: value === undefined || Array.isArray(value) ? undefined : String(value),
+            minlength: rule("minLength"),
+            maxlength: rule("maxLength"),
+            min: rule("min"),
+            max: rule("max"),
+            pattern: rule("pattern"),
+        });
+    }
+
+    return wrapper([label, control, help]);
+}
+
+function renderModal(component: ComponentSpec, context: RenderContext): string {
+    const props = parseProps(modalPropsSchema, component);
+    const id = props.id ?? context.nextId("modal");
+    const titleId = `${id}-title`;
+    const descriptionId = props.description ? `${id}-description` : undefined;
+    const footer = renderSlot(component, context, "footer");
+    const body = renderSlot(component, context);
+
+    const trigger = h("button", {
+        type: "button",
+        class: "ui-button ui-button--outline ui-color--primary",
+        "data-modal-open": id,
+    }, [escapeHtml(props.title)]);
+
+    const dialog = h("dialog", {
+        id,
+        class: classes(
+            "ui-modal",
+            `ui-modal--${props.size}`,
+            `ui-modal--${props.position}`,
+            `ui-modal--${props.variant}`,
+            !props.showOverlay && "ui-modal--no-overlay",
+            props.overlayBlur && "ui-modal--blur"
+        ),
+        "aria-labelledby": titleId,
+        "aria-describedby": descriptionId,
+        "aria-label": props["aria-label"],
+        "data-testid": props["data-testid"],
+        "data-open-on-load": props.isOpen,
+        "data-close-on-overlay": props.closeOnOverlayClick,
+        "data-keep-on-escape": !props.closeOnEscape,
+    }, [
+        h("div", { class: "ui-modal__panel" }, [
+            h("header", { class: classes("ui-modal__header", !props.showHeader && "ui-visually-hidden") }, [
+                props.headerIcon && h("span", { class: "ui-modal__icon", "aria-hidden": "true" }, [ICON_GLYPHS[props.headerIcon] ?? "•"]),
+                h("div", {}, [
+                    h("h2", { id: titleId, class: "ui-modal__title" }, [escapeHtml(props.title)]),
+                    props.description && h("p", { id: descriptionId, class: "ui-muted" }, [escapeHtml(props.description)]),
+                ]),
+                props.showCloseButton && h("button", {
+                    type: "button",
+                    class: "ui-modal__close",
+                    "aria-label": "Close dialog",
+                    "data-modal-close": true,
+                }, [h("span", { "aria-hidden": "true" }, ["✕"])]),
+            ]),
+            (props.content || body.length > 0) && h("div", { class: "ui-modal__body" }, [
+                props.content && h("p", {}, [escapeHtml(props.content)]),
+                ...body,
+            ]),
+            props.showFooter && (props.primaryAction || props.secondaryAction || footer.length > 0) && h("footer", { class: "ui-modal__footer" }, [
+                ...footer,
+                props.secondaryAction && h("button", {
+                    type: "button",
+                    class: classes("ui-button", `ui-button--${props.secondaryAction.variant}`, "ui-color--secondary"),
+                    "data-modal-close": true,
+                }, [escapeHtml(props.secondaryAction.text)]),
+                props.primaryAction && h("button", {
+                    type: "button",
+                    class: classes(
+                        "ui-button",
+                        props.primaryAction.variant === "outline" ? "ui-button--outline" : "ui-button--solid",
+                        props.primaryAction.variant === "destructive" ? "ui-color--destructive" : "ui-color--primary"
+                    ),
+                    disabled: props.primaryAction.disabled || props.primaryAction.loading,
+                    "aria-busy": props.primaryAction.loading ? "true" : undefined,
+                    "data-modal-close": true,
+                }, [escapeHtml(props.primaryAction.loading ? "Loading..." : props.primaryAction.text)]),
+            ]),
+        ]),
+    ]);
+
+    return h("div", { class: "ui-modal-trigger" }, [trigger, dialog]);
+}
+
+function renderTestimonialSection(component: ComponentSpec, context: RenderContext): string {
+    const props = parseProps(testimonialSectionPropsSchema, component);
+    const headingId = props.headline ? context.nextId("testimonials-title") : undefined;
+    const card = (testimonial: Testimonial, extra?: Record<string, string | boolean | undefined>) =>
+        renderTestimonial(testimonial, props, extra);
+
+    let content: string;
+    if (props.layout === "carousel") {
+        const carouselId = context.nextId("carousel");
+        const count = props.testimonials.length;
+        content = h("div", {
+            class: "ui-carousel",
+            role: "region",
+            "aria-roledescription": "carousel",
+            "aria-label": props.headline ?? "Testimonials",
+            "data-carousel": true,
+            "data-autoplay": props.autoplay ? props.autoplayInterval : undefined,
+        }, [
+            h("div", { id: `${carouselId}-slides`, class: "ui-carousel__slides", "aria-live": props.autoplay ? "off" : "polite" },
+                props.testimonials.map((testimonial, index) => card(testimonial, {
+                    role: "group",
+                    "aria-roledescription": "slide",
+                    "aria-label": `${index + 1} of ${count}`,
+                    "data-slide": true,
+                    hidden: index !== 0,
+                }))
+            ),
+            count > 1 && (props.showArrows || props.showDots) && h("div", { class: "ui-carousel__nav" }, [
+                props.showArrows && h("button", {
+                    type: "button",
+                    class: "ui-carousel__arrow",
+                    "aria-controls": `${carouselId}-slides`,
+                    "aria-label": "Previous testimonial",
+                    "data-carousel-prev": true,
+                }, [h("span", { "aria-hidden": "true" }, ["‹"])]),
+                props.showDots && h("div", { class: "ui-carousel__dots" }, props.testimonials.map((_, index) => h("button", {
+                    type: "button",
+                    class: "ui-carousel__dot",
+                    "aria-controls": `${carouselId}-slides`,
+                    "aria-label": `Show testimonial ${index + 1}`,
+                    "aria-current": index === 0 ? "true" : "false",
+                    "data-slide-to": index,
+                }))),
+                props.showArrows && h("button", {
+                    type: "button",
+                    class: "ui-carousel__arrow",
+                    "aria-controls": `${carouselId}-slides`,
+                    "aria-label": "Next testimonial",
+                    "data-carousel-next": true,
+                }, [h("span", { "aria-hidden": "true" }, ["›"])]),
+            ]),
+        ]);
+    } else {
+        content = h("div", {
+            class: classes("ui-testimonials__grid", `ui-testimonials__grid--${props.layout}`),
+            style: `--ui-columns: ${props.columns}`,
+        }, props.testimonials.map(testimonial => card(testimonial)));
+    }
+
+    return h("section", {
+        ...baseAttributes(props),
+        class: classes("ui-testimonials", `ui-testimonials--${props.cardStyle}`),
+        "aria-labelledby": headingId,
+    }, [
+        (props.headline || props.subheadline) && h("header", { class: "ui-section-header" }, [
+            props.headline && h("h2", { id: headingId }, [escapeHtml(props.headline)]),
+            props.subheadline && h("p", { class: "ui-muted" }, [escapeHtml(props.subheadline)]),
+        ]),
+        props.showStats && props.stats?.length && h("dl", { class: "ui-stats" }, props.stats.map(stat => h("div", {}, [
+            h("dt", {}, [escapeHtml(stat.label)]),
+            h("dd", {}, [escapeHtml(stat.value)]),
+        ]))),
+        content,
+        props.showCta && h("p", { class: "ui-testimonials__cta" }, [
+            props.ctaHref
+                ? h("a", { class: "ui-button ui-button--outline ui-color--primary", href: props.ctaHref }, [escapeHtml(props.ctaText)])
+                : h("button", { type: "button", class: "ui-button ui-button--outline ui-color--primary" }, [escapeHtml(props.ctaText)]),
+        ]),
+    ]);
+}
+
+function renderTestimonial(
+    testimonial: Testimonial,
+    props: z.output<typeof testimonialSectionPropsSchema>,
+    extra: Record<string, string | boolean | undefined> = {}
+): string {
+    const byline = [testimonial.authorRole, testimonial.authorCompany].filter(Boolean).join(", ");
+
+    return h("figure", {
+        class: classes("ui-testimonial", testimonial.featured && "ui-testimonial--featured"),
+        ...extra,
+    }, [
+        props.showRatings && testimonial.rating !== undefined && h("p", {
+            class: "ui-rating",
+            role: "img",
+            "aria-label": `Rated ${testimonial.rating} out of 5`,
+        }, [
+            h("span", { "aria-hidden": "true" }, ["★".repeat(Math.round(testimonial.rating)) + "☆".repeat(5 - Math.round(testimonial.rating))]),
+        ]),
+        h("blockquote", { class: classes("ui-testimonial__quote", props.showQuoteMarks && `ui-testimonial__quote--${props.quoteMarkStyle}`) }, [
+            h("p", {}, [escapeHtml(testimonial.quote)]),
+        ]),
+        h("figcaption", { class: "ui-testimonial__author" }, [
+            props.showAvatars && testimonial.authorAvatarUrl && h("img", {
+                class: "ui-avatar",
+                src: testimonial.authorAvatarUrl,
+                alt: "",
+                width: 40,
+                height: 40,
+            }),
+            h("div", {}, [
+                h("strong", {}, [escapeHtml(testimonial.authorName)]),
+                byline && h("span", { class: "ui-muted" }, [escapeHtml(byline)]),
+                props.showDates && testimonial.date && h("span", { class: "ui-muted" }, [escapeHtml(testimonial.date)]),
+            ]),
+            props.showCompanyLogos && testimonial.logoUrl && h("img", {
+                class: "ui-testimonial__logo",
+                src: testimonial.logoUrl,
+                alt: testimonial.authorCompany ?? "",
+            }),
+            testimonial.source && (testimonial.sourceUrl
+                ? h("a", { class: "ui-muted", href: testimonial.sourceUrl, target: "_blank", rel: "noopener noreferrer" }, [escapeHtml(testimonial.source)])
+                : h("span", { class: "ui-muted" }, [escapeHtml(testimonial.source)])),
+        ]),
+    ]);
+}
+
+// ============================================================================
+// CHARTS
+// ============================================================================
+
+interface ChartSeriesEntry {
+    name: string;
+    dataKey: string;
+    color: string;
+    type?: "line" | "bar" | "area";
+}
+
+const CHART_WIDTH = 640;
+const CHART_PADDING = { top: 16, right: 16, bottom: 40, left: 48 };
+
+function chartSeries(props: ChartProps): ChartSeriesEntry[] {
+    const series = props.series?.length
+        ? props.series
+        : [{ name: props.yAxisLabel ?? "Value", dataKey: "value", color: undefined, type: undefined }];
+    return series.map((entry, index) => ({
+        name: entry.name,
+        dataKey: entry.dataKey,
+        color: entry.color ?? pointColor(props, index),
+        type: entry.type,
+    }));
+}
+
+function pointColor(props: ChartProps, index: number): string {
+    const palette = props.colors?.length ? props.colors : CHART_PALETTES[props.colorScheme ?? "default"];
+    return props.data[index]?.color && isRadial(props) ? props.data[index].color! : palette[index % palette.length];
+}
+
+function dataValue(point: ChartProps["data"][number], key: string): number | undefined {
+    const value = (point as Record<string, unknown>)[key];
+    return typeof value === "number" ? value : undefined;
+}
+
+function isRadial(props: ChartProps): boolean {
+    return props.type === "pie" || props.type === "donut";
+}
+
+function renderChartSvg(props: ChartProps, series: ChartSeriesEntry[], title: string): string {
+    const height = props.height ?? 300;
+    const summary = `${title}: ${props.data.map(point => `${point.name} ${point.value}`).join(", ")}`;
+    const svg = (content: Array<string | false | undefined>) => h("svg", {
+        class: "ui-chart__svg",
+        viewBox: `0 0 ${CHART_WIDTH} ${height}`,
+        role: "img",
+        "aria-label": summary,
+        preserveAspectRatio: "xMidYMid meet",
+    }, content);
+
+    if (isRadial(props)) return svg(renderPie(props, height));
+
+    const plot = {
+        left: CHART_PADDING.left,
+        top: CHART_PADDING.top,
+        width: CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right,
+        height: height - CHART_PADDING.top - CHART_PADDING.bottom,
+    };
+    const values = props.data.flatMap(point => series.map(entry => dataValue(point, entry.dataKey) ?? 0));
+    const stackedTotals = props.data.map(point => series.reduce((sum, entry) => sum + (dataValue(point, entry.dataKey) ?? 0), 0));
+    const max = Math.max(1, ...(props.stacked ? stackedTotals : values), ...(props.referenceLines ?? []).map(line => line.value));
+    const min = Math.min(0, ...values);
+    const y = (value: number) => plot.top + plot.height - ((value - min) / (max - min)) * plot.height;
+    const step = plot.width / props.data.length;
+    const x = (index: number) => plot.left + step * index + step / 2;
+
+    const grid = props.showGrid ? [0, 0.25, 0.5, 0.75, 1].map(fraction => {
+        const value = min + (max - min) * fraction;
+        return [
+            h("line", {
+                x1: plot.left,
+                x2: plot.left + plot.width,
+                y1: round(y(value)),
+                y2: round(y(value)),
+                class: `ui-chart__grid ui-chart__grid--${props.gridStyle}`,
+            }),
+            props.showYAxis && h("text", { x: plot.left - 8, y: round(y(value)) + 4, "text-anchor": "end", class: "ui-chart__tick" }, [formatNumber(value)]),
+        ].filter(Boolean).join("\n");
+    }) : [];
+
+    const xLabels = props.showXAxis ? props.data.map((point, index) =>
+        h("text", { x: round(x(index)), y: height - CHART_PADDING.bottom + 18, "text-anchor": "middle", class: "ui-chart__tick" }, [escapeHtml(point.name)])
+    ) : [];
+
+    const kind = (entry: ChartSeriesEntry, index: number): "line" | "bar" | "area" | "scatter" => {
+        if (props.type === "composed") return entry.type ?? (index === 0 ? "bar" : "line");
+        if (props.type === "scatter") return "scatter";
+        return entry.type ?? (props.type as "line" | "bar" | "area");
+    };
+
+    const barSeries = series.filter((entry, index) => kind(entry, index) === "bar");
+    const barWidth = (step * 0.7) / (props.stacked ? 1 : Math.max(1, barSeries.length));
+    const offsets = props.data.map(() => 0);
+
+    const marks = series.flatMap((entry, index) => {
+        const type = kind(entry, index);
+        const points = props.data.map((point, pointIndex) => ({
+            x: x(pointIndex),
+            value: dataValue(point, entry.dataKey) ?? 0,
+            name: point.name,
+        }));
+
+        if (type === "bar") {
+            const position = barSeries.indexOf(entry);
+            return points.map((point, pointIndex) => {
+                const base = props.stacked ? offsets[pointIndex] : 0;
+                if (props.stacked) offsets[pointIndex] += point.value;
+                const left = point.x - (step * 0.35) + (props.stacked ? 0 : position * barWidth);
+                const top = y(base + Math.max(point.value, 0));
+                return h("rect", {
+                    x: round(left),
+                    y: round(top),
+                    width: round(barWidth - 2),
+                    height: round(Math.abs(y(base + point.value) - y(base))),
+                    rx: 3,
+                    fill: props.data.length === 1 || series.length > 1 ? entry.color : pointColor(props, pointIndex),
+                }, [h("title", {}, [`${escapeHtml(point.name)}: ${point.value}`])]);
+            });
+        }
+
+        if (type === "scatter") {
+            return points.map(point => h("circle", { cx: round(point.x), cy: round(y(point.value)), r: 5, fill: entry.color }, [
+                h("title", {}, [`${escapeHtml(point.name)}: ${point.value}`]),
+            ]));
+        }
+
+        const path = linePath(points.map(point => [point.x, y(point.value)]), props.curved);
+        return [
+            type === "area" && h("path", {
+                d: `${path} L ${round(points[points.length - 1].x)} ${round(y(min))} L ${round(points[0].x)} ${round(y(min))} Z`,
+                fill: entry.color,
+                "fill-opacity": 0.2,
+            }),
+            h("path", { d: path, fill: "none", stroke: entry.color, "stroke-width": 2.5 }),
+            ...points.map(point => h("circle", { cx: round(point.x), cy: round(y(point.value)), r: 3.5, fill: entry.color }, [
+                h("title", {}, [`${escapeHtml(point.name)}: ${point.value}`]),
+            ])),
+        ].filter((mark): mark is string => !!mark);
+    });
+
+    const references = (props.referenceLines ?? []).filter(line => line.axis !== "x").map(line => [
+        h("line", {
+            x1: plot.left,
+            x2: plot.left + plot.width,
+            y1: round(y(line.value)),
+            y2: round(y(line.value)),
+            stroke: line.color ?? "#ef4444",
+            "stroke-dasharray": "6 4",
+        }),
+        line.label && h("text", { x: plot.left + plot.width, y: round(y(line.value)) - 6, "text-anchor": "end", class: "ui-chart__tick" }, [escapeHtml(line.label)]),
+    ].filter(Boolean).join("\n"));
+
+    return svg([...grid, ...xLabels, ...marks, ...references]);
+}
+
+function renderPie(props: ChartProps, height: number): string[] {
+    const total = props.data.reduce((sum, point) => sum + Math.max(point.value, 0), 0) || 1;
+    const cx = CHART_WIDTH / 2;
+    const cy = height / 2;
+    const radius = height / 2 - 16;
+    const inner = props.type === "donut" ? radius * (props.innerRadius ?? 0.6) : 0;
+    let angle = -Math.PI / 2;
+
+    return props.data.map((point, index) => {
+        const share = Math.max(point.value, 0) / total;
+        const start = angle;
+        const end = angle + share * Math.PI * 2;
+        angle = end;
+        const color = pointColor(props, index);
+        const label = h("title", {}, [`${escapeHtml(point.name)}: ${point.value} (${Math.round(share * 100)}%)`]);
+
+        if (share >= 0.9999) {
+            return h("g", {}, [
+                h("circle", { cx, cy: round(cy), r: round(radius), fill: color }, [label]),
+                inner > 0 && h("circle", { cx, cy: round(cy), r: round(inner), class: "ui-chart__hole" }),
+            ]);
+        }
+
+        const large = end - start > Math.PI ? 1 : 0;
+        const point1 = polar(cx, cy, radius, start);
+        const point2 = polar(cx, cy, radius, end);
+        const d = inner > 0
+            ? [
+                `M ${point1}`,
+                `A ${round(radius)} ${round(radius)} 0 ${large} 1 ${point2}`,
+                `L ${polar(cx, cy, inner, end)}`,
+                `A ${round(inner)} ${round(inner)} 0 ${large} 0 ${polar(cx, cy, inner, start)}`,
+                "Z",
+            ].join(" ")
+            : `M ${cx} ${round(cy)} L ${point1} A ${round(radius)} ${round(radius)} 0 ${large} 1 ${point2} Z`;
+
+        return h("path", { d, fill: color }, [label]);
+    });
+}
+
+function linePath(points: Array<[number, number]>, curved?: boolean): string {
+    if (!curved || points.length < 3) {
+        return points.map(([px, py], index) => `${index === 0 ? "M" : "L"} ${round(px)} ${round(py)}`).join(" ");
+    }
+
+    // Catmull-Rom through the points, as cubic Béziers
+    return points.map(([px, py], index) => {
+        if (index === 0) return `M ${round(px)} ${round(py)}`;
+        const [x0, y0] = points[Math.max(index - 2, 0)];
+        const [x1, y1] = points[index - 1];
+        const [x3, y3] = points[Math.min(index + 1, points.length - 1)];
+        const c1 = [x1 + (px - x0) / 6, y1 + (py - y0) / 6];
+        const c2 = [px - (x3 - x1) / 6, py - (y3 - y1) / 6];
+        return `C ${round(c1[0])} ${round(c1[1])} ${round(c2[0])} ${round(c2[1])} ${round(px)} ${round(py)}`;
+    }).join(" ");
+}
+
+function polar(cx: number, cy: number, radius: number, angle: number): string {
+    return `${round(cx + radius * Math.cos(angle))} ${round(cy + radius * Math.sin(angle))}`;
+}
+
+// ============================================================================
+// MARKUP HELPERS
+// ============================================================================
+
+type AttributeValue = string | number | boolean | undefined;
+
+/**
+ * An element. Children are markup (escape text with escapeHtml); falsy ones
+ * are skipped. Block content is indented, a single text child stays inline.
+ */
+function h(tag: string, attributes: Record<string, AttributeValue> = {}, children: Array<string | false | 0 | undefined> = []): string {
+    const attributeText = Object.entries(attributes)
+        .filter(([name, value]) => value !== undefined && value !== false && (value !== "" || name === "alt"))
+        .map(([name, value]) => {
+            if (value === true) return name;
+            const text = URL_ATTRIBUTES.has(name) ? safeUrl(String(value)) : String(value);
+            return `${name}="${escapeHtml(text)}"`;
+        })
+        .join(" ");
+    const opening = `<${tag}${attributeText ? ` ${attributeText}` : ""}>`;
+
+    if (VOID_ELEMENTS.has(tag)) return opening;
+
+    const content = children.filter((child): child is string => typeof child === "string" && child !== "");
+    if (content.length === 0) return `${opening}</${tag}>`;
+    if (RAW_TEXT_ELEMENTS.has(tag) || (content.length === 1 && !content[0].includes("<") && !content[0].includes("\n"))) {
+        return `${opening}${content.join("")}</${tag}>`;
+    }
+    return `${opening}\n${indent(content.join("\n"), 1)}\n</${tag}>`;
+}
+
+function baseAttributes(props: { id?: string; "aria-label"?: string; "data-testid"?: string }): Record<string, AttributeValue> {
+    return {
+        id: props.id,
+        "aria-label": props["aria-label"],
+        "data-testid": props["data-testid"],
+    };
+}
+
+function icon(name: string): string | undefined {
+    const glyph = ICON_GLYPHS[name];
+    return glyph ? h("span", { class: "ui-icon", "aria-hidden": "true" }, [glyph]) : undefined;
+}
+
+function classes(...names: Array<string | false | undefined>): string {
+    return names.filter(Boolean).join(" ");
+}
+
+function indent(text: string, levels: number): string {
+    const prefix = "  ".repeat(levels);
+    return text.split("\n").map(line => (line ? `${prefix}${line}` : line)).join("\n");
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+}
+
+/**
+ * The URL, or "#" when its scheme could run script or leave the web
+ * (`javascript:`, `data:`, ...). Specs come from models and imports, and
+ * unlike React, a static page does nothing to stop these.
+ */
+function safeUrl(url: string): string {
+    const scheme = urlScheme(url);
+    return scheme === undefined || SAFE_URL_SCHEMES.has(scheme) ? url : "#";
+}
+
+/**
+ * The lowercased scheme of a URL, as a browser reads it: ignoring control
+ * characters and whitespace. Undefined for relative URLs.
+ */
+function urlScheme(url: string): string | undefined {
+    return /^([a-z][a-z0-9+.-]*):/i.exec(url.replace(/[\u0000-\u0020\u007f]/g, ""))?.[1].toLowerCase();
+}
+
+/** A layout value for inline CSS; anything that could break out of the declaration is dropped */
+function cssValue(value: string): string {
+    return value.replace(/[;{}<>"]/g, "");
+}
+
+function slug(text: string): string {
+    return text.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "field";
+}
+
+function formatPrice(price: number, currency = "USD"): string {
+    try {
+        return new Intl.NumberFormat("en-US", {
+            style: "currency",
+            currency,
+            minimumFractionDigits: 0,
+            maximumFractionDigits: 0,
+        }).format(price);
+    } catch {
+        return `${currency} ${Math.round(price)}`;
+    }
+}
+
+function formatNumber(value: number): string {
+    return Math.abs(value) >= 1000 ? `${round(value / 1000)}k` : String(round(value));
+}
+
+function round(value: number): number {
+    return Math.round(value * 10) / 10;
+}
+
+function parseProps<T extends z.ZodTypeAny>(schema: T, component: ComponentSpec): z.output<T> {
+    const parsed = schema.safeParse(component.props);
+    if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        throw new Error(`${component.name} has invalid props (${issue.path.join(".") || "props"}: ${issue.message})`);
+    }
+    return parsed.data;
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Check generated markup: doctype, balanced and properly nested tags, unique
+ * ids, attributes that reference ids, URL schemes, alt text and interactive
+ * nesting.
+ * Returns no issues for a valid page.
+ */
+export function validateHtmlMarkup(html: string): HtmlMarkupIssue[] {
+    const issues: HtmlMarkupIssue[] = [];
+    const stack: Array<{ tag: string; line: number }> = [];
+    const ids = new Map<string, number>();
+    const references: Array<{ attribute: string; id: string; line: number }> = [];
+    const lineAt = (index: number) => html.slice(0, index).split("\n").length;
+    let titles = 0;
+
+    if (!/^\s*<!DOCTYPE html>/i.test(html)) {
+        issues.push({ line: 1, message: "Missing <!DOCTYPE html>" });
+    }
+
+    const tagPattern = /<!--[\s\S]*?-->|<!DOCTYPE[^>]*>|<(\/?)([a-zA-Z][a-zA-Z0-9-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*(\/?)>/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = tagPattern.exec(html))) {
+        const [whole, closing, rawTag, attributeText = ""] = match;
+        if (!rawTag) continue;
+
+        const tag = rawTag.toLowerCase();
+        const line = lineAt(match.index);
+
+        if (closing) {
+            const open = stack.pop();
+            if (!open) {
+                issues.push({ line, message: `Closing </${tag}> without an open element` });
+            } else if (open.tag !== tag) {
+                issues.push({ line, message: `Closing </${tag}> does not match <${open.tag}> opened on line ${open.line}` });
+                // Recover when the mismatch was only a missing close tag
+                const index = stack.map(entry => entry.tag).lastIndexOf(tag);
+                if (index !== -1) stack.splice(index);
+                else stack.push(open);
+            }
+            continue;
+        }
+
+        const attributes = new Map<string, string>();
+        const attributePattern = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+        let attribute: RegExpExecArray | null;
+        while ((attribute = attributePattern.exec(attributeText))) {
+            const name = attribute[1].toLowerCase();
+            if (attributes.has(name)) issues.push({ line, message: `<${tag}> repeats the ${name} attribute` });
+            attributes.set(name, attribute[2] ?? attribute[3] ?? attribute[4] ?? "");
+        }
+
+        const id = attributes.get("id");
+        if (id !== undefined) {
+            if (id === "" || /\s/.test(id)) issues.push({ line, message: `<${tag}> has an invalid id "${id}"` });
+            if (ids.has(id)) issues.push({ line, message: `Duplicate id "${id}" (first used on line ${ids.get(id)})` });
+            else ids.set(id, line);
+        }
+        ID_REFERENCE_ATTRIBUTES.forEach(name => {
+            attributes.get(name)?.split(/\s+/).filter(Boolean).forEach(reference => {
+                references.push({ attribute: name, id: reference, line });
+            });
+        });
+
+        URL_ATTRIBUTES.forEach(name => {
+            const url = attributes.get(name);
+            const scheme = url === undefined ? undefined : urlScheme(decodeEntities(url));
+            if (scheme !== undefined && !SAFE_URL_SCHEMES.has(scheme)) {
+                issues.push({ line, message: `<${tag}> ${name} uses a ${scheme}: URL` });
+            }
+        });
+
+        if (tag === "html" && !attributes.get("lang")) issues.push({ line, message: "<html> needs a lang attribute" });
+        if (tag === "img" && !attributes.has("alt")) issues.push({ line, message: "<img> needs an alt attribute" });
+        if (tag === "title" && !stack.some(entry => entry.tag === "svg")) titles++;
+        if (INTERACTIVE_ELEMENTS.has(tag) && stack.some(entry => INTERACTIVE_ELEMENTS.has(entry.tag))) {
+            issues.push({ line, message: `<${tag}> may not be nested inside another link or button` });
+        }
+        if (tag === "form" && stack.some(entry => entry.tag === "form")) {
+            issues.push({ line, message: "<form> may not be nested inside another form" });
+        }
+
+        if (VOID_ELEMENTS.has(tag)) continue;
+        if (whole.endsWith("/>") && !stack.some(entry => entry.tag === "svg")) {
+            issues.push({ line, message: `<${tag}/> is not a void element and needs a closing tag` });
+            continue;
+        }
+        if (whole.endsWith("/>")) continue;
+
+        if (RAW_TEXT_ELEMENTS.has(tag)) {
+            const end = html.toLowerCase().indexOf(`</${tag}`, tagPattern.lastIndex);
+            if (end === -1) {
+                issues.push({ line, message: `<${tag}> is never closed` });
+                break;
+            }
+            tagPattern.lastIndex = end + `</${tag}>`.length;
+            continue;
+        }
+
+        stack.push({ tag, line });
+    }
+
+    stack.forEach(open => issues.push({ line: open.line, message: `<${open.tag}> is never closed` }));
+    references.forEach(reference => {
+        if (!ids.has(reference.id)) {
+            issues.push({ line: reference.line, message: `${reference.attribute}="${reference.id}" does not match any id` });
+        }
+    });
+    if (titles !== 1) issues.push({ line: 1, message: "The page needs exactly one <title>" });
+
+    return issues.sort((a, b) => a.line - b.line);
+}
+
+/**
+ * Attribute text as the browser reads it, for the entities that could hide a URL scheme
+ */
+function decodeEntities(text: string): string {
+    const character = (code: number) => (code <= 0x10ffff ? String.fromCodePoint(code) : "\ufffd");
+    return text
+        .replace(/&#x([0-9a-f]+);?/gi, (_, hex: string) => character(parseInt(hex, 16)))
+        .replace(/&#(\d+);?/g, (_, decimal: string) => character(parseInt(decimal, 10)))
+        .replace(/&colon;/gi, ":")
+        .replace(/&quot;/g, "\"")
+        .replace(/&lt;/g, "<")
+        .replace(/&gt;/g, ">")
+        .replace(/&amp;/g, "&");
+}
+
+// ============================================================================
+// STYLES AND RUNTIME
+// ============================================================================
+
+const STYLES = `
+:root {
+  color-scheme: light dark;
+  --ui-bg: #f8fafc;
+  --ui-surface: #ffffff;
+  --ui-text: #0f172a;
+  --ui-muted: #64748b;
+  --ui-border: #e2e8f0;
+  --ui-primary: #7c3aed;
+  --ui-primary-contrast: #ffffff;
+  --ui-secondary: #475569;
+  --ui-accent: #0891b2;
+  --ui-destructive: #dc2626;
+  --ui-success: #059669;
+  --ui-warning: #d97706;
+  --ui-info: #2563eb;
+  --ui-radius: 0.75rem;
+  font-family: ui-sans-serif, system-ui, -apple-system, "Segoe UI", Roboto, sans-serif;
+  line-height: 1.5;
+}
+@media (prefers-color-scheme: dark) {
+  :root {
+    --ui-bg: #020617;
+    --ui-surface: #0f172a;
+    --ui-text: #f1f5f9;
+    --ui-muted: #94a3b8;
+    --ui-border: #1e293b;
+    --ui-primary: #8b5cf6;
+  }
+}
+*, *::before, *::after { box-sizing: border-box; }
+body { margin: 0; background: var(--ui-bg); color: var(--ui-text); }
+h1, h2, h3 { margin: 0 0 0.5rem; line-height: 1.2; }
+p { margin: 0 0 0.5rem; }
+img { max-width: 100%; }
+a { color: var(--ui-primary); }
+:focus-visible { outline: 2px solid var(--ui-primary); outline-offset: 2px; }
+.ui-page { min-height: 100vh; padding: 2rem 1rem; }
+.ui-page__container { display: flex; flex-direction: column; gap: 2rem; max-width: 72rem; margin: 0 auto; }
+.ui-muted { color: var(--ui-muted); }
+.ui-visually-hidden { position: absolute; width: 1px; height: 1px; padding: 0; margin: -1px; overflow: hidden; clip: rect(0, 0, 0, 0); white-space: nowrap; border: 0; }
+.ui-section-header { text-align: center; margin-bottom: 2rem; }
+.ui-section-header h2 { font-size: 2rem; }
+.ui-unknown { padding: 1rem; border: 1px dashed var(--ui-border); border-radius: var(--ui-radius); color: var(--ui-muted); }
+
+/* Buttons */
+.ui-button { --ui-color: var(--ui-primary); display: inline-flex; align-items: center; justify-content: center; gap: 0.5rem; padding: 0.625rem 1.25rem; border: 1px solid transparent; border-radius: 0.5rem; font: inherit; font-weight: 600; text-decoration: none; cursor: pointer; transition: filter 0.15s, background 0.15s; }
+.ui-button:disabled { opacity: 0.5; cursor: not-allowed; }
+.ui-button--solid { background: var(--ui-color); color: var(--ui-primary-contrast); }
+.ui-button--solid:hover:not(:disabled) { filter: brightness(1.1); }
+.ui-button--outline { background: transparent; border-color: var(--ui-color); color: var(--ui-color); }
+.ui-button--ghost { background: transparent; color: var(--ui-color); }
+.ui-button--ghost:hover:not(:disabled), .ui-button--outline:hover:not(:disabled) { background: color-mix(in srgb, var(--ui-color) 10%, transparent); }
+.ui-button--soft { background: color-mix(in srgb, var(--ui-color) 15%, transparent); color: var(--ui-color); }
+.ui-button--link { background: none; padding: 0; color: var(--ui-color); text-decoration: underline; }
+.ui-button--full { width: 100%; }
+.ui-color--primary { --ui-color: var(--ui-primary); }
+.ui-color--secondary { --ui-color: var(--ui-secondary); }
+.ui-color--accent { --ui-color: var(--ui-accent); }
+.ui-color--destructive { --ui-color: var(--ui-destructive); }
+.ui-color--success { --ui-color: var(--ui-success); }
+.ui-color--warning { --ui-color: var(--ui-warning); }
+.ui-color--info { --ui-color: var(--ui-info); }
+.ui-color--muted { --ui-color: var(--ui-muted); }
+.ui-color--ghost { --ui-color: var(--ui-text); }
+.ui-color--light { --ui-color: #ffffff; --ui-primary-contrast: #5b21b6; }
+.ui-size--xs { font-size: 0.75rem; }
+.ui-size--sm { font-size: 0.875rem; }
+.ui-button.ui-size--xs, .ui-button.ui-size--sm { padding: 0.375rem 0.75rem; }
+.ui-size--lg { font-size: 1.125rem; }
+.ui-size--xl, .ui-size--2xl { font-size: 1.25rem; }
+.ui-button.ui-size--xl, .ui-button.ui-size--2xl { padding: 0.875rem 2rem; }
+.ui-spinner { width: 1em; height: 1em; border: 2px solid currentColor; border-right-color: transparent; border-radius: 50%; animation: ui-spin 0.8s linear infinite; }
+@keyframes ui-spin { to { transform: rotate(360deg); } }
+.ui-badge { display: inline-block; padding: 0.125rem 0.5rem; border-radius: 999px; font-size: 0.75rem; font-weight: 600; background: color-mix(in srgb, var(--ui-primary) 15%, transparent); color: var(--ui-primary); }
+.ui-badge--success { background: color-mix(in srgb, var(--ui-success) 15%, transparent); color: var(--ui-success); }
+.ui-badge--warning { background: color-mix(in srgb, var(--ui-warning) 15%, transparent); color: var(--ui-warning); }
+.ui-badge--destructive { background: var(--ui-destructive); color: #ffffff; }
+
+/* Cards */
+.ui-card { display: flex; flex-direction: column; overflow: hidden; background: var(--ui-surface); border-radius: var(--ui-radius); box-shadow: 0 10px 25px -10px rgb(15 23 42 / 0.25); }
+.ui-card--outlined { box-shadow: none; border: 1px solid var(--ui-border); }
+.ui-card--filled { box-shadow: none; background: color-mix(in srgb, var(--ui-primary) 6%, var(--ui-surface)); }
+.ui-card--glass { background: color-mix(in srgb, var(--ui-surface) 70%, transparent); backdrop-filter: blur(12px); border: 1px solid var(--ui-border); }
+.ui-card--gradient { background: linear-gradient(135deg, var(--ui-primary), #9333ea); color: #ffffff; }
+.ui-card--gradient .ui-muted { color: rgb(255 255 255 / 0.8); }
+.ui-card--hoverable { transition: transform 0.2s, box-shadow 0.2s; }
+.ui-card--hoverable:hover { transform: translateY(-4px); box-shadow: 0 20px 35px -15px rgb(15 23 42 / 0.35); }
+.ui-card--image-left { flex-direction: row; }
+.ui-card--image-right { flex-direction: row-reverse; }
+.ui-card--image-left .ui-card__image, .ui-card--image-right .ui-card__image { width: 40%; object-fit: cover; }
+.ui-card__image { display: block; width: 100%; }
+.ui-card__body { display: flex; flex-direction: column; gap: 0.75rem; padding: 1.5rem; }
+.ui-padding--none .ui-card__body { padding: 0; }
+.ui-padding--xs .ui-card__body, .ui-padding--sm .ui-card__body { padding: 0.75rem; }
+.ui-padding--lg .ui-card__body, .ui-padding--xl .ui-card__body { padding: 2rem; }
+.ui-card__header { display: flex; justify-content: space-between; align-items: flex-start; gap: 1rem; }
+.ui-card__title { font-size: 1.125rem; }
+.ui-card__footer { display: flex; flex-wrap: wrap; align-items: center; gap: 0.75rem; padding-top: 0.75rem; border-top: 1px solid var(--ui-border); }
+.ui-radius--none { border-radius: 0; }
+.ui-radius--sm { border-radius: 0.25rem; }
+.ui-radius--md { border-radius: 0.5rem; }
+.ui-radius--xl { border-radius: 1.5rem; }
+.ui-shadow--none { box-shadow: none; }
+
+/* Pricing */
+.ui-pricing__toggle { display: flex; justify-content: center; align-items: center; gap: 0.75rem; margin-bottom: 2rem; }
+.ui-switch { position: relative; width: 3.5rem; height: 2rem; padding: 0; border: 0; border-radius: 999px; background: var(--ui-border); cursor: pointer; }
+.ui-switch[aria-checked="true"] { background: var(--ui-primary); }
+.ui-switch__thumb { position: absolute; top: 0.25rem; left: 0.25rem; width: 1.5rem; height: 1.5rem; border-radius: 50%; background: #ffffff; transition: transform 0.2s; }
+.ui-switch[aria-checked="true"] .ui-switch__thumb { transform: translateX(1.5rem); }
+.ui-pricing__tiers { display: grid; gap: 1.5rem; grid-template-columns: repeat(auto-fit, minmax(15rem, 1fr)); align-items: stretch; }
+.ui-tier { position: relative; display: flex; flex-direction: column; gap: 1rem; padding: 2rem 1.5rem; background: var(--ui-surface); border: 1px solid var(--ui-border); border-radius: 1rem; }
+.ui-tier--compact { padding: 1.25rem 1rem; }
+.ui-tier--featured { background: linear-gradient(135deg, #7c3aed, #6d28d9); color: #ffffff; border-color: transparent; box-shadow: 0 25px 50px -20px rgb(124 58 237 / 0.6); }
+.ui-tier--featured .ui-tier__description, .ui-tier--featured .ui-muted { color: rgb(255 255 255 / 0.8); }
+.ui-tier__badge { position: absolute; top: -0.75rem; left: 50%; transform: translateX(-50%); padding: 0.25rem 0.875rem; border-radius: 999px; background: #fbbf24; color: #78350f; font-size: 0.75rem; font-weight: 700; white-space: nowrap; }
+.ui-tier__name { font-size: 1.25rem; text-align: center; display: block; }
+.ui-tier__description { text-align: center; color: var(--ui-muted); }
+.ui-tier__price { text-align: center; display: block; }
+.ui-tier__amount { font-size: 2rem; font-weight: 800; }
+.ui-tier__features { list-style: none; margin: 0; padding: 0; display: flex; flex-direction: column; gap: 0.625rem; flex: 1; }
+.ui-tier__features li { display: flex; gap: 0.625rem; }
+.ui-tier__mark { color: var(--ui-success); font-weight: 700; }
+.ui-tier--featured .ui-tier__mark { color: #ffffff; }
+.ui-tier__feature--excluded { opacity: 0.55; }
+.ui-tier__feature--excluded .ui-tier__mark { color: var(--ui-muted); }
+.ui-tier__feature--highlight { font-weight: 600; }
+.ui-faq { max-width: 48rem; margin: 3rem auto 0; }
+.ui-faq__item { padding: 1rem 0; border-bottom: 1px solid var(--ui-border); }
+.ui-faq__item summary { font-weight: 600; cursor: pointer; }
+.ui-faq__item p { margin-top: 0.5rem; color: var(--ui-muted); }
+
+/* Tables */
+.ui-table-wrapper { overflow-x: auto; }
+.ui-table { width: 100%; border-collapse: collapse; background: var(--ui-surface); }
+.ui-table th, .ui-table td { padding: 0.75rem 1rem; border-bottom: 1px solid var(--ui-border); text-align: left; }
+.ui-table thead th { font-size: 0.875rem; color: var(--ui-muted); }
+.ui-pricing__comparison td { text-align: center; }
+.ui-pricing__comparison thead th.ui-tier--featured .ui-tier__name { color: #ffffff; }
+
+/* Dashboard */
+.ui-dashboard { display: grid; min-height: 32rem; overflow: hidden; background: var(--ui-surface); border: 1px solid var(--ui-border); border-radius: var(--ui-radius); }
+.ui-dashboard--with-sidebar { grid-template-columns: 16rem 1fr; }
+.ui-dashboard--sidebar-right { grid-template-columns: 1fr 16rem; }
+.ui-dashboard--sidebar-right .ui-dashboard__sidebar { order: 2; border-right: 0; border-left: 1px solid var(--ui-border); }
+.ui-dashboard__sidebar { display: flex; flex-direction: column; gap: 1.5rem; padding: 1.25rem; border-right: 1px solid var(--ui-border); }
+.ui-dashboard__sidebar--narrow { width: 12rem; }
+.ui-dashboard__brand { display: flex; align-items: center; gap: 0.75rem; }
+.ui-dashboard__brand img { height: 2rem; }
+.ui-dashboard__logo { display: grid; place-items: center; width: 2rem; height: 2rem; border-radius: 0.5rem; background: var(--ui-primary); color: #ffffff; font-weight: 700; }
+.ui-dashboard__user { display: flex; flex-direction: column; margin-top: auto; font-size: 0.875rem; }
+.ui-nav { list-style: none; margin: 0; padding: 0; display: flex; flex-direction: column; gap: 0.25rem; }
+.ui-nav--nested { margin: 0.25rem 0 0 1.5rem; }
+.ui-nav__link { display: flex; align-items: center; gap: 0.625rem; padding: 0.5rem 0.75rem; border-radius: 0.5rem; color: var(--ui-text); text-decoration: none; }
+.ui-nav__link:hover { background: color-mix(in srgb, var(--ui-primary) 8%, transparent); }
+.ui-nav__link--active { background: color-mix(in srgb, var(--ui-primary) 15%, transparent); color: var(--ui-primary); font-weight: 600; }
+.ui-nav__link .ui-badge { margin-left: auto; }
+.ui-dashboard__main { display: flex; flex-direction: column; min-width: 0; }
+.ui-dashboard__header { display: flex; justify-content: space-between; align-items: center; gap: 1rem; padding: 1rem 1.5rem; border-bottom: 1px solid var(--ui-border); }
+.ui-dashboard__title { font-size: 1.25rem; margin: 0; }
+.ui-dashboard__actions { display: flex; align-items: center; gap: 0.5rem; }
+.ui-dashboard__content { display: flex; flex-direction: column; gap: 1.5rem; padding: 1.5rem; }
+.ui-dashboard__content.ui-padding--none { padding: 0; }
+.ui-dashboard__content.ui-padding--sm { padding: 0.75rem; }
+.ui-dashboard__content.ui-padding--lg { padding: 2.5rem; }
+.ui-breadcrumbs { list-style: none; display: flex; gap: 0.5rem; margin: 0 0 0.25rem; padding: 0; font-size: 0.875rem; color: var(--ui-muted); }
+.ui-breadcrumbs li + li::before { content: "/"; margin-right: 0.5rem; }
+
+/* Charts and tabs */
+.ui-chart { margin: 0; padding: 1.5rem; background: var(--ui-surface); border: 1px solid var(--ui-border); border-radius: var(--ui-radius); }
+.ui-chart__caption { display: flex; flex-direction: column; margin-bottom: 1rem; }
+.ui-chart__caption strong { font-size: 1.125rem; }
+.ui-tabs { display: inline-flex; gap: 0.25rem; padding: 0.25rem; margin-bottom: 1rem; border-radius: 0.5rem; background: var(--ui-bg); }
+.ui-tabs [role="tab"] { padding: 0.375rem 0.875rem; border: 0; border-radius: 0.375rem; background: transparent; color: var(--ui-muted); font: inherit; font-size: 0.875rem; cursor: pointer; }
+.ui-tabs [role="tab"][aria-selected="true"] { background: var(--ui-surface); color: var(--ui-text); font-weight: 600; box-shadow: 0 1px 3px rgb(15 23 42 / 0.15); }
+.ui-chart__svg { display: block; width: 100%; height: auto; }
+.ui-chart__grid { stroke: var(--ui-border); }
+.ui-chart__grid--dashed { stroke-dasharray: 4 4; }
+.ui-chart__grid--dotted { stroke-dasharray: 1 4; }
+.ui-chart__tick { fill: var(--ui-muted); font-size: 12px; }
+.ui-chart__hole { fill: var(--ui-surface); }
+.ui-chart__legend { list-style: none; display: flex; flex-wrap: wrap; justify-content: center; gap: 1rem; margin: 1rem 0 0; padding: 0; font-size: 0.875rem; }
+.ui-chart__legend li { display: flex; align-items: center; gap: 0.375rem; }
+.ui-chart__swatch { width: 0.75rem; height: 0.75rem; border-radius: 0.1875rem; }
+
+/* Forms */
+.ui-form { display: flex; flex-direction: column; gap: 1.25rem; max-width: 40rem; width: 100%; margin: 0 auto; padding: 2rem; background: var(--ui-surface); border: 1px solid var(--ui-border); border-radius: var(--ui-radius); }
+.ui-form--inline { flex-direction: row; flex-wrap: wrap; align-items: flex-end; max-width: none; }
+.ui-form__title { font-size: 1.5rem; }
+.ui-form__fields { display: flex; flex-wrap: wrap; gap: 1rem; }
+.ui-form__section { margin: 0; padding: 0; border: 0; }
+.ui-form__section legend, .ui-form__section summary { font-weight: 700; margin-bottom: 0.75rem; }
+.ui-field { display: flex; flex-direction: column; gap: 0.375rem; flex: 1 1 100%; }
+.ui-field--half { flex-basis: calc(50% - 0.5rem); }
+.ui-field--third { flex-basis: calc(33.333% - 0.667rem); }
+.ui-field--quarter { flex-basis: calc(25% - 0.75rem); }
+.ui-form--horizontal .ui-field { flex-direction: row; align-items: center; }
+.ui-form--horizontal .ui-field__label { flex: 0 0 10rem; }
+.ui-field__label { font-size: 0.875rem; font-weight: 600; }
+.ui-field__help { font-size: 0.8125rem; color: var(--ui-muted); margin: 0; }
+.ui-field__group { display: flex; flex-direction: column; gap: 0.5rem; margin: 0; padding: 0; border: 0; }
+.ui-field__group legend { font-size: 0.875rem; font-weight: 600; margin-bottom: 0.375rem; }
+.ui-input { width: 100%; padding: 0.625rem 0.75rem; border: 1px solid var(--ui-border); border-radius: 0.5rem; background: var(--ui-bg); color: inherit; font: inherit; }
+.ui-input:focus { border-color: var(--ui-primary); }
+.ui-choice { display: flex; align-items: center; gap: 0.5rem; }
+.ui-choice input { accent-color: var(--ui-primary); width: 1rem; height: 1rem; }
+.ui-form__actions { display: flex; gap: 0.75rem; justify-content: flex-end; }
+.ui-form__actions--left { justify-content: flex-start; }
+.ui-form__actions--center { justify-content: center; }
+.ui-form__status { margin: 0; color: var(--ui-success); font-size: 0.875rem; }
+.ui-form__status:empty { display: none; }
+
+/* Modals */
+.ui-modal-trigger { display: flex; justify-content: center; }
+.ui-modal { width: calc(100% - 2rem); max-width: 28rem; padding: 0; border: 0; border-radius: 1rem; background: var(--ui-surface); color: var(--ui-text); box-shadow: 0 25px 50px -12px rgb(15 23 42 / 0.5); }
+.ui-modal::backdrop { background: rgb(0 0 0 / 0.5); }
+.ui-modal--blur::backdrop { backdrop-filter: blur(4px); }
+.ui-modal--no-overlay::backdrop { background: transparent; }
+.ui-modal--sm { max-width: 24rem; }
+.ui-modal--lg { max-width: 32rem; }
+.ui-modal--xl { max-width: 36rem; }
+.ui-modal--full { max-width: 90vw; max-height: 90vh; }
+.ui-modal--top { margin-top: 5rem; }
+.ui-modal--bottom { margin-bottom: 5rem; }
+.ui-modal--left { margin-left: 5rem; }
+.ui-modal--right { margin-right: 5rem; }
+.ui-modal--destructive { border-top: 4px solid var(--ui-destructive); }
+.ui-modal--warning { border-top: 4px solid var(--ui-warning); }
+.ui-modal--success { border-top: 4px solid var(--ui-success); }
+.ui-modal--alert { border-top: 4px solid var(--ui-info); }
+.ui-modal__panel { display: flex; flex-direction: column; gap: 1rem; padding: 1.5rem; }
+.ui-modal__header { display: flex; align-items: flex-start; gap: 1rem; }
+.ui-modal__header > div { flex: 1; }
+.ui-modal__icon { display: grid; place-items: center; width: 2.5rem; height: 2.5rem; border-radius: 50%; background: color-mix(in srgb, var(--ui-primary) 15%, transparent); color: var(--ui-primary); }
+.ui-modal__title { font-size: 1.125rem; margin: 0; }
+.ui-modal__close { padding: 0.5rem; margin: -0.5rem; border: 0; border-radius: 0.5rem; background: transparent; color: var(--ui-muted); font: inherit; cursor: pointer; }
+.ui-modal__body { display: flex; flex-direction: column; gap: 1rem; }
+.ui-modal__footer { display: flex; justify-content: flex-end; flex-wrap: wrap; gap: 0.75rem; }
+
+/* Testimonials */
+.ui-testimonials__grid { display: grid; gap: 1.5rem; grid-template-columns: repeat(auto-fit, minmax(min(100%, calc(100% / var(--ui-columns, 3) - 1.5rem)), 1fr)); }
+.ui-testimonials__grid--stack, .ui-testimonials__grid--quotes { grid-template-columns: 1fr; max-width: 48rem; margin: 0 auto; }
+.ui-testimonials__grid--masonry { display: block; columns: var(--ui-columns, 3) 16rem; }
+.ui-testimonials__grid--masonry .ui-testimonial { break-inside: avoid; margin-bottom: 1.5rem; }
+.ui-testimonials__grid--featured .ui-testimonial--featured { grid-column: 1 / -1; }
+.ui-testimonial { display: flex; flex-direction: column; gap: 1rem; margin: 0; padding: 1.5rem; background: var(--ui-surface); border-radius: 1rem; box-shadow: 0 10px 25px -12px rgb(15 23 42 / 0.25); }
+.ui-testimonials--outlined .ui-testimonial { box-shadow: none; border: 1px solid var(--ui-border); }
+.ui-testimonials--minimal .ui-testimonial { box-shadow: none; background: transparent; padding: 0; }
+.ui-testimonials--gradient .ui-testimonial { background: linear-gradient(135deg, color-mix(in srgb, var(--ui-primary) 12%, var(--ui-surface)), var(--ui-surface)); }
+.ui-testimonial--featured { border: 2px solid var(--ui-primary); }
+.ui-testimonials__grid--quotes .ui-testimonial__quote p { font-size: 1.5rem; }
+.ui-testimonial__quote { margin: 0; font-size: 1.0625rem; }
+.ui-testimonial__quote--classic p::before, .ui-testimonial__quote--modern p::before { content: "\\201C"; color: var(--ui-primary); font-size: 2.5em; line-height: 0; vertical-align: -0.4em; margin-right: 0.125rem; }
+.ui-testimonial__quote--minimal p::before { content: "\\2014  "; color: var(--ui-muted); }
+.ui-testimonial__author { display: flex; align-items: center; gap: 0.75rem; margin-top: auto; font-size: 0.875rem; }
+.ui-testimonial__author > div { display: flex; flex-direction: column; }
+.ui-testimonial__logo { height: 1.5rem; margin-left: auto; }
+.ui-avatar { width: 2.5rem; height: 2.5rem; border-radius: 50%; object-fit: cover; }
+.ui-rating { margin: 0; color: #f59e0b; letter-spacing: 0.125rem; }
+.ui-stats { display: flex; justify-content: center; gap: 3rem; margin: 0 0 2rem; }
+.ui-stats div { text-align: center; }
+.ui-stats dt { color: var(--ui-muted); font-size: 0.875rem; }
+.ui-stats dd { margin: 0; font-size: 1.75rem; font-weight: 800; }
+.ui-carousel { max-width: 48rem; margin: 0 auto; }
+.ui-carousel__nav { display: flex; justify-content: center; align-items: center; gap: 1rem; margin-top: 1.5rem; }
+.ui-carousel__arrow { width: 2.5rem; height: 2.5rem; border: 1px solid var(--ui-border); border-radius: 50%; background: var(--ui-surface); color: var(--ui-text); font-size: 1.25rem; cursor: pointer; }
+.ui-carousel__dots { display: flex; gap: 0.5rem; }
+.ui-carousel__dot { width: 0.625rem; height: 0.625rem; padding: 0; border: 0; border-radius: 999px; background: var(--ui-border); cursor: pointer; transition: width 0.2s; }
+.ui-carousel__dot[aria-current="true"] { width: 1.5rem; background: var(--ui-primary); }
+.ui-testimonials__cta { text-align: center; margin-top: 2rem; }
+
+@media (max-width: 48rem) {
+  .ui-dashboard--with-sidebar, .ui-dashboard--sidebar-right { grid-template-columns: 1fr; }
+  .ui-dashboard__sidebar { border-right: 0; border-bottom: 1px solid var(--ui-border); }
+  .ui-card--image-left, .ui-card--image-right { flex-direction: column; }
+  .ui-card--image-left .ui-card__image, .ui-card--image-right .ui-card__image { width: 100%; }
+  .ui-field--half, .ui-field--third, .ui-field--quarter { flex-basis: 100%; }
+}
+@media (prefers-reduced-motion: reduce) {
+  *, *::before, *::after { animation: none !important; transition: none !important; }
+}
+`;
+
+const RUNTIME = `
+(function () {
+  // Modals: native <dialog> with the open, close, overlay and Escape options
+  document.querySelectorAll("[data-modal-open]").forEach(function (trigger) {
+    trigger.addEventListener("click", function () {
+      var dialog = document.getElementById(trigger.getAttribute("data-modal-open"));
+      if (dialog && !dialog.open) dialog.showModal();
+    });
+  });
+  document.querySelectorAll("dialog.ui-modal").forEach(function (dialog) {
+    dialog.querySelectorAll("[data-modal-close]").forEach(function (button) {
+      button.addEventListener("click", function () { dialog.close(); });
+    });
+    if (dialog.hasAttribute("data-close-on-overlay")) {
+      dialog.addEventListener("click", function (event) {
+        if (event.target === dialog) dialog.close();
+      });
+    }
+    if (dialog.hasAttribute("data-keep-on-escape")) {
+      dialog.addEventListener("cancel", function (event) { event.preventDefault(); });
+    }
+    if (dialog.hasAttribute("data-open-on-load")) dialog.showModal();
+  });
+
+  // Tabs: click or arrow keys select a tab and show its panel
+  document.querySelectorAll("[role=tablist]").forEach(function (tablist) {
+    var tabs = Array.prototype.slice.call(tablist.querySelectorAll("[role=tab]"));
+    function select(tab) {
+      tabs.forEach(function (other) {
+        var selected = other === tab;
+        other.setAttribute("aria-selected", String(selected));
+        other.tabIndex = selected ? 0 : -1;
+        var panel = document.getElementById(other.getAttribute("aria-controls"));
+        if (panel) panel.hidden = !selected;
+      });
+    }
+    tabs.forEach(function (tab, index) {
+      tab.addEventListener("click", function () { select(tab); });
+      tab.addEventListener("keydown", function (event) {
+        var move = event.key === "ArrowRight" ? 1 : event.key === "ArrowLeft" ? -1 : 0;
+        if (!move) return;
+        event.preventDefault();
+        var next = tabs[(index + move + tabs.length) % tabs.length];
+        select(next);
+        next.focus();
+      });
+    });
+  });
+
+  // Pricing: the billing switch swaps every price between monthly and yearly
+  document.querySelectorAll("[data-billing-toggle]").forEach(function (toggle) {
+    var table = toggle.closest(".ui-pricing");
+    toggle.addEventListener("click", function () {
+      var yearly = toggle.getAttribute("aria-checked") !== "true";
+      toggle.setAttribute("aria-checked", String(yearly));
+      table.querySelectorAll("[data-monthly]").forEach(function (price) {
+        price.textContent = price.getAttribute(yearly ? "data-yearly" : "data-monthly");
+      });
+    });
+  });
+
+  // Carousels: arrows, dots and optional autoplay that pauses on hover and focus
+  document.querySelectorAll("[data-carousel]").forEach(function (carousel) {
+    var slides = carousel.querySelectorAll("[data-slide]");
+    var dots = carousel.querySelectorAll("[data-slide-to]");
+    var current = 0;
+    var timer;
+    function show(index) {
+      current = (index + slides.length) % slides.length;
+      slides.forEach(function (slide, i) { slide.hidden = i !== current; });
+      dots.forEach(function (dot, i) { dot.setAttribute("aria-current", String(i === current)); });
+    }
+    var prev = carousel.querySelector("[data-carousel-prev]");
+    var next = carousel.querySelector("[data-carousel-next]");
+    if (prev) prev.addEventListener("click", function () { show(current - 1); });
+    if (next) next.addEventListener("click", function () { show(current + 1); });
+    dots.forEach(function (dot) {
+      dot.addEventListener("click", function () { show(Number(dot.getAttribute("data-slide-to"))); });
+    });
+
+    var interval = Number(carousel.getAttribute("data-autoplay"));
+    if (interval > 0 && slides.length > 1 && !window.matchMedia("(prefers-reduced-motion: reduce)").matches) {
+      var start = function () { timer = window.setInterval(function () { show(current + 1); }, interval); };
+      var stop = function () { window.clearInterval(timer); };
+      carousel.addEventListener("mouseenter", stop);
+      carousel.addEventListener("mouseleave", start);
+      carousel.addEventListener("focusin", stop);
+      carousel.addEventListener("focusout", start);
+      start();
+    }
+  });
+
+  // Forms: keep the page in place; the export has no backend to submit to
+  document.querySelectorAll("form[data-ui-form]").forEach(function (form) {
+    form.addEventListener("submit", function (event) {
+      event.preventDefault();
+      var status = form.querySelector("[role=status]");
+      if (status) status.textContent = "Submitted. Connect this form to your backend to receive the data.";
+    });
+  });
+})();
+`;
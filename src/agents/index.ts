@@ -7,6 +7,25 @@
 export * from "./ui-architect";
 export * from "./design-critic";
 export * from "./accessibility-agent";
+export * from "./agent-registry";
+export * from "./code-formatter";
+export * from "./component-sources";
+export * from "./config-importer";
+export * from "./export-archive";
 export * from "./export-engineer";
+export * from "./html-exporter";
+export * from "./intent-parser";
+export * from "./json-patch";
+export * from "./jsx-writer";
+export * from "./mcp-tools";
+export * from "./model-provider";
 export * from "./orchestrator";
+export * from "./plan-executor";
+export * from "./proposed-changes";
+export * from "./quality-gate";
+export * from "./quality-gate-reports";
+export * from "./session-store";
+export * from "./spec-diff";
+export * from "./spec-migrations";
+export * from "./spec-tree";
 export * from "./types";
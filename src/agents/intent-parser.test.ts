@@ -0,0 +1,46 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseModificationIntent } from "./intent-parser";
+import { UISpec } from "./types";
+
+const spec: UISpec = {
+    id: "test",
+    components: [
+        { name: "Card", props: { headerTitle: "Starter" } },
+        { name: "Card", props: { headerTitle: "Pro" } },
+        { name: "Button", props: { text: "Sign up" } },
+        { name: "Button", props: { text: "Log in" } },
+    ],
+};
+
+describe("parseModificationIntent", () => {
+    it("updates a prop through a possessive reference", () => {
+        const intent = parseModificationIntent(`change the second card's title to "Team"`, spec);
+
+        assert.deepEqual(intent.issues, []);
+        assert.deepEqual(intent.patch, [{ op: "replace", path: "/components/1/props/headerTitle", value: "Team" }]);
+    });
+
+    it("tells components apart by their content before the prop words", () => {
+        const intent = parseModificationIntent(`change the button "Sign up" text to "Join"`, spec);
+
+        assert.deepEqual(intent.issues, []);
+        assert.deepEqual(intent.unrecognized, []);
+        assert.deepEqual(intent.patch, [{ op: "replace", path: "/components/2/props/text", value: "Join" }]);
+    });
+
+    it("reports an ambiguous reference instead of guessing", () => {
+        const intent = parseModificationIntent(`change the button text to "Join"`, spec);
+
+        assert.deepEqual(intent.operations, []);
+        assert.equal(intent.issues[0]?.kind, "ambiguous");
+        assert.deepEqual(intent.issues[0].candidates?.map(candidate => candidate.path), [[2], [3]]);
+    });
+
+    it("moves a component into another", () => {
+        const intent = parseModificationIntent("move the last button into the second card", spec);
+
+        assert.deepEqual(intent.issues, []);
+        assert.deepEqual(intent.operations.map(operation => operation.op === "move" && operation.toPath), [[1, 0]]);
+    });
+});
@@ -0,0 +1,879 @@
+/**
+ * Modification Intent Parser
+ * ==========================
+ * Turns a modification request ("make the second card's title say
+ * \"Pro\"", "remove the chart") into edit operations on specific components,
+ * and the JSON Patch (see json-patch) that applies them.
+ *
+ * Grammar (clauses are separated by ".", ";", "," or "then"):
+ * - add:     add a <type> [that says "..."] [to|into <ref> [footer]] [at the top|before <ref>|after <ref>]
+ * - remove:  remove|delete <ref>
+ * - update:  set|change|make <ref>'s <prop> to|say <value>, make <ref> bigger|smaller|more modern
+ * - replace: replace|swap <ref> with a <type>
+ * - move:    move <ref> to the top|to the bottom|up|down|before <ref>|after <ref>|into <ref>
+ *
+ * A component reference (<ref>) combines any of:
+ * - type:    "the card", "buttons" (plural means all of them)
+ * - ordinal: "the second card", "the 3rd button", "the last chart", "all cards"
+ * - id:      "#hero", "the card with id hero" (matches the `id` prop)
+ * - content: "the button \"Sign up\"", "the card that says \"Pro\""
+ * - scope:   "the button in the second card"
+ * - "it":    the component the request referred to last
+ *
+ * References that match several components without an ordinal, or none at
+ * all, are reported as issues instead of guessing.
+ */
+
+import { ComponentPath, ComponentSpec, UISpec } from "./types";
+import {
+    ComponentNode,
+    componentPointer,
+    escapePointerToken,
+    flattenComponents,
+    formatComponentPath,
+    getComponentAt,
+    getComponentSlots,
+    removeComponentAt,
+} from "./spec-tree";
+import { applyJsonPatch, JsonPatch } from "./json-patch";
+import { componentRegistry } from "@/tambo/component-registry";
+
+/**
+ * A single edit. Operations apply in order, and each path refers to the
+ * spec as left by the operations before it.
+ */
+export type EditOperation =
+    | { op: "add"; path: ComponentPath; component: ComponentSpec; clause: string }
+    | { op: "remove"; path: ComponentPath; clause: string }
+    | { op: "update"; path: ComponentPath; propPath: string; value: unknown; clause: string }
+    | { op: "replace"; path: ComponentPath; component: ComponentSpec; clause: string }
+    | { op: "move"; path: ComponentPath; toPath: ComponentPath; clause: string };
+
+export interface ComponentMatch {
+    path: ComponentPath;
+    name: string;
+    /** Phrase that selects exactly this component, e.g. "the second card" */
+    reference: string;
+}
+
+export interface IntentIssue {
+    kind: "ambiguous" | "not_found" | "invalid_prop";
+    clause: string;
+    message: string;
+    /** Components an ambiguous reference could mean */
+    candidates?: ComponentMatch[];
+}
+
+export interface ModificationIntent {
+    operations: EditOperation[];
+    /** The operations as one JSON Patch against the spec that was parsed */
+    patch: JsonPatch;
+    issues: IntentIssue[];
+    /** Clauses that did not match the grammar */
+    unrecognized: string[];
+}
+
+export interface IntentParserOptions {
+    /** Build the component for add/replace operations. Default: no props */
+    createComponent?: (name: string, clause: string) => ComponentSpec;
+}
+
+interface ComponentReference {
+    raw: string;
+    type?: string;
+    ordinal?: number | "last" | "all";
+    id?: string;
+    text?: string;
+    pronoun?: boolean;
+    within?: ComponentReference;
+}
+
+type Resolution =
+    | { nodes: ComponentNode[] }
+    | { issue: Omit<IntentIssue, "clause"> };
+
+/** Words for each component, longest phrases first */
+const TYPE_WORDS: Array<[RegExp, string]> = [
+    [/\bpricing[ -]tables?\b|\bpricing\b|\bplans?\b/, "PricingTable"],
+    [/\btestimonial[ -]sections?\b|\btestimonials?\b|\breviews?\b/, "TestimonialSection"],
+    [/\bdashboard[ -]layouts?\b|\bdashboards?\b/, "DashboardLayout"],
+    [/\bcharts?\b|\bgraphs?\b/, "Chart"],
+    [/\bforms?\b/, "Form"],
+    [/\bmodals?\b|\bdialogs?\b|\bpopups?\b/, "Modal"],
+    [/\bcards?\b/, "Card"],
+    [/\bbuttons?\b|\bctas?\b/, "Button"],
+];
+
+/** Type words ending in "s" that still name a single component */
+const SINGULAR_WORDS = ["pricing", "plans", "testimonials", "reviews"];
+
+const ORDINAL_WORDS = ["first", "second", "third", "fourth", "fifth", "sixth", "seventh", "eighth", "ninth", "tenth"];
+
+/** Prop names people use, mapped to the props they can mean, in order of preference */
+const PROP_ALIASES: Record<string, string[]> = {
+    title: ["title", "headerTitle", "headline", "pageTitle"],
+    heading: ["headline", "title", "headerTitle", "pageTitle"],
+    headline: ["headline", "title", "headerTitle"],
+    subtitle: ["subtitle", "headerSubtitle", "subheadline", "description", "pageDescription"],
+    subheading: ["subheadline", "subtitle", "headerSubtitle"],
+    description: ["description", "pageDescription", "subtitle", "subheadline", "headerSubtitle"],
+    text: ["text", "content", "ctaText", "submitText"],
+    label: ["text", "ariaLabel", "aria-label"],
+    content: ["content", "text"],
+    body: ["content", "text"],
+    footer: ["footerContent"],
+    image: ["imageUrl"],
+    color: ["color", "colorScheme"],
+    style: ["variant", "cardStyle"],
+};
+
+/** Text props, in order of preference, set by `add a button that says "..."` */
+const TEXT_PROPS = ["text", "title", "headerTitle", "headline", "content", "pageTitle"];
+
+/** Props shown to tell components apart in ambiguity reports */
+const LABEL_PROPS = ["title", "headerTitle", "headline", "text", "pageTitle", "content"];
+
+/** Adjectives, with the props they set */
+const ADJECTIVES: Array<[RegExp, Record<string, unknown>]> = [
+    [/^(?:a bit |much )?(?:bigger|larger)$/, { size: "xl" }],
+    [/^(?:a bit |much )?smaller$/, { size: "sm" }],
+    [/^(?:more )?modern$/, { variant: "glass" }],
+    [/^full[ -]width$/, { fullWidth: true }],
+    [/^disabled$/, { disabled: true }],
+];
+
+const QUOTED = /["“”]([^"“”]*)["“”]/;
+
+/**
+ * Parse a modification request against the spec it modifies
+ */
+export function parseModificationIntent(
+    request: string,
+    uiSpec: UISpec,
+    options: IntentParserOptions = {}
+): ModificationIntent {
+    const parser = new IntentParser(uiSpec, options);
+    splitClauses(request).forEach(clause => parser.parseClause(clause));
+    return parser.result;
+}
+
+/**
+ * JSON Patch for an edit, against the components it applies to
+ */
+function toJsonPatch(components: ComponentSpec[], operation: EditOperation): JsonPatch {
+    const pointer = componentPointer(operation.path);
+    const parentPath = operation.path.slice(0, -1);
+    const parent = parentPath.length > 0 ? getComponentAt(components, parentPath) : undefined;
+
+    switch (operation.op) {
+        case "add":
+            // The first child creates the children array
+            return parent && !parent.children
+                ? [{ op: "add", path: `${componentPointer(parentPath)}/children`, value: [operation.component] }]
+                : [{ op: "add", path: pointer, value: operation.component }];
+        case "remove":
+            // Don't leave an empty children array behind
+            return parent?.children?.length === 1
+                ? [{ op: "remove", path: `${componentPointer(parentPath)}/children` }]
+                : [{ op: "remove", path: pointer }];
+        case "update":
+            return propPatch(
+                getComponentAt(components, operation.path)!.props,
+                `${pointer}/props`,
+                parsePropPath(operation.propPath),
+                operation.value
+            );
+        case "replace": {
+            const current = getComponentAt(components, operation.path)!;
+            const replacement: ComponentSpec = { ...operation.component };
+            if (current.slot) replacement.slot = current.slot;
+            else delete replacement.slot;
+            // Children stay when the new component has somewhere to put them
+            if (!replacement.children && current.children && getComponentSlots(replacement.name).length > 0) {
+                replacement.children = current.children;
+            }
+            return [{ op: "replace", path: pointer, value: replacement }];
+        }
+        case "move": {
+            const patch: JsonPatch = [];
+            const destination = operation.toPath.slice(0, -1);
+
+            // Moving into a component without children creates its children array first
+            if (destination.length > 0) {
+                const target = pathBeforeRemove(destination, operation.path);
+                if (!getComponentAt(components, target)?.children) {
+                    patch.push({ op: "add", path: `${componentPointer(target)}/children`, value: [] });
+                }
+            }
+
+            patch.push({ op: "move", from: pointer, path: componentPointer(operation.toPath) });
+            if (parent?.children?.length === 1) {
+                const movedParent = pathAfterInsert(parentPath, operation.toPath);
+                patch.push({ op: "remove", path: `${componentPointer(movedParent)}/children` });
+            }
+            return patch;
+        }
+    }
+}
+
+/**
+ * Set a prop: "replace" when it exists, otherwise "add" at the first missing level
+ */
+function propPatch(props: Record<string, unknown>, base: string, path: Array<string | number>, value: unknown): JsonPatch {
+    let container: unknown = props;
+
+    for (let depth = 0; depth < path.length; depth++) {
+        const key = path[depth];
+        const pointer = `${base}${path.slice(0, depth + 1).map(token => `/${escapePointerToken(token)}`).join("")}`;
+        const exists = typeof container === "object" && container !== null &&
+            Object.prototype.hasOwnProperty.call(container, key);
+
+        if (!exists) {
+            const rest = path.slice(depth + 1);
+            return [{
+                op: "add",
+                path: pointer,
+                value: rest.length === 0 ? value : setAtPath(typeof rest[0] === "number" ? [] : {}, rest, value),
+            }];
+        }
+
+        container = (container as Record<string | number, unknown>)[key];
+    }
+
+    return [{ op: "replace", path: `${base}${path.map(token => `/${escapePointerToken(token)}`).join("")}`, value }];
+}
+
+/**
+ * Where the component at `path`, given after `removed` was taken out, was before that
+ */
+function pathBeforeRemove(path: ComponentPath, removed: ComponentPath): ComponentPath {
+    const depth = removed.length - 1;
+    const shifted = depth < path.length &&
+        removed.slice(0, depth).every((index, level) => path[level] === index) &&
+        removed[depth] <= path[depth];
+
+    return shifted ? path.map((index, level) => (level === depth ? index + 1 : index)) : path;
+}
+
+/**
+ * Where the component at `path` ends up once another is inserted at `inserted`
+ */
+function pathAfterInsert(path: ComponentPath, inserted: ComponentPath): ComponentPath {
+    const depth = inserted.length - 1;
+    const shifted = depth < path.length &&
+        inserted.slice(0, depth).every((index, level) => path[level] === index) &&
+        inserted[depth] <= path[depth];
+
+    return shifted ? path.map((index, level) => (level === depth ? index + 1 : index)) : path;
+}
+
+class IntentParser {
+    result: ModificationIntent = { operations: [], patch: [], issues: [], unrecognized: [] };
+    private spec: UISpec;
+    private options: IntentParserOptions;
+    /** Last component referred to, for "it" */
+    private last?: ComponentSpec;
+
+    constructor(uiSpec: UISpec, options: IntentParserOptions) {
+        this.spec = JSON.parse(JSON.stringify(uiSpec));
+        this.options = options;
+    }
+
+    private get components(): ComponentSpec[] {
+        return this.spec.components;
+    }
+
+    parseClause(clause: string): void {
+        const text = clause.replace(/^(?:please|also|now|and|then)\s+/i, "").trim();
+        let match: RegExpMatchArray | null;
+
+        if ((match = text.match(/^(?:remove|delete|drop|get rid of)\s+(.+)$/i))) {
+            this.remove(clause, match[1]);
+        } else if ((match = text.match(/^(?:replace|swap(?: out)?)\s+(.+?)\s+(?:with|for)\s+(.+)$/i))) {
+            this.replace(clause, match[1], match[2]);
+        } else if ((match = text.match(/^move\s+(.+)\s+((?:to the\s+)?(?:top|start|beginning|bottom|end)|up|down)$/i)
+            ?? text.match(/^move\s+(.+)\s+((?:before|above|after|below|under|to|into|inside)\s+.+)$/i))) {
+            this.move(clause, match[1], match[2]);
+        } else if ((match = text.match(/^(?:add|insert|include|append|put)\s+(.+)$/i))) {
+            this.add(clause, match[1]);
+        } else if ((match = text.match(/^(?:make|turn)\s+(.+?)\s+((?:a bit |much )?(?:bigger|larger|smaller)|(?:more )?modern|full[ -]width|disabled)$/i))) {
+            this.applyAdjective(clause, match[1], match[2].toLowerCase());
+        } else if ((match = text.match(/^(?:set|change|update|make|rename)\s+(.+?)\s+(?:to say|to read|say|says|read|to|=)\s+(.+)$/i))) {
+            this.update(clause, match[1], match[2]);
+        } else if ((match = text.match(/^(?:make\s+)?(?:it\s+)?((?:a bit |much )?(?:bigger|larger|smaller)|more modern)$/i))) {
+            this.applyAdjective(clause, "", match[1].toLowerCase());
+        } else {
+            this.result.unrecognized.push(clause);
+        }
+    }
+
+    private remove(clause: string, phrase: string): void {
+        const nodes = this.resolve(clause, phrase);
+        if (!nodes) return;
+
+        // Remove the deepest/last ones first so the other paths stay valid
+        [...nodes]
+            .sort((a, b) => comparePaths(b.path, a.path))
+            .forEach(node => this.push({ op: "remove", path: node.path, clause }));
+    }
+
+    private add(clause: string, phrase: string): void {
+        let rest = phrase;
+        let placement: { where: string; target?: string } = { where: "end" };
+        let match: RegExpMatchArray | null;
+
+        if ((match = rest.match(/^(.+?)\s+(?:at|to)\s+the\s+(top|start|beginning|bottom|end)$/i))) {
+            rest = match[1];
+            placement = { where: /top|start|beginning/i.test(match[2]) ? "start" : "end" };
+        } else if ((match = rest.match(/^(.+?)\s+(before|above|after|below|under)\s+(.+)$/i))) {
+            rest = match[1];
+            placement = { where: /before|above/i.test(match[2]) ? "before" : "after", target: match[3] };
+        } else if ((match = rest.match(/^(.+?)\s+(?:to|into|inside|in)\s+(.+)$/i))) {
+            rest = match[1];
+            placement = { where: "inside", target: match[2] };
+        }
+
+        const name = findType(rest.replace(QUOTED, ""));
+        if (!name) {
+            this.result.unrecognized.push(clause);
+            return;
+        }
+
+        const component = this.createComponent(name, clause);
+        const label = rest.match(QUOTED)?.[1];
+        if (label !== undefined) {
+            const prop = TEXT_PROPS.find(key => getPropKeys(name).includes(key));
+            if (prop) component.props = { ...component.props, [prop]: label };
+        }
+
+        let path: ComponentPath;
+        if (placement.where === "start" || placement.where === "end") {
+            path = [placement.where === "start" ? 0 : this.components.length];
+        } else {
+            const { phrase: targetPhrase, slot } = placement.where === "inside"
+                ? splitSlot(placement.target!)
+                : { phrase: placement.target!, slot: undefined };
+            const target = this.resolveOne(clause, targetPhrase);
+            if (!target) return;
+
+            if (placement.where === "inside") {
+                const slots = getComponentSlots(target.component.name);
+                if (slots.length === 0 || (slot && !slots.includes(slot))) {
+                    this.result.issues.push({
+                        kind: "invalid_prop",
+                        clause,
+                        message: slot
+                            ? `${target.component.name} has no "${slot}" slot (slots: ${slots.join(", ") || "none"})`
+                            : `${target.component.name} cannot contain other components`,
+                    });
+                    return;
+                }
+                if (slot && slot !== slots[0]) component.slot = slot;
+                path = [...target.path, target.component.children?.length ?? 0];
+            } else {
+                const index = target.path[target.path.length - 1];
+                path = [...target.path.slice(0, -1), placement.where === "before" ? index : index + 1];
+                if (target.component.slot) component.slot = target.component.slot;
+            }
+        }
+
+        this.push({ op: "add", path, component, clause });
+    }
+
+    private replace(clause: string, phrase: string, replacement: string): void {
+        const nodes = this.resolve(clause, phrase);
+        const name = findType(replacement);
+        if (!nodes) return;
+        if (!name) {
+            this.result.unrecognized.push(clause);
+            return;
+        }
+
+        nodes.forEach(node => {
+            const component = this.createComponent(name, clause);
+            this.push({ op: "replace", path: node.path, component, clause });
+        });
+    }
+
+    private move(clause: string, phrase: string, destination: string): void {
+        const node = this.resolveOne(clause, phrase);
+        if (!node) return;
+
+        const index = node.path[node.path.length - 1];
+        const parentPath = node.path.slice(0, -1);
+        const siblings = parentPath.length > 0
+            ? getComponentAt(this.components, parentPath)!.children!.length
+            : this.components.length;
+        const where = destination.toLowerCase();
+        let toPath: ComponentPath;
+
+        if (/^(?:to the\s+)?(?:top|start|beginning)$/.test(where)) {
+            toPath = [...parentPath, 0];
+        } else if (/^(?:to the\s+)?(?:bottom|end)$/.test(where)) {
+            toPath = [...parentPath, siblings - 1];
+        } else if (where === "up" || where === "down") {
+            toPath = [...parentPath, Math.max(0, Math.min(siblings - 1, index + (where === "up" ? -1 : 1)))];
+        } else {
+            const match = destination.match(/^(before|above|after|below|under|to|into|inside)\s+(.+)$/i)!;
+            const inside = /^(?:to|into|inside)$/i.test(match[1]);
+            const { phrase: targetPhrase, slot } = inside ? splitSlot(match[2]) : { phrase: match[2], slot: undefined };
+            const target = this.resolveOne(clause, targetPhrase);
+            if (!target) return;
+
+            if (isWithin(target.path, node.path)) {
+                this.result.issues.push({
+                    kind: "invalid_prop",
+                    clause,
+                    message: `Cannot move ${node.component.name} into itself`,
+                });
+                return;
+            }
+
+            // Work out the destination once the component is out of the way
+            const without = removeComponentAt(this.components, node.path);
+            const targetPath = flattenComponents(without).find(n => n.component === target.component)!.path;
+
+            if (inside) {
+                const slots = getComponentSlots(target.component.name);
+                if (slots.length === 0 || (slot && !slots.includes(slot))) {
+                    this.result.issues.push({
+                        kind: "invalid_prop",
+                        clause,
+                        message: `${target.component.name} cannot contain ${node.component.name}${slot ? ` in a "${slot}" slot` : ""}`,
+                    });
+                    return;
+                }
+                toPath = [...targetPath, getComponentAt(without, targetPath)!.children?.length ?? 0];
+            } else {
+                const targetIndex = targetPath[targetPath.length - 1];
+                toPath = [...targetPath.slice(0, -1), /before|above/i.test(match[1]) ? targetIndex : targetIndex + 1];
+            }
+        }
+
+        if (comparePaths(toPath, node.path) === 0) return;
+        this.push({ op: "move", path: node.path, toPath, clause });
+    }
+
+    private update(clause: string, left: string, rawValue: string): void {
+        const target = splitPropPhrase(left);
+        if (!target) {
+            this.result.unrecognized.push(clause);
+            return;
+        }
+
+        const nodes = this.resolve(clause, target.reference);
+        if (!nodes) return;
+
+        const value = parseValue(rawValue);
+        nodes.forEach(node => {
+            const propPath = resolvePropPath(node.component.name, target.prop);
+            if (!propPath) {
+                this.result.issues.push({
+                    kind: "invalid_prop",
+                    clause,
+                    message: `${node.component.name} has no prop matching "${target.prop}"`,
+                });
+                return;
+            }
+
+            this.push({ op: "update", path: node.path, propPath, value, clause });
+        });
+    }
+
+    private applyAdjective(clause: string, phrase: string, adjective: string): void {
+        const props = ADJECTIVES.find(([pattern]) => pattern.test(adjective))![1];
+        const keys = Object.keys(props);
+        let nodes: ComponentNode[] | undefined;
+
+        if (phrase && !/^(?:it|this|that|everything|the page|the ui)$/i.test(phrase)) {
+            nodes = this.resolve(clause, phrase);
+            if (!nodes) return;
+        } else {
+            // No reference: the component "it" points at, else the first one that supports the change
+            const all = flattenComponents(this.components);
+            const last = all.find(node => node.component === this.last);
+            const supported = all.find(node => keys.every(key => getPropKeys(node.component.name).includes(key)));
+            const node = last ?? supported;
+            if (!node) {
+                this.result.issues.push({
+                    kind: "not_found",
+                    clause,
+                    message: `No component supports "${adjective}" (needs ${keys.join(", ")})`,
+                });
+                return;
+            }
+            nodes = [node];
+        }
+
+        nodes.forEach(node => {
+            const missing = keys.filter(key => !getPropKeys(node.component.name).includes(key));
+            if (missing.length > 0) {
+                this.result.issues.push({
+                    kind: "invalid_prop",
+                    clause,
+                    message: `${node.component.name} cannot be made ${adjective} (no ${missing.join(", ")} prop)`,
+                });
+                return;
+            }
+
+            Object.entries(props).forEach(([propPath, value]) => {
+                this.push({ op: "update", path: node.path, propPath, value, clause });
+            });
+        });
+    }
+
+    /**
+     * Record an operation and its patch, and apply the patch to the working copy
+     */
+    private push(operation: EditOperation): void {
+        const patch = toJsonPatch(this.components, operation);
+
+        try {
+            this.spec = applyJsonPatch(this.spec, patch);
+        } catch (error) {
+            this.result.issues.push({
+                kind: "invalid_prop",
+                clause: operation.clause,
+                message: error instanceof Error ? error.message : String(error),
+            });
+            return;
+        }
+
+        this.result.operations.push(operation);
+        this.result.patch.push(...patch);
+
+        // "it" now means the component this operation touched
+        this.last = operation.op === "remove"
+            ? undefined
+            : getComponentAt(this.components, operation.op === "move" ? operation.toPath : operation.path);
+    }
+
+    private createComponent(name: string, clause: string): ComponentSpec {
+        const component = this.options.createComponent?.(name, clause) ?? { name, props: {} };
+        return JSON.parse(JSON.stringify(component));
+    }
+
+    private resolveOne(clause: string, phrase: string): ComponentNode | undefined {
+        const nodes = this.resolve(clause, phrase);
+        if (!nodes) return undefined;
+
+        if (nodes.length > 1) {
+            this.result.issues.push({
+                kind: "ambiguous",
+                clause,
+                message: `"${phrase}" matches ${nodes.length} components, but only one can be used here`,
+                candidates: nodes.map(node => describeMatch(node, this.components)),
+            });
+            return undefined;
+        }
+
+        return nodes[0];
+    }
+
+    /**
+     * Resolve a reference phrase, recording an issue when it can't be
+     */
+    private resolve(clause: string, phrase: string): ComponentNode[] | undefined {
+        const reference = parseReference(phrase);
+        if (!reference) {
+            this.result.issues.push({
+                kind: "not_found",
+                clause,
+                message: `"${phrase}" does not name a component`,
+            });
+            return undefined;
+        }
+
+        const resolution = this.resolveReference(reference, flattenComponents(this.components));
+        if ("issue" in resolution) {
+            this.result.issues.push({ ...resolution.issue, clause });
+            return undefined;
+        }
+
+        const nodes = resolution.nodes;
+        if (nodes.length > 0) this.last = nodes[nodes.length - 1].component;
+        return nodes;
+    }
+
+    private resolveReference(reference: ComponentReference, scope: ComponentNode[]): Resolution {
+        if (reference.within) {
+            const container = this.resolveReference(reference.within, scope);
+            if ("issue" in container) return container;
+            if (container.nodes.length > 1) {
+                return {
+                    issue: {
+                        kind: "ambiguous",
+                        message: `"${reference.within.raw}" matches ${container.nodes.length} components`,
+                        candidates: container.nodes.map(node => describeMatch(node, this.components)),
+                    },
+                };
+            }
+
+            const parent = container.nodes[0].path;
+            scope = scope.filter(node => node.path.length > parent.length && isWithin(node.path, parent));
+        }
+
+        if (reference.pronoun) {
+            const node = scope.find(n => n.component === this.last) ?? scope[0];
+            return node
+                ? { nodes: [node] }
+                : { issue: { kind: "not_found", message: `There is no component for "${reference.raw}" to refer to` } };
+        }
+
+        const matches = scope.filter(({ component }) =>
+            (!reference.type || component.name === reference.type) &&
+            (!reference.id || component.props.id === reference.id) &&
+            (!reference.text || containsText(component.props, reference.text))
+        );
+
+        if (matches.length === 0) {
+            return { issue: { kind: "not_found", message: `No component matches "${reference.raw}"` } };
+        }
+
+        const { ordinal } = reference;
+        if (ordinal === "all") return { nodes: matches };
+        if (ordinal === "last") return { nodes: [matches[matches.length - 1]] };
+
+        if (ordinal !== undefined) {
+            const node = matches[ordinal - 1];
+            return node
+                ? { nodes: [node] }
+                : {
+                    issue: {
+                        kind: "not_found",
+                        message: `"${reference.raw}" asks for number ${ordinal}, but only ${matches.length} match`,
+                    },
+                };
+        }
+
+        if (matches.length > 1) {
+            return {
+                issue: {
+                    kind: "ambiguous",
+                    message: `"${reference.raw}" matches ${matches.length} components; say which one`,
+                    candidates: matches.map(node => describeMatch(node, this.components)),
+                },
+            };
+        }
+
+        return { nodes: matches };
+    }
+}
+
+/**
+ * Split a request into clauses, leaving quoted text intact
+ */
+function splitClauses(request: string): string[] {
+    const quotes: string[] = [];
+    const masked = request.replace(/["“][^"“”]*["”]/g, quoted => {
+        quotes.push(quoted);
+        return `\u0000${quotes.length - 1}\u0000`;
+    });
+
+    return masked
+        .split(/\s*(?:[;!?]|\.(?=\s|$)|,?\s+then\s+|,?\s+and\s+(?=(?:then\s+)?(?:add|insert|remove|delete|drop|make|turn|set|change|update|rename|replace|swap|move)\b)|,\s*)\s*/i)
+        .map(clause => clause.replace(/\u0000(\d+)\u0000/g, (_, index) => quotes[Number(index)]).trim())
+        .filter(clause => clause.length > 0);
+}
+
+function parseReference(phrase: string): ComponentReference | undefined {
+    const raw = phrase.trim();
+    let text = raw;
+
+    const scoped = text.match(/^(.+?)\s+(?:in|inside|within)\s+(.+)$/i);
+    if (scoped && !QUOTED.test(scoped[2].split(/\s+/)[0])) {
+        const within = parseReference(scoped[2]);
+        const inner = parseReference(scoped[1]);
+        if (within && inner) return { ...inner, raw, within };
+    }
+
+    const reference: ComponentReference = { raw };
+
+    const quoted = text.match(QUOTED);
+    if (quoted) {
+        reference.text = quoted[1];
+        text = text.replace(QUOTED, " ");
+    }
+
+    const id = text.match(/#([\w-]+)|\bwith (?:the )?id\s+([\w-]+)/i);
+    if (id) {
+        reference.id = id[1] ?? id[2];
+        text = text.replace(id[0], " ");
+    }
+
+    const lower = text.toLowerCase().replace(/\b(?:that|which|who)\s+(?:says?|reads?|contains?)\b/g, " ").trim();
+
+    if (/^(?:it|this|that|this one|that one)$/.test(lower)) {
+        return { raw, pronoun: true };
+    }
+
+    const ordinal = lower.match(/\b(first|second|third|fourth|fifth|sixth|seventh|eighth|ninth|tenth|last|(\d+)(?:st|nd|rd|th)|all|every|each|both)\b/);
+    if (ordinal) {
+        const word = ordinal[1];
+        reference.ordinal = ordinal[2]
+            ? Number(ordinal[2])
+            : word === "last"
+                ? "last"
+                : ["all", "every", "each", "both"].includes(word)
+                    ? "all"
+                    : ORDINAL_WORDS.indexOf(word) + 1;
+    }
+
+    const type = TYPE_WORDS.find(([pattern]) => pattern.test(lower));
+    if (type) {
+        reference.type = type[1];
+        // "the buttons" means every button ("the testimonials" is still one section)
+        const word = lower.match(type[0])![0];
+        if (reference.ordinal === undefined && /s$/.test(word) && !SINGULAR_WORDS.includes(word)) {
+            reference.ordinal = "all";
+        }
+    }
+
+    if (!reference.type && !reference.id && !reference.text) return undefined;
+    return reference;
+}
+
+/**
+ * Split "the second card's title", "the title of the card" or
+ * "the card title" into a component reference and prop words
+ */
+function splitPropPhrase(phrase: string): { reference: string; prop: string } | undefined {
+    const possessive = phrase.match(/^(.+?)['’]s\s+(.+)$/);
+    if (possessive) return { reference: possessive[1], prop: possessive[2] };
+
+    const of = phrase.match(/^(?:the\s+)?(.+?)\s+(?:of|on|for)\s+(.+)$/i);
+    if (of && parseReference(of[2]) && !parseReference(of[1])?.type) {
+        return { reference: of[2], prop: of[1] };
+    }
+
+    // "the button text in the first card": scope follows the prop words
+    const scoped = phrase.match(/^(.+?)\s+((?:in|inside|within)\s+.+)$/i);
+    const inner = scoped && splitPropPhrase(scoped[1]);
+    if (inner) return { reference: `${inner.reference} ${scoped[2]}`, prop: inner.prop };
+
+    // "the button text": prop words follow the component type, or its
+    // content in "the button \"Sign up\" text"
+    const masked = phrase.replace(QUOTED, quoted => quoted.replace(/\s/g, "\u0000"));
+    const words = masked.split(/\s+/);
+    for (let end = words.length - 1; end > 0; end--) {
+        if (TYPE_WORDS.some(([pattern]) => pattern.test(words[end - 1].toLowerCase()))) {
+            const split = end < words.length - 1 && /^["“”]/.test(words[end]) ? end + 1 : end;
+            const head = words.slice(0, split).join(" ");
+            return { reference: head.replace(/\u0000/g, " "), prop: words.slice(split).join(" ") };
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Split a trailing slot name off a target: "the card's footer", "the modal body"
+ */
+function splitSlot(phrase: string): { phrase: string; slot?: string } {
+    const slots = new Set(componentRegistry.getAll().flatMap(component => component.slots ?? []));
+    const match = phrase.match(/^(.+?)(?:['’]s)?\s+(\w+)(?:\s+slot)?$/i)
+        ?? phrase.match(/^(?:the\s+)?(\w+)(?:\s+slot)?\s+of\s+(.+)$/i)?.slice(0).reverse();
+
+    if (match && slots.has(match[2]?.toLowerCase())) {
+        return { phrase: match[1], slot: match[2].toLowerCase() };
+    }
+
+    return { phrase };
+}
+
+function findType(phrase: string): string | undefined {
+    const lower = phrase.toLowerCase();
+    return TYPE_WORDS.find(([pattern]) => pattern.test(lower))?.[1];
+}
+
+function getPropKeys(name: string): string[] {
+    const shape = componentRegistry.get(name)?.propsSchema?.shape;
+    return shape ? Object.keys(shape) : [];
+}
+
+/**
+ * Turn prop words ("title", "button text", "tiers[1].price") into a prop path
+ */
+function resolvePropPath(name: string, words: string): string | undefined {
+    const keys = getPropKeys(name);
+    const phrase = words.trim().replace(/^the\s+/i, "");
+
+    // Already a path
+    const head = phrase.match(/^([\w-]+)(?=[.[]|$)/)?.[1];
+    if (head && keys.includes(head) && /^[\w-]+(?:\.[\w-]+|\[\d+\])*$/.test(phrase)) {
+        return phrase;
+    }
+
+    const lower = phrase.toLowerCase();
+    const alias = PROP_ALIASES[lower]?.find(key => keys.includes(key));
+    if (alias) return alias;
+
+    const camel = lower.replace(/[\s-]+(\w)/g, (_, letter: string) => letter.toUpperCase());
+    return keys.find(key => key.toLowerCase() === camel.toLowerCase());
+}
+
+function parsePropPath(path: string): Array<string | number> {
+    return path.split(/\.|\[(\d+)\]/).filter(Boolean).map(part => (/^\d+$/.test(part) ? Number(part) : part));
+}
+
+function setAtPath(target: unknown, path: Array<string | number>, value: unknown): Record<string, unknown> {
+    const [key, ...rest] = path;
+    const container = (Array.isArray(target) ? [...target] : { ...(target as Record<string, unknown> ?? {}) }) as Record<string | number, unknown>;
+    container[key] = rest.length === 0 ? value : setAtPath(container[key] ?? (typeof rest[0] === "number" ? [] : {}), rest, value);
+    return container as Record<string, unknown>;
+}
+
+function parseValue(raw: string): unknown {
+    const value = raw.trim().replace(/\.$/, "");
+    const quoted = value.match(/^["“]([^"“”]*)["”]$/);
+    if (quoted) return quoted[1];
+    if (/^-?\d+(?:\.\d+)?$/.test(value)) return Number(value);
+    if (/^(?:true|yes|on)$/i.test(value)) return true;
+    if (/^(?:false|no|off)$/i.test(value)) return false;
+    return value;
+}
+
+function containsText(value: unknown, text: string): boolean {
+    if (typeof value === "string") return value.toLowerCase().includes(text.toLowerCase());
+    if (Array.isArray(value)) return value.some(item => containsText(item, text));
+    if (value && typeof value === "object") return Object.values(value).some(item => containsText(item, text));
+    return false;
+}
+
+/**
+ * Describe a candidate with a phrase that selects only it
+ */
+function describeMatch(node: ComponentNode, components: ComponentSpec[]): ComponentMatch {
+    const sameType = flattenComponents(components).filter(n => n.component.name === node.component.name);
+    const position = sameType.findIndex(n => comparePaths(n.path, node.path) === 0);
+    const ordinal = ORDINAL_WORDS[position] ?? `${position + 1}th`;
+    const word = findTypeWord(node.component.name);
+    const labelProp = LABEL_PROPS.find(key => typeof node.component.props[key] === "string");
+    const label = labelProp ? ` "${String(node.component.props[labelProp]).slice(0, 40)}"` : "";
+
+    return {
+        path: node.path,
+        name: node.component.name,
+        reference: sameType.length === 1
+            ? `the ${word}${label} at ${formatComponentPath(node.path)}`
+            : `the ${ordinal} ${word}${label} at ${formatComponentPath(node.path)}`,
+    };
+}
+
+function findTypeWord(name: string): string {
+    return name.replace(/([a-z])([A-Z])/g, "$1 $2").toLowerCase();
+}
+
+function comparePaths(a: ComponentPath, b: ComponentPath): number {
+    for (let index = 0; index < Math.min(a.length, b.length); index++) {
+        if (a[index] !== b[index]) return a[index] - b[index];
+    }
+    return a.length - b.length;
+}
+
+/**
+ * Whether `path` is `ancestor` or inside it
+ */
+function isWithin(path: ComponentPath, ancestor: ComponentPath): boolean {
+    return ancestor.every((index, depth) => path[depth] === index);
+}
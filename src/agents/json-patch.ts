@@ -0,0 +1,226 @@
+/**
+ * UISpec JSON Patch
+ * =================
+ * Public edit format for UISpecs: RFC 6902 JSON Patch operations addressed by
+ * JSON Pointers, e.g.
+ *
+ *   [
+ *     { "op": "replace", "path": "/components/1/props/headerTitle", "value": "Pro" },
+ *     { "op": "add", "path": "/components/1/children/-", "value": { "name": "Button", "props": { "text": "Buy" } } },
+ *     { "op": "move", "from": "/components/2", "path": "/components/0" }
+ *   ]
+ *
+ * A patch applies atomically: if any operation fails, or the patched spec
+ * does not pass `uiSpecSchema` and every component's props schema, nothing
+ * changes (see spec-validator). The orchestrator's `applyPatch` and the UI Architect's modification
+ * requests both go through `applyUISpecPatch`.
+ */
+
+import { z } from "zod";
+import { UISpec } from "./types";
+import { escapePointerToken } from "./spec-tree";
+import { SpecValidationError, validateUISpec } from "./spec-validator";
+
+const jsonPointerSchema = z
+    .string()
+    .regex(/^(\/[^/]*)*$/, "Must be a JSON Pointer such as /components/0/props/title");
+
+const requiredValue = z.unknown().refine((value): boolean => value !== undefined, "Required");
+
+export const jsonPatchOperationSchema = z.discriminatedUnion("op", [
+    z.object({ op: z.literal("add"), path: jsonPointerSchema, value: requiredValue }),
+    z.object({ op: z.literal("remove"), path: jsonPointerSchema }),
+    z.object({ op: z.literal("replace"), path: jsonPointerSchema, value: requiredValue }),
+    z.object({ op: z.literal("move"), from: jsonPointerSchema, path: jsonPointerSchema }),
+    z.object({ op: z.literal("copy"), from: jsonPointerSchema, path: jsonPointerSchema }),
+    z.object({ op: z.literal("test"), path: jsonPointerSchema, value: requiredValue }),
+]);
+
+export const jsonPatchSchema = z.array(jsonPatchOperationSchema);
+
+export type JsonPatchOperation = z.infer<typeof jsonPatchOperationSchema>;
+export type JsonPatch = z.infer<typeof jsonPatchSchema>;
+
+export interface UISpecPatchResult {
+    valid: boolean;
+    /** The patched spec, when the patch applied and validated */
+    uiSpec?: UISpec;
+    /** `path` is a JSON Pointer into the patch or into the patched spec */
+    errors: Array<Pick<SpecValidationError, "path" | "message"> & { code: string }>;
+}
+
+/**
+ * Apply a JSON Patch to a copy of any JSON document. Throws, leaving the
+ * input untouched, when an operation cannot be applied or a `test` fails.
+ */
+export function applyJsonPatch<T>(document: T, patch: JsonPatch): T {
+    let patched: unknown = clone(document);
+
+    patch.forEach((operation, index) => {
+        try {
+            patched = applyOperation(patched, operation);
+        } catch (error) {
+            throw new Error(`Patch operation ${index}: ${describeFailure(operation, error)}`);
+        }
+    });
+
+    return patched as T;
+}
+
+/**
+ * Check a patch, apply it to a copy of the spec and validate the result
+ */
+export function applyUISpecPatch(uiSpec: UISpec, patch: unknown): UISpecPatchResult {
+    const parsed = jsonPatchSchema.safeParse(patch);
+    if (!parsed.success) {
+        return {
+            valid: false,
+            errors: parsed.error.issues.map(issue => ({
+                path: toPointer(issue.path),
+                message: issue.message,
+                code: "INVALID_PATCH",
+            })),
+        };
+    }
+
+    let patched: unknown = clone(uiSpec);
+    for (const [index, operation] of parsed.data.entries()) {
+        try {
+            patched = applyOperation(patched, operation);
+        } catch (error) {
+            return {
+                valid: false,
+                errors: [{ path: `/${index}`, message: describeFailure(operation, error), code: "PATCH_FAILED" }],
+            };
+        }
+    }
+
+    const errors = validateUISpec(patched);
+    return errors.length > 0 ? { valid: false, errors } : { valid: true, uiSpec: patched as UISpec, errors: [] };
+}
+
+function applyOperation(document: unknown, operation: JsonPatchOperation): unknown {
+    const tokens = parsePointer(operation.path);
+
+    switch (operation.op) {
+        case "add":
+            return addValue(document, tokens, clone(operation.value));
+        case "remove":
+            return removeValue(document, tokens);
+        case "replace":
+            getValue(document, tokens);
+            if (tokens.length === 0) return clone(operation.value);
+            return addValue(removeValue(document, tokens), tokens, clone(operation.value));
+        case "move": {
+            const from = parsePointer(operation.from);
+            if (tokens.length > from.length && from.every((token, index) => tokens[index] === token)) {
+                throw new Error(`cannot move ${operation.from} into itself`);
+            }
+            const value = getValue(document, from);
+            return addValue(removeValue(document, from), tokens, value);
+        }
+        case "copy":
+            return addValue(document, tokens, clone(getValue(document, parsePointer(operation.from))));
+        case "test":
+            if (!deepEqual(getValue(document, tokens), operation.value)) {
+                throw new Error("test failed: value differs");
+            }
+            return document;
+    }
+}
+
+function describeFailure(operation: JsonPatchOperation, error: unknown): string {
+    return `${operation.op} ${operation.path}: ${error instanceof Error ? error.message : String(error)}`;
+}
+
+function getValue(document: unknown, tokens: string[]): unknown {
+    return tokens.reduce((value, token, depth) => {
+        if (Array.isArray(value)) {
+            const index = arrayIndex(token, value.length - 1);
+            return value[index];
+        }
+        if (isObject(value) && Object.prototype.hasOwnProperty.call(value, token)) {
+            return value[token];
+        }
+        throw new Error(`${toPointer(tokens.slice(0, depth + 1))} does not exist`);
+    }, document);
+}
+
+function addValue(document: unknown, tokens: string[], value: unknown): unknown {
+    if (tokens.length === 0) return value;
+
+    const parent = getValue(document, tokens.slice(0, -1));
+    const key = tokens[tokens.length - 1];
+
+    if (Array.isArray(parent)) {
+        parent.splice(key === "-" ? parent.length : arrayIndex(key, parent.length), 0, value);
+    } else if (isObject(parent)) {
+        parent[key] = value;
+    } else {
+        throw new Error(`${toPointer(tokens.slice(0, -1))} is not an object or array`);
+    }
+
+    return document;
+}
+
+function removeValue(document: unknown, tokens: string[]): unknown {
+    if (tokens.length === 0) {
+        throw new Error("cannot remove the whole document");
+    }
+
+    const parent = getValue(document, tokens.slice(0, -1));
+    const key = tokens[tokens.length - 1];
+
+    if (Array.isArray(parent)) {
+        parent.splice(arrayIndex(key, parent.length - 1), 1);
+    } else if (isObject(parent) && Object.prototype.hasOwnProperty.call(parent, key)) {
+        delete parent[key];
+    } else {
+        throw new Error(`${toPointer(tokens)} does not exist`);
+    }
+
+    return document;
+}
+
+/**
+ * Array index from a pointer token, no greater than `max`
+ */
+function arrayIndex(token: string, max: number): number {
+    if (!/^(0|[1-9]\d*)$/.test(token)) {
+        throw new Error(`"${token}" is not an array index`);
+    }
+
+    const index = Number(token);
+    if (index > max) {
+        throw new Error(`index ${index} is out of bounds`);
+    }
+    return index;
+}
+
+function parsePointer(pointer: string): string[] {
+    if (pointer === "") return [];
+    return pointer.slice(1).split("/").map(token => token.replace(/~1/g, "/").replace(/~0/g, "~"));
+}
+
+function toPointer(tokens: Array<string | number>): string {
+    return tokens.map(token => `/${escapePointerToken(token)}`).join("");
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+    if (Array.isArray(a) && Array.isArray(b)) {
+        return a.length === b.length && a.every((item, index) => deepEqual(item, b[index]));
+    }
+    if (isObject(a) && isObject(b)) {
+        const keys = Object.keys(a);
+        return keys.length === Object.keys(b).length && keys.every(key => key in b && deepEqual(a[key], b[key]));
+    }
+    return a === b;
+}
+
+function clone<T>(value: T): T {
+    return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
@@ -0,0 +1,69 @@
+/**
+ * JSX Writer
+ * ==========
+ * Source text for component props in generated code. Values are written as
+ * JavaScript literals (`{ label: "Pro", price: 29 }`), not JSON, and strings
+ * that can't sit in a quoted JSX attribute are passed as expressions.
+ *
+ * Layout is left to Prettier (see code-formatter.ts); this only has to be
+ * correct.
+ */
+
+import { componentRegistry } from "@/tambo/component-registry";
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+/** Strings JSX takes verbatim between double quotes: no quote, entity or line break */
+const PLAIN_ATTRIBUTE = /^[^"&\r\n]*$/;
+
+/**
+ * A JavaScript literal for a JSON-like value. Object keys are quoted only when
+ * they aren't identifiers; undefined properties are left out.
+ */
+export function toJsLiteral(value: unknown): string {
+    if (value === null) return "null";
+    if (Array.isArray(value)) {
+        return `[${value.map(item => (item === undefined ? "undefined" : toJsLiteral(item))).join(", ")}]`;
+    }
+    if (typeof value === "object") {
+        const entries = Object.entries(value as Record<string, unknown>)
+            .filter(([, item]) => item !== undefined)
+            .map(([key, item]) => `${IDENTIFIER.test(key) ? key : JSON.stringify(key)}: ${toJsLiteral(item)}`);
+        return entries.length > 0 ? `{ ${entries.join(", ")} }` : "{}";
+    }
+    if (typeof value === "number" && !Number.isFinite(value)) return "null";
+    if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
+        return JSON.stringify(value);
+    }
+    throw new Error(`Cannot write ${typeof value} values into generated code`);
+}
+
+/**
+ * A JSX attribute for a prop, or undefined for props without a value
+ */
+export function jsxAttribute(name: string, value: unknown): string | undefined {
+    if (value === undefined || value === null) return undefined;
+    if (typeof value === "string" && PLAIN_ATTRIBUTE.test(value)) return `${name}="${value}"`;
+    if (value === true) return name;
+    return `${name}={${toJsLiteral(value)}}`;
+}
+
+/**
+ * The JSX attributes for a props object, in order
+ */
+export function jsxAttributes(props: Record<string, unknown>): string[] {
+    return Object.entries(props)
+        .map(([name, value]) => jsxAttribute(name, value))
+        .filter((attribute): attribute is string => attribute !== undefined);
+}
+
+/**
+ * The props a generative component receives once its schema fills in the
+ * defaults. Its prop types require them, so generated code passes them all.
+ * Props the schema doesn't know are dropped, as the component ignores them;
+ * props it rejects are returned as they are, for the typecheck to report.
+ */
+export function propsWithDefaults(componentName: string, props: Record<string, unknown>): Record<string, unknown> {
+    const parsed = componentRegistry.get(componentName)?.propsSchema.safeParse(props);
+    return parsed?.success ? parsed.data : props;
+}
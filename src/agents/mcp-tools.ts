@@ -0,0 +1,137 @@
+/**
+ * MCP Tools
+ * =========
+ * Typed view of the tools exposed by the MCP servers in `src/mcp/*`, named
+ * the way agent configs list them (`<server>:<tool>`).
+ *
+ * Agents only depend on the MCPToolClient interface; the stdio/HTTP client
+ * that talks to the servers lives in `src/mcp/client.ts` (Node-only).
+ */
+
+import type { ComponentPath, ComponentSpec } from "./types";
+
+type ComponentInput = { name: string; props: Record<string, unknown> };
+
+export interface MCPToolMap {
+    "design-system:get_component_list": {
+        args: Record<string, never>;
+        result: { components: Array<{ name: string; description: string }>; count: number };
+    };
+    "design-system:get_component_schema": {
+        args: { componentName: string };
+        result: Record<string, unknown>;
+    };
+    "design-system:validate_props": {
+        args: { componentName: string; props: Record<string, unknown> };
+        result: {
+            valid: boolean;
+            validatedProps?: Record<string, unknown>;
+            errors?: Array<{ path: string; message: string; code: string }>;
+            error?: string;
+        };
+    };
+    "design-system:validate_composition": {
+        args: { components: ComponentSpec[] };
+        result: {
+            valid: boolean;
+            issues: Array<{
+                rule: string;
+                severity: "error" | "warning";
+                message: string;
+                componentPath: ComponentPath;
+            }>;
+        };
+    };
+    "design-system:get_layout_rules": {
+        args: { category?: "composition" | "containers" | "responsive" | "componentPairs" | "all" };
+        result: Record<string, unknown>;
+    };
+    "design-system:get_design_tokens": {
+        args: { category?: "colors" | "spacing" | "borderRadius" | "shadows" | "typography" | "all" };
+        result: Record<string, unknown>;
+    };
+    "a11y:check_color_contrast": {
+        args: { foreground: string; background: string; isLargeText?: boolean };
+        result: {
+            contrastRatio: string;
+            wcagAA: { passes: boolean; requirement: string };
+            wcagAAA: { passes: boolean; requirement: string };
+            recommendations: string[];
+        };
+    };
+    "a11y:check_aria_labels": {
+        args: { componentName: string; props: Record<string, unknown>; location?: string };
+        result: {
+            componentName: string;
+            issuesFound: number;
+            issues: Array<{
+                rule: string;
+                severity: "critical" | "serious" | "moderate" | "minor";
+                issue: string;
+                fix: string;
+            }>;
+            warnings: Array<{ rule: string; description: string; recommendation: string }>;
+            passed: boolean;
+        };
+    };
+    "a11y:check_keyboard_navigation": {
+        args: { componentName: string; props: Record<string, unknown> };
+        result: {
+            componentName: string;
+            keyboardSupport: Array<{ check: string; status: string; notes: string }>;
+            passed: boolean;
+        };
+    };
+    "a11y:check_heading_structure": {
+        args: { headings: Array<{ level: number; text: string }> };
+        result: { headingsAnalyzed: number; issues: Array<{ issue: string; fix: string }>; passed: boolean };
+    };
+    "a11y:get_accessibility_report": {
+        args: { components: ComponentSpec[] };
+        result: {
+            summary: { total: number; passed: number; failed: number; warnings: number };
+            details: Array<{ component: string; status: string; issues: string[] }>;
+            recommendations: string[];
+        };
+    };
+    "ux:analyze_layout": {
+        args: {
+            components: Array<ComponentInput & { position?: string }>;
+            pageType: "landing" | "dashboard" | "form" | "pricing" | "settings" | "content";
+        };
+        result: {
+            pageType: string;
+            componentCount: number;
+            issues: Array<{ severity: "error" | "warning" | "suggestion"; issue: string; recommendation: string }>;
+            scores: { clarity: number; efficiency: number; consistency: number; overall: number };
+            recommendations: string[];
+        };
+    };
+    "ux:get_cta_recommendations": {
+        args: {
+            pageType: "landing" | "pricing" | "signup" | "dashboard" | "product";
+            primaryAction: string;
+            secondaryAction?: string;
+        };
+        result: Record<string, unknown>;
+    };
+    "ux:get_visual_hierarchy_tips": {
+        args: { purpose: "landing" | "dashboard" | "content" | "form" | "ecommerce" };
+        result: {
+            purpose: string;
+            principles: Array<{ principle: string; description: string; application: string }>;
+            purposeSpecific: Array<{ tip: string; component: string }>;
+        };
+    };
+}
+
+export type MCPToolName = keyof MCPToolMap;
+
+/**
+ * Calls MCP tools on behalf of agents
+ */
+export interface MCPToolClient {
+    callTool<T extends MCPToolName>(tool: T, args: MCPToolMap[T]["args"]): Promise<MCPToolMap[T]["result"]>;
+    /** Disconnect from every server (and stop the ones that were spawned) */
+    close(): Promise<void>;
+}
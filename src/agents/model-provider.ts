@@ -0,0 +1,138 @@
+/**
+ * Model Providers
+ * ===============
+ * Minimal chat-completion abstraction used by LLM-backed agents.
+ *
+ * Providers:
+ * - OpenAICompatibleProvider: any `/chat/completions` endpoint (OpenAI, local servers, gateways)
+ * - MockModelProvider: canned responses, for tests and offline development
+ */
+
+export interface ModelMessage {
+    role: "system" | "user" | "assistant";
+    content: string;
+}
+
+export interface ModelCompletionRequest {
+    messages: ModelMessage[];
+    temperature?: number;
+    maxTokens?: number;
+    /** Ask the model for a single JSON object */
+    json?: boolean;
+}
+
+export interface ModelProvider {
+    name: string;
+    /** Resolve to the text of the model's reply */
+    complete(request: ModelCompletionRequest): Promise<string>;
+}
+
+/**
+ * Provider for OpenAI-compatible chat completion APIs
+ */
+export interface OpenAICompatibleProviderOptions {
+    apiKey: string;
+    model: string;
+    /** Default https://api.openai.com/v1 */
+    baseUrl?: string;
+    /** Give up on a request after this many milliseconds. Default 60000 */
+    timeoutMs?: number;
+}
+
+const DEFAULT_BASE_URL = "https://api.openai.com/v1";
+const DEFAULT_TIMEOUT_MS = 60_000;
+
+export class OpenAICompatibleProvider implements ModelProvider {
+    name: string;
+    private baseUrl: string;
+    private timeoutMs: number;
+
+    constructor(private options: OpenAICompatibleProviderOptions) {
+        this.baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\/$/, "");
+        this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+        this.name = `openai-compatible:${options.model}`;
+    }
+
+    async complete(request: ModelCompletionRequest): Promise<string> {
+        const response = await fetch(`${this.baseUrl}/chat/completions`, {
+            method: "POST",
+            signal: AbortSignal.timeout(this.timeoutMs),
+            headers: {
+                "Content-Type": "application/json",
+                Authorization: `Bearer ${this.options.apiKey}`,
+            },
+            body: JSON.stringify({
+                model: this.options.model,
+                messages: request.messages,
+                temperature: request.temperature,
+                max_tokens: request.maxTokens,
+                response_format: request.json ? { type: "json_object" } : undefined,
+            }),
+        });
+
+        if (!response.ok) {
+            throw new Error(`Model request failed with ${response.status}: ${await response.text()}`);
+        }
+
+        const body = await response.json() as { choices?: Array<{ message?: { content?: string } }> };
+        const content = body.choices?.[0]?.message?.content;
+
+        if (typeof content !== "string") {
+            throw new Error("Model response had no message content");
+        }
+
+        return content;
+    }
+}
+
+/**
+ * A canned reply. Objects are sent back as JSON; functions receive the request.
+ */
+export type MockModelResponse =
+    | string
+    | object
+    | ((request: ModelCompletionRequest) => string | object | Promise<string | object>);
+
+/**
+ * Provider that replays canned responses in order, repeating the last one.
+ * Every request is kept in `requests` for assertions.
+ */
+export class MockModelProvider implements ModelProvider {
+    name = "mock";
+    requests: ModelCompletionRequest[] = [];
+    private responses: MockModelResponse[];
+
+    constructor(responses: MockModelResponse | MockModelResponse[]) {
+        this.responses = Array.isArray(responses) ? responses : [responses];
+
+        if (this.responses.length === 0) {
+            throw new Error("MockModelProvider needs at least one response");
+        }
+    }
+
+    async complete(request: ModelCompletionRequest): Promise<string> {
+        const next = this.responses[Math.min(this.requests.length, this.responses.length - 1)];
+        this.requests.push(request);
+
+        const reply = typeof next === "function" ? await next(request) : next;
+        return typeof reply === "string" ? reply : JSON.stringify(reply);
+    }
+}
+
+/**
+ * Build a provider from `UI_SMITH_MODEL_API_KEY`, `UI_SMITH_MODEL` and
+ * `UI_SMITH_MODEL_BASE_URL`. Returns undefined when no API key is set, which
+ * keeps agents on their offline heuristics.
+ */
+export function createModelProviderFromEnv(
+    env: Record<string, string | undefined> = process.env
+): ModelProvider | undefined {
+    const apiKey = env.UI_SMITH_MODEL_API_KEY;
+    if (!apiKey) return undefined;
+
+    return new OpenAICompatibleProvider({
+        apiKey,
+        model: env.UI_SMITH_MODEL || "gpt-4o-mini",
+        ...(env.UI_SMITH_MODEL_BASE_URL && { baseUrl: env.UI_SMITH_MODEL_BASE_URL }),
+    });
+}
@@ -0,0 +1,25 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createOrchestrator } from "./orchestrator";
+
+describe("AgentOrchestrator convergence", () => {
+    it("reports unmet targets as max_iterations when no pass may run", async () => {
+        const orchestrator = createOrchestrator({
+            exportOnSuccess: false,
+            convergence: { targetDesignScore: 101, maxIterations: 0 },
+        });
+        const result = await orchestrator.processRequest("Create a SaaS pricing page");
+
+        assert.deepEqual(result.convergence, { converged: false, reason: "max_iterations", iterations: [] });
+    });
+
+    it("reports targets met by the first reviews without running a pass", async () => {
+        const orchestrator = createOrchestrator({
+            exportOnSuccess: false,
+            convergence: { targetDesignScore: 0, targetAccessibilityScore: 0, maxIterations: 0 },
+        });
+        const result = await orchestrator.processRequest("Create a SaaS pricing page");
+
+        assert.deepEqual(result.convergence, { converged: true, reason: "targets_met", iterations: [] });
+    });
+});
@@ -3,26 +3,59 @@
  * ==================
  * Coordinates the multi-agent pipeline for UI generation.
  * 
- * Flow:
+ * Flow (executed as an OrchestrationPlan, see plan-executor):
  * 1. User Request → UI Architect (creates/modifies UI spec)
- * 2. UI Spec → Design Critic (reviews and improves)
- * 3. Improved UI → Accessibility Agent (validates a11y)
- * 4. Validated UI → Export Engineer (generates code)
+ * 2. UI Spec → Design Critic (reviews and improves)      ┐ run
+ * 3. UI Spec → Accessibility Agent (validates a11y)      ┘ concurrently
+ * 4. Reviewed UI → Export Engineer (generates code)
+ *
+ * Custom agents from the agent registry are planned in alongside these stages.
+ *
+ * In approval mode (`approvalHandler`) the pipeline pauses after the critic and
+ * a11y steps until the handler decides which proposed changes to apply.
+ *
+ * Every spec a step produces is validated against the component schemas and
+ * repaired where possible (see spec-validator) before the next step sees it.
+ *
+ * Scripts can also edit the current UI directly with `applyPatch` (JSON Patch,
+ * see json-patch), the same mutation path the UI Architect uses for
+ * modification requests, and load an exported `ui-smith.config.json` with
+ * `importConfig` (see config-importer). `reviewUI` runs the review and export
+ * stages on an existing spec or config instead of asking the UI Architect.
  */
 
 import { v4 as uuidv4 } from "uuid";
 import {
+    AccessibilityReport,
+    AgentActionType,
     AgentContext,
     AgentMessage,
-    AgentResponse,
     AgentRole,
+    ApprovalDecision,
+    ApprovalRequest,
+    ComponentSpec,
+    DesignFeedback,
+    ExportPackage,
     OrchestrationPlan,
+    ProposedChange,
     UISpec,
+    UISpecVersion,
 } from "./types";
 import { createUIArchitectAgent } from "./ui-architect";
 import { createDesignCriticAgent } from "./design-critic";
 import { createAccessibilityAgent } from "./accessibility-agent";
-import { createExportEngineerAgent, ExportOptions } from "./export-engineer";
+import { createExportEngineerAgent, ExportOptions, ExportTypeChecker } from "./export-engineer";
+import { ComponentSources } from "./component-sources";
+import { agentRegistry, PipelineAgent, PipelineAgentRegistry, PipelineAgentResult } from "./agent-registry";
+import type { MCPToolClient } from "./mcp-tools";
+import type { ModelProvider } from "./model-provider";
+import { importExportConfig, importUIDocument } from "./config-importer";
+import { applyUISpecPatch, JsonPatch } from "./json-patch";
+import { executePlan, PlanStep, PlanStepResult } from "./plan-executor";
+import { applyProposedChanges, proposedChangeKey } from "./proposed-changes";
+import type { SessionStore } from "./session-store";
+import { diffUISpecs, UISpecDiff } from "./spec-diff";
+import { repairUISpec, SpecRepair } from "./spec-validator";
 
 /**
  * Pipeline result containing all outputs from the orchestration
@@ -31,22 +64,26 @@ export interface PipelineResult {
     conversationId: string;
     success: boolean;
     uiSpec?: UISpec;
-    designFeedback?: {
-        score: number;
-        issues: unknown[];
-        improvements: unknown[];
-    };
-    accessibilityReport?: {
-        passed: boolean;
-        score: number;
-        violations: unknown[];
-        warnings: unknown[];
-    };
-    exportPackage?: {
-        format: string;
-        files: Array<{ name: string; content: string; type: string }>;
-        instructions: string;
-    };
+    designFeedback?: DesignFeedback;
+    accessibilityReport?: AccessibilityReport;
+    exportPackage?: ExportPackage;
+    plan?: OrchestrationPlan;
+    steps?: PlanStepResult[];
+    convergence?: ConvergenceResult;
+    /** What each step that mutated the spec changed, in order */
+    changes?: Array<{
+        agent: AgentRole;
+        action: AgentActionType;
+        diff: UISpecDiff;
+    }>;
+    /** Props the validator repaired after each step, in order */
+    repairs?: Array<SpecRepair & { agent: AgentRole }>;
+    /** Reports from custom agents, by role */
+    agentReports?: Record<string, unknown>;
+    /** Decisions made on proposed changes in approval mode, in order */
+    approvals?: ApprovalRecord[];
+    /** Version recorded in the history for the resulting spec */
+    version?: number;
     errors: Array<{
         agent: AgentRole;
         code: string;
@@ -55,6 +92,86 @@ export interface PipelineResult {
     messages: AgentMessage[];
 }
 
+/**
+ * Score change produced by one critique-and-fix iteration
+ */
+export interface ConvergenceIteration {
+    iteration: number;
+    designScore?: number;
+    accessibilityScore?: number;
+    designScoreDelta?: number;
+    accessibilityScoreDelta?: number;
+    /** Indexes of top-level components whose spec changed during the iteration */
+    changedComponents: number[];
+}
+
+/**
+ * Outcome of the convergence loop
+ */
+export interface ConvergenceResult {
+    converged: boolean;
+    reason: "targets_met" | "no_changes" | "max_iterations";
+    iterations: ConvergenceIteration[];
+}
+
+/**
+ * Outcome of one approval request
+ */
+export interface ApprovalRecord {
+    agent: AgentRole;
+    proposed: ProposedChange[];
+    acceptedIds: string[];
+}
+
+/**
+ * Version history entry without its snapshot
+ */
+export interface UISpecVersionSummary {
+    version: number;
+    request: string;
+    createdAt: string;
+    componentCount: number;
+    current: boolean;
+}
+
+/**
+ * Lifecycle events emitted while a request moves through the pipeline
+ */
+export type PipelineEvent =
+    | { type: "step_started"; agent: AgentRole; action: AgentActionType; timestamp: string }
+    | {
+        type: "step_finished";
+        agent: AgentRole;
+        action: AgentActionType;
+        success: boolean;
+        durationMs: number;
+        summary?: string;
+        timestamp: string;
+    }
+    | { type: "step_skipped"; agent: AgentRole; action: AgentActionType; blockedBy: number; timestamp: string }
+    | { type: "ui_spec"; agent: AgentRole; uiSpec: UISpec; diff?: UISpecDiff; timestamp: string }
+    | { type: "design_feedback"; feedback: DesignFeedback; timestamp: string }
+    | { type: "accessibility_report"; report: AccessibilityReport; timestamp: string }
+    | { type: "agent_report"; agent: AgentRole; report: unknown; timestamp: string }
+    | { type: "approval_requested"; request: ApprovalRequest; timestamp: string }
+    | {
+        type: "approval_resolved";
+        agent: AgentRole;
+        accepted: ProposedChange[];
+        rejected: ProposedChange[];
+        timestamp: string;
+    }
+    | { type: "export_ready"; exportPackage: ExportPackage; timestamp: string }
+    | { type: "message"; message: AgentMessage; timestamp: string }
+    | { type: "pipeline_finished"; result: PipelineResult; timestamp: string };
+
+export type PipelineEventListener = (event: PipelineEvent) => void;
+
+/**
+ * Decides which proposed changes to apply. Requests are delivered one at a time.
+ */
+export type ApprovalHandler = (request: ApprovalRequest) => Promise<ApprovalDecision>;
+
 /**
  * Orchestrator options
  */
@@ -65,8 +182,45 @@ export interface OrchestratorOptions {
     skipAccessibilityCheck: boolean;
     exportOnSuccess: boolean;
     exportOptions?: Partial<ExportOptions>;
+    /**
+     * Opt-in: keep re-running the design critic and accessibility passes on the
+     * improved spec until both scores reach their targets or the budget runs out
+     */
+    convergence?: Partial<ConvergenceOptions>;
+    /** Where conversations are persisted after every request */
+    sessionStore?: SessionStore;
+    /** Where the "vite" export copies the generative components from (see createFileComponentSources) */
+    componentSources?: ComponentSources;
+    /** Typechecks the exported code into the package's diagnostics (see createExportTypeChecker) */
+    exportTypeChecker?: ExportTypeChecker;
+    /**
+     * Opt-in approval mode: changes the auto-apply options would make are
+     * passed to this handler first, and only the accepted ones are applied
+     */
+    approvalHandler?: ApprovalHandler;
+    /** LLM used by the UI Architect; without one it uses its offline heuristics */
+    modelProvider?: ModelProvider;
+    /**
+     * MCP tools for the Design Critic and Accessibility agents (see src/mcp/client.ts);
+     * without it they run their checks in-process
+     */
+    mcpClient?: MCPToolClient;
+    /** Custom agents to add to every plan */
+    agentRegistry: PipelineAgentRegistry;
 }
 
+export interface ConvergenceOptions {
+    targetDesignScore: number;
+    targetAccessibilityScore: number;
+    maxIterations: number;
+}
+
+const defaultConvergenceOptions: ConvergenceOptions = {
+    targetDesignScore: 90,
+    targetAccessibilityScore: 95,
+    maxIterations: 3,
+};
+
 const defaultOptions: OrchestratorOptions = {
     autoApplyDesignImprovements: true,
     autoApplyAccessibilityFixes: true,
@@ -78,6 +232,7 @@ const defaultOptions: OrchestratorOptions = {
         typescript: true,
         framework: "nextjs",
     },
+    agentRegistry,
 };
 
 /**
@@ -87,6 +242,8 @@ export class AgentOrchestrator {
     private context: AgentContext;
     private options: OrchestratorOptions;
     private messages: AgentMessage[] = [];
+    private listeners = new Set<PipelineEventListener>();
+    private approvalQueue: Promise<unknown> = Promise.resolve();
 
     constructor(options?: Partial<OrchestratorOptions>) {
         this.options = { ...defaultOptions, ...options };
@@ -96,12 +253,77 @@ export class AgentOrchestrator {
         };
     }
 
+    /**
+     * Subscribe to pipeline events. Returns an unsubscribe function.
+     */
+    subscribe(listener: PipelineEventListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /**
+     * Process a request and yield pipeline events as they happen.
+     * The generator's return value is the final pipeline result.
+     */
+    async *streamRequest(userMessage: string): AsyncGenerator<PipelineEvent, PipelineResult> {
+        const queue: PipelineEvent[] = [];
+        let notify: (() => void) | undefined;
+        let finished = false;
+
+        const unsubscribe = this.subscribe(event => {
+            queue.push(event);
+            notify?.();
+        });
+
+        const resultPromise = this.processRequest(userMessage).finally(() => {
+            finished = true;
+            notify?.();
+        });
+
+        try {
+            while (true) {
+                const event = queue.shift();
+                if (event) {
+                    yield event;
+                    continue;
+                }
+                if (finished) break;
+                await new Promise<void>(resolve => {
+                    notify = resolve;
+                });
+                notify = undefined;
+            }
+            return await resultPromise;
+        } finally {
+            unsubscribe();
+        }
+    }
+
     /**
      * Process a user request through the agent pipeline
      */
     async processRequest(userMessage: string): Promise<PipelineResult> {
         this.logMessage("user", "orchestrator", "ANALYZE_REQUEST", { message: userMessage });
+        return this.runPipeline(userMessage);
+    }
+
+    /**
+     * Run the review and export stages on an existing UISpec or exported
+     * config (parsed, or the file's text) in place of the UI Architect. The
+     * document becomes the current UI, like a generated one.
+     */
+    async reviewUI(document: unknown, request = "Review UI"): Promise<PipelineResult> {
+        this.logMessage("user", "orchestrator", "ANALYZE_REQUEST", { message: request });
+        return this.runPipeline(request, { document });
+    }
 
+    /**
+     * Plan and execute a request. With a `source` document, the plan starts
+     * by importing it rather than with the UI Architect.
+     */
+    private async runPipeline(userMessage: string, source?: { document: unknown }): Promise<PipelineResult> {
         const result: PipelineResult = {
             conversationId: this.context.conversationId,
             success: false,
@@ -110,121 +332,519 @@ export class AgentOrchestrator {
         };
 
         try {
-            // Step 1: UI Architect - Create/Modify UI
-            const uiArchitect = createUIArchitectAgent(this.context);
-            this.logMessage("orchestrator", "ui-architect", "CREATE_UI", { userMessage });
+            const plan = this.createPlan(userMessage, source !== undefined);
+            result.plan = plan;
 
-            const architectResponse = await uiArchitect.processRequest(userMessage);
+            const execution = await executePlan(
+                plan,
+                step => this.runPlanStep(step, userMessage, result, source),
+                {
+                    onStepSkipped: (step, blockedBy) => {
+                        this.emit({
+                            type: "step_skipped",
+                            agent: step.agent,
+                            action: step.action,
+                            blockedBy,
+                            timestamp: now(),
+                        });
+                    },
+                }
+            );
+            result.steps = execution.steps;
 
-            if (!architectResponse.success || !architectResponse.data) {
-                result.errors.push({
-                    agent: "ui-architect",
-                    code: architectResponse.errors?.[0]?.code || "UNKNOWN",
-                    message: architectResponse.errors?.[0]?.message || "Failed to create UI",
+            // Surface steps that threw instead of reporting a failure
+            execution.steps
+                .filter(step => step.error)
+                .forEach(step => {
+                    result.errors.push({
+                        agent: step.agent,
+                        code: "STEP_ERROR",
+                        message: step.error!,
+                    });
                 });
-                result.messages = this.messages;
-                return result;
-            }
-
-            let currentUI = architectResponse.data as UISpec;
-            result.uiSpec = currentUI;
-            this.context.currentUI = currentUI;
 
-            // Step 2: Design Critic - Review and Improve (optional)
-            if (!this.options.skipDesignReview) {
-                const designCritic = createDesignCriticAgent();
-                this.logMessage("orchestrator", "design-critic", "VALIDATE_DESIGN", { uiSpec: currentUI });
+            if (result.uiSpec) {
+                result.version = this.recordVersion(userMessage, result.uiSpec);
+            }
 
-                const criticResponse = await designCritic.review(currentUI);
+            // Mark as successful if we have a UI spec, every required step passed and no critical errors
+            result.success = !!result.uiSpec && execution.success && result.errors.filter(e =>
+                e.agent === "accessibility" && e.code.startsWith("A11Y_")
+            ).length === 0;
 
-                if (criticResponse.data) {
-                    const criticData = criticResponse.data as { feedback: unknown; improvedUI?: UISpec };
-                    result.designFeedback = criticData.feedback as PipelineResult["designFeedback"];
+            return this.finish(result);
 
-                    if (this.options.autoApplyDesignImprovements && criticData.improvedUI) {
-                        currentUI = criticData.improvedUI;
-                        result.uiSpec = currentUI;
-                        this.context.currentUI = currentUI;
-                    }
-                }
+        } catch (error) {
+            result.errors.push({
+                agent: "orchestrator",
+                code: "ORCHESTRATION_ERROR",
+                message: String(error),
+            });
+            return this.finish(result);
+        }
+    }
 
-                if (!criticResponse.success) {
-                    result.errors.push({
-                        agent: "design-critic",
-                        code: criticResponse.errors?.[0]?.code || "DESIGN_ISSUES",
-                        message: criticResponse.errors?.[0]?.message || "Design review found issues",
-                    });
-                    // Continue anyway, design issues are not blocking
+    /**
+     * Run a single plan step, recording its output on the result.
+     * Resolves to whether the step succeeded.
+     */
+    private async runPlanStep(
+        step: PlanStep,
+        userMessage: string,
+        result: PipelineResult,
+        source?: { document: unknown }
+    ): Promise<boolean> {
+        switch (step.agent) {
+            case "ui-architect":
+                return this.runArchitectStep(step.action, userMessage, result);
+            case "design-critic":
+                return this.runDesignStep(result);
+            case "accessibility":
+                return this.runAccessibilityStep(result);
+            case "orchestrator":
+                return step.action === "IMPORT_UI"
+                    ? this.runImportStep(source?.document, result)
+                    : this.runRefineStep(result);
+            case "export-engineer":
+                return this.runExportStep(result);
+            default: {
+                const agent = this.options.agentRegistry.get(step.agent);
+                if (!agent) {
+                    throw new Error(`No handler for agent "${step.agent}"`);
                 }
+                return this.runCustomStep(agent, userMessage, result);
             }
+        }
+    }
 
-            // Step 3: Accessibility Agent - Validate A11y (optional)
-            if (!this.options.skipAccessibilityCheck) {
-                const a11yAgent = createAccessibilityAgent();
-                this.logMessage("orchestrator", "accessibility", "VALIDATE_ACCESSIBILITY", { uiSpec: currentUI });
+    /**
+     * UI Architect - Create/Modify UI
+     */
+    private async runArchitectStep(
+        action: AgentActionType,
+        userMessage: string,
+        result: PipelineResult
+    ): Promise<boolean> {
+        const uiArchitect = createUIArchitectAgent(this.context, this.options.modelProvider);
+        const startedAt = this.startStep("ui-architect", action, { userMessage });
 
-                const a11yResponse = await a11yAgent.validate(currentUI);
+        const architectResponse = await uiArchitect.processRequest(userMessage);
 
-                if (a11yResponse.data) {
-                    const a11yData = a11yResponse.data as { report: unknown; fixedUI?: UISpec };
-                    result.accessibilityReport = a11yData.report as PipelineResult["accessibilityReport"];
+        if (!architectResponse.success || !architectResponse.data) {
+            result.errors.push({
+                agent: "ui-architect",
+                code: architectResponse.errors?.[0]?.code || "UNKNOWN",
+                message: architectResponse.errors?.[0]?.message || "Failed to create UI",
+            });
+            this.finishStep("ui-architect", action, startedAt, false, result.errors[result.errors.length - 1].message);
+            return false;
+        }
 
-                    if (this.options.autoApplyAccessibilityFixes && a11yData.fixedUI) {
-                        currentUI = a11yData.fixedUI;
-                        result.uiSpec = currentUI;
-                        this.context.currentUI = currentUI;
-                    }
-                }
+        // e.g. the model failed and the offline heuristics were used instead
+        architectResponse.errors?.forEach(warning => {
+            result.errors.push({ agent: "ui-architect", code: warning.code, message: warning.message });
+        });
 
-                if (!a11yResponse.success) {
-                    result.errors.push({
-                        agent: "accessibility",
-                        code: a11yResponse.errors?.[0]?.code || "A11Y_ISSUES",
-                        message: a11yResponse.errors?.[0]?.message || "Accessibility validation found issues",
-                    });
-                    // Don't continue if critical a11y issues
-                    if (result.accessibilityReport && !result.accessibilityReport.passed) {
-                        result.messages = this.messages;
-                        return result;
-                    }
+        const uiSpec = architectResponse.data as UISpec;
+        this.setCurrentUI(result, uiSpec, "ui-architect", action);
+        this.finishStep(
+            "ui-architect",
+            action,
+            startedAt,
+            true,
+            `${uiSpec.components.length} component${uiSpec.components.length === 1 ? "" : "s"}`
+        );
+        return true;
+    }
+
+    /**
+     * Import - load an existing spec or config as the UI to review
+     */
+    private async runImportStep(document: unknown, result: PipelineResult): Promise<boolean> {
+        const startedAt = this.startStep("orchestrator", "IMPORT_UI", {});
+        const imported = importUIDocument(document);
+
+        if (!imported.uiSpec) {
+            imported.errors.forEach(error => {
+                result.errors.push({
+                    agent: "orchestrator",
+                    code: error.code,
+                    message: error.path ? `${error.message} (at ${error.path})` : error.message,
+                });
+            });
+            this.finishStep("orchestrator", "IMPORT_UI", startedAt, false, result.errors[0]?.message);
+            return false;
+        }
+
+        if (imported.repairs.length > 0) {
+            result.repairs = imported.repairs.map(repair => ({ ...repair, agent: "orchestrator" }));
+        }
+
+        const uiSpec = imported.uiSpec;
+        this.setCurrentUI(result, uiSpec, "orchestrator", "IMPORT_UI");
+        this.finishStep(
+            "orchestrator",
+            "IMPORT_UI",
+            startedAt,
+            true,
+            `${uiSpec.components.length} component${uiSpec.components.length === 1 ? "" : "s"}`
+        );
+        return true;
+    }
+
+    /**
+     * Design Critic - Review and Improve
+     */
+    private async runDesignStep(result: PipelineResult): Promise<boolean> {
+        const reviewedUI = result.uiSpec!;
+        const designCritic = createDesignCriticAgent(this.options.mcpClient);
+        const startedAt = this.startStep("design-critic", "VALIDATE_DESIGN", { uiSpec: reviewedUI });
+
+        const criticResponse = await designCritic.review(reviewedUI);
+
+        if (criticResponse.data) {
+            // A failed review returns the feedback directly rather than wrapped
+            const criticData = criticResponse.success
+                ? criticResponse.data as {
+                    feedback: DesignFeedback;
+                    improvedUI?: UISpec;
+                    proposedChanges?: ProposedChange[];
                 }
+                : { feedback: criticResponse.data as DesignFeedback };
+            result.designFeedback = criticData.feedback;
+            this.emit({ type: "design_feedback", feedback: criticData.feedback, timestamp: now() });
+
+            if (this.options.autoApplyDesignImprovements && criticData.improvedUI) {
+                const improvedUI = await this.approveChanges(
+                    result,
+                    "design-critic",
+                    reviewedUI,
+                    criticData.improvedUI,
+                    criticData.proposedChanges
+                );
+                const merged = this.mergeAgentChanges(result.uiSpec!, reviewedUI, improvedUI);
+                this.setCurrentUI(result, merged, "design-critic", "VALIDATE_DESIGN");
             }
+        }
+
+        if (!criticResponse.success) {
+            result.errors.push({
+                agent: "design-critic",
+                code: criticResponse.errors?.[0]?.code || "DESIGN_ISSUES",
+                message: criticResponse.errors?.[0]?.message || "Design review found issues",
+            });
+        }
 
-            // Step 4: Export Engineer - Generate Code
-            if (this.options.exportOnSuccess) {
-                const exportEngineer = createExportEngineerAgent();
-                this.logMessage("orchestrator", "export-engineer", "EXPORT_CODE", { uiSpec: currentUI });
+        this.finishStep(
+            "design-critic",
+            "VALIDATE_DESIGN",
+            startedAt,
+            criticResponse.success,
+            result.designFeedback ? `Score: ${result.designFeedback.score}/100` : undefined
+        );
+        return criticResponse.success;
+    }
 
-                const exportResponse = await exportEngineer.export(currentUI, this.options.exportOptions);
+    /**
+     * Accessibility Agent - Validate A11y
+     */
+    private async runAccessibilityStep(result: PipelineResult): Promise<boolean> {
+        const validatedUI = result.uiSpec!;
+        const a11yAgent = createAccessibilityAgent(this.options.mcpClient);
+        const startedAt = this.startStep("accessibility", "VALIDATE_ACCESSIBILITY", { uiSpec: validatedUI });
 
-                if (exportResponse.success && exportResponse.data) {
-                    result.exportPackage = exportResponse.data as PipelineResult["exportPackage"];
-                } else {
-                    result.errors.push({
-                        agent: "export-engineer",
-                        code: exportResponse.errors?.[0]?.code || "EXPORT_FAILED",
-                        message: exportResponse.errors?.[0]?.message || "Failed to export code",
-                    });
-                }
+        const a11yResponse = await a11yAgent.validate(validatedUI);
+
+        if (a11yResponse.data) {
+            const a11yData = a11yResponse.data as {
+                report: AccessibilityReport;
+                fixedUI?: UISpec;
+                proposedChanges?: ProposedChange[];
+            };
+            result.accessibilityReport = a11yData.report;
+            this.emit({ type: "accessibility_report", report: a11yData.report, timestamp: now() });
+
+            if (this.options.autoApplyAccessibilityFixes && a11yData.fixedUI) {
+                const fixedUI = await this.approveChanges(
+                    result,
+                    "accessibility",
+                    validatedUI,
+                    a11yData.fixedUI,
+                    a11yData.proposedChanges
+                );
+                const merged = this.mergeAgentChanges(result.uiSpec!, validatedUI, fixedUI);
+                this.setCurrentUI(result, merged, "accessibility", "VALIDATE_ACCESSIBILITY");
             }
+        }
 
-            // Mark as successful if we have a UI spec and no critical errors
-            result.success = !!result.uiSpec && result.errors.filter(e =>
-                e.agent === "accessibility" && e.code.startsWith("A11Y_")
-            ).length === 0;
+        if (!a11yResponse.success) {
+            result.errors.push({
+                agent: "accessibility",
+                code: a11yResponse.errors?.[0]?.code || "A11Y_ISSUES",
+                message: a11yResponse.errors?.[0]?.message || "Accessibility validation found issues",
+            });
+        }
 
-            result.messages = this.messages;
-            return result;
+        this.finishStep(
+            "accessibility",
+            "VALIDATE_ACCESSIBILITY",
+            startedAt,
+            a11yResponse.success,
+            result.accessibilityReport
+                ? `WCAG AA: ${result.accessibilityReport.passed ? "Pass" : "Fail"}`
+                : undefined
+        );
+        return a11yResponse.success;
+    }
 
-        } catch (error) {
+    /**
+     * Export Engineer - Generate Code
+     */
+    private async runExportStep(result: PipelineResult): Promise<boolean> {
+        const uiSpec = result.uiSpec!;
+        const exportEngineer = createExportEngineerAgent(this.options.componentSources, this.options.exportTypeChecker);
+        const startedAt = this.startStep("export-engineer", "EXPORT_CODE", { uiSpec });
+
+        const exportResponse = await exportEngineer.export(uiSpec, this.options.exportOptions);
+
+        if (exportResponse.success && exportResponse.data) {
+            const exportPackage = exportResponse.data as ExportPackage;
+            result.exportPackage = exportPackage;
+            this.emit({ type: "export_ready", exportPackage, timestamp: now() });
+            const typeErrors = exportPackage.diagnostics?.length ?? 0;
+            this.finishStep(
+                "export-engineer",
+                "EXPORT_CODE",
+                startedAt,
+                true,
+                typeErrors > 0 ? `Ready to export, ${typeErrors} type error${typeErrors === 1 ? "" : "s"}` : "Ready to export"
+            );
+            return true;
+        }
+
+        result.errors.push({
+            agent: "export-engineer",
+            code: exportResponse.errors?.[0]?.code || "EXPORT_FAILED",
+            message: exportResponse.errors?.[0]?.message || "Failed to export code",
+        });
+        this.finishStep("export-engineer", "EXPORT_CODE", startedAt, false, "Export failed");
+        return false;
+    }
+
+    /**
+     * Custom agent from the agent registry
+     */
+    private async runCustomStep(agent: PipelineAgent, userMessage: string, result: PipelineResult): Promise<boolean> {
+        const { role } = agent.config;
+        const reviewedUI = result.uiSpec!;
+        const startedAt = this.startStep(role, "CUSTOM_STAGE", { inputs: agent.inputs });
+
+        const response = await agent.run({
+            userMessage: agent.inputs.includes("userMessage") ? userMessage : undefined,
+            uiSpec: agent.inputs.includes("uiSpec") ? reviewedUI : undefined,
+            designFeedback: agent.inputs.includes("designFeedback") ? result.designFeedback : undefined,
+            accessibilityReport: agent.inputs.includes("accessibilityReport") ? result.accessibilityReport : undefined,
+        });
+        const data = response.data as PipelineAgentResult | undefined;
+
+        if (agent.outputs.includes("report") && data?.report !== undefined) {
+            result.agentReports = { ...result.agentReports, [role]: data.report };
+            this.emit({ type: "agent_report", agent: role, report: data.report, timestamp: now() });
+        }
+
+        if (response.success && agent.outputs.includes("uiSpec") && data?.uiSpec) {
+            const merged = this.mergeAgentChanges(result.uiSpec!, reviewedUI, data.uiSpec);
+            this.setCurrentUI(result, merged, role, "CUSTOM_STAGE");
+        }
+
+        if (!response.success) {
             result.errors.push({
-                agent: "orchestrator",
-                code: "ORCHESTRATION_ERROR",
-                message: String(error),
+                agent: role,
+                code: response.errors?.[0]?.code || "AGENT_FAILED",
+                message: response.errors?.[0]?.message || `${agent.config.name} failed`,
             });
-            result.messages = this.messages;
-            return result;
         }
+
+        this.finishStep(
+            role,
+            "CUSTOM_STAGE",
+            startedAt,
+            response.success,
+            response.success ? undefined : result.errors[result.errors.length - 1].message
+        );
+        return response.success;
+    }
+
+    /**
+     * Convergence loop - re-run critic and a11y passes on the improved spec
+     * until the configured score targets are met
+     */
+    private async runRefineStep(result: PipelineResult): Promise<boolean> {
+        const convergence = { ...defaultConvergenceOptions, ...this.options.convergence };
+        const startedAt = this.startStep("orchestrator", "REFINE_UI", { convergence });
+
+        const targetsMet = () =>
+            (this.options.skipDesignReview || (result.designFeedback?.score ?? 0) >= convergence.targetDesignScore) &&
+            (this.options.skipAccessibilityCheck ||
+                (result.accessibilityReport?.score ?? 0) >= convergence.targetAccessibilityScore);
+
+        // Without any passes (maxIterations 0) the targets are met up front or not at all
+        const converged = targetsMet();
+        const outcome: ConvergenceResult = {
+            converged,
+            reason: converged ? "targets_met" : "max_iterations",
+            iterations: [],
+        };
+        result.convergence = outcome;
+
+        let accessibilityPassed = this.options.skipAccessibilityCheck || !!result.accessibilityReport?.passed;
+
+        for (let iteration = 1; !outcome.converged && iteration <= convergence.maxIterations; iteration++) {
+            const before = result.uiSpec!;
+            const previousDesignScore = result.designFeedback?.score;
+            const previousAccessibilityScore = result.accessibilityReport?.score;
+
+            // Only the latest pass decides which review errors still apply
+            result.errors = result.errors.filter(e => e.agent !== "design-critic" && e.agent !== "accessibility");
+
+            if (!this.options.skipDesignReview) {
+                await this.runDesignStep(result);
+            }
+            if (!this.options.skipAccessibilityCheck) {
+                accessibilityPassed = await this.runAccessibilityStep(result);
+            }
+
+            const designScore = result.designFeedback?.score;
+            const accessibilityScore = result.accessibilityReport?.score;
+            const changedComponents = changedComponentIndexes(before, result.uiSpec!);
+
+            outcome.iterations.push({
+                iteration,
+                designScore,
+                accessibilityScore,
+                designScoreDelta: scoreDelta(previousDesignScore, designScore),
+                accessibilityScoreDelta: scoreDelta(previousAccessibilityScore, accessibilityScore),
+                changedComponents,
+            });
+
+            if (targetsMet()) {
+                outcome.converged = true;
+                outcome.reason = "targets_met";
+            } else if (changedComponents.length === 0) {
+                // Nothing left for the agents to fix, further passes would repeat this one
+                outcome.reason = "no_changes";
+                break;
+            } else {
+                outcome.reason = "max_iterations";
+            }
+        }
+
+        this.finishStep(
+            "orchestrator",
+            "REFINE_UI",
+            startedAt,
+            accessibilityPassed,
+            outcome.converged
+                ? `Converged after ${outcome.iterations.length} iteration${outcome.iterations.length === 1 ? "" : "s"}`
+                : `Stopped: ${outcome.reason.replace("_", " ")}`
+        );
+        return accessibilityPassed;
+    }
+
+    /**
+     * In approval mode, let the approval handler pick which proposed changes to
+     * apply to the reviewed spec. Changes rejected earlier in the same request
+     * are not asked about again. Without a handler the agent's own result is used.
+     */
+    private async approveChanges(
+        result: PipelineResult,
+        agent: AgentRole,
+        reviewedUI: UISpec,
+        changedUI: UISpec,
+        proposed: ProposedChange[] = []
+    ): Promise<UISpec> {
+        const handler = this.options.approvalHandler;
+        if (!handler) return changedUI;
+
+        const rejected = new Set(
+            (result.approvals ?? []).flatMap(record =>
+                record.proposed
+                    .filter(change => !record.acceptedIds.includes(change.id))
+                    .map(proposedChangeKey)
+            )
+        );
+        const changes = proposed.filter(change => !rejected.has(proposedChangeKey(change)));
+        if (changes.length === 0) return reviewedUI;
+
+        const request: ApprovalRequest = {
+            conversationId: this.context.conversationId,
+            agent,
+            changes,
+        };
+
+        // Concurrent steps queue up so the handler only ever sees one request at a time
+        const decision = this.approvalQueue.then(() => {
+            this.emit({ type: "approval_requested", request, timestamp: now() });
+            return handler(request);
+        });
+        this.approvalQueue = decision.catch(() => undefined);
+
+        const { acceptedIds } = await decision;
+        const accepted = changes.filter(change => acceptedIds.includes(change.id));
+
+        result.approvals = [...(result.approvals ?? []), {
+            agent,
+            proposed: changes,
+            acceptedIds: accepted.map(change => change.id),
+        }];
+        this.emit({
+            type: "approval_resolved",
+            agent,
+            accepted,
+            rejected: changes.filter(change => !acceptedIds.includes(change.id)),
+            timestamp: now(),
+        });
+
+        return applyProposedChanges(reviewedUI, accepted);
+    }
+
+    /**
+     * Append a snapshot to the version history, dropping any undone versions
+     */
+    private recordVersion(request: string, uiSpec: UISpec): number {
+        const currentIndex = this.findVersionIndex(this.context.currentVersion);
+        const versions = (this.context.versions ?? []).slice(0, currentIndex + 1);
+        const version = (versions[versions.length - 1]?.version ?? 0) + 1;
+
+        uiSpec.metadata = { ...uiSpec.metadata, version };
+
+        const entry: UISpecVersion = {
+            version,
+            request,
+            createdAt: now(),
+            uiSpec: JSON.parse(JSON.stringify(uiSpec)),
+        };
+
+        this.context.versions = [...versions, entry];
+        this.context.currentVersion = version;
+        return version;
+    }
+
+    private findVersionIndex(version: number | undefined): number {
+        return (this.context.versions ?? []).findIndex(v => v.version === version);
+    }
+
+    /**
+     * Apply the prop changes an agent made to the spec it reviewed onto the
+     * latest spec, so concurrent steps don't overwrite each other's changes
+     */
+    private mergeAgentChanges(current: UISpec, reviewed: UISpec, changed: UISpec): UISpec {
+        if (current === reviewed) return changed;
+
+        const merged: UISpec = JSON.parse(JSON.stringify(current));
+        mergeChangedProps(merged.components, reviewed.components, changed.components);
+
+        return merged;
     }
 
     /**
@@ -247,6 +867,108 @@ export class AgentOrchestrator {
         return this.processRequest(modificationRequest);
     }
 
+    /**
+     * Apply a JSON Patch to the current UI and record the result as a new
+     * version. The patched spec must pass schema validation; otherwise the
+     * current UI is left as it was and the errors are returned.
+     */
+    async applyPatch(patch: JsonPatch, request = "Apply JSON Patch"): Promise<PipelineResult> {
+        const result: PipelineResult = {
+            conversationId: this.context.conversationId,
+            success: false,
+            errors: [],
+            messages: [],
+        };
+
+        if (!this.context.currentUI) {
+            result.errors.push({
+                agent: "orchestrator",
+                code: "NO_UI",
+                message: "No existing UI to patch. Use processRequest() first.",
+            });
+            result.messages = this.messages;
+            return result;
+        }
+
+        const startedAt = this.startStep("orchestrator", "APPLY_PATCH", { request, patch });
+        const patched = applyUISpecPatch(this.context.currentUI, patch);
+
+        if (!patched.uiSpec) {
+            patched.errors.forEach(error => {
+                result.errors.push({
+                    agent: "orchestrator",
+                    code: error.code,
+                    message: error.path ? `${error.message} (at ${error.path})` : error.message,
+                });
+            });
+            this.finishStep("orchestrator", "APPLY_PATCH", startedAt, false, result.errors[0]?.message);
+            return this.finish(result);
+        }
+
+        const uiSpec = patched.uiSpec;
+        uiSpec.metadata = { ...uiSpec.metadata, updatedAt: now() };
+        this.setCurrentUI(result, uiSpec, "orchestrator", "APPLY_PATCH");
+        result.version = this.recordVersion(request, result.uiSpec!);
+        result.success = true;
+        this.finishStep(
+            "orchestrator",
+            "APPLY_PATCH",
+            startedAt,
+            true,
+            `${patch.length} operation${patch.length === 1 ? "" : "s"}`
+        );
+
+        return this.finish(result);
+    }
+
+    /**
+     * Load an exported `ui-smith.config.json` (parsed, or the file's text) as
+     * the current UI and record it as a new version, so earlier versions stay
+     * in the history. An invalid config leaves the current UI as it was.
+     */
+    async importConfig(config: unknown, request = "Import ui-smith.config.json"): Promise<PipelineResult> {
+        const result: PipelineResult = {
+            conversationId: this.context.conversationId,
+            success: false,
+            errors: [],
+            messages: [],
+        };
+
+        const startedAt = this.startStep("orchestrator", "IMPORT_UI", { request });
+        const imported = importExportConfig(config);
+
+        if (!imported.uiSpec) {
+            imported.errors.forEach(error => {
+                result.errors.push({
+                    agent: "orchestrator",
+                    code: error.code,
+                    message: error.path ? `${error.message} (at ${error.path})` : error.message,
+                });
+            });
+            this.finishStep("orchestrator", "IMPORT_UI", startedAt, false, result.errors[0]?.message);
+            return this.finish(result);
+        }
+
+        if (imported.repairs.length > 0) {
+            result.repairs = imported.repairs.map(repair => ({ ...repair, agent: "orchestrator" }));
+        }
+
+        const uiSpec = imported.uiSpec;
+        uiSpec.metadata = { ...uiSpec.metadata, updatedAt: now() };
+        this.setCurrentUI(result, uiSpec, "orchestrator", "IMPORT_UI");
+        result.version = this.recordVersion(request, result.uiSpec!);
+        result.success = true;
+        this.finishStep(
+            "orchestrator",
+            "IMPORT_UI",
+            startedAt,
+            true,
+            `${uiSpec.components.length} component${uiSpec.components.length === 1 ? "" : "s"}`
+        );
+
+        return this.finish(result);
+    }
+
     /**
      * Get the current UI specification
      */
@@ -254,6 +976,66 @@ export class AgentOrchestrator {
         return this.context.currentUI;
     }
 
+    /**
+     * List the version history, oldest first
+     */
+    listVersions(): UISpecVersionSummary[] {
+        return (this.context.versions ?? []).map(entry => ({
+            version: entry.version,
+            request: entry.request,
+            createdAt: entry.createdAt,
+            componentCount: entry.uiSpec.components.length,
+            current: entry.version === this.context.currentVersion,
+        }));
+    }
+
+    canUndo(): boolean {
+        return this.findVersionIndex(this.context.currentVersion) > 0;
+    }
+
+    canRedo(): boolean {
+        const index = this.findVersionIndex(this.context.currentVersion);
+        return index !== -1 && index < (this.context.versions?.length ?? 0) - 1;
+    }
+
+    /**
+     * Step back to the previous version
+     */
+    async undo(): Promise<UISpec | undefined> {
+        if (!this.canUndo()) return undefined;
+        const index = this.findVersionIndex(this.context.currentVersion);
+        return this.checkout(this.context.versions![index - 1].version);
+    }
+
+    /**
+     * Step forward to the version that was undone last
+     */
+    async redo(): Promise<UISpec | undefined> {
+        if (!this.canRedo()) return undefined;
+        const index = this.findVersionIndex(this.context.currentVersion);
+        return this.checkout(this.context.versions![index + 1].version);
+    }
+
+    /**
+     * Make a recorded version the current UI. Later versions are kept until
+     * the next request, which replaces them (like a redo stack).
+     */
+    async checkout(version: number): Promise<UISpec | undefined> {
+        const entry = this.context.versions?.find(v => v.version === version);
+        if (!entry) return undefined;
+
+        const uiSpec: UISpec = JSON.parse(JSON.stringify(entry.uiSpec));
+        this.context.currentUI = uiSpec;
+        this.context.currentVersion = version;
+        this.emit({ type: "ui_spec", agent: "orchestrator", uiSpec, timestamp: now() });
+
+        if (this.options.sessionStore) {
+            await this.options.sessionStore.save(this.context);
+        }
+
+        return uiSpec;
+    }
+
     /**
      * Get the conversation context
      */
@@ -264,20 +1046,25 @@ export class AgentOrchestrator {
     /**
      * Create an orchestration plan for visualization
      */
-    createPlan(userMessage: string): OrchestrationPlan {
+    createPlan(userMessage: string, importDocument = false): OrchestrationPlan {
         const steps: OrchestrationPlan["steps"] = [];
         let order = 1;
 
-        // Step 1: UI Architect
-        steps.push({
-            order: order++,
-            agent: "ui-architect",
-            action: this.context.currentUI ? "MODIFY_UI" : "CREATE_UI",
-            required: true,
-        });
+        // Step 1: UI Architect, or the import of an existing spec (see reviewUI)
+        steps.push(importDocument
+            ? { order: order++, agent: "orchestrator", action: "IMPORT_UI", required: true }
+            : {
+                order: order++,
+                agent: "ui-architect",
+                action: this.context.currentUI ? "MODIFY_UI" : "CREATE_UI",
+                required: true,
+            });
+
+        // Steps 2 & 3: Design Critic and Accessibility review the same spec concurrently
+        const reviewSteps: number[] = [];
 
-        // Step 2: Design Critic
         if (!this.options.skipDesignReview) {
+            reviewSteps.push(order);
             steps.push({
                 order: order++,
                 agent: "design-critic",
@@ -287,24 +1074,76 @@ export class AgentOrchestrator {
             });
         }
 
-        // Step 3: Accessibility
         if (!this.options.skipAccessibilityCheck) {
+            reviewSteps.push(order);
             steps.push({
                 order: order++,
                 agent: "accessibility",
                 action: "VALIDATE_ACCESSIBILITY",
-                dependsOn: this.options.skipDesignReview ? [1] : [2],
+                dependsOn: [1],
                 required: true,
             });
         }
 
-        // Step 4: Export
+        // Optional convergence loop takes over the a11y gate once the first reviews are in
+        let exportDependsOn = reviewSteps.length > 0 ? reviewSteps : [1];
+
+        if (this.options.convergence && reviewSteps.length > 0) {
+            steps.forEach(step => {
+                if (step.agent === "accessibility") step.required = false;
+            });
+            exportDependsOn = [order];
+            steps.push({
+                order: order++,
+                agent: "orchestrator",
+                action: "REFINE_UI",
+                dependsOn: reviewSteps,
+                required: true,
+            });
+        }
+
+        // Custom stages, each once the stages it reads from or runs after are planned
+        const stepOrder = (agent: AgentRole) => steps.find(step => step.agent === agent)?.order;
+        const pending = this.options.agentRegistry.getAll();
+
+        while (pending.length > 0) {
+            const ready = pending.findIndex(agent =>
+                (agent.after ?? []).every(role => !this.options.agentRegistry.has(role) || stepOrder(role) !== undefined)
+            );
+            if (ready === -1) {
+                throw new Error(
+                    `Custom agents wait for each other in a cycle: ${pending.map(a => a.config.role).join(", ")}`
+                );
+            }
+
+            const [agent] = pending.splice(ready, 1);
+            const dependsOn = new Set([1]);
+            const addDependency = (role: AgentRole) => {
+                const dependency = stepOrder(role);
+                if (dependency !== undefined) dependsOn.add(dependency);
+            };
+
+            if (agent.inputs.includes("designFeedback")) addDependency("design-critic");
+            if (agent.inputs.includes("accessibilityReport")) addDependency("accessibility");
+            (agent.after ?? []).forEach(addDependency);
+
+            exportDependsOn = [...exportDependsOn, order];
+            steps.push({
+                order: order++,
+                agent: agent.config.role,
+                action: "CUSTOM_STAGE",
+                dependsOn: Array.from(dependsOn),
+                required: agent.required ?? false,
+            });
+        }
+
+        // Step 4: Export waits for every review and custom stage
         if (this.options.exportOnSuccess) {
             steps.push({
                 order: order++,
                 agent: "export-engineer",
                 action: "EXPORT_CODE",
-                dependsOn: [order - 2],
+                dependsOn: exportDependsOn,
                 required: false,
             });
         }
@@ -317,7 +1156,35 @@ export class AgentOrchestrator {
     }
 
     /**
-     * Reset the conversation context
+     * Replace the in-memory context with a saved session from the session store.
+     * Resolves to false when the store has no such conversation.
+     */
+    async loadSession(conversationId: string): Promise<boolean> {
+        const context = await this.requireSessionStore().load(conversationId);
+        if (!context) return false;
+
+        this.context = context;
+        this.messages = [];
+        return true;
+    }
+
+    /**
+     * Save the current context to the session store
+     */
+    async saveSession(): Promise<void> {
+        await this.requireSessionStore().save(this.context);
+    }
+
+    private requireSessionStore(): SessionStore {
+        if (!this.options.sessionStore) {
+            throw new Error("No session store configured. Pass sessionStore in OrchestratorOptions.");
+        }
+        return this.options.sessionStore;
+    }
+
+    /**
+     * Start a new conversation. A session saved for the previous
+     * conversation stays in the store and can still be resumed.
      */
     reset(): void {
         this.context = {
@@ -327,6 +1194,92 @@ export class AgentOrchestrator {
         this.messages = [];
     }
 
+    /**
+     * Repair a new current UI, record it with the diff from the previous one,
+     * and announce it to listeners. Props the repair pass could not fix are
+     * reported as errors of the agent that produced them.
+     */
+    private setCurrentUI(result: PipelineResult, produced: UISpec, agent: AgentRole, action: AgentActionType): void {
+        const { uiSpec, repairs, errors } = repairUISpec(produced);
+
+        if (repairs.length > 0) {
+            result.repairs = [...(result.repairs ?? []), ...repairs.map(repair => ({ ...repair, agent }))];
+        }
+        errors.forEach(error => {
+            const message = `${error.message} (at ${error.path})`;
+            if (!result.errors.some(existing => existing.message === message)) {
+                result.errors.push({ agent, code: error.code, message });
+            }
+        });
+
+        const diff = diffUISpecs(this.context.currentUI, uiSpec);
+
+        result.uiSpec = uiSpec;
+        if (!diff.isEmpty) {
+            result.changes = [...(result.changes ?? []), { agent, action, diff }];
+        }
+        this.context.currentUI = uiSpec;
+        this.emit({ type: "ui_spec", agent, uiSpec, diff, timestamp: now() });
+    }
+
+    /**
+     * Log the hand-off to an agent and announce that its step started
+     */
+    private startStep(agent: AgentRole, action: AgentActionType, payload: unknown): number {
+        this.logMessage("orchestrator", agent, action, payload);
+        this.emit({ type: "step_started", agent, action, timestamp: now() });
+        return Date.now();
+    }
+
+    /**
+     * Announce that an agent's step finished
+     */
+    private finishStep(
+        agent: AgentRole,
+        action: AgentActionType,
+        startedAt: number,
+        success: boolean,
+        summary?: string
+    ): void {
+        this.emit({
+            type: "step_finished",
+            agent,
+            action,
+            success,
+            durationMs: Date.now() - startedAt,
+            summary,
+            timestamp: now(),
+        });
+    }
+
+    /**
+     * Persist the session, attach the message log to a result and announce completion
+     */
+    private async finish(result: PipelineResult): Promise<PipelineResult> {
+        if (this.options.sessionStore) {
+            try {
+                await this.options.sessionStore.save(this.context);
+            } catch (error) {
+                result.errors.push({
+                    agent: "orchestrator",
+                    code: "SESSION_SAVE_FAILED",
+                    message: String(error),
+                });
+            }
+        }
+
+        result.messages = this.messages;
+        this.emit({ type: "pipeline_finished", result, timestamp: now() });
+        return result;
+    }
+
+    /**
+     * Deliver an event to every listener
+     */
+    private emit(event: PipelineEvent): void {
+        this.listeners.forEach(listener => listener(event));
+    }
+
     /**
      * Log a message between agents
      */
@@ -346,9 +1299,58 @@ export class AgentOrchestrator {
         };
         this.messages.push(message);
         this.context.history.push(message);
+        this.emit({ type: "message", message, timestamp: message.timestamp });
     }
 }
 
+function now(): string {
+    return new Date().toISOString();
+}
+
+function scoreDelta(previous?: number, current?: number): number | undefined {
+    return previous === undefined || current === undefined ? undefined : current - previous;
+}
+
+/**
+ * Copy the props that changed between `reviewed` and `changed` onto `target`,
+ * walking nested children. Components are matched by position and name.
+ */
+function mergeChangedProps(target: ComponentSpec[], reviewed: ComponentSpec[], changed: ComponentSpec[]): void {
+    changed.forEach((component, index) => {
+        const before = reviewed[index];
+        const into = target[index];
+        if (!before || !into || before.name !== component.name || into.name !== component.name) {
+            return;
+        }
+
+        Object.entries(component.props).forEach(([key, value]) => {
+            if (JSON.stringify(before.props[key]) !== JSON.stringify(value)) {
+                into.props[key] = value;
+            }
+        });
+
+        if (component.children && before.children && into.children) {
+            mergeChangedProps(into.children, before.children, component.children);
+        }
+    });
+}
+
+/**
+ * Indexes of top-level components that differ between two specs
+ */
+function changedComponentIndexes(before: UISpec, after: UISpec): number[] {
+    const changed: number[] = [];
+    const count = Math.max(before.components.length, after.components.length);
+
+    for (let index = 0; index < count; index++) {
+        if (JSON.stringify(before.components[index]) !== JSON.stringify(after.components[index])) {
+            changed.push(index);
+        }
+    }
+
+    return changed;
+}
+
 /**
  * Create a new orchestrator instance
  */
@@ -356,6 +1358,18 @@ export function createOrchestrator(options?: Partial<OrchestratorOptions>): Agen
     return new AgentOrchestrator(options);
 }
 
+/**
+ * Rehydrate an orchestrator from a saved conversation.
+ * Resolves to undefined when the session store has no such conversation.
+ */
+export async function resumeOrchestrator(
+    conversationId: string,
+    options: Partial<OrchestratorOptions> & { sessionStore: SessionStore }
+): Promise<AgentOrchestrator | undefined> {
+    const orchestrator = createOrchestrator(options);
+    return (await orchestrator.loadSession(conversationId)) ? orchestrator : undefined;
+}
+
 /**
  * Simple function to process a UI request
  */
@@ -0,0 +1,181 @@
+/**
+ * Plan Executor
+ * =============
+ * Runs the steps of an OrchestrationPlan in dependency order.
+ *
+ * Rules:
+ * - A step starts as soon as every step it depends on has settled
+ * - Steps without a dependency between them run concurrently
+ * - A failed `required` step skips its dependents (and theirs, transitively)
+ * - A failed optional step does not block anything
+ */
+
+import { OrchestrationPlan } from "./types";
+
+export type PlanStep = OrchestrationPlan["steps"][number];
+
+export type PlanStepStatus = "pending" | "running" | "succeeded" | "failed" | "skipped";
+
+/**
+ * Outcome of a single plan step
+ */
+export interface PlanStepResult {
+    order: number;
+    agent: PlanStep["agent"];
+    action: PlanStep["action"];
+    status: PlanStepStatus;
+    error?: string;
+    /** Order of the step that caused this one to be skipped */
+    blockedBy?: number;
+}
+
+/**
+ * Outcome of a whole plan
+ */
+export interface PlanExecutionResult {
+    planId: string;
+    success: boolean;
+    steps: PlanStepResult[];
+}
+
+/**
+ * Runs a single step. Resolves to whether the step succeeded;
+ * a rejected promise counts as a failure.
+ */
+export type PlanStepRunner = (step: PlanStep) => Promise<boolean>;
+
+export interface PlanExecutionHooks {
+    onStepSkipped?: (step: PlanStep, blockedBy: number) => void;
+}
+
+/**
+ * Execute a plan, running each step through `runStep` once its dependencies allow
+ */
+export async function executePlan(
+    plan: OrchestrationPlan,
+    runStep: PlanStepRunner,
+    hooks: PlanExecutionHooks = {}
+): Promise<PlanExecutionResult> {
+    validatePlan(plan);
+
+    const steps = new Map(plan.steps.map(step => [step.order, step]));
+    const results = new Map<number, PlanStepResult>(plan.steps.map(step => [step.order, {
+        order: step.order,
+        agent: step.agent,
+        action: step.action,
+        status: "pending",
+    }]));
+    const running = new Map<number, Promise<void>>();
+
+    const isBlocking = (order: number): boolean => {
+        const { status } = results.get(order)!;
+        return status === "skipped" || (status === "failed" && steps.get(order)!.required);
+    };
+
+    const isSettled = (order: number): boolean => {
+        const { status } = results.get(order)!;
+        return status === "succeeded" || status === "failed";
+    };
+
+    const start = (step: PlanStep): void => {
+        const result = results.get(step.order)!;
+        result.status = "running";
+
+        const execution = Promise.resolve()
+            .then(() => runStep(step))
+            .then(
+                succeeded => {
+                    result.status = succeeded ? "succeeded" : "failed";
+                },
+                error => {
+                    result.status = "failed";
+                    result.error = String(error);
+                }
+            )
+            .finally(() => {
+                running.delete(step.order);
+            });
+
+        running.set(step.order, execution);
+    };
+
+    while (true) {
+        // Skipping a step can unblock decisions about its dependents,
+        // so keep scheduling until nothing changes
+        let changed = true;
+        while (changed) {
+            changed = false;
+
+            for (const step of plan.steps) {
+                const result = results.get(step.order)!;
+                if (result.status !== "pending") continue;
+
+                const dependsOn = step.dependsOn ?? [];
+                const blockedBy = dependsOn.find(isBlocking);
+
+                if (blockedBy !== undefined) {
+                    result.status = "skipped";
+                    result.blockedBy = blockedBy;
+                    hooks.onStepSkipped?.(step, blockedBy);
+                    changed = true;
+                } else if (dependsOn.every(isSettled)) {
+                    start(step);
+                    changed = true;
+                }
+            }
+        }
+
+        if (running.size === 0) break;
+        await Promise.race(running.values());
+    }
+
+    const stepResults = plan.steps.map(step => results.get(step.order)!);
+
+    return {
+        planId: plan.id,
+        success: stepResults.every(step =>
+            step.status === "succeeded" || (step.status === "failed" && !steps.get(step.order)!.required)
+        ),
+        steps: stepResults,
+    };
+}
+
+/**
+ * Reject plans with duplicate steps, unknown dependencies or cycles
+ */
+function validatePlan(plan: OrchestrationPlan): void {
+    const orders = new Set<number>();
+
+    for (const step of plan.steps) {
+        if (orders.has(step.order)) {
+            throw new Error(`Invalid plan: duplicate step order ${step.order}`);
+        }
+        orders.add(step.order);
+    }
+
+    for (const step of plan.steps) {
+        for (const dependency of step.dependsOn ?? []) {
+            if (!orders.has(dependency)) {
+                throw new Error(`Invalid plan: step ${step.order} depends on unknown step ${dependency}`);
+            }
+        }
+    }
+
+    // Depth-first search for cycles
+    const dependencies = new Map(plan.steps.map(step => [step.order, step.dependsOn ?? []]));
+    const visiting = new Set<number>();
+    const visited = new Set<number>();
+
+    const visit = (order: number): void => {
+        if (visited.has(order)) return;
+        if (visiting.has(order)) {
+            throw new Error(`Invalid plan: dependency cycle through step ${order}`);
+        }
+        visiting.add(order);
+        dependencies.get(order)!.forEach(visit);
+        visiting.delete(order);
+        visited.add(order);
+    };
+
+    orders.forEach(visit);
+}
@@ -0,0 +1,43 @@
+/**
+ * Proposed Changes
+ * ================
+ * Helpers for the prop changes the Design Critic and Accessibility agents
+ * propose. In approval mode a reviewer accepts a subset, and only that
+ * subset is applied to the spec.
+ */
+
+import { ProposedChange, UISpec } from "./types";
+import { getComponentAt } from "./spec-tree";
+
+/**
+ * Apply changes to a copy of the spec. Changes for components that no longer
+ * exist, or that are now a different component, are ignored.
+ */
+export function applyProposedChanges(uiSpec: UISpec, changes: ProposedChange[]): UISpec {
+    const updated: UISpec = JSON.parse(JSON.stringify(uiSpec));
+
+    changes.forEach(change => {
+        const component = getComponentAt(updated.components, change.componentPath ?? [change.componentIndex]);
+        if (!component || component.name !== change.componentName) return;
+
+        component.props = {
+            ...component.props,
+            ...change.props,
+        };
+    });
+
+    return updated;
+}
+
+/**
+ * Identity of a change independent of its id, so the same proposal made
+ * again (e.g. by a later convergence pass) can be recognised
+ */
+export function proposedChangeKey(change: ProposedChange): string {
+    return JSON.stringify([
+        change.agent,
+        change.componentPath ?? [change.componentIndex],
+        change.componentName,
+        change.props,
+    ]);
+}
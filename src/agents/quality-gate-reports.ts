@@ -0,0 +1,230 @@
+/**
+ * Quality Gate Reports
+ * ====================
+ * Formats quality gate results (see quality-gate) for CI:
+ * - JUnit XML: a test suite per file with a test case per check (spec,
+ *   design, accessibility), failing with the findings that failed the gate
+ * - SARIF 2.1.0: a result per finding, located by component index as a
+ *   logical location (e.g. `components[0].children[2]`) and, when the file's
+ *   text is given, by line and column
+ */
+
+import { QualityGateFinding, QualityGateResult } from "./quality-gate";
+import { formatComponentPath } from "./spec-tree";
+
+export interface QualityGateFileResult {
+    /** Path of the checked file, as it should appear in reports */
+    file: string;
+    result: QualityGateResult;
+    /** The file's text, used to find the line of each finding */
+    source?: string;
+}
+
+const CHECKS: Array<{ source: QualityGateFinding["source"]; name: string }> = [
+    { source: "spec", name: "spec is valid" },
+    { source: "design", name: "design review" },
+    { source: "accessibility", name: "accessibility check" },
+];
+
+/**
+ * JUnit XML report, one test suite per file
+ */
+export function formatJUnitReport(files: QualityGateFileResult[]): string {
+    let tests = 0;
+    let failures = 0;
+
+    const suites = files.map(({ file, result }) => {
+        const checks = CHECKS.filter(check => ranCheck(result, check.source));
+        const failed = checks.filter(check => result.findings.some(finding => finding.source === check.source && finding.failing));
+        tests += checks.length;
+        failures += failed.length;
+
+        const cases = checks.map(check => {
+            const findings = result.findings.filter(finding => finding.source === check.source);
+            const others = findings.filter(finding => !finding.failing);
+            const body = [
+                ...findings.filter(finding => finding.failing).map(finding =>
+                    `      <failure type="${escapeXml(finding.rule)}" message="${escapeXml(finding.message)}">` +
+                    `${escapeXml(describeFinding(finding))}</failure>`
+                ),
+                ...(others.length > 0
+                    ? [`      <system-out>${escapeXml(others.map(describeFinding).join("\n"))}</system-out>`]
+                    : []),
+            ];
+
+            const opening = `    <testcase classname="${escapeXml(file)}" name="${escapeXml(check.name)}"`;
+            return body.length > 0 ? `${opening}>\n${body.join("\n")}\n    </testcase>` : `${opening} />`;
+        });
+
+        return `  <testsuite name="${escapeXml(file)}" tests="${checks.length}" failures="${failed.length}">\n` +
+            `${cases.join("\n")}\n  </testsuite>\n`;
+    });
+
+    return `<?xml version="1.0" encoding="UTF-8"?>\n` +
+        `<testsuites name="UI-Smith quality gate" tests="${tests}" failures="${failures}">\n` +
+        `${suites.join("")}</testsuites>\n`;
+}
+
+/**
+ * SARIF 2.1.0 log with a result per finding
+ */
+export function formatSarifReport(files: QualityGateFileResult[]): string {
+    const rules = new Map<string, QualityGateFinding>();
+    const results = files.flatMap(({ file, result, source }) =>
+        result.findings.map(finding => {
+            if (!rules.has(finding.rule)) rules.set(finding.rule, finding);
+
+            const region = source !== undefined && finding.pointer !== undefined
+                ? locateJsonPointer(source, finding.pointer)
+                : undefined;
+
+            return {
+                ruleId: finding.rule,
+                level: finding.level,
+                message: { text: finding.message },
+                locations: [{
+                    physicalLocation: {
+                        artifactLocation: { uri: toUri(file) },
+                        ...(region && { region: { startLine: region.line, startColumn: region.column } }),
+                    },
+                    ...(finding.componentPath && {
+                        logicalLocations: [{
+                            fullyQualifiedName: formatComponentPath(finding.componentPath),
+                            kind: "element",
+                        }],
+                    }),
+                }],
+                ...(finding.pointer && { properties: { pointer: finding.pointer } }),
+            };
+        })
+    );
+
+    const log = {
+        $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+        version: "2.1.0",
+        runs: [{
+            tool: {
+                driver: {
+                    name: "UI-Smith quality gate",
+                    rules: Array.from(rules.values()).map(finding => ({
+                        id: finding.rule,
+                        shortDescription: { text: finding.rule.replace(/-/g, " ") },
+                        properties: { category: finding.source },
+                    })),
+                },
+            },
+            results,
+        }],
+    };
+
+    return JSON.stringify(log, null, 2) + "\n";
+}
+
+/**
+ * The spec check always runs; the agents only run on a valid spec, unless skipped
+ */
+function ranCheck(result: QualityGateResult, source: QualityGateFinding["source"]): boolean {
+    if (source === "spec") return true;
+    return result.findings.some(finding => finding.source === source)
+        || (source === "design" ? !!result.designFeedback : !!result.accessibilityReport);
+}
+
+function describeFinding(finding: QualityGateFinding): string {
+    const location = finding.componentPath ? ` [${formatComponentPath(finding.componentPath)}]` : "";
+    return `${finding.level}: ${finding.rule}${location}: ${finding.message}`;
+}
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&apos;");
+}
+
+function toUri(file: string): string {
+    return file.split(/[\\/]/).map(encodeURIComponent).join("/");
+}
+
+/**
+ * 1-based line and column where the value at a JSON Pointer starts
+ */
+function locateJsonPointer(text: string, pointer: string): { line: number; column: number } | undefined {
+    const tokens = pointer === "" ? [] : pointer.slice(1).split("/").map(token => token.replace(/~1/g, "/").replace(/~0/g, "~"));
+    let index = 0;
+
+    const skipWhitespace = () => {
+        while (index < text.length && /\s/.test(text[index])) index++;
+    };
+    const skipString = () => {
+        index++;
+        while (index < text.length && text[index] !== "\"") index += text[index] === "\\" ? 2 : 1;
+        index++;
+    };
+    const skipValue = () => {
+        skipWhitespace();
+        if (text[index] === "\"") return skipString();
+        if (text[index] !== "{" && text[index] !== "[") {
+            while (index < text.length && !/[,\]}\s]/.test(text[index])) index++;
+            return;
+        }
+        let depth = 0;
+        do {
+            const char = text[index];
+            if (char === "\"") {
+                skipString();
+                continue;
+            }
+            if (char === "{" || char === "[") depth++;
+            if (char === "}" || char === "]") depth--;
+            index++;
+        } while (depth > 0 && index < text.length);
+    };
+    const skipSeparator = (): boolean => {
+        skipWhitespace();
+        if (text[index] !== ",") return false;
+        index++;
+        return true;
+    };
+
+    for (const token of tokens) {
+        skipWhitespace();
+
+        if (text[index] === "{") {
+            index++;
+            for (;;) {
+                skipWhitespace();
+                if (text[index] !== "\"") return undefined;
+                const start = index;
+                skipString();
+                const key = JSON.parse(text.slice(start, index)) as string;
+                skipWhitespace();
+                index++; // ":"
+                if (key === token) break;
+                skipValue();
+                if (!skipSeparator()) return undefined;
+            }
+        } else if (text[index] === "[") {
+            index++;
+            const position = Number(token);
+            if (!Number.isInteger(position) || position < 0) return undefined;
+            for (let item = 0; item < position; item++) {
+                skipWhitespace();
+                if (text[index] === "]") return undefined;
+                skipValue();
+                if (!skipSeparator()) return undefined;
+            }
+            skipWhitespace();
+            if (text[index] === "]") return undefined;
+        } else {
+            return undefined;
+        }
+    }
+
+    skipWhitespace();
+    if (index >= text.length) return undefined;
+
+    const before = text.slice(0, index).split("\n");
+    return { line: before.length, column: before[before.length - 1].length + 1 };
+}
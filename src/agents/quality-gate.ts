@@ -0,0 +1,209 @@
+/**
+ * Quality Gate
+ * ============
+ * Checks a committed UISpec or `ui-smith.config.json` against score and
+ * violation thresholds, running the Design Critic and Accessibility agents
+ * without applying their fixes. Used by `npm run quality-gate`, which writes
+ * the findings as JUnit XML and SARIF (see quality-gate-reports).
+ */
+
+import { AccessibilityReport, ComponentPath, DesignFeedback, UISpec } from "./types";
+import { createAccessibilityAgent } from "./accessibility-agent";
+import { createDesignCriticAgent } from "./design-critic";
+import type { MCPToolClient } from "./mcp-tools";
+import { importUIDocument } from "./config-importer";
+import { componentPointer } from "./spec-tree";
+
+export type ViolationImpact = AccessibilityReport["violations"][number]["impact"];
+
+/** Most severe first */
+const IMPACTS: ViolationImpact[] = ["critical", "serious", "moderate", "minor"];
+
+export interface QualityGateThresholds {
+    /** Lowest passing design score, 0-100. Default 0 */
+    minDesignScore: number;
+    /** Lowest passing accessibility score, 0-100. Default 0 */
+    minAccessibilityScore: number;
+    /** Fail on violations of this impact or worse; "none" never fails on violations. Default "critical" */
+    failOnImpact: ViolationImpact | "none";
+}
+
+export const defaultQualityGateThresholds: QualityGateThresholds = {
+    minDesignScore: 0,
+    minAccessibilityScore: 0,
+    failOnImpact: "critical",
+};
+
+export interface QualityGateOptions {
+    skipDesignReview?: boolean;
+    skipAccessibilityCheck?: boolean;
+    /** MCP tools for the agents; without it they run their checks in-process */
+    mcpClient?: MCPToolClient;
+}
+
+/**
+ * One reportable result of the gate. `failing` findings fail the gate and are
+ * the only ones at level "error".
+ */
+export interface QualityGateFinding {
+    /** e.g. "button-name", "design-hierarchy", "min-design-score" */
+    rule: string;
+    /** The check that produced it */
+    source: "spec" | "design" | "accessibility";
+    level: "error" | "warning" | "note";
+    message: string;
+    failing: boolean;
+    /** JSON Pointer into the checked document, when the finding has one */
+    pointer?: string;
+    componentPath?: ComponentPath;
+}
+
+export interface QualityGateResult {
+    passed: boolean;
+    /** Set when the document imported */
+    uiSpec?: UISpec;
+    designFeedback?: DesignFeedback;
+    accessibilityReport?: AccessibilityReport;
+    findings: QualityGateFinding[];
+}
+
+/**
+ * Run the gate on a UISpec or exported config, given as parsed JSON or as
+ * the file's text
+ */
+export async function runQualityGate(
+    document: unknown,
+    thresholds: Partial<QualityGateThresholds> = {},
+    options: QualityGateOptions = {}
+): Promise<QualityGateResult> {
+    const limits = { ...defaultQualityGateThresholds, ...thresholds };
+    const imported = importUIDocument(document);
+    const findings: QualityGateFinding[] = [];
+
+    if (!imported.uiSpec) {
+        imported.errors.forEach(error => {
+            findings.push({
+                rule: error.code.toLowerCase().replace(/_/g, "-"),
+                source: "spec",
+                level: "error",
+                message: error.message,
+                failing: true,
+                ...(error.path && { pointer: error.path }),
+            });
+        });
+        return { passed: false, findings };
+    }
+
+    // Invalid props are reported, and the agents review the repaired spec
+    imported.repairs.forEach(repair => {
+        findings.push({
+            rule: "invalid-prop",
+            source: "spec",
+            level: "warning",
+            message: `${repair.componentName}: ${JSON.stringify(repair.from)} is not a valid value, ` +
+                `would be ${repair.to === undefined ? "dropped" : JSON.stringify(repair.to)} (${repair.reason})`,
+            failing: false,
+            pointer: repair.path,
+            componentPath: repair.componentPath,
+        });
+    });
+
+    const uiSpec = imported.uiSpec;
+    const result: QualityGateResult = { passed: true, uiSpec, findings };
+
+    if (!options.skipDesignReview) {
+        const response = await createDesignCriticAgent(options.mcpClient).review(uiSpec);
+        const feedback = response.success
+            ? (response.data as { feedback: DesignFeedback } | undefined)?.feedback
+            : response.data as DesignFeedback | undefined;
+
+        if (feedback) {
+            result.designFeedback = feedback;
+            feedback.issues.forEach(issue => {
+                findings.push({
+                    rule: `design-${issue.type}`,
+                    source: "design",
+                    level: issue.severity === "suggestion" ? "note" : "warning",
+                    message: issue.message,
+                    failing: false,
+                });
+            });
+            feedback.improvements.forEach(improvement => {
+                const componentPath = improvement.componentPath ?? [improvement.componentIndex];
+                findings.push({
+                    rule: "design-improvement",
+                    source: "design",
+                    level: "note",
+                    message: improvement.suggestion,
+                    failing: false,
+                    pointer: componentPointer(componentPath),
+                    componentPath,
+                });
+            });
+            if (feedback.score < limits.minDesignScore) {
+                findings.push({
+                    rule: "min-design-score",
+                    source: "design",
+                    level: "error",
+                    message: `Design score ${feedback.score} is below the minimum of ${limits.minDesignScore}`,
+                    failing: true,
+                });
+            }
+        } else {
+            findings.push(agentFailure("design-review-failed", "design", response.errors?.[0]?.message));
+        }
+    }
+
+    if (!options.skipAccessibilityCheck) {
+        const response = await createAccessibilityAgent(options.mcpClient).validate(uiSpec);
+        const report = (response.data as { report: AccessibilityReport } | undefined)?.report;
+
+        if (report) {
+            result.accessibilityReport = report;
+            const failingImpacts = limits.failOnImpact === "none"
+                ? []
+                : IMPACTS.slice(0, IMPACTS.indexOf(limits.failOnImpact) + 1);
+
+            report.violations.forEach(violation => {
+                const componentPath = violation.componentPath
+                    ?? (violation.componentIndex !== undefined ? [violation.componentIndex] : undefined);
+                const failing = failingImpacts.includes(violation.impact);
+                findings.push({
+                    rule: violation.rule,
+                    source: "accessibility",
+                    level: failing ? "error" : "warning",
+                    message: `${violation.description}. ${violation.fix}`,
+                    failing,
+                    ...(componentPath && { pointer: componentPointer(componentPath), componentPath }),
+                });
+            });
+            report.warnings.forEach(warning => {
+                findings.push({
+                    rule: warning.rule,
+                    source: "accessibility",
+                    level: "note",
+                    message: `${warning.description}. ${warning.recommendation}`,
+                    failing: false,
+                });
+            });
+            if (report.score < limits.minAccessibilityScore) {
+                findings.push({
+                    rule: "min-accessibility-score",
+                    source: "accessibility",
+                    level: "error",
+                    message: `Accessibility score ${report.score} is below the minimum of ${limits.minAccessibilityScore}`,
+                    failing: true,
+                });
+            }
+        } else {
+            findings.push(agentFailure("accessibility-check-failed", "accessibility", response.errors?.[0]?.message));
+        }
+    }
+
+    result.passed = !findings.some(finding => finding.failing);
+    return result;
+}
+
+function agentFailure(rule: string, source: QualityGateFinding["source"], message = "The check did not run"): QualityGateFinding {
+    return { rule, source, level: "error", message, failing: true };
+}
@@ -0,0 +1,115 @@
+/**
+ * Session Store
+ * =============
+ * Persists the AgentContext of a conversation so an orchestrator can be
+ * rehydrated by conversationId and keep modifying the same UI later.
+ *
+ * Implementations:
+ * - InMemorySessionStore: process-local, useful in the browser and in scripts
+ * - FileSessionStore (./file-session-store): one JSON file per conversation
+ */
+
+import { z } from "zod";
+import { AgentContext, uiSpecSchema } from "./types";
+import { migrateUISpec } from "./spec-migrations";
+
+export interface SessionStore {
+    /** Load a saved context, or undefined if the conversation is unknown */
+    load(conversationId: string): Promise<AgentContext | undefined>;
+    /** Create or replace the saved context for its conversationId */
+    save(context: AgentContext): Promise<void>;
+    delete(conversationId: string): Promise<void>;
+    /** Ids of all saved conversations */
+    list(): Promise<string[]>;
+}
+
+/**
+ * Shape of a persisted AgentContext
+ */
+export const storedContextSchema = z.object({
+    conversationId: z.string().min(1),
+    currentUI: uiSpecSchema.optional(),
+    history: z.array(z.object({
+        id: z.string(),
+        from: z.string(),
+        to: z.string(),
+        action: z.string(),
+        payload: z.unknown(),
+        timestamp: z.string(),
+    }).passthrough()),
+    versions: z.array(z.object({
+        version: z.number().int().positive(),
+        request: z.string(),
+        createdAt: z.string(),
+        uiSpec: uiSpecSchema,
+    })).optional(),
+    currentVersion: z.number().int().positive().optional(),
+    userPreferences: z.object({
+        style: z.enum(["modern", "classic", "minimal"]).optional(),
+        colorScheme: z.enum(["light", "dark", "auto"]).optional(),
+        accessibility: z.enum(["standard", "enhanced"]).optional(),
+    }).optional(),
+}).passthrough();
+
+/**
+ * Validate data read back from a store and return it as an AgentContext.
+ * Specs saved in an older format are migrated first.
+ */
+export function parseStoredContext(data: unknown): AgentContext {
+    const result = storedContextSchema.safeParse(migrateStoredSpecs(data));
+
+    if (!result.success) {
+        const issues = result.error.errors.map(e => `${e.path.join(".") || "(root)"}: ${e.message}`);
+        throw new Error(`Invalid session data: ${issues.join("; ")}`);
+    }
+
+    return result.data as unknown as AgentContext;
+}
+
+/**
+ * Upgrade the current UI and every version snapshot to the latest format
+ */
+function migrateStoredSpecs(data: unknown): unknown {
+    if (!isObject(data)) return data;
+
+    // Anything that isn't a spec is left for the schema to report
+    const migrate = (spec: unknown) =>
+        isObject(spec) && Array.isArray(spec.components) ? migrateUISpec(spec).document : spec;
+
+    return {
+        ...data,
+        currentUI: migrate(data.currentUI),
+        versions: Array.isArray(data.versions)
+            ? data.versions.map(entry => (isObject(entry) ? { ...entry, uiSpec: migrate(entry.uiSpec) } : entry))
+            : data.versions,
+    };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Session store kept in process memory. Contexts are copied on the way in
+ * and out so callers can't mutate stored state.
+ */
+export class InMemorySessionStore implements SessionStore {
+    private sessions = new Map<string, string>();
+
+    async load(conversationId: string): Promise<AgentContext | undefined> {
+        const saved = this.sessions.get(conversationId);
+        return saved ? parseStoredContext(JSON.parse(saved)) : undefined;
+    }
+
+    async save(context: AgentContext): Promise<void> {
+        this.sessions.set(context.conversationId, JSON.stringify(context));
+    }
+
+    async delete(conversationId: string): Promise<void> {
+        this.sessions.delete(conversationId);
+    }
+
+    async list(): Promise<string[]> {
+        return Array.from(this.sessions.keys());
+    }
+}
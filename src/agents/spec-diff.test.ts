@@ -0,0 +1,37 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { describeComponentChange, diffUISpecs } from "./spec-diff";
+import { ComponentSpec } from "./types";
+
+const starter: ComponentSpec = { name: "Card", props: { headerTitle: "Starter" } };
+const pro: ComponentSpec = { name: "Card", props: { headerTitle: "Pro" } };
+const chart: ComponentSpec = { name: "Chart", props: { type: "bar" } };
+
+describe("diffUISpecs", () => {
+    it("reports a move between siblings", () => {
+        const diff = diffUISpecs({ id: "a", components: [starter, pro, chart] }, { id: "a", components: [chart, starter, pro] });
+
+        assert.deepEqual(diff.components, [{ kind: "moved", name: "Chart", index: 0, fromIndex: 2 }]);
+    });
+
+    it("reports a move into another component as one change", () => {
+        const diff = diffUISpecs(
+            { id: "a", components: [starter, pro, chart] },
+            { id: "a", components: [starter, { ...pro, children: [chart] }] }
+        );
+
+        assert.deepEqual(diff.components, [
+            { kind: "moved", name: "Chart", index: 0, parentPath: [1], fromIndex: 2, fromParentPath: [] },
+        ]);
+        assert.equal(describeComponentChange(diff.components[0]), "Moved Chart from components[2] to components[1].children[0]");
+    });
+
+    it("reports a component with changed props under another parent as removed and added", () => {
+        const diff = diffUISpecs(
+            { id: "a", components: [starter, chart] },
+            { id: "a", components: [{ ...starter, children: [{ ...chart, props: { type: "line" } }] }] }
+        );
+
+        assert.deepEqual(diff.components.map(change => change.kind), ["added", "removed"]);
+    });
+});
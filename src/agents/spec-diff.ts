@@ -0,0 +1,325 @@
+/**
+ * UISpec Diff
+ * ===========
+ * Structural comparison of two UISpec versions.
+ *
+ * Reports, per component:
+ * - added / removed components
+ * - moved components (same component, different position)
+ * - replaced components (a different component type at the same position)
+ * - updated components with per-prop changes addressed by path
+ *   (e.g. `components[0].props.tiers[1].price`)
+ *
+ * Nested children are compared the same way, level by level, and reported
+ * with the path of their parent. A component that turns up under another
+ * parent with the same props (e.g. moved into a card) is reported as moved,
+ * with the parent it came from.
+ */
+
+import { ComponentPath, ComponentSpec, UISpec } from "./types";
+import { formatComponentPath, getComponentAt } from "./spec-tree";
+
+export interface PropChange {
+    path: string;
+    kind: "added" | "removed" | "changed";
+    before?: unknown;
+    after?: unknown;
+}
+
+export interface ComponentChange {
+    kind: "added" | "removed" | "moved" | "replaced" | "updated";
+    /** Component name (the new one for replacements) */
+    name: string;
+    /** Position among its siblings in the new spec; the old position for removals */
+    index: number;
+    /** Path of the enclosing component, for nested components */
+    parentPath?: ComponentPath;
+    /** Position in the old spec when the component moved */
+    fromIndex?: number;
+    /** Enclosing component in the old spec, when it moved to another parent ([] for the top level) */
+    fromParentPath?: ComponentPath;
+    /** Name of the component that was replaced */
+    previousName?: string;
+    propChanges?: PropChange[];
+}
+
+export interface UISpecDiff {
+    components: ComponentChange[];
+    /** Changes to spec-level fields (name, description, layout) */
+    spec: PropChange[];
+    isEmpty: boolean;
+}
+
+const EMPTY_SPEC: UISpec = { id: "", components: [] };
+
+/**
+ * Compare two specs. A missing `before` is treated as an empty spec.
+ */
+export function diffUISpecs(before: UISpec | undefined, after: UISpec): UISpecDiff {
+    const previous = before ?? EMPTY_SPEC;
+    const components = matchMovesBetweenParents(
+        diffComponentLists(previous.components, after.components),
+        previous.components,
+        after.components
+    );
+
+    const spec = diffValues(
+        { name: previous.name, description: previous.description, layout: previous.layout },
+        { name: after.name, description: after.description, layout: after.layout },
+        ""
+    );
+
+    return {
+        components,
+        spec,
+        isEmpty: components.length === 0 && spec.length === 0,
+    };
+}
+
+/**
+ * One-line human readable description of a component change
+ */
+export function describeComponentChange(change: ComponentChange): string {
+    const within = change.parentPath ? ` in ${formatComponentPath(change.parentPath)}` : "";
+
+    switch (change.kind) {
+        case "added":
+            return `Added ${change.name} at position ${change.index + 1}${within}`;
+        case "removed":
+            return `Removed ${change.name} from position ${change.index + 1}${within}`;
+        case "moved":
+            if (change.fromParentPath) {
+                const from = formatComponentPath([...change.fromParentPath, change.fromIndex!]);
+                return `Moved ${change.name} from ${from} to ${formatComponentPath([...(change.parentPath ?? []), change.index])}`;
+            }
+            return `Moved ${change.name} from position ${change.fromIndex! + 1} to ${change.index + 1}${within}`;
+        case "replaced":
+            return `Replaced ${change.previousName} with ${change.name} at position ${change.index + 1}${within}`;
+        case "updated": {
+            const count = change.propChanges?.length ?? 0;
+            const moved = change.fromIndex !== undefined ? `, moved from position ${change.fromIndex + 1}` : "";
+            return `Updated ${count} prop${count === 1 ? "" : "s"} on ${change.name} at position ${change.index + 1}${within}${moved}`;
+        }
+    }
+}
+
+function diffComponentLists(
+    before: ComponentSpec[],
+    after: ComponentSpec[],
+    parentPath: ComponentPath = []
+): ComponentChange[] {
+    const changes: ComponentChange[] = [];
+    const nested: Array<{ index: number; changes: ComponentChange[] }> = [];
+    const parent = parentPath.length > 0 ? { parentPath } : {};
+    const pathOf = (index: number) => formatComponentPath([...parentPath, index]);
+    const pairs: Array<{ from: number; to: number; exact: boolean }> = [];
+    const matchedBefore = new Set<number>();
+    const matchedAfter = new Set<number>();
+
+    // 1. Identical components, wherever they are
+    const unmatchedByKey = new Map<string, number[]>();
+    before.forEach((component, index) => {
+        const key = JSON.stringify(component);
+        unmatchedByKey.set(key, [...(unmatchedByKey.get(key) ?? []), index]);
+    });
+
+    after.forEach((component, index) => {
+        const candidates = unmatchedByKey.get(JSON.stringify(component));
+        const from = candidates?.shift();
+        if (from === undefined) return;
+        pairs.push({ from, to: index, exact: true });
+        matchedBefore.add(from);
+        matchedAfter.add(index);
+    });
+
+    // 2. Same component type, closest remaining position
+    after.forEach((component, index) => {
+        if (matchedAfter.has(index)) return;
+
+        let best: number | undefined;
+        before.forEach((candidate, from) => {
+            if (matchedBefore.has(from) || candidate.name !== component.name) return;
+            if (best === undefined || Math.abs(from - index) < Math.abs(best - index)) {
+                best = from;
+            }
+        });
+
+        if (best === undefined) return;
+        pairs.push({ from: best, to: index, exact: false });
+        matchedBefore.add(best);
+        matchedAfter.add(index);
+    });
+
+    // 3. A different type at a position that lost its component counts as a replacement
+    after.forEach((component, index) => {
+        if (matchedAfter.has(index) || index >= before.length || matchedBefore.has(index)) return;
+
+        changes.push({
+            kind: "replaced",
+            name: component.name,
+            previousName: before[index].name,
+            index,
+            ...parent,
+            propChanges: diffValues(before[index].props, component.props, `${pathOf(index)}.props`),
+        });
+        nested.push({
+            index,
+            changes: diffComponentLists(before[index].children ?? [], component.children ?? [], [...parentPath, index]),
+        });
+        matchedBefore.add(index);
+        matchedAfter.add(index);
+    });
+
+    // Pairs outside the longest run that kept their relative order are the ones that moved
+    const ordered = [...pairs].sort((a, b) => a.from - b.from);
+    const stable = longestIncreasingRun(ordered.map(pair => pair.to));
+
+    ordered.forEach((pair, position) => {
+        const moved = !stable.has(position);
+        const component = after[pair.to];
+
+        if (pair.exact) {
+            if (moved) {
+                changes.push({ kind: "moved", name: component.name, index: pair.to, fromIndex: pair.from, ...parent });
+            }
+            return;
+        }
+
+        // Children are diffed on their own below
+        const { children: previousChildren, ...previous } = before[pair.from];
+        const { children, ...current } = component;
+        const propChanges = diffValues(previous, current, pathOf(pair.to));
+
+        if (propChanges.length > 0 || moved) {
+            changes.push({
+                kind: "updated",
+                name: component.name,
+                index: pair.to,
+                ...parent,
+                fromIndex: moved ? pair.from : undefined,
+                propChanges,
+            });
+        }
+        nested.push({
+            index: pair.to,
+            changes: diffComponentLists(previousChildren ?? [], children ?? [], [...parentPath, pair.to]),
+        });
+    });
+
+    before.forEach((component, index) => {
+        if (!matchedBefore.has(index)) {
+            changes.push({ kind: "removed", name: component.name, index, ...parent });
+        }
+    });
+
+    after.forEach((component, index) => {
+        if (!matchedAfter.has(index)) {
+            changes.push({ kind: "added", name: component.name, index, ...parent });
+        }
+    });
+
+    // Each component's own change first, then the changes to its children
+    return [
+        ...changes.map(change => ({ index: change.index, rank: 0, changes: [change] })),
+        ...nested.map(entry => ({ index: entry.index, rank: 1, changes: entry.changes })),
+    ]
+        .sort((a, b) => a.index - b.index || a.rank - b.rank)
+        .flatMap(entry => entry.changes);
+}
+
+/**
+ * Lists are diffed one at a time, so a component moved to another parent
+ * comes out as removed from one list and added to another. Pair those up by
+ * name and props into moves; changes to its children follow the move.
+ */
+function matchMovesBetweenParents(
+    changes: ComponentChange[],
+    before: ComponentSpec[],
+    after: ComponentSpec[]
+): ComponentChange[] {
+    const key = (component: ComponentSpec) => JSON.stringify({ name: component.name, props: component.props });
+    const pathOf = (change: ComponentChange) => [...(change.parentPath ?? []), change.index];
+
+    const removed = new Map<string, ComponentChange[]>();
+    changes.forEach(change => {
+        if (change.kind !== "removed") return;
+        const component = key(getComponentAt(before, pathOf(change))!);
+        removed.set(component, [...(removed.get(component) ?? []), change]);
+    });
+
+    const moved = new Set<ComponentChange>();
+    const result = changes.flatMap(change => {
+        if (change.kind !== "added") return [change];
+
+        const component = getComponentAt(after, pathOf(change))!;
+        const from = removed.get(key(component))?.shift();
+        if (!from) return [change];
+
+        moved.add(from);
+        const previous = getComponentAt(before, pathOf(from))!;
+        return [
+            { ...change, kind: "moved" as const, fromIndex: from.index, fromParentPath: from.parentPath ?? [] },
+            ...diffComponentLists(previous.children ?? [], component.children ?? [], pathOf(change)),
+        ];
+    });
+
+    return result.filter(change => !moved.has(change));
+}
+
+/**
+ * Recursively compare two JSON values, reporting leaf-level changes by path
+ */
+function diffValues(before: unknown, after: unknown, path: string): PropChange[] {
+    if (JSON.stringify(before) === JSON.stringify(after)) return [];
+
+    if (before === undefined) return [{ path, kind: "added", after }];
+    if (after === undefined) return [{ path, kind: "removed", before }];
+
+    if (Array.isArray(before) && Array.isArray(after)) {
+        const changes: PropChange[] = [];
+        for (let index = 0; index < Math.max(before.length, after.length); index++) {
+            changes.push(...diffValues(before[index], after[index], `${path}[${index}]`));
+        }
+        return changes;
+    }
+
+    if (isPlainObject(before) && isPlainObject(after)) {
+        const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+        const changes: PropChange[] = [];
+        keys.forEach(key => {
+            changes.push(...diffValues(before[key], after[key], path ? `${path}.${key}` : key));
+        });
+        return changes;
+    }
+
+    return [{ path, kind: "changed", before, after }];
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Positions (into `values`) of one longest strictly increasing subsequence
+ */
+function longestIncreasingRun(values: number[]): Set<number> {
+    const lengths = values.map(() => 1);
+    const previous = values.map(() => -1);
+
+    for (let i = 0; i < values.length; i++) {
+        for (let j = 0; j < i; j++) {
+            if (values[j] < values[i] && lengths[j] + 1 > lengths[i]) {
+                lengths[i] = lengths[j] + 1;
+                previous[i] = j;
+            }
+        }
+    }
+
+    const run = new Set<number>();
+    let position = lengths.indexOf(Math.max(0, ...lengths));
+    while (position !== -1) {
+        run.add(position);
+        position = previous[position];
+    }
+    return run;
+}
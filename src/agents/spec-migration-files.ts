@@ -0,0 +1,109 @@
+/**
+ * Spec Migration Files
+ * ====================
+ * Migrates a directory of exported `ui-smith.config.json` files (and saved
+ * UISpec JSON files) to the latest format version in place. Used by
+ * `npm run migrate`.
+ *
+ * Node-only: import this module from server code and scripts, not from the
+ * client bundle.
+ */
+
+import { readdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { detectDocumentKind, migrateExportConfig, migrateUISpec, SpecMigrationRegistry, specMigrations } from "./spec-migrations";
+
+export interface MigrateDirectoryOptions {
+    /** Report what would change without writing. Default false */
+    dryRun?: boolean;
+    /** Also migrate files in subdirectories. Default false */
+    recursive?: boolean;
+    registry?: SpecMigrationRegistry;
+}
+
+export interface FileMigration {
+    file: string;
+    kind: "config" | "spec";
+    fromVersion: number;
+    toVersion: number;
+    applied: string[];
+}
+
+export interface DirectoryMigrationReport {
+    /** Files upgraded (or that would be, in a dry run) */
+    migrated: FileMigration[];
+    upToDate: FileMigration[];
+    /** JSON files that are not UI-Smith configs or specs */
+    skipped: string[];
+    failed: Array<{ file: string; error: string }>;
+}
+
+/**
+ * Migrate every config or spec JSON file in a directory
+ */
+export async function migrateDirectory(
+    directory: string,
+    options: MigrateDirectoryOptions = {}
+): Promise<DirectoryMigrationReport> {
+    const report: DirectoryMigrationReport = { migrated: [], upToDate: [], skipped: [], failed: [] };
+    const registry = options.registry ?? specMigrations;
+
+    for (const file of await listJsonFiles(path.resolve(directory), options.recursive ?? false)) {
+        try {
+            const content = await readFile(file, "utf8");
+            const data = JSON.parse(content);
+            const kind = detectDocumentKind(data);
+
+            if (!kind) {
+                report.skipped.push(file);
+                continue;
+            }
+
+            const result = kind === "config" ? migrateExportConfig(data, registry) : migrateUISpec(data, registry);
+            const entry: FileMigration = {
+                file,
+                kind,
+                fromVersion: result.fromVersion,
+                toVersion: result.toVersion,
+                applied: result.applied,
+            };
+
+            // Stamping the version alone still counts, so the next run has nothing to do
+            if (data.schemaVersion === result.toVersion) {
+                report.upToDate.push(entry);
+                continue;
+            }
+
+            if (!options.dryRun) {
+                const trailingNewline = content.endsWith("\n") ? "\n" : "";
+                const temporary = `${file}.${process.pid}.tmp`;
+                await writeFile(temporary, JSON.stringify(result.document, null, 2) + trailingNewline, "utf8");
+                await rename(temporary, file);
+            }
+            report.migrated.push(entry);
+        } catch (error) {
+            report.failed.push({ file, error: error instanceof Error ? error.message : String(error) });
+        }
+    }
+
+    return report;
+}
+
+/**
+ * JSON files in a directory, sorted by name; skips dot directories and node_modules
+ */
+export async function listJsonFiles(directory: string, recursive: boolean): Promise<string[]> {
+    const entries = await readdir(directory, { withFileTypes: true });
+    const files: string[] = [];
+
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+        const entryPath = path.join(directory, entry.name);
+        if (entry.isDirectory() && recursive && entry.name !== "node_modules" && !entry.name.startsWith(".")) {
+            files.push(...await listJsonFiles(entryPath, recursive));
+        } else if (entry.isFile() && entry.name.endsWith(".json")) {
+            files.push(entryPath);
+        }
+    }
+
+    return files;
+}
@@ -0,0 +1,259 @@
+/**
+ * UISpec Migrations
+ * =================
+ * `schemaVersion` is the format version of a UISpec and of an exported
+ * `ui-smith.config.json`; `metadata.version` and the config's `version` count
+ * content revisions instead. Documents without a schemaVersion are format 1.
+ *
+ * Each migration upgrades a document by one format version, so a document is
+ * brought up to date by running every migration from its version onwards.
+ * Saved sessions are migrated when they are loaded; exported configs can be
+ * migrated in bulk with `npm run migrate -- <directory>` or `migrateDirectory`
+ * (see spec-migration-files).
+ *
+ * Format history:
+ * 1. Initial format
+ * 2. PricingTable tiers use the schema's `billingPeriod` values ("monthly", not "month")
+ *
+ * A schema change that would break saved specs (e.g. renaming a Chart prop)
+ * ships with a migration registered here.
+ */
+
+/**
+ * A component as stored. Exported configs call `name` `type`; migrations
+ * always see `name`.
+ */
+export interface StoredComponent {
+    name: string;
+    props: Record<string, unknown>;
+    slot?: string;
+    children?: StoredComponent[];
+    [key: string]: unknown;
+}
+
+/**
+ * A spec or config as stored, before it is validated against the current schemas
+ */
+export interface StoredSpec {
+    schemaVersion?: number;
+    components: StoredComponent[];
+    [key: string]: unknown;
+}
+
+export interface SpecMigration {
+    /** Format version this migration upgrades; it produces `from + 1` */
+    from: number;
+    description: string;
+    /** Upgrade a copy of the document; return it or a new one */
+    migrate(spec: StoredSpec): StoredSpec;
+}
+
+export interface MigrationResult<T> {
+    document: T;
+    fromVersion: number;
+    toVersion: number;
+    /** Descriptions of the migrations that ran, oldest first */
+    applied: string[];
+}
+
+/**
+ * Spec Migration Registry Class
+ */
+export class SpecMigrationRegistry {
+    private migrations: Map<number, SpecMigration>;
+
+    constructor(migrationList: SpecMigration[] = []) {
+        this.migrations = new Map();
+        migrationList.forEach(migration => this.register(migration));
+    }
+
+    /**
+     * Register a migration. There is one migration per format version.
+     */
+    register(migration: SpecMigration): void {
+        if (!Number.isInteger(migration.from) || migration.from < 1) {
+            throw new Error(`Migration "from" must be a format version of 1 or more, got ${migration.from}`);
+        }
+        if (this.migrations.has(migration.from)) {
+            throw new Error(`A migration from format version ${migration.from} is already registered`);
+        }
+
+        this.migrations.set(migration.from, migration);
+    }
+
+    /**
+     * Get the migration that upgrades a format version
+     */
+    get(from: number): SpecMigration | undefined {
+        return this.migrations.get(from);
+    }
+
+    /**
+     * Format version new documents are written in
+     */
+    getLatestVersion(): number {
+        return Math.max(1, ...Array.from(this.migrations.keys()).map(from => from + 1));
+    }
+
+    /**
+     * Get all migrations, oldest format first
+     */
+    getAll(): SpecMigration[] {
+        return Array.from(this.migrations.values()).sort((a, b) => a.from - b.from);
+    }
+}
+
+/**
+ * Apply `update` to every component in a tree, parents before children
+ */
+export function mapStoredComponents(
+    components: StoredComponent[],
+    update: (component: StoredComponent) => StoredComponent
+): StoredComponent[] {
+    return components.map(component => {
+        const updated = update(component);
+        return updated.children
+            ? { ...updated, children: mapStoredComponents(updated.children, update) }
+            : updated;
+    });
+}
+
+const BILLING_PERIODS: Record<string, string> = {
+    month: "monthly",
+    mo: "monthly",
+    year: "yearly",
+    yr: "yearly",
+    annual: "yearly",
+    annually: "yearly",
+    once: "one-time",
+};
+
+const builtInMigrations: SpecMigration[] = [
+    {
+        from: 1,
+        description: "Use the PricingTable billingPeriod values from the schema",
+        migrate: spec => ({
+            ...spec,
+            components: mapStoredComponents(spec.components, component => {
+                const tiers = component.props.tiers;
+                if (component.name !== "PricingTable" || !Array.isArray(tiers)) return component;
+
+                return {
+                    ...component,
+                    props: {
+                        ...component.props,
+                        tiers: tiers.map(tier => {
+                            const period = typeof tier?.billingPeriod === "string"
+                                ? BILLING_PERIODS[tier.billingPeriod.toLowerCase()]
+                                : undefined;
+                            return period ? { ...tier, billingPeriod: period } : tier;
+                        }),
+                    },
+                };
+            }),
+        }),
+    },
+];
+
+// Export singleton registry
+export const specMigrations = new SpecMigrationRegistry(builtInMigrations);
+
+/**
+ * Bring a stored UISpec up to the latest format version. Throws when the
+ * document is not a spec, is newer than the latest version, or a migration
+ * is missing.
+ */
+export function migrateUISpec(data: unknown, registry: SpecMigrationRegistry = specMigrations): MigrationResult<StoredSpec> {
+    return runMigrations(asStoredSpec(data, "name"), registry);
+}
+
+/**
+ * Bring an exported `ui-smith.config.json` up to the latest format version
+ */
+export function migrateExportConfig(
+    data: unknown,
+    registry: SpecMigrationRegistry = specMigrations
+): MigrationResult<Record<string, unknown>> {
+    const config = asStoredSpec(data, "type");
+    const result = runMigrations({ ...config, components: config.components.map(fromConfigComponent) }, registry);
+
+    return {
+        ...result,
+        document: { ...result.document, components: result.document.components.map(toConfigComponent) },
+    };
+}
+
+/**
+ * Whether a JSON document looks like an exported config or a spec
+ */
+export function detectDocumentKind(data: unknown): "config" | "spec" | undefined {
+    if (!isObject(data) || !Array.isArray(data.components)) return undefined;
+
+    const first = data.components[0];
+    if (data.generatedBy !== undefined || (isObject(first) && typeof first.type === "string")) return "config";
+    if (typeof data.id === "string" || (isObject(first) && typeof first.name === "string")) return "spec";
+    return undefined;
+}
+
+function runMigrations(spec: StoredSpec, registry: SpecMigrationRegistry): MigrationResult<StoredSpec> {
+    const fromVersion = spec.schemaVersion ?? 1;
+    const toVersion = registry.getLatestVersion();
+
+    if (!Number.isInteger(fromVersion) || fromVersion < 1) {
+        throw new Error(`Invalid schemaVersion ${JSON.stringify(spec.schemaVersion)}`);
+    }
+    if (fromVersion > toVersion) {
+        throw new Error(`Format version ${fromVersion} is newer than the latest supported version (${toVersion})`);
+    }
+
+    let document = spec;
+    const applied: string[] = [];
+
+    for (let version = fromVersion; version < toVersion; version++) {
+        const migration = registry.get(version);
+        if (!migration) {
+            throw new Error(`No migration from format version ${version}`);
+        }
+        document = migration.migrate(JSON.parse(JSON.stringify(document)));
+        applied.push(migration.description);
+    }
+
+    return { document: { ...document, schemaVersion: toVersion }, fromVersion, toVersion, applied };
+}
+
+function asStoredSpec(data: unknown, nameKey: "name" | "type"): StoredSpec {
+    if (!isObject(data) || !Array.isArray(data.components)) {
+        throw new Error("Not a UI-Smith document: expected an object with a components array");
+    }
+
+    const invalid = data.components.findIndex(component => !isObject(component) || typeof component[nameKey] !== "string");
+    if (invalid !== -1) {
+        throw new Error(`Component ${invalid} has no "${nameKey}"`);
+    }
+
+    return JSON.parse(JSON.stringify(data));
+}
+
+function fromConfigComponent(component: StoredComponent): StoredComponent {
+    const { type, children, ...rest } = component;
+    return {
+        ...rest,
+        name: type as string,
+        props: rest.props ?? {},
+        ...(Array.isArray(children) && { children: children.map(fromConfigComponent) }),
+    };
+}
+
+function toConfigComponent(component: StoredComponent): StoredComponent {
+    const { name, children, ...rest } = component;
+    return {
+        ...(rest.id !== undefined && { id: rest.id }),
+        type: name,
+        ...rest,
+        ...(Array.isArray(children) && { children: children.map(toConfigComponent) }),
+    } as unknown as StoredComponent;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
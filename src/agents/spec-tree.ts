@@ -0,0 +1,189 @@
+/**
+ * UISpec Component Tree
+ * =====================
+ * Helpers for walking and updating nested components.
+ *
+ * A component is addressed by its ComponentPath: the top-level index followed
+ * by the child index at each level, e.g. [0, 2] for `components[0].children[2]`.
+ */
+
+import { ComponentPath, ComponentSpec } from "./types";
+import { componentRegistry } from "@/tambo/component-registry";
+
+export interface ComponentNode {
+    component: ComponentSpec;
+    path: ComponentPath;
+    /** Enclosing components, outermost first */
+    ancestors: ComponentSpec[];
+}
+
+/**
+ * Visit every component depth-first, parents before their children
+ */
+export function walkComponents(
+    components: ComponentSpec[],
+    visit: (node: ComponentNode) => void,
+    parentPath: ComponentPath = [],
+    ancestors: ComponentSpec[] = []
+): void {
+    components.forEach((component, index) => {
+        const path = [...parentPath, index];
+        visit({ component, path, ancestors });
+
+        if (component.children?.length) {
+            walkComponents(component.children, visit, path, [...ancestors, component]);
+        }
+    });
+}
+
+/**
+ * Every component in the tree, depth-first
+ */
+export function flattenComponents(components: ComponentSpec[]): ComponentNode[] {
+    const nodes: ComponentNode[] = [];
+    walkComponents(components, node => nodes.push(node));
+    return nodes;
+}
+
+/**
+ * Get the component at a path
+ */
+export function getComponentAt(components: ComponentSpec[], path: ComponentPath): ComponentSpec | undefined {
+    let level: ComponentSpec[] | undefined = components;
+    let component: ComponentSpec | undefined;
+
+    for (const index of path) {
+        component = level?.[index];
+        if (!component) return undefined;
+        level = component.children;
+    }
+
+    return component;
+}
+
+/**
+ * Replace the component at a path, copying its ancestors and leaving the
+ * input untouched. Returns the input when the path does not exist.
+ */
+export function updateComponentAt(
+    components: ComponentSpec[],
+    path: ComponentPath,
+    update: (component: ComponentSpec) => ComponentSpec
+): ComponentSpec[] {
+    const [index, ...rest] = path;
+    const component = components[index];
+    if (!component) return components;
+
+    let updated: ComponentSpec;
+    if (rest.length === 0) {
+        updated = update(component);
+    } else {
+        const children = updateComponentAt(component.children ?? [], rest, update);
+        if (children === component.children) return components;
+        updated = { ...component, children };
+    }
+
+    const next = [...components];
+    next[index] = updated;
+    return next;
+}
+
+/**
+ * Insert a component so that it ends up at `path`. Returns the input when the
+ * parent does not exist.
+ */
+export function insertComponentAt(
+    components: ComponentSpec[],
+    path: ComponentPath,
+    component: ComponentSpec
+): ComponentSpec[] {
+    const parentPath = path.slice(0, -1);
+    const index = path[path.length - 1];
+
+    if (parentPath.length === 0) {
+        const next = [...components];
+        next.splice(Math.min(index, next.length), 0, component);
+        return next;
+    }
+
+    return updateComponentAt(components, parentPath, parent => ({
+        ...parent,
+        children: insertComponentAt(parent.children ?? [], [index], component),
+    }));
+}
+
+/**
+ * Remove the component at `path`. Returns the input when it does not exist.
+ */
+export function removeComponentAt(components: ComponentSpec[], path: ComponentPath): ComponentSpec[] {
+    if (!getComponentAt(components, path)) return components;
+
+    const parentPath = path.slice(0, -1);
+    const index = path[path.length - 1];
+
+    if (parentPath.length === 0) {
+        return components.filter((_, position) => position !== index);
+    }
+
+    return updateComponentAt(components, parentPath, parent => {
+        const updated: ComponentSpec = {
+            ...parent,
+            children: parent.children!.filter((_, position) => position !== index),
+        };
+        if (updated.children!.length === 0) delete updated.children;
+        return updated;
+    });
+}
+
+/**
+ * Path of a component as written in spec diffs, e.g. `components[0].children[2]`
+ */
+export function formatComponentPath(path: ComponentPath): string {
+    return path.map((index, depth) => `${depth === 0 ? "components" : ".children"}[${index}]`).join("");
+}
+
+/**
+ * JSON Pointer of a component, e.g. `/components/0/children/2`
+ */
+export function componentPointer(path: ComponentPath): string {
+    return path.map((index, depth) => `/${depth === 0 ? "components" : "children"}/${index}`).join("");
+}
+
+/**
+ * Escape a key for use in a JSON Pointer
+ */
+export function escapePointerToken(token: string | number): string {
+    return String(token).replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+/**
+ * Location used in agent messages: "index 2" for top-level components,
+ * the full path for nested ones
+ */
+export function describeComponentLocation(path: ComponentPath): string {
+    return path.length === 1 ? `index ${path[0]}` : formatComponentPath(path);
+}
+
+/**
+ * Slots a component accepts children in; the first is the default slot
+ */
+export function getComponentSlots(name: string): string[] {
+    return componentRegistry.getSlots(name);
+}
+
+/**
+ * Group a component's children by the slot they render in. Children naming
+ * a slot the component does not have are left out.
+ */
+export function groupChildrenBySlot(component: ComponentSpec): Record<string, ComponentSpec[]> {
+    const slots = getComponentSlots(component.name);
+    const groups: Record<string, ComponentSpec[]> = {};
+
+    component.children?.forEach(child => {
+        const slot = child.slot ?? slots[0];
+        if (!slot || !slots.includes(slot)) return;
+        (groups[slot] ??= []).push(child);
+    });
+
+    return groups;
+}
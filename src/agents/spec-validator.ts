@@ -0,0 +1,345 @@
+/**
+ * UISpec Validator
+ * ================
+ * `uiSpecSchema` only checks the shape of a spec; props are `Record<string,
+ * unknown>` until a component parses them at render time. This module checks
+ * every component's props against its schema in `src/schemas` (through the
+ * component registry) and reports errors by JSON Pointer, e.g.
+ * `/components/0/props/tiers/1/billingPeriod`.
+ *
+ * The repair pass fixes what it safely can:
+ * - near-miss values are coerced: "month" → "monthly", "42" → 42, "true" → true
+ * - other invalid values fall back to the prop's default, or are dropped when optional
+ *
+ * The orchestrator repairs the spec after every agent step.
+ */
+
+import { z } from "zod";
+import { ComponentPath, UISpec, uiSpecSchema } from "./types";
+import { componentPointer, escapePointerToken, flattenComponents } from "./spec-tree";
+import { componentRegistry } from "@/tambo/component-registry";
+
+/** Repair passes per component; a fix can uncover further issues */
+const MAX_REPAIR_PASSES = 3;
+
+/** Spelled-out forms of common enum values */
+const VALUE_ABBREVIATIONS: Record<string, string> = {
+    "extra-small": "xs",
+    small: "sm",
+    medium: "md",
+    large: "lg",
+    "extra-large": "xl",
+};
+
+export interface SpecValidationError {
+    /** JSON Pointer into the spec */
+    path: string;
+    message: string;
+    code: "INVALID_SPEC" | "UNKNOWN_COMPONENT" | "INVALID_PROPS";
+    componentPath?: ComponentPath;
+    componentName?: string;
+}
+
+export interface SpecRepair {
+    /** JSON Pointer of the repaired prop */
+    path: string;
+    componentPath: ComponentPath;
+    componentName: string;
+    /** Value before the repair, undefined when it was missing */
+    from: unknown;
+    /** Value after the repair, undefined when the prop was dropped */
+    to: unknown;
+    reason: string;
+}
+
+export interface SpecRepairResult {
+    /** Repaired copy of the spec */
+    uiSpec: UISpec;
+    repairs: SpecRepair[];
+    /** What the repair pass could not fix */
+    errors: SpecValidationError[];
+}
+
+/**
+ * Check a spec against the UISpec schema and each component's props schema
+ */
+export function validateUISpec(uiSpec: unknown): SpecValidationError[] {
+    const parsed = uiSpecSchema.safeParse(uiSpec);
+    if (!parsed.success) {
+        return parsed.error.issues.map(issue => ({
+            path: toPointer(issue.path),
+            message: issue.message,
+            code: "INVALID_SPEC",
+        }));
+    }
+
+    return flattenComponents(parsed.data.components).flatMap(({ component, path }) =>
+        validateComponentProps(component.name, component.props, path)
+    );
+}
+
+/**
+ * Check one component's props against its schema
+ */
+export function validateComponentProps(
+    componentName: string,
+    props: Record<string, unknown>,
+    componentPath: ComponentPath
+): SpecValidationError[] {
+    const registered = componentRegistry.get(componentName);
+    if (!registered) {
+        return [{
+            path: `${componentPointer(componentPath)}/name`,
+            message: `Unknown component "${componentName}"`,
+            code: "UNKNOWN_COMPONENT",
+            componentPath,
+            componentName,
+        }];
+    }
+
+    const parsed = (registered.propsSchema as z.ZodTypeAny).safeParse(props);
+    if (parsed.success) return [];
+
+    return parsed.error.issues.map(issue => ({
+        path: `${componentPointer(componentPath)}/props${toPointer(issue.path)}`,
+        message: `${componentName}: ${issue.message}`,
+        code: "INVALID_PROPS",
+        componentPath,
+        componentName,
+    }));
+}
+
+/**
+ * Repair a copy of the spec, and report what could not be repaired
+ */
+export function repairUISpec(uiSpec: UISpec): SpecRepairResult {
+    const errors = validateUISpec(uiSpec);
+    const structural = errors.filter(error => error.code === "INVALID_SPEC");
+    if (errors.length === 0 || structural.length > 0) {
+        return { uiSpec, repairs: [], errors };
+    }
+
+    const repaired: UISpec = JSON.parse(JSON.stringify(uiSpec));
+    const repairs: SpecRepair[] = [];
+    const remaining: SpecValidationError[] = [];
+
+    flattenComponents(repaired.components).forEach(({ component, path }) => {
+        const registered = componentRegistry.get(component.name);
+        if (registered) {
+            const schema = registered.propsSchema as z.ZodTypeAny;
+            for (let pass = 0; pass < MAX_REPAIR_PASSES; pass++) {
+                const parsed = schema.safeParse(component.props);
+                if (parsed.success) break;
+
+                const fixed = parsed.error.issues
+                    .map(issue => repairIssue(schema, component.props, issue.path))
+                    .filter((fix): fix is PropFix => fix !== undefined);
+                if (fixed.length === 0) break;
+
+                fixed.forEach(fix => {
+                    repairs.push({
+                        path: `${componentPointer(path)}/props${toPointer(fix.path)}`,
+                        componentPath: path,
+                        componentName: component.name,
+                        from: fix.from,
+                        to: fix.to,
+                        reason: fix.reason,
+                    });
+                });
+            }
+        }
+
+        remaining.push(...validateComponentProps(component.name, component.props, path));
+    });
+
+    return { uiSpec: repaired, repairs, errors: remaining };
+}
+
+interface PropFix {
+    path: Array<string | number>;
+    from: unknown;
+    to: unknown;
+    reason: string;
+}
+
+/**
+ * Fix the value at `path` in place, if there is a safe fix
+ */
+function repairIssue(schema: z.ZodTypeAny, props: Record<string, unknown>, path: Array<string | number>): PropFix | undefined {
+    if (path.length === 0) return undefined;
+
+    const fieldSchema = schemaAt(schema, path);
+    const parent = valueAt(props, path.slice(0, -1));
+    if (!fieldSchema || typeof parent !== "object" || parent === null) return undefined;
+
+    const key = path[path.length - 1];
+    const from = (parent as Record<string | number, unknown>)[key];
+
+    let fix = coerce(fieldSchema, from);
+    if (!fix || !fieldSchema.safeParse(fix.value).success) {
+        fix = fallback(fieldSchema, from);
+    }
+    if (!fix) return undefined;
+
+    if (fix.value === undefined && !Array.isArray(parent)) {
+        delete (parent as Record<string | number, unknown>)[key];
+    } else {
+        (parent as Record<string | number, unknown>)[key] = fix.value;
+    }
+
+    return { path, from, to: fix.value, reason: fix.reason };
+}
+
+/**
+ * Near-miss coercion: closest enum value, numeric strings, boolean words
+ */
+function coerce(schema: z.ZodTypeAny, value: unknown): { value: unknown; reason: string } | undefined {
+    const inner = unwrap(schema);
+
+    if (inner instanceof z.ZodEnum) {
+        const option = closestOption(inner.options as string[], value);
+        return option === undefined ? undefined : { value: option, reason: "closest allowed value" };
+    }
+    if (inner instanceof z.ZodLiteral && typeof value === "string" && typeof inner.value === "string") {
+        return value.toLowerCase() === inner.value.toLowerCase()
+            ? { value: inner.value, reason: "closest allowed value" }
+            : undefined;
+    }
+    if (inner instanceof z.ZodNumber && typeof value === "string") {
+        const number = Number(value.replace(/^[$€£]\s*|,/g, "").trim());
+        return value.trim() !== "" && Number.isFinite(number) ? { value: number, reason: "converted to a number" } : undefined;
+    }
+    if (inner instanceof z.ZodBoolean && (typeof value === "string" || typeof value === "number")) {
+        const word = String(value).trim().toLowerCase();
+        if (["true", "yes", "on", "1"].includes(word)) return { value: true, reason: "converted to a boolean" };
+        if (["false", "no", "off", "0"].includes(word)) return { value: false, reason: "converted to a boolean" };
+        return undefined;
+    }
+    if (inner instanceof z.ZodString && (typeof value === "number" || typeof value === "boolean")) {
+        return { value: String(value), reason: "converted to a string" };
+    }
+    if (inner instanceof z.ZodArray && value !== undefined && value !== null && !Array.isArray(value)) {
+        return { value: [value], reason: "wrapped in an array" };
+    }
+    if (inner instanceof z.ZodUnion) {
+        for (const option of inner.options as z.ZodTypeAny[]) {
+            const fix = coerce(option, value);
+            if (fix && option.safeParse(fix.value).success) return fix;
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * The prop's default, or nothing for optional props
+ */
+function fallback(schema: z.ZodTypeAny, value: unknown): { value: unknown; reason: string } | undefined {
+    let current: z.ZodTypeAny | undefined = schema;
+
+    while (current) {
+        if (current instanceof z.ZodDefault) {
+            return { value: current._def.defaultValue(), reason: "reset to the default" };
+        }
+        if (current instanceof z.ZodOptional) {
+            return value === undefined ? undefined : { value: undefined, reason: "dropped invalid optional value" };
+        }
+        current = current instanceof z.ZodNullable || current instanceof z.ZodEffects || current instanceof z.ZodCatch
+            ? unwrapOnce(current)
+            : undefined;
+    }
+
+    return undefined;
+}
+
+/**
+ * Closest enum option to a string: same words in another case or separator,
+ * a prefix ("month" → "monthly") or a small typo
+ */
+function closestOption(options: string[], value: unknown): string | undefined {
+    if (typeof value !== "string" || value.trim() === "") return undefined;
+
+    const normalize = (text: string) => text.trim().toLowerCase().replace(/[\s_]+/g, "-");
+    const target = normalize(value);
+
+    const exact = options.find(option => [target, VALUE_ABBREVIATIONS[target]].includes(normalize(option)));
+    if (exact) return exact;
+
+    if (target.length >= 3) {
+        const prefixed = options.filter(option => normalize(option).startsWith(target) || target.startsWith(normalize(option)));
+        if (prefixed.length === 1) return prefixed[0];
+    }
+
+    const scored = options
+        .map(option => ({ option, distance: editDistance(normalize(option), target) }))
+        .filter(({ option, distance }) => distance <= 2 && distance < option.length / 2)
+        .sort((a, b) => a.distance - b.distance);
+
+    return scored.length > 0 && scored[0].distance !== scored[1]?.distance ? scored[0].option : undefined;
+}
+
+function editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+        }
+        previous = current;
+    }
+
+    return previous[b.length];
+}
+
+/**
+ * Schema of the value at `path`, with its optional/default wrappers kept
+ */
+function schemaAt(schema: z.ZodTypeAny, path: Array<string | number>): z.ZodTypeAny | undefined {
+    let current: z.ZodTypeAny | undefined = schema;
+
+    for (const key of path) {
+        const inner: z.ZodTypeAny = unwrap(current!);
+        if (inner instanceof z.ZodObject) current = inner.shape[key];
+        else if (inner instanceof z.ZodArray) current = inner.element;
+        else if (inner instanceof z.ZodRecord) current = inner.valueSchema;
+        else return undefined;
+        if (!current) return undefined;
+    }
+
+    return current;
+}
+
+function unwrap(schema: z.ZodTypeAny): z.ZodTypeAny {
+    let current = schema;
+    for (let next = unwrapOnce(current); next; next = unwrapOnce(current)) {
+        current = next;
+    }
+    return current;
+}
+
+function unwrapOnce(schema: z.ZodTypeAny): z.ZodTypeAny | undefined {
+    if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) return schema.unwrap();
+    if (schema instanceof z.ZodDefault) return schema._def.innerType;
+    if (schema instanceof z.ZodCatch) return schema._def.innerType;
+    if (schema instanceof z.ZodEffects) return schema.innerType();
+    if (schema instanceof z.ZodLazy) return schema.schema;
+    return undefined;
+}
+
+function valueAt(value: unknown, path: Array<string | number>): unknown {
+    return path.reduce<unknown>(
+        (current, key) => (typeof current === "object" && current !== null
+            ? (current as Record<string | number, unknown>)[key]
+            : undefined),
+        value
+    );
+}
+
+function toPointer(tokens: Array<string | number>): string {
+    return tokens.map(token => `/${escapePointerToken(token)}`).join("");
+}
@@ -8,23 +8,48 @@ import { z } from "zod";
 
 /**
  * Component Specification
+ *
+ * Components nest through `children`. Each child renders in the parent slot
+ * named by its `slot`, or in the parent's default slot when unset (see the
+ * `slots` of each component in the component registry).
  */
-export const componentSpecSchema = z.object({
-    name: z.string(),
-    props: z.record(z.unknown()),
-    children: z.array(z.any()).optional(),
-    metadata: z.object({
-        reason: z.string().optional(),
-        alternatives: z.array(z.string()).optional(),
-    }).optional(),
-});
+export interface ComponentSpec {
+    name: string;
+    props: Record<string, unknown>;
+    slot?: string;
+    children?: ComponentSpec[];
+    metadata?: {
+        reason?: string;
+        alternatives?: string[];
+    };
+}
+
+export const componentSpecSchema: z.ZodType<ComponentSpec> = z.lazy(() =>
+    z.object({
+        name: z.string(),
+        props: z.record(z.unknown()),
+        slot: z.string().optional(),
+        children: z.array(componentSpecSchema).optional(),
+        metadata: z.object({
+            reason: z.string().optional(),
+            alternatives: z.array(z.string()).optional(),
+        }).optional(),
+    })
+);
 
-export type ComponentSpec = z.infer<typeof componentSpecSchema>;
+/**
+ * Location of a component in the tree: its top-level index followed by the
+ * child index at each level below, e.g. [0, 2] is the third child of the
+ * first component
+ */
+export type ComponentPath = number[];
 
 /**
  * UI Specification (Component Tree)
  */
 export const uiSpecSchema = z.object({
+    /** Format version (see spec-migrations); missing means 1 */
+    schemaVersion: z.number().int().positive().optional(),
     id: z.string(),
     name: z.string().optional(),
     description: z.string().optional(),
@@ -52,6 +77,10 @@ export type AgentActionType =
     | "VALIDATE_DESIGN"
     | "VALIDATE_ACCESSIBILITY"
     | "EXPORT_CODE"
+    | "REFINE_UI"
+    | "CUSTOM_STAGE"
+    | "APPLY_PATCH"
+    | "IMPORT_UI"
     | "ANALYZE_REQUEST";
 
 /**
@@ -75,7 +104,13 @@ export type AgentRole =
     | "design-critic"
     | "accessibility"
     | "export-engineer"
-    | "user";
+    | "user"
+    | CustomAgentRole;
+
+/**
+ * Role of an agent registered in the agent registry, e.g. "custom:brand-compliance"
+ */
+export type CustomAgentRole = `custom:${string}`;
 
 /**
  * Agent Response
@@ -105,6 +140,8 @@ export interface DesignFeedback {
     }>;
     improvements: Array<{
         componentIndex: number;
+        /** Set for nested components */
+        componentPath?: ComponentPath;
         suggestion: string;
         proposedProps?: Record<string, unknown>;
     }>;
@@ -122,6 +159,8 @@ export interface AccessibilityReport {
         description: string;
         fix: string;
         componentIndex?: number;
+        /** Set for nested components */
+        componentPath?: ComponentPath;
     }>;
     warnings: Array<{
         rule: string;
@@ -130,17 +169,75 @@ export interface AccessibilityReport {
     }>;
 }
 
+/**
+ * A single prop change an agent wants to make, reviewable on its own
+ */
+export interface ProposedChange {
+    id: string;
+    agent: AgentRole;
+    componentIndex: number;
+    /** Set for nested components */
+    componentPath?: ComponentPath;
+    componentName: string;
+    description: string;
+    props: Record<string, unknown>;
+}
+
+/**
+ * Changes awaiting a decision in approval mode
+ */
+export interface ApprovalRequest {
+    conversationId: string;
+    agent: AgentRole;
+    changes: ProposedChange[];
+}
+
+/**
+ * Ids of the proposed changes to apply; everything else is rejected
+ */
+export interface ApprovalDecision {
+    acceptedIds: string[];
+}
+
 /**
  * Export Package
  */
 export interface ExportPackage {
-    format: "react" | "json" | "html" | "storybook";
+    format: "react" | "json" | "html" | "storybook" | "vite";
     files: Array<{
         name: string;
         content: string;
         type: "component" | "style" | "config";
     }>;
     instructions: string;
+    /** Type errors in the exported code, when the export was typechecked */
+    diagnostics?: ExportDiagnostic[];
+}
+
+/**
+ * Export Diagnostic (a compiler error in an exported file)
+ */
+export interface ExportDiagnostic {
+    /** Name of the file in the package */
+    file: string;
+    /** 1-based */
+    line: number;
+    /** 1-based */
+    column: number;
+    /** TypeScript error code, e.g. 2322 */
+    code: number;
+    message: string;
+}
+
+/**
+ * UI Spec Version (snapshot kept in the version history)
+ */
+export interface UISpecVersion {
+    version: number;
+    /** The request that produced this version */
+    request: string;
+    createdAt: string;
+    uiSpec: UISpec;
 }
 
 /**
@@ -150,6 +247,10 @@ export interface AgentContext {
     conversationId: string;
     currentUI?: UISpec;
     history: AgentMessage[];
+    /** UISpec snapshots, oldest first */
+    versions?: UISpecVersion[];
+    /** Version in `versions` that currentUI was checked out from */
+    currentVersion?: number;
     userPreferences?: {
         style?: "modern" | "classic" | "minimal";
         colorScheme?: "light" | "dark" | "auto";
@@ -0,0 +1,59 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MockModelProvider } from "./model-provider";
+import { createUIArchitectAgent } from "./ui-architect";
+import { AgentContext, UISpec } from "./types";
+
+const VALID_REPLY = {
+    name: "Sign up",
+    components: [{ name: "Button", props: { text: "Sign up" } }],
+};
+
+const INVALID_REPLY = {
+    name: "Sign up",
+    components: [{ name: "Banner", props: {} }],
+};
+
+function newContext(): AgentContext {
+    return { conversationId: "test", history: [] };
+}
+
+describe("UIArchitectAgent with a model provider", () => {
+    it("uses a valid reply as the UI", async () => {
+        const provider = new MockModelProvider(VALID_REPLY);
+        const response = await createUIArchitectAgent(newContext(), provider).processRequest("Add a sign up button");
+
+        assert.equal(response.success, true);
+        assert.equal(provider.requests.length, 1);
+        assert.deepEqual((response.data as UISpec).components.map(c => c.name), ["Button"]);
+        assert.equal((response.data as UISpec).components[0].props.text, "Sign up");
+        assert.equal(response.errors?.some(error => error.code === "MODEL_FALLBACK") ?? false, false);
+    });
+
+    it("asks the model to correct an invalid reply", async () => {
+        const provider = new MockModelProvider([INVALID_REPLY, VALID_REPLY]);
+        const response = await createUIArchitectAgent(newContext(), provider).processRequest("Add a sign up button");
+
+        assert.equal(response.success, true);
+        assert.equal(provider.requests.length, 2);
+        assert.deepEqual((response.data as UISpec).components.map(c => c.name), ["Button"]);
+
+        const correction = provider.requests[1].messages.at(-1)!;
+        assert.equal(correction.role, "user");
+        assert.match(correction.content, /not a valid UISpec/);
+        assert.match(correction.content, /unknown component "Banner"/);
+    });
+
+    it("falls back to the heuristics when every reply is invalid", async () => {
+        const provider = new MockModelProvider(INVALID_REPLY);
+        const response = await createUIArchitectAgent(newContext(), provider).processRequest("Create a SaaS pricing page");
+
+        assert.equal(response.success, true);
+        assert.equal(provider.requests.length, 2);
+        assert.ok((response.data as UISpec).components.some(c => c.name === "PricingTable"));
+
+        const fallback = response.errors?.find(error => error.code === "MODEL_FALLBACK");
+        assert.equal(fallback?.severity, "warning");
+        assert.match(fallback!.message, /^mock failed, used offline heuristics: .*Invalid UISpec from model/);
+    });
+});
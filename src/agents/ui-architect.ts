@@ -9,14 +9,40 @@
  * - Configure component props based on user requirements
  * - Create initial UI specification
  * 
+ * With a model provider, the system prompt, the component schemas and the
+ * conversation are sent to an LLM and its reply is validated against
+ * `uiSpecSchema` and each component's props schema. Without one, or when the
+ * model fails, specs are built offline from keyword heuristics, and
+ * modification requests are resolved to component edits by the intent parser.
+ *
  * Tools Access:
  * - Design System MCP: get_component_list, get_component_schema, validate_props
  * - UX Best Practices MCP: get_cta_recommendations, get_visual_hierarchy_tips
  */
 
-import { AgentConfig, AgentResponse, UISpec, ComponentSpec, AgentContext } from "./types";
+import { AgentConfig, AgentResponse, UISpec, ComponentSpec, AgentContext, uiSpecSchema } from "./types";
+import { ModelMessage, ModelProvider } from "./model-provider";
 import { componentRegistry } from "@/tambo/component-registry";
+import { checkComposition, layoutRules } from "@/mcp/design-system/layout-rules";
+import { formatComponentPath, walkComponents } from "./spec-tree";
+import { IntentIssue, parseModificationIntent } from "./intent-parser";
+import { applyUISpecPatch, JsonPatch } from "./json-patch";
+import { specMigrations } from "./spec-migrations";
 import { v4 as uuidv4 } from "uuid";
+import { zodToJsonSchema } from "zod-to-json-schema";
+
+/** Model calls per request, including attempts to correct an invalid reply */
+const MODEL_ATTEMPTS = 2;
+
+/** Error codes for modification requests the intent parser could not resolve */
+const INTENT_ISSUE_CODES: Record<IntentIssue["kind"], string> = {
+    ambiguous: "AMBIGUOUS_REFERENCE",
+    not_found: "COMPONENT_NOT_FOUND",
+    invalid_prop: "INVALID_PROP",
+};
+
+/** Earlier request/spec pairs sent to the model as conversation */
+const MODEL_HISTORY_TURNS = 5;
 
 export const uiArchitectConfig: AgentConfig = {
     name: "UI Architect",
@@ -32,7 +58,8 @@ export const uiArchitectConfig: AgentConfig = {
 ## Available Components
 ${componentRegistry.getNames().map(name => {
         const comp = componentRegistry.get(name);
-        return `- ${name}: ${comp?.description.split('\n')[0]}`;
+        const slots = componentRegistry.getSlots(name);
+        return `- ${name}: ${comp?.description.split('\n')[0]}${slots.length > 0 ? ` (slots: ${slots.join(", ")})` : ""}`;
     }).join('\n')}
 
 ## Guidelines
@@ -41,12 +68,14 @@ ${componentRegistry.getNames().map(name => {
 3. Prefer composability - combine simple components for complex UIs
 4. Consider responsive design - mobile-first approach
 5. Think about visual hierarchy - important elements should stand out
+6. Nest components through \`children\`. A child renders in its parent's first slot unless it sets \`slot\` to another one; components without slots cannot have children
+7. Follow the component pairs: ${layoutRules.componentPairs.recommended.map(pair => `${pair.parent} holds ${pair.children.join("/")}`).join(", ")}. ${layoutRules.componentPairs.discouraged.map(pair => pair.reason).join(". ")}
 
 ## Output Format
 Always output a valid UISpec in JSON format with:
 - id: unique identifier
 - name: descriptive name
-- components: array of ComponentSpec objects
+- components: array of ComponentSpec objects (name, props, optional slot and children)
 
 ## Examples
 
@@ -108,21 +137,149 @@ Response: {
  */
 export class UIArchitectAgent {
     private context: AgentContext;
+    private modelProvider?: ModelProvider;
 
-    constructor(context: AgentContext) {
+    constructor(context: AgentContext, modelProvider?: ModelProvider) {
         this.context = context;
+        this.modelProvider = modelProvider;
     }
 
     /**
      * Process a user request and generate UI specification
      */
     async processRequest(userMessage: string): Promise<AgentResponse> {
+        if (!this.modelProvider) {
+            return this.processWithHeuristics(userMessage);
+        }
+
+        try {
+            const uiSpec = await this.generateWithModel(userMessage, this.modelProvider);
+
+            return {
+                success: true,
+                data: uiSpec,
+                nextAgent: "design-critic",
+            };
+        } catch (error) {
+            // Fall back to the offline heuristics, noting why
+            const response = await this.processWithHeuristics(userMessage);
+
+            return {
+                ...response,
+                errors: [
+                    ...(response.errors ?? []),
+                    {
+                        code: "MODEL_FALLBACK",
+                        message: `${this.modelProvider.name} failed, used offline heuristics: ${String(error)}`,
+                        severity: "warning",
+                    },
+                ],
+            };
+        }
+    }
+
+    /**
+     * Generate a UI specification with the model provider, asking it to
+     * correct replies that don't validate
+     */
+    private async generateWithModel(userMessage: string, provider: ModelProvider): Promise<UISpec> {
+        const messages = this.buildModelMessages(userMessage);
+        let errors: string[] = [];
+
+        for (let attempt = 1; attempt <= MODEL_ATTEMPTS; attempt++) {
+            const reply = await provider.complete({
+                messages,
+                temperature: uiArchitectConfig.temperature,
+                maxTokens: uiArchitectConfig.maxTokens,
+                json: true,
+            });
+
+            const validation = validateModelSpec(reply);
+            if (validation.uiSpec) {
+                return this.completeModelSpec(validation.uiSpec, userMessage);
+            }
+
+            errors = validation.errors;
+            messages.push(
+                { role: "assistant", content: reply },
+                {
+                    role: "user",
+                    content: `That is not a valid UISpec:\n- ${errors.join("\n- ")}\n\nReply with the corrected UISpec JSON only.`,
+                }
+            );
+        }
+
+        throw new Error(`Invalid UISpec from model: ${errors.join("; ")}`);
+    }
+
+    /**
+     * System prompt with component schemas, then the conversation so far
+     * (earlier requests and the specs they produced), then the new request
+     */
+    private buildModelMessages(userMessage: string): ModelMessage[] {
+        const messages: ModelMessage[] = [{
+            role: "system",
+            content: `${uiArchitectConfig.systemPrompt}
+## Component Schemas
+Props must validate against these JSON Schemas:
+${JSON.stringify(getComponentJsonSchemas())}
+
+Reply with a single UISpec JSON object and nothing else. When modifying a UI, return the complete updated UI.`,
+        }];
+
+        const versions = this.context.versions ?? [];
+        const currentIndex = versions.findIndex(v => v.version === this.context.currentVersion);
+        let lastSpec: string | undefined;
+
+        versions.slice(0, currentIndex + 1).slice(-MODEL_HISTORY_TURNS).forEach(version => {
+            lastSpec = JSON.stringify(version.uiSpec);
+            messages.push(
+                { role: "user", content: version.request },
+                { role: "assistant", content: lastSpec }
+            );
+        });
+
+        // The history may not end with the UI being edited (e.g. an imported spec)
+        const currentSpec = this.context.currentUI ? JSON.stringify(this.context.currentUI) : undefined;
+        messages.push({
+            role: "user",
+            content: currentSpec && currentSpec !== lastSpec
+                ? `Current UI:\n${currentSpec}\n\n${userMessage}`
+                : userMessage,
+        });
+
+        return messages;
+    }
+
+    /**
+     * Fill in the fields the model isn't trusted with
+     */
+    private completeModelSpec(uiSpec: UISpec, userMessage: string): UISpec {
+        const timestamp = new Date().toISOString();
+        const currentUI = this.context.currentUI;
+
+        return {
+            ...uiSpec,
+            schemaVersion: specMigrations.getLatestVersion(),
+            id: uuidv4(),
+            description: uiSpec.description ?? (currentUI ? currentUI.description : userMessage),
+            metadata: currentUI
+                ? { ...currentUI.metadata, updatedAt: timestamp }
+                : { createdAt: timestamp, version: 1 },
+        };
+    }
+
+    /**
+     * Generate a UI specification from keyword heuristics, without a model
+     */
+    private async processWithHeuristics(userMessage: string): Promise<AgentResponse> {
         try {
             // Analyze the request type
             const requestType = this.analyzeRequestType(userMessage);
 
             // Generate UI based on request type
             let uiSpec: UISpec;
+            let warnings: NonNullable<AgentResponse["errors"]> = [];
 
             if (requestType === "create") {
                 uiSpec = await this.createNewUI(userMessage);
@@ -137,7 +294,48 @@ export class UIArchitectAgent {
                         }],
                     };
                 }
-                uiSpec = await this.modifyExistingUI(userMessage, this.context.currentUI);
+
+                const intent = parseModificationIntent(userMessage, this.context.currentUI, {
+                    createComponent: (name, clause) => this.createComponentSpec(name, clause),
+                });
+                if (intent.issues.length > 0) {
+                    return {
+                        success: false,
+                        errors: intent.issues.map(issue => ({
+                            code: INTENT_ISSUE_CODES[issue.kind],
+                            message: `${issue.message} (in "${issue.clause}")`,
+                            severity: "error" as const,
+                        })),
+                        suggestions: intent.issues.flatMap(issue =>
+                            issue.candidates?.map(candidate => `Did you mean ${candidate.reference}?`) ?? []
+                        ),
+                    };
+                }
+
+                if (intent.operations.length === 0) {
+                    const clauses = intent.unrecognized.length > 0 ? intent.unrecognized : [userMessage];
+                    return {
+                        success: false,
+                        errors: [{
+                            code: "UNRECOGNIZED_REQUEST",
+                            message: `Could not find a change to make in ${clauses.map(clause => `"${clause}"`).join(", ")}. ` +
+                                "Name a component and what to do with it, e.g. \"change the button text to Sign up\".",
+                            severity: "error",
+                        }],
+                    };
+                }
+
+                const patched = this.modifyExistingUI(this.context.currentUI, intent.patch);
+                if (!patched.uiSpec) {
+                    return { success: false, errors: patched.errors };
+                }
+                uiSpec = patched.uiSpec;
+                // The recognized part is applied; say what was left out
+                warnings = intent.unrecognized.map(clause => ({
+                    code: "UNRECOGNIZED_CLAUSE",
+                    message: `Ignored "${clause}": it does not describe a change to make`,
+                    severity: "warning" as const,
+                }));
             } else {
                 return {
                     success: false,
@@ -152,6 +350,7 @@ export class UIArchitectAgent {
             return {
                 success: true,
                 data: uiSpec,
+                ...(warnings.length > 0 && { errors: warnings }),
                 nextAgent: "design-critic",
             };
         } catch (error) {
@@ -192,6 +391,14 @@ export class UIArchitectAgent {
             return "modify";
         }
 
+        // "Add a button to the card" etc. edit the current UI even without a modify keyword
+        if (this.context.currentUI) {
+            const intent = parseModificationIntent(message, this.context.currentUI);
+            if (intent.operations.length > 0 || intent.issues.length > 0) {
+                return "modify";
+            }
+        }
+
         if (hasCreateKeyword || !this.context.currentUI) {
             return "create";
         }
@@ -208,6 +415,7 @@ export class UIArchitectAgent {
         const components = this.selectComponents(keywords, description);
 
         return {
+            schemaVersion: specMigrations.getLatestVersion(),
             id: uuidv4(),
             name: this.generateUIName(description),
             description: description,
@@ -221,14 +429,21 @@ export class UIArchitectAgent {
     }
 
     /**
-     * Modify existing UI based on user request
+     * Apply the patch parsed from a modification request to a copy of the current UI
      */
-    private async modifyExistingUI(request: string, currentUI: UISpec): Promise<UISpec> {
-        const keywords = this.extractKeywords(request);
-        const modifications = this.determineModifications(request, keywords);
+    private modifyExistingUI(currentUI: UISpec, patch: JsonPatch): Pick<AgentResponse, "errors"> & { uiSpec?: UISpec } {
+        const result = applyUISpecPatch(currentUI, patch);
+        if (!result.uiSpec) {
+            return {
+                errors: result.errors.map(error => ({
+                    code: error.code,
+                    message: error.path ? `${error.message} (at ${error.path})` : error.message,
+                    severity: "error" as const,
+                })),
+            };
+        }
 
-        // Clone the current UI
-        const newUI: UISpec = JSON.parse(JSON.stringify(currentUI));
+        const newUI = result.uiSpec;
         newUI.id = uuidv4();
         newUI.metadata = {
             ...newUI.metadata,
@@ -236,36 +451,7 @@ export class UIArchitectAgent {
             version: (newUI.metadata?.version || 0) + 1,
         };
 
-        // Apply modifications
-        for (const mod of modifications) {
-            switch (mod.action) {
-                case "add":
-                    if (mod.component) {
-                        newUI.components.push(mod.component);
-                    }
-                    break;
-                case "remove":
-                    if (mod.componentIndex !== undefined) {
-                        newUI.components.splice(mod.componentIndex, 1);
-                    }
-                    break;
-                case "update":
-                    if (mod.componentIndex !== undefined && mod.props) {
-                        newUI.components[mod.componentIndex].props = {
-                            ...newUI.components[mod.componentIndex].props,
-                            ...mod.props,
-                        };
-                    }
-                    break;
-                case "replace":
-                    if (mod.componentIndex !== undefined && mod.component) {
-                        newUI.components[mod.componentIndex] = mod.component;
-                    }
-                    break;
-            }
-        }
-
-        return newUI;
+        return { uiSpec: newUI };
     }
 
     /**
@@ -351,7 +537,22 @@ export class UIArchitectAgent {
             components.push(this.createButtonSpec(description));
         }
 
-        return components;
+        return this.nestInDashboard(components);
+    }
+
+    /**
+     * Move the components a dashboard recommends as children into its main slot
+     */
+    private nestInDashboard(components: ComponentSpec[]): ComponentSpec[] {
+        const dashboard = components.find(c => c.name === "DashboardLayout");
+        const pair = layoutRules.componentPairs.recommended.find(p => p.parent === "DashboardLayout");
+        if (!dashboard || !pair) return components;
+
+        const nested = components.filter(c => c !== dashboard && pair.children.includes(c.name));
+        if (nested.length === 0) return components;
+
+        dashboard.children = [...(dashboard.children ?? []), ...nested];
+        return components.filter(c => !nested.includes(c));
     }
 
     /**
@@ -417,7 +618,7 @@ export class UIArchitectAgent {
                         name: "Starter",
                         price: 9,
                         currency: "USD",
-                        billingPeriod: "month",
+                        billingPeriod: "monthly",
                         description: "Perfect for getting started",
                         features: [
                             { text: "5 Projects", included: true },
@@ -432,7 +633,7 @@ export class UIArchitectAgent {
                         name: "Professional",
                         price: 29,
                         currency: "USD",
-                        billingPeriod: "month",
+                        billingPeriod: "monthly",
                         description: "Best for professionals",
                         features: [
                             { text: "Unlimited Projects", included: true },
@@ -449,7 +650,7 @@ export class UIArchitectAgent {
                         name: "Enterprise",
                         price: 99,
                         currency: "USD",
-                        billingPeriod: "month",
+                        billingPeriod: "monthly",
                         description: "For large organizations",
                         features: [
                             { text: "Unlimited Everything", included: true },
@@ -657,67 +858,91 @@ export class UIArchitectAgent {
     }
 
     /**
-     * Determine what modifications to make based on request
+     * Default spec for a component added or swapped in by a modification
      */
-    private determineModifications(request: string, keywords: string[]): Array<{
-        action: "add" | "remove" | "update" | "replace";
-        componentIndex?: number;
-        component?: ComponentSpec;
-        props?: Record<string, unknown>;
-    }> {
-        const modifications: Array<{
-            action: "add" | "remove" | "update" | "replace";
-            componentIndex?: number;
-            component?: ComponentSpec;
-            props?: Record<string, unknown>;
-        }> = [];
-
-        const lowerRequest = request.toLowerCase();
-
-        // Handle style modifications
-        if (lowerRequest.includes("more modern") || lowerRequest.includes("modern")) {
-            modifications.push({
-                action: "update",
-                componentIndex: 0,
-                props: { variant: "glass" },
-            });
+    private createComponentSpec(name: string, description: string): ComponentSpec {
+        switch (name) {
+            case "Button": return this.createButtonSpec(description);
+            case "Card": return this.createCardSpec(description);
+            case "PricingTable": return this.createPricingTableSpec(description);
+            case "DashboardLayout": return this.createDashboardSpec(description);
+            case "Chart": return this.createChartSpec(description);
+            case "Form": return this.createFormSpec(description);
+            case "Modal": return this.createModalSpec(description);
+            case "TestimonialSection": return this.createTestimonialSpec(description);
+            default: return { name, props: {} };
         }
+    }
+}
 
-        if (lowerRequest.includes("bigger") || lowerRequest.includes("larger")) {
-            modifications.push({
-                action: "update",
-                componentIndex: 0,
-                props: { size: "xl" },
-            });
-        }
+let componentJsonSchemas: Record<string, unknown> | undefined;
 
-        if (lowerRequest.includes("smaller")) {
-            modifications.push({
-                action: "update",
-                componentIndex: 0,
-                props: { size: "sm" },
-            });
-        }
+/**
+ * JSON Schemas of every registered component's props, keyed by component name
+ */
+function getComponentJsonSchemas(): Record<string, unknown> {
+    if (componentJsonSchemas) return componentJsonSchemas;
 
-        // Handle adding components
-        if (lowerRequest.includes("add button") || lowerRequest.includes("add cta")) {
-            modifications.push({
-                action: "add",
-                component: this.createButtonSpec(request),
-            });
+    const schemas: Record<string, unknown> = {};
+    componentRegistry.getAll().forEach(component => {
+        schemas[component.name] = zodToJsonSchema(component.propsSchema, { $refStrategy: "none" });
+    });
+
+    componentJsonSchemas = schemas;
+    return schemas;
+}
+
+/**
+ * Parse a model reply and check it against the UISpec schema and each
+ * component's props schema
+ */
+function validateModelSpec(reply: string): { uiSpec?: UISpec; errors: string[] } {
+    let data: unknown;
+
+    try {
+        // Models sometimes wrap JSON in a markdown fence
+        data = JSON.parse(reply.trim().replace(/^```(?:json)?\s*|\s*```$/g, ""));
+    } catch (error) {
+        return { errors: [`Reply is not valid JSON: ${(error as Error).message}`] };
+    }
+
+    const result = uiSpecSchema.partial({ id: true }).safeParse(data);
+    if (!result.success) {
+        return { errors: result.error.errors.map(e => `${e.path.join(".") || "(root)"}: ${e.message}`) };
+    }
+
+    const errors: string[] = [];
+
+    if (result.data.components.length === 0) {
+        errors.push("components: must contain at least one component");
+    }
+
+    walkComponents(result.data.components, ({ component, path }) => {
+        const at = formatComponentPath(path);
+        const entry = componentRegistry.get(component.name);
+        if (!entry) {
+            errors.push(
+                `${at}.name: unknown component "${component.name}", ` +
+                `use one of ${componentRegistry.getNames().join(", ")}`
+            );
+            return;
         }
 
-        if (lowerRequest.includes("add testimonial")) {
-            modifications.push({
-                action: "add",
-                component: this.createTestimonialSpec(request),
+        const props = entry.propsSchema.safeParse(component.props);
+        if (!props.success) {
+            props.error.errors.forEach((e: { path: Array<string | number>; message: string }) => {
+                errors.push(`${at}.props${e.path.map(p => `.${p}`).join("")}: ${e.message}`);
             });
         }
+    });
 
-        return modifications;
-    }
+    checkComposition(result.data.components)
+        .filter(issue => issue.severity === "error")
+        .forEach(issue => errors.push(`${formatComponentPath(issue.componentPath)}: ${issue.message}`));
+
+    return errors.length > 0 ? { errors } : { uiSpec: result.data as UISpec, errors };
 }
 
-export function createUIArchitectAgent(context: AgentContext): UIArchitectAgent {
-    return new UIArchitectAgent(context);
+export function createUIArchitectAgent(context: AgentContext, modelProvider?: ModelProvider): UIArchitectAgent {
+    return new UIArchitectAgent(context, modelProvider);
 }
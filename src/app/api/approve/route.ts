@@ -0,0 +1,23 @@
+/**
+ * POST /api/approve
+ * =================
+ * Answer the `approval_requested` event of a run started with
+ * `"reviewChanges": true`: the accepted changes are applied, the rest are
+ * rejected (see ../pipeline).
+ */
+
+import { approveRequestSchema, errorResponse, parseBody, resolveApproval } from "../pipeline";
+
+export const runtime = "nodejs";
+
+export async function POST(request: Request): Promise<Response> {
+    const body = await parseBody(request, approveRequestSchema);
+    if (body.response) return body.response;
+
+    const { sessionId, acceptedIds } = body.data;
+    if (!resolveApproval(sessionId, { acceptedIds })) {
+        return errorResponse(409, "NO_PENDING_APPROVAL", `Session "${sessionId}" is not waiting for an approval`);
+    }
+
+    return Response.json({ sessionId, acceptedIds });
+}
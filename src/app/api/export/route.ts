@@ -0,0 +1,27 @@
+/**
+ * POST /api/export
+ * ================
+ * Export a session's UI, or a UISpec / ui-smith.config.json, as code (see ../pipeline).
+ */
+
+import { createPipelineOrchestrator, exportRequestSchema, parseBody, pipelineResponse, resolveDocument } from "../pipeline";
+
+export const runtime = "nodejs";
+
+export async function POST(request: Request): Promise<Response> {
+    const body = await parseBody(request, exportRequestSchema);
+    if (body.response) return body.response;
+
+    const { sessionId, exportOptions, stream } = body.data;
+    const source = await resolveDocument(sessionId, body.data.document);
+    if (source.response) return source.response;
+
+    const orchestrator = createPipelineOrchestrator({
+        skipDesignReview: true,
+        skipAccessibilityCheck: true,
+        exportOnSuccess: true,
+        exportOptions,
+    });
+
+    return pipelineResponse(orchestrator, () => orchestrator.reviewUI(source.document, "Export UI"), { stream, sessionId });
+}
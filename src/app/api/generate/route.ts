@@ -0,0 +1,25 @@
+/**
+ * POST /api/generate
+ * ==================
+ * Generate a UI from a prompt, in a new session or an existing one (see ../pipeline).
+ */
+
+import { generateRequestSchema, openSession, parseBody, pipelineResponse, sessionNotFound } from "../pipeline";
+
+export const runtime = "nodejs";
+
+export async function POST(request: Request): Promise<Response> {
+    const body = await parseBody(request, generateRequestSchema);
+    if (body.response) return body.response;
+
+    const { prompt, sessionId, options, reviewChanges, stream } = body.data;
+    const session = await openSession(sessionId, options, reviewChanges);
+    if (!session) return sessionNotFound(sessionId!);
+
+    const { orchestrator, release } = session;
+    return pipelineResponse(orchestrator, () => orchestrator.processRequest(prompt), {
+        stream,
+        sessionId: orchestrator.getContext().conversationId,
+        release,
+    });
+}
@@ -0,0 +1,70 @@
+/**
+ * GET/POST /api/history
+ * =====================
+ * Read a session's version history, or move through it with undo, redo and
+ * checkout (see ../pipeline). Both respond with `{ sessionId, uiSpec, versions }`.
+ */
+
+import { AgentOrchestrator } from "@/agents/orchestrator";
+import {
+    errorResponse,
+    historyRequestSchema,
+    openSession,
+    parseBody,
+    readSession,
+    sessionIdSchema,
+    sessionNotFound,
+} from "../pipeline";
+
+export const runtime = "nodejs";
+
+export async function GET(request: Request): Promise<Response> {
+    const sessionId = sessionIdSchema.safeParse(new URL(request.url).searchParams.get("sessionId"));
+    if (!sessionId.success) {
+        return errorResponse(400, "INVALID_REQUEST", "Pass the session id as ?sessionId=");
+    }
+
+    const orchestrator = await readSession(sessionId.data);
+    if (!orchestrator) return sessionNotFound(sessionId.data);
+
+    return historyResponse(sessionId.data, orchestrator);
+}
+
+export async function POST(request: Request): Promise<Response> {
+    const body = await parseBody(request, historyRequestSchema);
+    if (body.response) return body.response;
+
+    const { sessionId, action, version } = body.data;
+    const session = await openSession(sessionId);
+    if (!session) return sessionNotFound(sessionId);
+
+    // checkout saves the session when it moves
+    const { orchestrator, release } = session;
+    let uiSpec;
+    try {
+        uiSpec = action === "undo"
+            ? await orchestrator.undo()
+            : action === "redo"
+                ? await orchestrator.redo()
+                : await orchestrator.checkout(version!);
+    } finally {
+        release();
+    }
+
+    if (!uiSpec) {
+        const message = action === "checkout"
+            ? `Session "${sessionId}" has no version ${version}`
+            : `Session "${sessionId}" has nothing to ${action}`;
+        return errorResponse(409, "NO_VERSION", message);
+    }
+
+    return historyResponse(sessionId, orchestrator);
+}
+
+function historyResponse(sessionId: string, orchestrator: AgentOrchestrator): Response {
+    return Response.json({
+        sessionId,
+        uiSpec: orchestrator.getCurrentUI() ?? null,
+        versions: orchestrator.listVersions(),
+    });
+}
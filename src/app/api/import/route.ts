@@ -0,0 +1,26 @@
+/**
+ * POST /api/import
+ * ================
+ * Load an exported ui-smith.config.json as a new version, in a new session or
+ * an existing one (see ../pipeline).
+ */
+
+import { importRequestSchema, openSession, parseBody, pipelineResponse, sessionNotFound } from "../pipeline";
+
+export const runtime = "nodejs";
+
+export async function POST(request: Request): Promise<Response> {
+    const body = await parseBody(request, importRequestSchema);
+    if (body.response) return body.response;
+
+    const { document, sessionId, stream } = body.data;
+    const session = await openSession(sessionId);
+    if (!session) return sessionNotFound(sessionId!);
+
+    const { orchestrator, release } = session;
+    return pipelineResponse(orchestrator, () => orchestrator.importConfig(document), {
+        stream,
+        sessionId: orchestrator.getContext().conversationId,
+        release,
+    });
+}
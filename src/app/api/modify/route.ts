@@ -0,0 +1,30 @@
+/**
+ * POST /api/modify
+ * ================
+ * Change a session's UI with a modification request or a JSON Patch (see ../pipeline).
+ */
+
+import { modifyRequestSchema, noUI, openSession, parseBody, pipelineResponse, sessionNotFound } from "../pipeline";
+
+export const runtime = "nodejs";
+
+export async function POST(request: Request): Promise<Response> {
+    const body = await parseBody(request, modifyRequestSchema);
+    if (body.response) return body.response;
+
+    const { sessionId, request: modification, patch, options, reviewChanges, stream } = body.data;
+    const session = await openSession(sessionId, options, reviewChanges);
+    if (!session) return sessionNotFound(sessionId);
+
+    const { orchestrator, release } = session;
+    if (!orchestrator.getCurrentUI()) {
+        release();
+        return noUI(sessionId);
+    }
+
+    return pipelineResponse(
+        orchestrator,
+        () => (patch ? orchestrator.applyPatch(patch) : orchestrator.modifyUI(modification!)),
+        { stream, sessionId, release }
+    );
+}
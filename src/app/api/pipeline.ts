@@ -0,0 +1,414 @@
+/**
+ * Pipeline API
+ * ============
+ * Shared pieces of the `/api/*` route handlers, which wrap AgentOrchestrator
+ * for other tools:
+ *
+ * - POST /api/generate  `{ prompt, sessionId?, options? }`
+ * - POST /api/modify    `{ sessionId, request }` or `{ sessionId, patch }` (JSON Patch, see json-patch)
+ * - POST /api/validate  `{ sessionId }` or `{ document }` (a UISpec or ui-smith.config.json)
+ * - POST /api/export    `{ sessionId }` or `{ document }`, with `exportOptions?`
+ * - POST /api/import    `{ document, sessionId? }` (a ui-smith.config.json), recorded as a new version
+ * - GET  /api/history?sessionId=  the session's current UI and versions
+ * - POST /api/history   `{ sessionId, action: "undo" | "redo" | "checkout", version? }`
+ * - POST /api/approve   `{ sessionId, acceptedIds }`, answering an `approval_requested` event
+ *
+ * Sessions: the session id is the orchestrator's conversationId. It is sent
+ * in the `X-Session-Id` header; pass it back as `sessionId` to keep working
+ * on the same UI. Sessions live in `UI_SMITH_SESSION_DIR` when it is set (see
+ * file-session-store), otherwise in memory for the life of the server.
+ * Requests that change a session run one at a time, in the order they arrive;
+ * the next one waits until the previous run has finished and saved.
+ *
+ * Responses stream NDJSON: one PipelineEvent per line, ending with the
+ * `pipeline_finished` event that carries the result. With `"stream": false`
+ * the response is `{ sessionId, result }` instead, with status 422 when the
+ * pipeline did not succeed. Invalid bodies get a 400, unknown sessions a 404.
+ *
+ * Review mode: with `"reviewChanges": true` on generate or modify, the
+ * pipeline pauses at each `approval_requested` event until the client posts
+ * its decision to /api/approve. It needs the streamed response; closing the
+ * stream rejects whatever is still pending.
+ *
+ * Exported code is typechecked only with `exportOptions.typecheck`, as the
+ * check blocks the server for a second or more; its type errors come back as
+ * the export package's `diagnostics`.
+ *
+ * MCP: with `UI_SMITH_MCP=1`, the design review and accessibility check call
+ * the MCP servers in src/mcp (see mcp/client). One client is shared by every
+ * request; the stdio servers it spawns exit with the server, when their
+ * stdin closes.
+ *
+ * Node-only: import this module from route handlers, not from the client bundle.
+ */
+
+import { z } from "zod";
+import { AgentOrchestrator, createOrchestrator, OrchestratorOptions, PipelineResult } from "@/agents/orchestrator";
+import { createFileComponentSources } from "@/agents/file-component-sources";
+import { createExportTypeChecker } from "@/agents/export-typecheck";
+import { createFileSessionStore } from "@/agents/file-session-store";
+import { jsonPatchSchema } from "@/agents/json-patch";
+import { createModelProviderFromEnv } from "@/agents/model-provider";
+import { InMemorySessionStore, SessionStore } from "@/agents/session-store";
+import type { ApprovalDecision, ApprovalRequest } from "@/agents/types";
+import { createMCPClientFromEnv, MCPClientManager } from "@/mcp/client";
+
+export const sessionIdSchema = z.string().regex(/^[A-Za-z0-9_-]+$/, "Must be a session id returned by UI-Smith");
+
+export const exportOptionsSchema = z.object({
+    format: z.enum(["full", "react", "json", "storybook", "html", "vite"]),
+    typescript: z.boolean(),
+    framework: z.enum(["nextjs", "vite", "cra"]),
+    includeStyles: z.boolean(),
+    includeReadme: z.boolean(),
+    typecheck: z.boolean(),
+}).partial().strict();
+
+/**
+ * The OrchestratorOptions a caller may set
+ */
+export const pipelineOptionsSchema = z.object({
+    skipDesignReview: z.boolean(),
+    skipAccessibilityCheck: z.boolean(),
+    autoApplyDesignImprovements: z.boolean(),
+    autoApplyAccessibilityFixes: z.boolean(),
+    exportOnSuccess: z.boolean(),
+    exportOptions: exportOptionsSchema,
+    convergence: z.object({
+        targetDesignScore: z.number().min(0).max(100),
+        targetAccessibilityScore: z.number().min(0).max(100),
+        maxIterations: z.number().int().positive().max(10),
+    }).partial().strict(),
+}).partial().strict();
+
+export type PipelineOptions = z.infer<typeof pipelineOptionsSchema>;
+
+/** A UISpec or exported ui-smith.config.json, checked by the pipeline's import step */
+const documentSchema = z.union([z.record(z.unknown()), z.string()]);
+
+/** Stream NDJSON events (default) or respond with the result only */
+const streamSchema = z.boolean().default(true);
+
+/** Pause for /api/approve before applying agent changes */
+const reviewChangesSchema = z.boolean().default(false);
+
+const streamedReview = {
+    check: (body: { reviewChanges: boolean; stream: boolean }) => !body.reviewChanges || body.stream,
+    message: { message: "reviewChanges needs a streamed response", path: ["reviewChanges"] },
+};
+
+export const generateRequestSchema = z.object({
+    prompt: z.string().trim().min(1),
+    /** Continue an existing session; the prompt then modifies its UI */
+    sessionId: sessionIdSchema.optional(),
+    options: pipelineOptionsSchema.optional(),
+    reviewChanges: reviewChangesSchema,
+    stream: streamSchema,
+}).strict().refine(streamedReview.check, streamedReview.message);
+
+export const modifyRequestSchema = z.object({
+    sessionId: sessionIdSchema,
+    request: z.string().trim().min(1).optional(),
+    patch: jsonPatchSchema.optional(),
+    options: pipelineOptionsSchema.optional(),
+    reviewChanges: reviewChangesSchema,
+    stream: streamSchema,
+}).strict().refine(body => (body.request === undefined) !== (body.patch === undefined), {
+    message: "Pass either request or patch",
+    path: ["request"],
+}).refine(streamedReview.check, streamedReview.message);
+
+export const validateRequestSchema = z.object({
+    sessionId: sessionIdSchema.optional(),
+    document: documentSchema.optional(),
+    options: pipelineOptionsSchema.pick({ skipDesignReview: true, skipAccessibilityCheck: true }).optional(),
+    stream: streamSchema,
+}).strict().refine(body => (body.sessionId === undefined) !== (body.document === undefined), {
+    message: "Pass either sessionId or document",
+    path: ["sessionId"],
+});
+
+export const exportRequestSchema = z.object({
+    sessionId: sessionIdSchema.optional(),
+    document: documentSchema.optional(),
+    exportOptions: exportOptionsSchema.optional(),
+    stream: streamSchema,
+}).strict().refine(body => (body.sessionId === undefined) !== (body.document === undefined), {
+    message: "Pass either sessionId or document",
+    path: ["sessionId"],
+});
+
+export const importRequestSchema = z.object({
+    document: documentSchema,
+    /** Add the imported UI to an existing session as a new version */
+    sessionId: sessionIdSchema.optional(),
+    stream: streamSchema,
+}).strict();
+
+export const historyRequestSchema = z.object({
+    sessionId: sessionIdSchema,
+    action: z.enum(["undo", "redo", "checkout"]),
+    version: z.number().int().positive().optional(),
+}).strict().refine(body => (body.action === "checkout") === (body.version !== undefined), {
+    message: "Pass version with checkout, and only with checkout",
+    path: ["version"],
+});
+
+export const approveRequestSchema = z.object({
+    sessionId: sessionIdSchema,
+    acceptedIds: z.array(z.string()),
+}).strict();
+
+/**
+ * Parse and validate a JSON request body. Resolves to a 400 response when it
+ * is not JSON or does not match the schema.
+ */
+export async function parseBody<T extends z.ZodTypeAny>(
+    request: Request,
+    schema: T
+): Promise<{ data: z.infer<T>; response?: undefined } | { response: Response }> {
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        return { response: errorResponse(400, "INVALID_REQUEST", "Request body must be JSON") };
+    }
+
+    const parsed = schema.safeParse(body);
+    if (!parsed.success) {
+        return {
+            response: errorResponse(400, "INVALID_REQUEST", "Request body is invalid", parsed.error.issues.map(issue => ({
+                path: issue.path.join("."),
+                message: issue.message,
+            }))),
+        };
+    }
+
+    return { data: parsed.data };
+}
+
+export function errorResponse(status: number, code: string, message: string, issues?: unknown[]): Response {
+    return Response.json({ error: { code, message, ...(issues && { issues }) } }, { status });
+}
+
+export function sessionNotFound(sessionId: string): Response {
+    return errorResponse(404, "SESSION_NOT_FOUND", `No session "${sessionId}"`);
+}
+
+const globalForSessions = globalThis as { uiSmithSessionStore?: SessionStore };
+
+/**
+ * The server's session store, kept across hot reloads in development
+ */
+export function getSessionStore(): SessionStore {
+    globalForSessions.uiSmithSessionStore ??= process.env.UI_SMITH_SESSION_DIR
+        ? createFileSessionStore(process.env.UI_SMITH_SESSION_DIR)
+        : new InMemorySessionStore();
+    return globalForSessions.uiSmithSessionStore;
+}
+
+/**
+ * A session opened for a request that changes it
+ */
+export interface OpenedSession {
+    orchestrator: AgentOrchestrator;
+    /** Let the session's next request run. Call it once, when this one is done */
+    release: () => void;
+}
+
+const globalForLocks = globalThis as { uiSmithSessionLocks?: Map<string, Promise<void>> };
+
+/**
+ * An orchestrator that saves to the session store, resumed from `sessionId`
+ * when given. Waits for the session's earlier requests to finish first: each
+ * run loads, changes and saves the whole session, so overlapping runs would
+ * drop each other's versions. Resolves to undefined when there is no such
+ * session.
+ */
+export async function openSession(
+    sessionId: string | undefined,
+    options: PipelineOptions = {},
+    reviewChanges = false
+): Promise<OpenedSession | undefined> {
+    const orchestrator = createPipelineOrchestrator({
+        ...options,
+        sessionStore: getSessionStore(),
+        ...(reviewChanges && { approvalHandler: waitForApproval }),
+    });
+    if (sessionId === undefined) return { orchestrator, release: () => {} };
+
+    const release = await lockSession(sessionId);
+    try {
+        if (await orchestrator.loadSession(sessionId)) return { orchestrator, release };
+    } catch (error) {
+        release();
+        throw error;
+    }
+    release();
+    return undefined;
+}
+
+/**
+ * A session's orchestrator for reading it, without waiting for running
+ * requests. Don't change the session through it.
+ */
+export async function readSession(sessionId: string): Promise<AgentOrchestrator | undefined> {
+    const orchestrator = createPipelineOrchestrator({ sessionStore: getSessionStore() });
+    return (await orchestrator.loadSession(sessionId)) ? orchestrator : undefined;
+}
+
+/**
+ * Wait for the session's earlier holders, then hold it until the returned
+ * function is called
+ */
+async function lockSession(sessionId: string): Promise<() => void> {
+    const locks = (globalForLocks.uiSmithSessionLocks ??= new Map());
+    const previous = locks.get(sessionId) ?? Promise.resolve();
+
+    let unlock!: () => void;
+    const held = new Promise<void>(resolve => (unlock = resolve));
+    const tail = previous.then(() => held);
+    locks.set(sessionId, tail);
+
+    await previous;
+    return () => {
+        unlock();
+        if (locks.get(sessionId) === tail) locks.delete(sessionId);
+    };
+}
+
+/**
+ * The UI a validate or export request is about: the session's current UI,
+ * or the document sent with the request
+ */
+export async function resolveDocument(
+    sessionId: string | undefined,
+    document: unknown
+): Promise<{ document: unknown; response?: undefined } | { response: Response }> {
+    if (sessionId === undefined) return { document };
+
+    const context = await getSessionStore().load(sessionId);
+    if (!context) return { response: sessionNotFound(sessionId) };
+    if (!context.currentUI) return { response: noUI(sessionId) };
+    return { document: context.currentUI };
+}
+
+export function noUI(sessionId: string): Response {
+    return errorResponse(409, "NO_UI", `Session "${sessionId}" has no UI yet; use /api/generate first`);
+}
+
+const globalForApprovals = globalThis as {
+    uiSmithApprovals?: {
+        pending: Map<string, (decision: ApprovalDecision) => void>;
+        /** Sessions whose stream closed mid-run; their remaining requests are rejected */
+        abandoned: Set<string>;
+    };
+};
+
+function approvals() {
+    globalForApprovals.uiSmithApprovals ??= { pending: new Map(), abandoned: new Set() };
+    return globalForApprovals.uiSmithApprovals;
+}
+
+/**
+ * Review mode's approval handler: the request reaches the client as an
+ * `approval_requested` event, and the pipeline waits for /api/approve.
+ * A session runs one request at a time (see openSession), and the orchestrator
+ * asks one question at a time, so one per session is pending.
+ */
+function waitForApproval(request: ApprovalRequest): Promise<ApprovalDecision> {
+    if (approvals().abandoned.has(request.conversationId)) return Promise.resolve({ acceptedIds: [] });
+    return new Promise(resolve => approvals().pending.set(request.conversationId, resolve));
+}
+
+/**
+ * Answer a session's pending approval request. Returns false when nothing is waiting.
+ */
+export function resolveApproval(sessionId: string, decision: ApprovalDecision): boolean {
+    const resolve = approvals().pending.get(sessionId);
+    if (!resolve) return false;
+
+    approvals().pending.delete(sessionId);
+    resolve(decision);
+    return true;
+}
+
+const globalForMCP = globalThis as { uiSmithMCPClient?: MCPClientManager | null };
+
+/**
+ * The server's MCP client, or undefined unless `UI_SMITH_MCP` enables it.
+ * Kept across hot reloads in development, like the session store.
+ */
+function getMCPClient(): MCPClientManager | undefined {
+    // null remembers that it is off, so the environment is read once
+    if (globalForMCP.uiSmithMCPClient === undefined) {
+        globalForMCP.uiSmithMCPClient = createMCPClientFromEnv() ?? null;
+    }
+    return globalForMCP.uiSmithMCPClient ?? undefined;
+}
+
+export function createPipelineOrchestrator(options: Partial<OrchestratorOptions> = {}): AgentOrchestrator {
+    return createOrchestrator({
+        ...options,
+        modelProvider: createModelProviderFromEnv(),
+        mcpClient: getMCPClient(),
+        componentSources: createFileComponentSources(),
+        exportTypeChecker: createExportTypeChecker(),
+    });
+}
+
+/**
+ * Run a pipeline call and respond with its events as NDJSON, or with its
+ * result once it finishes. `release` is called when the run is over.
+ */
+export async function pipelineResponse(
+    orchestrator: AgentOrchestrator,
+    run: () => Promise<PipelineResult>,
+    { stream, sessionId, release = () => {} }: { stream: boolean; sessionId?: string; release?: () => void }
+): Promise<Response> {
+    const headers = new Headers(sessionId ? { "X-Session-Id": sessionId } : undefined);
+
+    if (!stream) {
+        try {
+            const result = await run();
+            return Response.json({ sessionId, result }, { status: result.success ? 200 : 422, headers });
+        } catch (error) {
+            return errorResponse(500, "PIPELINE_ERROR", error instanceof Error ? error.message : String(error));
+        } finally {
+            release();
+        }
+    }
+
+    const encoder = new TextEncoder();
+    let cancelled = false;
+    const body = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            const send = (line: unknown) => {
+                if (!cancelled) controller.enqueue(encoder.encode(`${JSON.stringify(line)}\n`));
+            };
+            const unsubscribe = orchestrator.subscribe(send);
+
+            try {
+                await run();
+            } catch (error) {
+                send({ type: "error", message: error instanceof Error ? error.message : String(error) });
+            } finally {
+                unsubscribe();
+                if (sessionId) approvals().abandoned.delete(sessionId);
+                release();
+                if (!cancelled) controller.close();
+            }
+        },
+        cancel() {
+            // Nobody is left to answer a review, so reject its changes and let the run finish
+            cancelled = true;
+            if (!sessionId) return;
+            approvals().abandoned.add(sessionId);
+            resolveApproval(sessionId, { acceptedIds: [] });
+        },
+    });
+
+    headers.set("Content-Type", "application/x-ndjson; charset=utf-8");
+    headers.set("Cache-Control", "no-cache");
+    return new Response(body, { headers });
+}
@@ -0,0 +1,29 @@
+/**
+ * POST /api/validate
+ * ==================
+ * Run the design review and accessibility check on a session's UI or on a
+ * UISpec / ui-smith.config.json, without changing it (see ../pipeline).
+ */
+
+import { createPipelineOrchestrator, parseBody, pipelineResponse, resolveDocument, validateRequestSchema } from "../pipeline";
+
+export const runtime = "nodejs";
+
+export async function POST(request: Request): Promise<Response> {
+    const body = await parseBody(request, validateRequestSchema);
+    if (body.response) return body.response;
+
+    const { sessionId, options, stream } = body.data;
+    const source = await resolveDocument(sessionId, body.data.document);
+    if (source.response) return source.response;
+
+    // Report only: fixes are not applied and the session is not touched
+    const orchestrator = createPipelineOrchestrator({
+        ...options,
+        autoApplyDesignImprovements: false,
+        autoApplyAccessibilityFixes: false,
+        exportOnSuccess: false,
+    });
+
+    return pipelineResponse(orchestrator, () => orchestrator.reviewUI(source.document, "Validate UI"), { stream, sessionId });
+}
@@ -26,17 +26,46 @@ import {
   Box,
   FileCode,
   ExternalLink,
+  History,
+  Undo2,
+  Redo2,
+  GitCompare,
+  ListChecks,
+  Upload,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { getHistory, postJson, streamPipeline, type PipelineRun, type PipelineStreamEvent } from "@/lib/pipeline-client";
+import type { PipelineResult, UISpecVersionSummary } from "@/agents/orchestrator";
+import { createZipArchive } from "@/agents/export-archive";
+import { describeComponentChange, type PropChange } from "@/agents/spec-diff";
+import { describeComponentLocation, getComponentSlots, groupChildrenBySlot } from "@/agents/spec-tree";
+import type {
+  AccessibilityReport,
+  AgentRole,
+  ApprovalRequest,
+  ComponentSpec,
+  DesignFeedback,
+  ExportDiagnostic,
+  ExportPackage,
+  UISpec,
+} from "@/agents/types";
 
 // Import components for preview
 import { Button } from "@/components/generative/button";
 import { Card } from "@/components/generative/card";
 import { PricingTable } from "@/components/generative/pricing-table";
+import { DashboardLayout } from "@/components/generative/dashboard-layout";
 import { Chart } from "@/components/generative/chart";
 import { Form } from "@/components/generative/form";
 import { Modal } from "@/components/generative/modal";
 import { TestimonialSection } from "@/components/generative/testimonial-section";
+import type {
+  CardProps,
+  DashboardLayoutProps,
+  FormProps,
+  ModalProps,
+  PricingTableProps,
+} from "@/components/generative";
 
 // Types
 interface Message {
@@ -47,11 +76,14 @@ interface Message {
   uiSpec?: unknown;
 }
 
-interface PreviewComponent {
-  name: string;
-  props: Record<string, unknown>;
+// Proposed changes the server-side pipeline is waiting on in review mode
+interface PendingApproval {
+  sessionId: string;
+  request: ApprovalRequest;
 }
 
+type WorkspaceTab = "preview" | "code" | "tree" | "design" | "accessibility" | "changes" | "history";
+
 // Agent status for visualization
 interface AgentStatus {
   name: string;
@@ -59,6 +91,45 @@ interface AgentStatus {
   message?: string;
 }
 
+// The code tab shows the export's type errors, which the server only checks on request
+const EXPORT_OPTIONS = { typecheck: true };
+
+// Position of each pipeline agent in the status panel
+const AGENT_STATUS_INDEX: Partial<Record<AgentRole, number>> = {
+  "ui-architect": 0,
+  "design-critic": 1,
+  accessibility: 2,
+  "export-engineer": 3,
+};
+
+const AGENT_LABELS: Partial<Record<AgentRole, string>> = {
+  orchestrator: "Orchestrator",
+  "ui-architect": "UI Architect",
+  "design-critic": "Design Critic",
+  accessibility: "Accessibility",
+  "export-engineer": "Export Engineer",
+};
+
+const AGENT_WORKING_MESSAGES: Partial<Record<AgentRole, string>> = {
+  "ui-architect": "Creating UI specification...",
+  "design-critic": "Reviewing design...",
+  accessibility: "Checking accessibility...",
+  "export-engineer": "Generating code...",
+};
+
+const IMPACT_STYLES: Record<AccessibilityReport["violations"][number]["impact"], string> = {
+  critical: "bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400",
+  serious: "bg-orange-100 dark:bg-orange-900/30 text-orange-700 dark:text-orange-400",
+  moderate: "bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400",
+  minor: "bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-400",
+};
+
+const SEVERITY_STYLES: Record<DesignFeedback["issues"][number]["severity"], string> = {
+  error: "bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400",
+  warning: "bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400",
+  suggestion: "bg-sky-100 dark:bg-sky-900/30 text-sky-700 dark:text-sky-400",
+};
+
 export default function UISmithApp() {
   // State
   const [messages, setMessages] = useState<Message[]>([
@@ -71,11 +142,20 @@ export default function UISmithApp() {
   ]);
   const [input, setInput] = useState("");
   const [isGenerating, setIsGenerating] = useState(false);
-  const [activeTab, setActiveTab] = useState<"preview" | "code" | "tree">("preview");
-  const [previewComponents, setPreviewComponents] = useState<PreviewComponent[]>([]);
-  const [generatedCode, setGeneratedCode] = useState<string>("");
+  const [activeTab, setActiveTab] = useState<WorkspaceTab>("preview");
+  const [previewComponents, setComponentSpecs] = useState<ComponentSpec[]>([]);
+  const [exportFiles, setExportFiles] = useState<ExportPackage["files"]>([]);
+  const [selectedFile, setSelectedFile] = useState("");
+  const [exportDiagnostics, setExportDiagnostics] = useState<ExportDiagnostic[]>([]);
+  const [designFeedback, setDesignFeedback] = useState<DesignFeedback | undefined>();
+  const [accessibilityReport, setAccessibilityReport] = useState<AccessibilityReport | undefined>();
+  const [versions, setVersions] = useState<UISpecVersionSummary[]>([]);
+  const [changes, setChanges] = useState<NonNullable<PipelineResult["changes"]>>([]);
   const [copied, setCopied] = useState(false);
   const [isDarkMode, setIsDarkMode] = useState(true);
+  const [reviewChanges, setReviewChanges] = useState(false);
+  const [pendingApproval, setPendingApproval] = useState<PendingApproval | null>(null);
+  const [selectedChangeIds, setSelectedChangeIds] = useState<string[]>([]);
   const [agentStatuses, setAgentStatuses] = useState<AgentStatus[]>([
     { name: "UI Architect", status: "idle" },
     { name: "Design Critic", status: "idle" },
@@ -85,6 +165,11 @@ export default function UISmithApp() {
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
+  const sessionIdRef = useRef<string | undefined>(undefined);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const generatedCode = exportFiles.find((file) => file.name === selectedFile)?.content ?? "";
+  const fileDiagnostics = exportDiagnostics.filter((diagnostic) => diagnostic.file === selectedFile);
 
   // Scroll to bottom when messages change
   useEffect(() => {
@@ -107,284 +192,214 @@ export default function UISmithApp() {
     setInput("");
     setIsGenerating(true);
 
-    // Simulate agent pipeline
-    await simulateAgentPipeline(input);
+    await runAgentPipeline(input);
   };
 
-  // Simulate the agent pipeline with visual feedback
-  const simulateAgentPipeline = async (userInput: string) => {
-    const updateAgentStatus = (index: number, status: AgentStatus["status"], message?: string) => {
-      setAgentStatuses((prev) => 
-        prev.map((agent, i) => 
-          i === index ? { ...agent, status, message } : agent
-        )
-      );
-    };
+  const addMessage = (role: Message["role"], content: string, uiSpec?: UISpec) => {
+    setMessages((prev) => [
+      ...prev,
+      { id: `${Date.now()}-${prev.length}`, role, content, timestamp: new Date(), uiSpec },
+    ]);
+  };
+
+  const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+  // Send the user's picks back to the pipeline waiting on the server
+  const resolveApproval = async (acceptedIds: string[]) => {
+    if (!pendingApproval) return;
+    setPendingApproval(null);
 
+    try {
+      await postJson("/api/approve", { sessionId: pendingApproval.sessionId, acceptedIds });
+    } catch (error) {
+      addMessage("system", `Couldn't send your review: ${errorMessage(error)}`);
+    }
+  };
+
+  const toggleChangeSelection = (id: string) => {
+    setSelectedChangeIds((prev) =>
+      prev.includes(id) ? prev.filter((selected) => selected !== id) : [...prev, id]
+    );
+  };
+
+  const toggleReviewChanges = () => {
+    setReviewChanges(!reviewChanges);
+  };
+
+  const updateAgentStatus = (index: number, status: AgentStatus["status"], message?: string) => {
+    setAgentStatuses((prev) =>
+      prev.map((agent, i) =>
+        i === index ? { ...agent, status, message } : agent
+      )
+    );
+  };
+
+  // Mirror the server-side pipeline's events in the status panel, preview and review tabs
+  const handlePipelineEvent = (event: PipelineStreamEvent, sessionId: string) => {
+    switch (event.type) {
+      case "step_started":
+      case "step_finished": {
+        const index = AGENT_STATUS_INDEX[event.agent];
+        if (index === undefined) return;
+        if (event.type === "step_started") {
+          updateAgentStatus(index, "working", AGENT_WORKING_MESSAGES[event.agent]);
+        } else {
+          updateAgentStatus(index, event.success ? "done" : "error", event.summary);
+        }
+        return;
+      }
+      case "ui_spec":
+        showUISpec(event.uiSpec);
+        return;
+      case "design_feedback":
+        setDesignFeedback(event.feedback);
+        return;
+      case "accessibility_report":
+        setAccessibilityReport(event.report);
+        return;
+      case "approval_requested":
+        setSelectedChangeIds(event.request.changes.map((change) => change.id));
+        setPendingApproval({ sessionId, request: event.request });
+        return;
+    }
+  };
+
+  // Run the agent pipeline on the server, driving the workspace from its events
+  const runAgentPipeline = async (userInput: string) => {
     // Reset statuses
     setAgentStatuses((prev) => prev.map((a) => ({ ...a, status: "idle", message: undefined })));
 
-    // Step 1: UI Architect
-    updateAgentStatus(0, "working", "Creating UI specification...");
-    await delay(1500);
-    const components = generateComponentsFromInput(userInput);
-    setPreviewComponents(components);
-    updateAgentStatus(0, "done", "UI created");
-
-    // Step 2: Design Critic
-    updateAgentStatus(1, "working", "Reviewing design...");
-    await delay(1000);
-    updateAgentStatus(1, "done", "Score: 85/100");
-
-    // Step 3: Accessibility
-    updateAgentStatus(2, "working", "Checking accessibility...");
-    await delay(800);
-    updateAgentStatus(2, "done", "WCAG AA: Pass");
-
-    // Step 4: Export
-    updateAgentStatus(3, "working", "Generating code...");
-    await delay(800);
-    const code = generateCode(components);
-    setGeneratedCode(code);
-    updateAgentStatus(3, "done", "Ready to export");
-
-    // Add assistant message
-    const assistantMessage: Message = {
-      id: (Date.now() + 1).toString(),
-      role: "assistant",
-      content: `I've created your UI with ${components.length} component${components.length > 1 ? "s" : ""}. You can:\n\n• **Preview** the rendered UI on the right\n• View and copy the **Code**\n• See the **Component Tree**\n\nWant me to make any changes?`,
-      timestamp: new Date(),
-      uiSpec: components,
-    };
+    try {
+      const { sessionId, result } = await streamPipeline(
+        "/api/generate",
+        { prompt: userInput, sessionId: sessionIdRef.current, reviewChanges, options: { exportOptions: EXPORT_OPTIONS } },
+        handlePipelineEvent
+      );
+      sessionIdRef.current = sessionId;
+      showResult(result);
+      await refreshHistory(sessionId);
 
-    setMessages((prev) => [...prev, assistantMessage]);
-    setIsGenerating(false);
+      const components = result.uiSpec?.components ?? [];
+      const content = result.uiSpec
+        ? `I've created your UI with ${components.length} component${components.length === 1 ? "" : "s"}.` +
+          formatScores(result) +
+          "\n\nYou can:\n\n• **Preview** the rendered UI on the right\n• View and copy the exported **Code**\n• See the **Component Tree**\n• Read the **Design** review and **Accessibility** report\n• Step through the **History** of versions\n\nWant me to make any changes?"
+        : `I couldn't create your UI:\n\n${result.errors.map((error) => `• ${error.message}`).join("\n")}`;
+      addMessage("assistant", content, result.uiSpec);
+    } catch (error) {
+      setAgentStatuses((prev) =>
+        prev.map((agent) => (agent.status === "working" ? { ...agent, status: "error", message: undefined } : agent))
+      );
+      addMessage("assistant", `Something went wrong while running the agents: ${errorMessage(error)}`);
+    } finally {
+      setPendingApproval(null);
+      setIsGenerating(false);
+    }
   };
 
-  // Generate components based on input
-  const generateComponentsFromInput = (input: string): PreviewComponent[] => {
-    const lower = input.toLowerCase();
-    const components: PreviewComponent[] = [];
-
-    if (lower.includes("pricing")) {
-      components.push({
-        name: "PricingTable",
-        props: {
-          headline: "Simple, Transparent Pricing",
-          subheadline: "Choose the plan that's right for you",
-          tiers: [
-            {
-              id: "starter",
-              name: "Starter",
-              price: 9,
-              currency: "USD",
-              billingPeriod: "month",
-              description: "Perfect for individuals",
-              features: [
-                { text: "5 Projects", included: true },
-                { text: "Basic Support", included: true },
-                { text: "1GB Storage", included: true },
-                { text: "API Access", included: false },
-              ],
-              ctaText: "Get Started",
-            },
-            {
-              id: "pro",
-              name: "Professional",
-              price: 29,
-              currency: "USD",
-              billingPeriod: "month",
-              description: "Best for professionals",
-              features: [
-                { text: "Unlimited Projects", included: true },
-                { text: "Priority Support", included: true },
-                { text: "10GB Storage", included: true },
-                { text: "API Access", included: true },
-              ],
-              ctaText: "Start Free Trial",
-              featured: true,
-              badge: "Most Popular",
-            },
-            {
-              id: "enterprise",
-              name: "Enterprise",
-              price: 99,
-              currency: "USD",
-              billingPeriod: "month",
-              description: "For large teams",
-              features: [
-                { text: "Unlimited Everything", included: true },
-                { text: "24/7 Support", included: true },
-                { text: "Unlimited Storage", included: true },
-                { text: "Custom Integrations", included: true },
-              ],
-              ctaText: "Contact Sales",
-            },
-          ],
-          showBillingToggle: true,
-          yearlyDiscount: 20,
-        },
-      });
-    } else if (lower.includes("testimonial") || lower.includes("review")) {
-      components.push({
-        name: "TestimonialSection",
-        props: {
-          headline: "Loved by Thousands",
-          subheadline: "See what our customers have to say",
-          testimonials: [
-            {
-              id: "1",
-              quote: "This product transformed our workflow completely. We've seen a 3x increase in productivity!",
-              authorName: "Sarah Johnson",
-              authorRole: "CEO",
-              authorCompany: "TechCorp",
-              rating: 5,
-            },
-            {
-              id: "2",
-              quote: "The best investment we've made this year. The ROI speaks for itself.",
-              authorName: "Michael Chen",
-              authorRole: "Director of Operations",
-              authorCompany: "StartupXYZ",
-              rating: 5,
-            },
-            {
-              id: "3",
-              quote: "Incredible support and a product that just works. Highly recommended!",
-              authorName: "Emily Brown",
-              authorRole: "Product Manager",
-              authorCompany: "InnovateCo",
-              rating: 5,
-            },
-          ],
-          layout: "grid",
-          columns: 3,
-          showRatings: true,
-          showAvatars: true,
-          cardStyle: "elevated",
-        },
-      });
-    } else if (lower.includes("form") || lower.includes("contact")) {
-      components.push({
-        name: "Form",
-        props: {
-          title: "Get in Touch",
-          description: "We'd love to hear from you. Send us a message!",
-          fields: [
-            { id: "name", name: "name", type: "text", label: "Full Name", placeholder: "John Doe", required: true, width: "half" },
-            { id: "email", name: "email", type: "email", label: "Email", placeholder: "john@example.com", required: true, width: "half" },
-            { id: "subject", name: "subject", type: "select", label: "Subject", options: [
-              { value: "general", label: "General Inquiry" },
-              { value: "support", label: "Technical Support" },
-              { value: "sales", label: "Sales" },
-            ], required: true },
-            { id: "message", name: "message", type: "textarea", label: "Message", placeholder: "How can we help?", required: true },
-          ],
-          submitText: "Send Message",
-          showSubmitButton: true,
-          showValidationOnBlur: true,
-        },
-      });
-    } else if (lower.includes("chart") || lower.includes("analytics") || lower.includes("data")) {
-      components.push({
-        name: "Chart",
-        props: {
-          type: "line",
-          title: "Revenue Overview",
-          subtitle: "Monthly revenue for the past 6 months",
-          data: [
-            { name: "Jan", value: 12000 },
-            { name: "Feb", value: 19000 },
-            { name: "Mar", value: 15000 },
-            { name: "Apr", value: 24000 },
-            { name: "May", value: 21000 },
-            { name: "Jun", value: 28000 },
-          ],
-          height: 300,
-          showLegend: true,
-          showGrid: true,
-          animated: true,
-          colorScheme: "default",
-        },
-      });
-    } else if (lower.includes("hero") || lower.includes("landing")) {
-      components.push({
-        name: "Card",
-        props: {
-          variant: "gradient",
-          title: "Build Amazing Products",
-          subtitle: "The future of development",
-          content: "Create beautiful, responsive UIs in minutes with our AI-powered design tool. No coding required.",
-          size: "lg",
-          hoverable: true,
-        },
-      });
-      components.push({
-        name: "Button",
-        props: {
-          text: "Get Started Free",
-          variant: "solid",
-          color: "primary",
-          size: "lg",
-        },
-      });
-    } else {
-      // Default: Card + Button
-      components.push({
-        name: "Card",
-        props: {
-          variant: "elevated",
-          title: "Welcome to UI-Smith",
-          content: "This is a sample card component. Describe your UI to generate custom components!",
-          hoverable: true,
-        },
-      });
-      components.push({
-        name: "Button",
-        props: {
-          text: "Learn More",
-          variant: "solid",
-          color: "primary",
-          size: "md",
-        },
+  // Load an exported ui-smith.config.json as a new version
+  const importConfigFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file || isGenerating) return;
+
+    setIsGenerating(true);
+    try {
+      const { sessionId, result } = await postJson<PipelineRun>("/api/import", {
+        document: await file.text(),
+        sessionId: sessionIdRef.current,
+        stream: false,
       });
+
+      if (result.success) {
+        sessionIdRef.current = sessionId;
+        showUISpec(result.uiSpec);
+        setChanges(result.changes ?? []);
+        await Promise.all([refreshHistory(sessionId), refreshReports(sessionId)]);
+        setActiveTab("preview");
+      }
+
+      const repairs = result.repairs?.length ?? 0;
+      const content = result.success
+        ? `Imported **${file.name}** as version ${result.version} with ${result.uiSpec?.components.length ?? 0} component${result.uiSpec?.components.length === 1 ? "" : "s"}.` +
+          (repairs > 0 ? ` I repaired ${repairs} invalid prop${repairs === 1 ? "" : "s"} along the way.` : "") +
+          "\n\nDescribe any changes you'd like to make."
+        : `I couldn't import **${file.name}**:\n\n${result.errors.map((error) => `• ${error.message}`).join("\n")}`;
+      addMessage("assistant", content, result.uiSpec);
+    } catch (error) {
+      addMessage("assistant", `I couldn't import **${file.name}**: ${errorMessage(error)}`);
+    } finally {
+      setIsGenerating(false);
     }
+  };
 
-    return components;
+  // Show a spec in the preview and tree tabs
+  const showUISpec = (uiSpec?: UISpec) => {
+    setComponentSpecs(uiSpec?.components ?? []);
   };
 
-  // Generate code from components
-  const generateCode = (components: PreviewComponent[]): string => {
-    const imports = [...new Set(components.map((c) => c.name))].join(", ");
-    const componentCode = components
-      .map((comp) => {
-        const propsStr = Object.entries(comp.props)
-          .map(([k, v]) => {
-            if (typeof v === "string") return `${k}="${v}"`;
-            if (typeof v === "boolean") return v ? k : `${k}={false}`;
-            if (typeof v === "number") return `${k}={${v}}`;
-            return `${k}={${JSON.stringify(v, null, 2)}}`;
-          })
-          .join("\n        ");
-        return `      <${comp.name}
-        ${propsStr}
-      />`;
-      })
-      .join("\n\n");
-
-    return `"use client";
-
-import { ${imports} } from "@/components/generative";
-
-export default function GeneratedUI() {
-  return (
-    <main className="min-h-screen p-8 bg-slate-50 dark:bg-slate-950">
-${componentCode}
-    </main>
-  );
-}`;
+  // Show the Export Engineer's files in the code tab, keeping the open file when it is still there
+  const showExportPackage = (exportPackage?: ExportPackage) => {
+    const files = exportPackage?.files ?? [];
+    setExportFiles(files);
+    setExportDiagnostics(exportPackage?.diagnostics ?? []);
+    setSelectedFile((prev) =>
+      files.some((file) => file.name === prev)
+        ? prev
+        : (files.find((file) => file.name.startsWith("page.")) ?? files[0])?.name ?? ""
+    );
+  };
+
+  // Show everything a pipeline run produced
+  const showResult = (result: PipelineResult) => {
+    showUISpec(result.uiSpec);
+    setChanges(result.changes ?? []);
+    setDesignFeedback(result.designFeedback);
+    setAccessibilityReport(result.accessibilityReport);
+    showExportPackage(result.exportPackage);
+  };
+
+  const refreshHistory = async (sessionId: string) => {
+    setVersions((await getHistory(sessionId)).versions);
+  };
+
+  // Review and export the session's current UI again, without changing it
+  const refreshReports = async (sessionId: string) => {
+    const [review, exported] = await Promise.all([
+      postJson<PipelineRun>("/api/validate", { sessionId, stream: false }),
+      postJson<PipelineRun>("/api/export", { sessionId, exportOptions: EXPORT_OPTIONS, stream: false }),
+    ]);
+    setDesignFeedback(review.result.designFeedback);
+    setAccessibilityReport(review.result.accessibilityReport);
+    showExportPackage(exported.result.exportPackage);
+  };
+
+  // Move through the version history
+  const travelTo = async (action: "undo" | "redo" | "checkout", version?: number) => {
+    const sessionId = sessionIdRef.current;
+    if (!sessionId) return;
+
+    setIsGenerating(true);
+    try {
+      const history = await postJson<{ uiSpec: UISpec | null; versions: UISpecVersionSummary[] }>(
+        "/api/history",
+        { sessionId, action, version }
+      );
+      showUISpec(history.uiSpec ?? undefined);
+      setChanges([]);
+      setVersions(history.versions);
+      await refreshReports(sessionId);
+    } catch (error) {
+      addMessage("system", `Couldn't change versions: ${errorMessage(error)}`);
+    } finally {
+      setIsGenerating(false);
+    }
   };
 
+  const undo = () => travelTo("undo");
+  const redo = () => travelTo("redo");
+  const checkoutVersion = (version: number) => travelTo("checkout", version);
+
   // Copy code to clipboard
   const copyCode = async () => {
     await navigator.clipboard.writeText(generatedCode);
@@ -392,30 +407,116 @@ ${componentCode}
     setTimeout(() => setCopied(false), 2000);
   };
 
-  // Render component preview
-  const renderComponent = (component: PreviewComponent, index: number) => {
+  // Download every exported file as a zip, keeping their folders
+  const downloadZip = () => {
+    const archive = createZipArchive(exportFiles);
+    const url = URL.createObjectURL(new Blob([archive], { type: "application/zip" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "ui-smith-export.zip";
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    // Revoking before the browser has read the blob cancels the download in Safari and Firefox
+    setTimeout(() => URL.revokeObjectURL(url), 40_000);
+  };
+
+  // Render per-prop changes from a spec diff
+  const renderPropChanges = (propChanges: PropChange[]) => {
+    if (propChanges.length === 0) return null;
+
+    return (
+      <ul className="mt-1 ml-4 space-y-0.5 font-mono text-xs">
+        {propChanges.map((change) => (
+          <li key={change.path} className="text-slate-500 dark:text-slate-400 break-all">
+            {change.path}:{" "}
+            {change.kind !== "added" && (
+              <span className="text-red-500 line-through">{formatDiffValue(change.before)}</span>
+            )}
+            {change.kind === "changed" && " → "}
+            {change.kind !== "removed" && (
+              <span className="text-emerald-600 dark:text-emerald-400">{formatDiffValue(change.after)}</span>
+            )}
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
+  // Render component preview, nested components included
+  const renderComponent = (component: ComponentSpec, key: React.Key): React.ReactNode => {
     const props = component.props as Record<string, unknown>;
-    
+    const slots = groupChildrenBySlot(component);
+    const [defaultSlot, ...namedSlots] = getComponentSlots(component.name);
+    const renderSlot = (slot?: string) =>
+      slot ? slots[slot]?.map((child, index) => renderComponent(child, `${slot}-${index}`)) : undefined;
+    const children = renderSlot(defaultSlot);
+    const named = Object.fromEntries(namedSlots.map((slot) => [slot, renderSlot(slot)]));
+
     switch (component.name) {
       case "Button":
-        return <Button key={index} {...(props as React.ComponentProps<typeof Button>)} />;
+        return <Button key={key} {...(props as React.ComponentProps<typeof Button>)} />;
       case "Card":
-        return <Card key={index} {...(props as React.ComponentProps<typeof Card>)} />;
+        return (
+          <Card key={key} {...(props as CardProps)} footer={named.footer}>
+            {children}
+          </Card>
+        );
       case "PricingTable":
-        return <PricingTable key={index} {...(props as React.ComponentProps<typeof PricingTable>)} />;
+        return (
+          <PricingTable key={key} {...(props as PricingTableProps)}>
+            {children}
+          </PricingTable>
+        );
+      case "DashboardLayout":
+        return (
+          <DashboardLayout key={key} {...(props as DashboardLayoutProps)}>
+            {children}
+          </DashboardLayout>
+        );
       case "Chart":
-        return <Chart key={index} {...(props as React.ComponentProps<typeof Chart>)} />;
+        return <Chart key={key} {...(props as React.ComponentProps<typeof Chart>)} />;
       case "Form":
-        return <Form key={index} {...(props as React.ComponentProps<typeof Form>)} />;
+        return (
+          <Form key={key} {...(props as FormProps)}>
+            {children}
+          </Form>
+        );
       case "Modal":
-        return <Modal key={index} {...(props as React.ComponentProps<typeof Modal>)} />;
+        return (
+          <Modal key={key} {...(props as ModalProps)} footer={named.footer}>
+            {children}
+          </Modal>
+        );
       case "TestimonialSection":
-        return <TestimonialSection key={index} {...(props as React.ComponentProps<typeof TestimonialSection>)} />;
+        return <TestimonialSection key={key} {...(props as React.ComponentProps<typeof TestimonialSection>)} />;
       default:
-        return <div key={index}>Unknown component: {component.name}</div>;
+        return <div key={key}>Unknown component: {component.name}</div>;
     }
   };
 
+  // Render a component and its children in the tree tab
+  const renderTreeNode = (comp: ComponentSpec, key: React.Key): React.ReactNode => (
+    <div key={key} className="ml-4 mt-2">
+      <div className="flex items-center gap-2">
+        <ChevronRight className="w-4 h-4 text-slate-400" />
+        <span className="text-cyan-600 dark:text-cyan-400">&lt;{comp.name}&gt;</span>
+        {comp.slot && <span className="text-xs text-slate-400">slot: {comp.slot}</span>}
+      </div>
+      <div className="ml-6 text-slate-500 dark:text-slate-400 text-xs">
+        {Object.keys(comp.props).slice(0, 5).map((key) => (
+          <div key={key}>
+            {key}: {typeof comp.props[key] === "object" ? "[object]" : String(comp.props[key]).slice(0, 30)}
+          </div>
+        ))}
+        {Object.keys(comp.props).length > 5 && (
+          <div className="text-slate-400">... +{Object.keys(comp.props).length - 5} more</div>
+        )}
+      </div>
+      {comp.children?.map((child, index) => renderTreeNode(child, index))}
+    </div>
+  );
+
   return (
     <div className={cn("min-h-screen flex flex-col", isDarkMode ? "dark" : "")}>
       {/* Header */}
@@ -433,6 +534,35 @@ ${componentCode}
         <div className="flex-1" />
 
         <div className="flex items-center gap-2">
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={importConfigFile}
+            className="hidden"
+          />
+          <button
+            onClick={() => importInputRef.current?.click()}
+            disabled={isGenerating}
+            title="Load an exported ui-smith.config.json"
+            className="px-3 py-1.5 text-sm font-medium rounded-lg transition-colors flex items-center gap-2 text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-50"
+          >
+            <Upload className="w-4 h-4" />
+            Import config
+          </button>
+          <button
+            onClick={toggleReviewChanges}
+            title={reviewChanges ? "Reviewing agent changes before they apply" : "Agent changes apply automatically"}
+            className={cn(
+              "px-3 py-1.5 text-sm font-medium rounded-lg transition-colors flex items-center gap-2",
+              reviewChanges
+                ? "bg-violet-100 dark:bg-violet-900/30 text-violet-700 dark:text-violet-400"
+                : "text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800"
+            )}
+          >
+            <ListChecks className="w-4 h-4" />
+            Review changes
+          </button>
           <button
             onClick={() => setIsDarkMode(!isDarkMode)}
             className="p-2 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
@@ -525,6 +655,51 @@ ${componentCode}
             <div ref={messagesEndRef} />
           </div>
 
+          {/* Approval */}
+          {pendingApproval && (
+            <div className="p-4 border-t border-slate-200 dark:border-slate-800">
+              <div className="text-xs font-medium text-slate-500 dark:text-slate-400 mb-2">
+                {AGENT_LABELS[pendingApproval.request.agent] ?? pendingApproval.request.agent} proposes{" "}
+                {pendingApproval.request.changes.length} change{pendingApproval.request.changes.length === 1 ? "" : "s"}
+              </div>
+              <div className="max-h-56 overflow-y-auto space-y-1 mb-3">
+                {pendingApproval.request.changes.map((change) => (
+                  <label
+                    key={change.id}
+                    className="flex items-start gap-2 p-2 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-800 cursor-pointer"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selectedChangeIds.includes(change.id)}
+                      onChange={() => toggleChangeSelection(change.id)}
+                      className="mt-0.5 accent-violet-600"
+                    />
+                    <div className="min-w-0">
+                      <div className="text-sm text-slate-900 dark:text-white">{change.description}</div>
+                      <div className="text-xs font-mono text-slate-500 dark:text-slate-400 truncate">
+                        {change.componentName} #{change.componentIndex + 1}: {formatDiffValue(change.props)}
+                      </div>
+                    </div>
+                  </label>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => resolveApproval(selectedChangeIds)}
+                  className="flex-1 px-3 py-2 text-sm font-medium rounded-lg bg-violet-600 text-white hover:bg-violet-700 transition-colors"
+                >
+                  Apply selected
+                </button>
+                <button
+                  onClick={() => resolveApproval([])}
+                  className="px-3 py-2 text-sm font-medium rounded-lg text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+                >
+                  Reject all
+                </button>
+              </div>
+            </div>
+          )}
+
           {/* Input */}
           <form onSubmit={handleSubmit} className="p-4 border-t border-slate-200 dark:border-slate-800">
             <div className="relative">
@@ -598,9 +773,84 @@ ${componentCode}
               <Layers className="w-4 h-4" />
               Tree
             </button>
+            <button
+              onClick={() => setActiveTab("design")}
+              className={cn(
+                "px-4 py-2 text-sm font-medium rounded-lg transition-colors flex items-center gap-2",
+                activeTab === "design"
+                  ? "bg-violet-100 dark:bg-violet-900/30 text-violet-700 dark:text-violet-400"
+                  : "text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800"
+              )}
+            >
+              <Palette className="w-4 h-4" />
+              Design
+              {designFeedback && <span className="text-xs opacity-70">{designFeedback.score}</span>}
+            </button>
+            <button
+              onClick={() => setActiveTab("accessibility")}
+              className={cn(
+                "px-4 py-2 text-sm font-medium rounded-lg transition-colors flex items-center gap-2",
+                activeTab === "accessibility"
+                  ? "bg-violet-100 dark:bg-violet-900/30 text-violet-700 dark:text-violet-400"
+                  : "text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800"
+              )}
+            >
+              <Accessibility className="w-4 h-4" />
+              Accessibility
+              {accessibilityReport && (
+                <span className={cn("text-xs", accessibilityReport.passed ? "opacity-70" : "text-red-500")}>
+                  {accessibilityReport.score}
+                </span>
+              )}
+            </button>
+            <button
+              onClick={() => setActiveTab("changes")}
+              className={cn(
+                "px-4 py-2 text-sm font-medium rounded-lg transition-colors flex items-center gap-2",
+                activeTab === "changes"
+                  ? "bg-violet-100 dark:bg-violet-900/30 text-violet-700 dark:text-violet-400"
+                  : "text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800"
+              )}
+            >
+              <GitCompare className="w-4 h-4" />
+              Changes
+            </button>
+            <button
+              onClick={() => setActiveTab("history")}
+              className={cn(
+                "px-4 py-2 text-sm font-medium rounded-lg transition-colors flex items-center gap-2",
+                activeTab === "history"
+                  ? "bg-violet-100 dark:bg-violet-900/30 text-violet-700 dark:text-violet-400"
+                  : "text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800"
+              )}
+            >
+              <History className="w-4 h-4" />
+              History
+            </button>
 
             <div className="flex-1" />
 
+            {versions.length > 0 && (
+              <div className="flex items-center gap-1 mr-2">
+                <button
+                  onClick={undo}
+                  disabled={isGenerating || versions[0]?.current}
+                  title="Undo"
+                  className="p-2 rounded-lg text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-40 disabled:hover:bg-transparent transition-colors"
+                >
+                  <Undo2 className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={redo}
+                  disabled={isGenerating || versions[versions.length - 1]?.current}
+                  title="Redo"
+                  className="p-2 rounded-lg text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-40 disabled:hover:bg-transparent transition-colors"
+                >
+                  <Redo2 className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+
             {activeTab === "code" && generatedCode && (
               <button
                 onClick={copyCode}
@@ -610,6 +860,17 @@ ${componentCode}
                 {copied ? "Copied!" : "Copy Code"}
               </button>
             )}
+
+            {activeTab === "code" && exportFiles.length > 0 && (
+              <button
+                onClick={downloadZip}
+                title="Download all files as a zip"
+                className="px-3 py-1.5 text-sm font-medium rounded-lg bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors flex items-center gap-2"
+              >
+                <Download className="w-4 h-4" />
+                Download Zip
+              </button>
+            )}
           </div>
 
           {/* Content */}
@@ -653,9 +914,39 @@ ${componentCode}
                   exit={{ opacity: 0, y: -10 }}
                 >
                   {generatedCode ? (
-                    <pre className="bg-slate-900 dark:bg-slate-950 text-slate-100 p-6 rounded-xl overflow-x-auto text-sm font-mono">
-                      <code>{generatedCode}</code>
-                    </pre>
+                    <div className="space-y-3">
+                      <div className="flex flex-wrap gap-1">
+                        {exportFiles.map((file) => (
+                          <button
+                            key={file.name}
+                            onClick={() => setSelectedFile(file.name)}
+                            className={cn(
+                              "px-3 py-1 text-xs font-mono rounded-md transition-colors",
+                              file.name === selectedFile
+                                ? "bg-slate-900 dark:bg-slate-800 text-white"
+                                : "text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800"
+                            )}
+                          >
+                            {file.name}
+                            {exportDiagnostics.some((diagnostic) => diagnostic.file === file.name) && (
+                              <span className="ml-1 text-amber-500">●</span>
+                            )}
+                          </button>
+                        ))}
+                      </div>
+                      {fileDiagnostics.length > 0 && (
+                        <ul className="space-y-1 rounded-xl bg-amber-100 dark:bg-amber-900/30 p-4 text-xs font-mono text-amber-700 dark:text-amber-400">
+                          {fileDiagnostics.map((diagnostic, index) => (
+                            <li key={index} className="whitespace-pre-wrap break-words">
+                              {diagnostic.line}:{diagnostic.column} TS{diagnostic.code}: {diagnostic.message}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                      <pre className="bg-slate-900 dark:bg-slate-950 text-slate-100 p-6 rounded-xl overflow-x-auto text-sm font-mono">
+                        <code>{generatedCode}</code>
+                      </pre>
+                    </div>
                   ) : (
                     <div className="flex flex-col items-center justify-center h-[60vh] text-center">
                       <div className="w-16 h-16 rounded-2xl bg-linear-to-br from-violet-500/20 to-purple-500/20 flex items-center justify-center mb-4">
@@ -683,24 +974,7 @@ ${componentCode}
                     <div className="bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-800 p-6">
                       <div className="font-mono text-sm">
                         <div className="text-violet-600 dark:text-violet-400">GeneratedUI</div>
-                        {previewComponents.map((comp, index) => (
-                          <div key={index} className="ml-4 mt-2">
-                            <div className="flex items-center gap-2">
-                              <ChevronRight className="w-4 h-4 text-slate-400" />
-                              <span className="text-cyan-600 dark:text-cyan-400">&lt;{comp.name}&gt;</span>
-                            </div>
-                            <div className="ml-6 text-slate-500 dark:text-slate-400 text-xs">
-                              {Object.keys(comp.props).slice(0, 5).map((key) => (
-                                <div key={key}>
-                                  {key}: {typeof comp.props[key] === "object" ? "[object]" : String(comp.props[key]).slice(0, 30)}
-                                </div>
-                              ))}
-                              {Object.keys(comp.props).length > 5 && (
-                                <div className="text-slate-400">... +{Object.keys(comp.props).length - 5} more</div>
-                              )}
-                            </div>
-                          </div>
-                        ))}
+                        {previewComponents.map((comp, index) => renderTreeNode(comp, index))}
                       </div>
                     </div>
                   ) : (
@@ -718,6 +992,257 @@ ${componentCode}
                   )}
                 </motion.div>
               )}
+
+              {activeTab === "design" && (
+                <motion.div
+                  key="design"
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, y: -10 }}
+                >
+                  {designFeedback ? (
+                    <div className="space-y-4">
+                      <div className="bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-800 p-4 flex items-baseline gap-3">
+                        <span className="text-3xl font-bold text-slate-900 dark:text-white">{designFeedback.score}</span>
+                        <span className="text-sm text-slate-500 dark:text-slate-400">/ 100 design score from the Design Critic</span>
+                      </div>
+                      {designFeedback.issues.length > 0 && (
+                        <div className="bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-800 p-4">
+                          <div className="text-xs font-medium text-slate-500 dark:text-slate-400 mb-3">Issues</div>
+                          <ul className="space-y-2">
+                            {designFeedback.issues.map((issue, index) => (
+                              <li key={index} className="flex items-start gap-2 text-sm">
+                                <span className={cn("px-2 py-0.5 text-xs font-medium rounded-full", SEVERITY_STYLES[issue.severity])}>
+                                  {issue.severity}
+                                </span>
+                                <span className="text-slate-900 dark:text-white">
+                                  <span className="text-slate-500 dark:text-slate-400">{issue.type}:</span> {issue.message}
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+                      {designFeedback.improvements.length > 0 && (
+                        <div className="bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-800 p-4">
+                          <div className="text-xs font-medium text-slate-500 dark:text-slate-400 mb-3">Suggested improvements</div>
+                          <ul className="space-y-3">
+                            {designFeedback.improvements.map((improvement, index) => (
+                              <li key={index} className="text-sm">
+                                <div className="text-slate-900 dark:text-white">{improvement.suggestion}</div>
+                                <div className="text-xs font-mono text-slate-500 dark:text-slate-400">
+                                  component at {describeComponentLocation(improvement.componentPath ?? [improvement.componentIndex])}
+                                  {improvement.proposedProps && `: ${formatDiffValue(improvement.proposedProps)}`}
+                                </div>
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+                      {designFeedback.issues.length === 0 && designFeedback.improvements.length === 0 && (
+                        <p className="text-sm text-slate-500 dark:text-slate-400">No design issues found.</p>
+                      )}
+                    </div>
+                  ) : (
+                    <div className="flex flex-col items-center justify-center h-[60vh] text-center">
+                      <div className="w-16 h-16 rounded-2xl bg-linear-to-br from-violet-500/20 to-purple-500/20 flex items-center justify-center mb-4">
+                        <Palette className="w-8 h-8 text-violet-500" />
+                      </div>
+                      <h3 className="text-lg font-semibold text-slate-900 dark:text-white mb-2">
+                        No Design Review
+                      </h3>
+                      <p className="text-slate-500 dark:text-slate-400 max-w-md">
+                        The Design Critic&apos;s score, issues and suggestions for your UI will appear here.
+                      </p>
+                    </div>
+                  )}
+                </motion.div>
+              )}
+
+              {activeTab === "accessibility" && (
+                <motion.div
+                  key="accessibility"
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, y: -10 }}
+                >
+                  {accessibilityReport ? (
+                    <div className="space-y-4">
+                      <div className="bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-800 p-4 flex items-baseline gap-3">
+                        <span className="text-3xl font-bold text-slate-900 dark:text-white">{accessibilityReport.score}</span>
+                        <span className="text-sm text-slate-500 dark:text-slate-400">/ 100</span>
+                        <span
+                          className={cn(
+                            "ml-auto px-2 py-0.5 text-xs font-medium rounded-full",
+                            accessibilityReport.passed
+                              ? "bg-emerald-100 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-400"
+                              : "bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400"
+                          )}
+                        >
+                          {accessibilityReport.passed ? "Passed" : "Failed"}
+                        </span>
+                      </div>
+                      {accessibilityReport.violations.length > 0 && (
+                        <div className="bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-800 p-4">
+                          <div className="text-xs font-medium text-slate-500 dark:text-slate-400 mb-3">Violations</div>
+                          <ul className="space-y-3">
+                            {accessibilityReport.violations.map((violation, index) => (
+                              <li key={index} className="text-sm">
+                                <div className="flex items-start gap-2">
+                                  <span className={cn("px-2 py-0.5 text-xs font-medium rounded-full", IMPACT_STYLES[violation.impact])}>
+                                    {violation.impact}
+                                  </span>
+                                  <span className="text-slate-900 dark:text-white">
+                                    <span className="font-mono text-slate-500 dark:text-slate-400">{violation.rule}:</span> {violation.description}
+                                  </span>
+                                </div>
+                                <div className="mt-1 ml-2 text-xs text-slate-500 dark:text-slate-400">Fix: {violation.fix}</div>
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+                      {accessibilityReport.warnings.length > 0 && (
+                        <div className="bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-800 p-4">
+                          <div className="text-xs font-medium text-slate-500 dark:text-slate-400 mb-3">Warnings</div>
+                          <ul className="space-y-3">
+                            {accessibilityReport.warnings.map((warning, index) => (
+                              <li key={index} className="text-sm">
+                                <div className="text-slate-900 dark:text-white">
+                                  <span className="font-mono text-slate-500 dark:text-slate-400">{warning.rule}:</span> {warning.description}
+                                </div>
+                                <div className="mt-1 text-xs text-slate-500 dark:text-slate-400">{warning.recommendation}</div>
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+                      {accessibilityReport.violations.length === 0 && accessibilityReport.warnings.length === 0 && (
+                        <p className="text-sm text-slate-500 dark:text-slate-400">No accessibility problems found.</p>
+                      )}
+                    </div>
+                  ) : (
+                    <div className="flex flex-col items-center justify-center h-[60vh] text-center">
+                      <div className="w-16 h-16 rounded-2xl bg-linear-to-br from-violet-500/20 to-purple-500/20 flex items-center justify-center mb-4">
+                        <Accessibility className="w-8 h-8 text-violet-500" />
+                      </div>
+                      <h3 className="text-lg font-semibold text-slate-900 dark:text-white mb-2">
+                        No Accessibility Report
+                      </h3>
+                      <p className="text-slate-500 dark:text-slate-400 max-w-md">
+                        The Accessibility agent&apos;s WCAG violations and warnings for your UI will appear here.
+                      </p>
+                    </div>
+                  )}
+                </motion.div>
+              )}
+
+              {activeTab === "changes" && (
+                <motion.div
+                  key="changes"
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, y: -10 }}
+                >
+                  {changes.length > 0 ? (
+                    <div className="space-y-4">
+                      {changes.map((step, stepIndex) => (
+                        <div
+                          key={stepIndex}
+                          className="bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-800 p-4"
+                        >
+                          <div className="text-xs font-medium text-slate-500 dark:text-slate-400 mb-3">
+                            {AGENT_LABELS[step.agent] ?? step.agent}
+                          </div>
+                          <ul className="space-y-3">
+                            {step.diff.components.map((change, changeIndex) => (
+                              <li key={changeIndex}>
+                                <div className="text-sm text-slate-900 dark:text-white">
+                                  {describeComponentChange(change)}
+                                </div>
+                                {renderPropChanges(change.propChanges ?? [])}
+                              </li>
+                            ))}
+                            {step.diff.spec.length > 0 && (
+                              <li>
+                                <div className="text-sm text-slate-900 dark:text-white">Updated page settings</div>
+                                {renderPropChanges(step.diff.spec)}
+                              </li>
+                            )}
+                          </ul>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <div className="flex flex-col items-center justify-center h-[60vh] text-center">
+                      <div className="w-16 h-16 rounded-2xl bg-linear-to-br from-violet-500/20 to-purple-500/20 flex items-center justify-center mb-4">
+                        <GitCompare className="w-8 h-8 text-violet-500" />
+                      </div>
+                      <h3 className="text-lg font-semibold text-slate-900 dark:text-white mb-2">
+                        No Changes
+                      </h3>
+                      <p className="text-slate-500 dark:text-slate-400 max-w-md">
+                        Changes each agent makes to your UI will be listed here for review.
+                      </p>
+                    </div>
+                  )}
+                </motion.div>
+              )}
+
+              {activeTab === "history" && (
+                <motion.div
+                  key="history"
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, y: -10 }}
+                >
+                  {versions.length > 0 ? (
+                    <ol className="relative border-l border-slate-200 dark:border-slate-800 ml-3 space-y-4">
+                      {[...versions].reverse().map((entry) => (
+                        <li key={entry.version} className="ml-6">
+                          <span
+                            className={cn(
+                              "absolute -left-1.5 mt-2 w-3 h-3 rounded-full border-2 border-white dark:border-slate-950",
+                              entry.current ? "bg-violet-500" : "bg-slate-300 dark:bg-slate-700"
+                            )}
+                          />
+                          <button
+                            onClick={() => checkoutVersion(entry.version)}
+                            disabled={isGenerating || entry.current}
+                            className={cn(
+                              "w-full text-left rounded-xl border p-4 transition-colors",
+                              entry.current
+                                ? "border-violet-300 dark:border-violet-700 bg-violet-50 dark:bg-violet-900/20"
+                                : "border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900 hover:border-violet-300 dark:hover:border-violet-700"
+                            )}
+                          >
+                            <div className="flex items-center justify-between text-xs text-slate-500 dark:text-slate-400">
+                              <span className="font-mono">v{entry.version}{entry.current && " · current"}</span>
+                              <span>{new Date(entry.createdAt).toLocaleTimeString()}</span>
+                            </div>
+                            <div className="mt-1 text-sm text-slate-900 dark:text-white">{entry.request}</div>
+                            <div className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+                              {entry.componentCount} component{entry.componentCount === 1 ? "" : "s"}
+                            </div>
+                          </button>
+                        </li>
+                      ))}
+                    </ol>
+                  ) : (
+                    <div className="flex flex-col items-center justify-center h-[60vh] text-center">
+                      <div className="w-16 h-16 rounded-2xl bg-linear-to-br from-violet-500/20 to-purple-500/20 flex items-center justify-center mb-4">
+                        <History className="w-8 h-8 text-violet-500" />
+                      </div>
+                      <h3 className="text-lg font-semibold text-slate-900 dark:text-white mb-2">
+                        No Versions Yet
+                      </h3>
+                      <p className="text-slate-500 dark:text-slate-400 max-w-md">
+                        Every change you request is saved as a version you can return to.
+                      </p>
+                    </div>
+                  )}
+                </motion.div>
+              )}
             </AnimatePresence>
           </div>
         </div>
@@ -726,7 +1251,18 @@ ${componentCode}
   );
 }
 
-// Utility function
-function delay(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+// Compact display of a value in the change list
+function formatDiffValue(value: unknown): string {
+  const text = JSON.stringify(value) ?? "undefined";
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
+
+// One-line summary of the review scores for the chat
+function formatScores(result: PipelineResult): string {
+  const scores = [
+    result.designFeedback && `design ${result.designFeedback.score}/100`,
+    result.accessibilityReport &&
+      `accessibility ${result.accessibilityReport.score}/100${result.accessibilityReport.passed ? "" : " (failing)"}`,
+  ].filter(Boolean);
+  return scores.length > 0 ? ` Review scores: ${scores.join(", ")}.` : "";
 }
@@ -0,0 +1,66 @@
+/**
+ * Migrate CLI
+ * ===========
+ * Upgrades exported `ui-smith.config.json` files and saved UISpec JSON files
+ * to the latest format version (see src/agents/spec-migrations.ts).
+ *
+ * Usage: npm run migrate -- <directory> [--recursive] [--dry-run]
+ */
+
+import { parseArgs } from "node:util";
+import path from "node:path";
+import { migrateDirectory } from "@/agents/spec-migration-files";
+import { specMigrations } from "@/agents/spec-migrations";
+
+const USAGE = `Usage: npm run migrate -- <directory> [--recursive] [--dry-run]
+
+Upgrades UI-Smith configs and specs in <directory> to format version ${specMigrations.getLatestVersion()}.
+
+Options:
+  -r, --recursive  Include subdirectories
+  -n, --dry-run    Report what would change without writing
+  -h, --help       Show this message`;
+
+async function main(): Promise<number> {
+    const { values, positionals } = parseArgs({
+        allowPositionals: true,
+        options: {
+            recursive: { type: "boolean", short: "r", default: false },
+            "dry-run": { type: "boolean", short: "n", default: false },
+            help: { type: "boolean", short: "h", default: false },
+        },
+    });
+
+    if (values.help || positionals.length !== 1) {
+        console.log(USAGE);
+        return values.help ? 0 : 2;
+    }
+
+    const directory = positionals[0];
+    const dryRun = values["dry-run"];
+    const report = await migrateDirectory(directory, { dryRun, recursive: values.recursive });
+    const relative = (file: string) => path.relative(process.cwd(), file);
+
+    report.migrated.forEach(entry => {
+        console.log(`${dryRun ? "would migrate" : "migrated"}  ${relative(entry.file)} (${entry.kind} v${entry.fromVersion} → v${entry.toVersion})`);
+        entry.applied.forEach(description => console.log(`    - ${description}`));
+    });
+    report.upToDate.forEach(entry => console.log(`up to date  ${relative(entry.file)}`));
+    report.skipped.forEach(file => console.log(`skipped     ${relative(file)} (not a UI-Smith config or spec)`));
+    report.failed.forEach(({ file, error }) => console.error(`failed      ${relative(file)}: ${error}`));
+
+    console.log(
+        `\n${report.migrated.length} ${dryRun ? "to migrate" : "migrated"}, ${report.upToDate.length} up to date, ` +
+        `${report.skipped.length} skipped, ${report.failed.length} failed`
+    );
+
+    return report.failed.length > 0 ? 1 : 0;
+}
+
+main().then(
+    code => process.exit(code),
+    error => {
+        console.error(error instanceof Error ? error.message : error);
+        process.exit(1);
+    }
+);
@@ -0,0 +1,185 @@
+/**
+ * Quality Gate CLI
+ * ================
+ * Runs the Design Critic and Accessibility agents on committed UISpec and
+ * `ui-smith.config.json` files and fails when they miss the thresholds (see
+ * src/agents/quality-gate.ts). Writes JUnit XML and SARIF for CI.
+ *
+ * Usage: npm run quality-gate -- <file or directory>... [options]
+ */
+
+import { parseArgs } from "node:util";
+import { mkdir, readFile, stat, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { defaultQualityGateThresholds, runQualityGate, QualityGateThresholds, ViolationImpact } from "@/agents/quality-gate";
+import { formatJUnitReport, formatSarifReport, QualityGateFileResult } from "@/agents/quality-gate-reports";
+import { listJsonFiles } from "@/agents/spec-migration-files";
+import { detectDocumentKind } from "@/agents/spec-migrations";
+import { createMCPClient, createMCPClientFromEnv } from "@/mcp/client";
+
+const IMPACTS: Array<ViolationImpact | "none"> = ["critical", "serious", "moderate", "minor", "none"];
+
+const USAGE = `Usage: npm run quality-gate -- <file or directory>... [options]
+
+Checks UI-Smith configs and specs against design and accessibility thresholds.
+Directories are searched for configs and specs; other JSON files in them are ignored.
+
+Thresholds:
+      --min-design-score <n>  Lowest passing design score, 0-100 (default ${defaultQualityGateThresholds.minDesignScore})
+      --min-a11y-score <n>    Lowest passing accessibility score, 0-100 (default ${defaultQualityGateThresholds.minAccessibilityScore})
+      --fail-on <impact>      Fail on violations of this impact or worse: ${IMPACTS.join(" | ")} (default ${defaultQualityGateThresholds.failOnImpact})
+      --skip-design           Skip the design review
+      --skip-a11y             Skip the accessibility check
+      --mcp                   Review with the MCP servers in src/mcp (also UI_SMITH_MCP=1)
+
+Reports:
+      --junit <file>          Write a JUnit XML report
+      --sarif <file>          Write a SARIF report
+  -r, --recursive             Include subdirectories
+  -q, --quiet                 Only print failures
+  -h, --help                  Show this message
+
+Exits with 1 when any file fails the gate.`;
+
+async function main(): Promise<number> {
+    let args;
+    try {
+        args = parseArgs({
+            allowPositionals: true,
+            options: {
+                "min-design-score": { type: "string" },
+                "min-a11y-score": { type: "string" },
+                "fail-on": { type: "string" },
+                "skip-design": { type: "boolean", default: false },
+                "skip-a11y": { type: "boolean", default: false },
+                mcp: { type: "boolean", default: false },
+                junit: { type: "string" },
+                sarif: { type: "string" },
+                recursive: { type: "boolean", short: "r", default: false },
+                quiet: { type: "boolean", short: "q", default: false },
+                help: { type: "boolean", short: "h", default: false },
+            },
+        });
+    } catch (error) {
+        console.error(`${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+        return 2;
+    }
+
+    const { values, positionals } = args;
+    if (values.help || positionals.length === 0) {
+        console.log(USAGE);
+        return values.help ? 0 : 2;
+    }
+
+    const problems: string[] = [];
+    const thresholds: Partial<QualityGateThresholds> = {
+        ...score("--min-design-score", values["min-design-score"], "minDesignScore", problems),
+        ...score("--min-a11y-score", values["min-a11y-score"], "minAccessibilityScore", problems),
+    };
+    if (values["fail-on"] !== undefined) {
+        if (IMPACTS.includes(values["fail-on"] as ViolationImpact)) {
+            thresholds.failOnImpact = values["fail-on"] as ViolationImpact;
+        } else {
+            problems.push(`--fail-on must be one of ${IMPACTS.join(", ")}, got "${values["fail-on"]}"`);
+        }
+    }
+    if (problems.length > 0) {
+        console.error(`${problems.join("\n")}\n\n${USAGE}`);
+        return 2;
+    }
+
+    const files = await collectFiles(positionals, values.recursive);
+    const results: QualityGateFileResult[] = [];
+    const mcpClient = values.mcp ? createMCPClient() : createMCPClientFromEnv();
+
+    try {
+        for (const file of files) {
+            const relative = path.relative(process.cwd(), file);
+            const source = await readFile(file, "utf8");
+            const result = await runQualityGate(source, thresholds, {
+                skipDesignReview: values["skip-design"],
+                skipAccessibilityCheck: values["skip-a11y"],
+                mcpClient,
+            });
+            results.push({ file: relative, result, source });
+
+            const scores = [
+                result.designFeedback && `design ${result.designFeedback.score}`,
+                result.accessibilityReport && `a11y ${result.accessibilityReport.score}`,
+            ].filter(Boolean).join(", ");
+
+            if (!result.passed || !values.quiet) {
+                console.log(`${result.passed ? "pass" : "FAIL"}  ${relative}${scores ? ` (${scores})` : ""}`);
+            }
+            result.findings
+                .filter(finding => finding.failing || (!values.quiet && finding.level === "warning"))
+                .forEach(finding => {
+                    const pointer = finding.pointer ? ` at ${finding.pointer}` : "";
+                    console.log(`    ${finding.level.padEnd(7)} ${finding.rule}${pointer}: ${finding.message}`);
+                });
+        }
+    } finally {
+        // Stop the MCP servers it spawned
+        await mcpClient?.close();
+    }
+
+    if (values.junit) await writeReport(values.junit, formatJUnitReport(results));
+    if (values.sarif) await writeReport(values.sarif, formatSarifReport(results));
+
+    const failed = results.filter(({ result }) => !result.passed).length;
+    console.log(`\n${results.length - failed} passed, ${failed} failed`);
+
+    return failed > 0 ? 1 : 0;
+}
+
+/**
+ * Files named on the command line, plus the configs and specs in named directories
+ */
+async function collectFiles(paths: string[], recursive: boolean): Promise<string[]> {
+    const files: string[] = [];
+
+    for (const entry of paths.map(entry => path.resolve(entry))) {
+        if (!(await stat(entry)).isDirectory()) {
+            files.push(entry);
+            continue;
+        }
+        for (const file of await listJsonFiles(entry, recursive)) {
+            try {
+                if (detectDocumentKind(JSON.parse(await readFile(file, "utf8")))) files.push(file);
+            } catch {
+                // Not JSON we can read; not ours to check
+            }
+        }
+    }
+
+    return files;
+}
+
+async function writeReport(file: string, content: string): Promise<void> {
+    await mkdir(path.dirname(path.resolve(file)), { recursive: true });
+    await writeFile(file, content, "utf8");
+}
+
+function score<K extends keyof QualityGateThresholds>(
+    flag: string,
+    value: string | undefined,
+    key: K,
+    problems: string[]
+): Partial<Record<K, number>> {
+    if (value === undefined) return {};
+
+    const number = Number(value);
+    if (value.trim() === "" || !Number.isFinite(number) || number < 0 || number > 100) {
+        problems.push(`${flag} must be a score from 0 to 100, got "${value}"`);
+        return {};
+    }
+    return { [key]: number } as Partial<Record<K, number>>;
+}
+
+main().then(
+    code => process.exit(code),
+    error => {
+        console.error(error instanceof Error ? error.message : error);
+        process.exit(1);
+    }
+);
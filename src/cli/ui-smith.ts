@@ -0,0 +1,329 @@
+/**
+ * UI-Smith CLI
+ * ============
+ * Runs the agent pipeline without the Next.js app: generates a UI from a
+ * prompt, or reviews an existing UISpec / `ui-smith.config.json`, then writes
+ * the export package to a directory or zip archive and prints the design and
+ * accessibility reports.
+ *
+ * Exits with 1 when the pipeline fails or the UI fails the accessibility
+ * check, so it can gate scripts.
+ *
+ * Usage: npm run ui-smith -- "<prompt>" [options]
+ *        npm run ui-smith -- --spec <file> [options]
+ */
+
+import { parseArgs } from "node:util";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { createOrchestrator, OrchestratorOptions } from "@/agents/orchestrator";
+import { createZipArchive, exportFilePath } from "@/agents/export-archive";
+import { DirectoryExportReport, writeExportToDirectory } from "@/agents/export-directory";
+import type { ExportOptions } from "@/agents/export-engineer";
+import { createExportTypeChecker } from "@/agents/export-typecheck";
+import { createFileComponentSources } from "@/agents/file-component-sources";
+import { createModelProviderFromEnv } from "@/agents/model-provider";
+import { describeComponentLocation } from "@/agents/spec-tree";
+import type { AccessibilityReport, DesignFeedback, ExportDiagnostic, ExportPackage } from "@/agents/types";
+import { createMCPClient, createMCPClientFromEnv } from "@/mcp/client";
+
+const EXPORT_FORMATS: ExportOptions["format"][] = ["full", "react", "json", "storybook", "html", "vite"];
+const FRAMEWORKS: ExportOptions["framework"][] = ["nextjs", "vite", "cra"];
+
+const USAGE = `Usage: npm run ui-smith -- "<prompt>" [options]
+       npm run ui-smith -- --spec <file> [options]
+
+Generates a UI from a prompt, or reviews an existing UISpec or ui-smith.config.json,
+and writes the exported files to the output directory or a zip archive.
+
+Input:
+  -s, --spec <file>          Review this UISpec or ui-smith.config.json instead of generating
+
+Stages:
+      --skip-design          Skip the design review
+      --skip-a11y            Skip the accessibility check
+      --no-design-fixes      Report design improvements without applying them
+      --no-a11y-fixes        Report accessibility fixes without applying them
+      --converge             Repeat the reviews until the score targets are met
+      --target-design <n>    Design score target for --converge (default 90)
+      --target-a11y <n>      Accessibility score target for --converge (default 95)
+      --max-iterations <n>   Review passes for --converge, 1 to 10 (default 3)
+      --mcp                  Review with the MCP servers in src/mcp (also UI_SMITH_MCP=1)
+
+Export:
+  -o, --out <dir>            Where to write the exported files (default ./ui-smith-export)
+      --merge                Keep files edited since the last export to the output directory
+                             (default: overwrite them; other files are never touched)
+      --zip <file>           Write the exported files to a zip archive instead of --out
+      --dry-run              List what the export would write without writing anything
+      --no-export            Skip the export stage
+      --format <format>      ${EXPORT_FORMATS.join(" | ")} (default full)
+      --framework <name>     ${FRAMEWORKS.join(" | ")} (default nextjs)
+      --javascript           Export JavaScript instead of TypeScript
+      --no-styles            Leave out generated.css
+      --no-readme            Leave out README.md
+
+Output:
+      --json                 Print the result as JSON instead of the reports
+  -q, --quiet                Only print errors
+  -h, --help                 Show this message
+
+Set UI_SMITH_MODEL_API_KEY (and optionally UI_SMITH_MODEL, UI_SMITH_MODEL_BASE_URL)
+to generate with a model instead of the offline heuristics.
+
+Exits with 1 when the pipeline fails or the UI fails the accessibility check.`;
+
+async function main(): Promise<number> {
+    let args;
+    try {
+        args = parseArgs({
+            allowPositionals: true,
+            options: {
+                spec: { type: "string", short: "s" },
+                "skip-design": { type: "boolean", default: false },
+                "skip-a11y": { type: "boolean", default: false },
+                "no-design-fixes": { type: "boolean", default: false },
+                "no-a11y-fixes": { type: "boolean", default: false },
+                converge: { type: "boolean", default: false },
+                "target-design": { type: "string" },
+                "target-a11y": { type: "string" },
+                "max-iterations": { type: "string" },
+                mcp: { type: "boolean", default: false },
+                out: { type: "string", short: "o", default: "ui-smith-export" },
+                merge: { type: "boolean", default: false },
+                zip: { type: "string" },
+                "dry-run": { type: "boolean", default: false },
+                "no-export": { type: "boolean", default: false },
+                format: { type: "string", default: "full" },
+                framework: { type: "string", default: "nextjs" },
+                javascript: { type: "boolean", default: false },
+                "no-styles": { type: "boolean", default: false },
+                "no-readme": { type: "boolean", default: false },
+                json: { type: "boolean", default: false },
+                quiet: { type: "boolean", short: "q", default: false },
+                help: { type: "boolean", short: "h", default: false },
+            },
+        });
+    } catch (error) {
+        console.error(error instanceof Error ? error.message : error);
+        console.error(`\n${USAGE}`);
+        return 2;
+    }
+
+    const { values, positionals } = args;
+    const prompt = positionals.join(" ").trim();
+
+    if (values.help) {
+        console.log(USAGE);
+        return 0;
+    }
+    if (!prompt === !values.spec) {
+        console.error(`Pass either a prompt or --spec <file>.\n\n${USAGE}`);
+        return 2;
+    }
+
+    const problems: string[] = [];
+    const options: Partial<OrchestratorOptions> = {
+        skipDesignReview: values["skip-design"],
+        skipAccessibilityCheck: values["skip-a11y"],
+        autoApplyDesignImprovements: !values["no-design-fixes"],
+        autoApplyAccessibilityFixes: !values["no-a11y-fixes"],
+        exportOnSuccess: !values["no-export"],
+        exportOptions: {
+            format: oneOf("--format", values.format, EXPORT_FORMATS, problems),
+            framework: oneOf("--framework", values.framework, FRAMEWORKS, problems),
+            typescript: !values.javascript,
+            includeStyles: !values["no-styles"],
+            includeReadme: !values["no-readme"],
+            typecheck: true,
+        },
+        ...(values.converge && {
+            convergence: {
+                ...optionalNumber("--target-design", values["target-design"], "targetDesignScore", problems),
+                ...optionalNumber("--target-a11y", values["target-a11y"], "targetAccessibilityScore", problems),
+                ...optionalInteger("--max-iterations", values["max-iterations"], "maxIterations", 1, 10, problems),
+            },
+        }),
+        modelProvider: createModelProviderFromEnv(),
+        componentSources: createFileComponentSources(),
+        exportTypeChecker: createExportTypeChecker(),
+    };
+
+    if (values.zip && values.merge) {
+        problems.push("--merge only applies to a directory, not to --zip");
+    }
+
+    if (problems.length > 0) {
+        console.error(`${problems.join("\n")}\n\n${USAGE}`);
+        return 2;
+    }
+
+    const mcpClient = values.mcp ? createMCPClient() : createMCPClientFromEnv();
+    const orchestrator = createOrchestrator({ ...options, mcpClient });
+    const log = (line = "") => {
+        if (!values.quiet && !values.json) console.log(line);
+    };
+
+    if (!values.quiet && !values.json) {
+        orchestrator.subscribe(event => {
+            if (event.type === "step_finished") {
+                console.error(`${event.success ? "✓" : "✗"} ${event.agent} ${event.action}${event.summary ? ` — ${event.summary}` : ""}`);
+            }
+        });
+    }
+
+    let result;
+    try {
+        result = values.spec
+            ? await orchestrator.reviewUI(await readFile(values.spec, "utf8"), `Review ${path.basename(values.spec)}`)
+            : await orchestrator.processRequest(prompt);
+    } finally {
+        // Stop the MCP servers it spawned
+        await mcpClient?.close();
+    }
+
+    const written = result.exportPackage
+        ? await writeExport(result.exportPackage, values.zip ?? values.out, {
+            zip: values.zip !== undefined,
+            merge: values.merge,
+            dryRun: values["dry-run"],
+        })
+        : undefined;
+    const accessibilityFailed = result.accessibilityReport?.passed === false;
+
+    if (values.json) {
+        console.log(JSON.stringify({
+            success: result.success,
+            uiSpec: result.uiSpec,
+            designFeedback: result.designFeedback,
+            accessibilityReport: result.accessibilityReport,
+            convergence: result.convergence,
+            repairs: result.repairs,
+            errors: result.errors,
+            diagnostics: result.exportPackage?.diagnostics ?? [],
+            files: written?.files ?? [],
+        }, null, 2));
+    } else {
+        result.repairs?.forEach(repair => {
+            log(`repaired  ${repair.path}: ${JSON.stringify(repair.from)} → ${JSON.stringify(repair.to)} (${repair.reason})`);
+        });
+        if (result.repairs?.length) log();
+        if (result.designFeedback) printDesignFeedback(result.designFeedback, log);
+        if (result.accessibilityReport) printAccessibilityReport(result.accessibilityReport, log);
+        if (result.exportPackage?.diagnostics) printExportDiagnostics(result.exportPackage.diagnostics, log);
+        if (written) {
+            const changed = written.files.filter(file => file.action === "create" || file.action === "overwrite").length;
+            const count = `${changed} of ${written.files.length} file${written.files.length === 1 ? "" : "s"}`;
+            log(`${written.dryRun ? "Would write" : "Wrote"} ${count} to ${values.zip ?? values.out}`);
+            written.files.forEach(file => log(`  ${file.action.padEnd(9)} ${file.path}`));
+        }
+        result.errors.forEach(error => console.error(`error  ${error.agent}: ${error.message}`));
+    }
+
+    return result.success && !accessibilityFailed ? 0 : 1;
+}
+
+/**
+ * Write the export package under a directory, or as a zip archive at `target`.
+ * A zip is written whole, so every file in it is reported as created.
+ */
+async function writeExport(
+    exportPackage: ExportPackage,
+    target: string,
+    options: { zip: boolean; merge: boolean; dryRun: boolean }
+): Promise<DirectoryExportReport> {
+    if (!options.zip) {
+        return writeExportToDirectory(exportPackage, target, {
+            policy: options.merge ? "merge" : "overwrite",
+            dryRun: options.dryRun,
+        });
+    }
+
+    const archive = createZipArchive(exportPackage.files);
+    if (!options.dryRun) {
+        await mkdir(path.dirname(path.resolve(target)), { recursive: true });
+        await writeFile(target, archive);
+    }
+    return {
+        directory: path.resolve(target),
+        dryRun: options.dryRun,
+        files: exportPackage.files.map(file => ({ path: exportFilePath(file.name), action: "create" as const })),
+    };
+}
+
+function printDesignFeedback(feedback: DesignFeedback, log: (line?: string) => void): void {
+    log(`Design review: ${feedback.score}/100`);
+    feedback.issues.forEach(issue => log(`  ${issue.severity.padEnd(10)} ${issue.type}: ${issue.message}`));
+    feedback.improvements.forEach(improvement => {
+        const location = describeComponentLocation(improvement.componentPath ?? [improvement.componentIndex]);
+        log(`  improve    component at ${location}: ${improvement.suggestion}`);
+    });
+    log();
+}
+
+function printAccessibilityReport(report: AccessibilityReport, log: (line?: string) => void): void {
+    log(`Accessibility: ${report.passed ? "pass" : "FAIL"} (${report.score}/100)`);
+    report.violations.forEach(violation => {
+        log(`  ${violation.impact.padEnd(10)} ${violation.rule}: ${violation.description}`);
+        log(`             fix: ${violation.fix}`);
+    });
+    report.warnings.forEach(warning => log(`  warning    ${warning.rule}: ${warning.description}`));
+    log();
+}
+
+function printExportDiagnostics(diagnostics: ExportDiagnostic[], log: (line?: string) => void): void {
+    log(`Type check: ${diagnostics.length === 0 ? "pass" : `${diagnostics.length} error${diagnostics.length === 1 ? "" : "s"}`}`);
+    diagnostics.forEach(diagnostic => {
+        log(`  ${diagnostic.file}:${diagnostic.line}:${diagnostic.column}  TS${diagnostic.code}: ${diagnostic.message}`);
+    });
+    log();
+}
+
+function oneOf<T extends string>(flag: string, value: string | undefined, allowed: T[], problems: string[]): T {
+    if (!allowed.includes(value as T)) {
+        problems.push(`${flag} must be one of ${allowed.join(", ")}, got "${value}"`);
+    }
+    return value as T;
+}
+
+function optionalNumber<K extends string>(
+    flag: string,
+    value: string | undefined,
+    key: K,
+    problems: string[]
+): Partial<Record<K, number>> {
+    if (value === undefined) return {};
+
+    const number = Number(value);
+    if (value.trim() === "" || !Number.isFinite(number) || number < 0) {
+        problems.push(`${flag} must be a non-negative number, got "${value}"`);
+        return {};
+    }
+    return { [key]: number } as Partial<Record<K, number>>;
+}
+
+function optionalInteger<K extends string>(
+    flag: string,
+    value: string | undefined,
+    key: K,
+    min: number,
+    max: number,
+    problems: string[]
+): Partial<Record<K, number>> {
+    if (value === undefined) return {};
+
+    const number = Number(value);
+    if (value.trim() === "" || !Number.isInteger(number) || number < min || number > max) {
+        problems.push(`${flag} must be a whole number from ${min} to ${max}, got "${value}"`);
+        return {};
+    }
+    return { [key]: number } as Partial<Record<K, number>>;
+}
+
+main().then(
+    code => process.exit(code),
+    error => {
+        console.error(error instanceof Error ? error.message : error);
+        process.exit(1);
+    }
+);
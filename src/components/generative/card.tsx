@@ -10,8 +10,15 @@ import { motion } from "framer-motion";
  * ==============
  * A versatile container component for grouped content.
  * Supports various visual styles, header/footer sections, and images.
+ *
+ * Slots: nested components render in the body (`children`) and `footer`.
  */
 
+interface CardSlots {
+  children?: React.ReactNode;
+  footer?: React.ReactNode;
+}
+
 // Variant-specific styles
 const variantStyles = {
   elevated:
@@ -57,7 +64,7 @@ const shadowStyles = {
   inner: "shadow-inner",
 };
 
-export function Card(props: CardProps) {
+export function Card({ children, footer, ...props }: CardProps & CardSlots) {
   // Parse and validate props
   const validatedProps = cardPropsSchema.parse(props);
 
@@ -172,7 +179,7 @@ export function Card(props: CardProps) {
 
   // Render content
   const renderContent = () => {
-    if (!content) return null;
+    if (!content && !children) return null;
 
     return (
       <div
@@ -182,19 +189,29 @@ export function Card(props: CardProps) {
         )}
       >
         {content}
+        {children && (
+          <div className={cn("space-y-4", content && "mt-4")}>{children}</div>
+        )}
       </div>
     );
   };
 
   // Render footer
   const renderFooter = () => {
-    if (!hasFooter && !footerContent) return null;
+    if (!hasFooter && !footerContent && !footer) return null;
 
     return (
       <div className="pt-4 mt-4 border-t border-slate-100 dark:border-slate-800">
-        <p className="text-sm text-slate-500 dark:text-slate-400">
-          {footerContent}
-        </p>
+        {footerContent && (
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            {footerContent}
+          </p>
+        )}
+        {footer && (
+          <div className={cn("flex flex-wrap gap-2", footerContent && "mt-3")}>
+            {footer}
+          </div>
+        )}
       </div>
     );
   };
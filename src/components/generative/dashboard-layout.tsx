@@ -25,8 +25,14 @@ import {
  * Dashboard Layout Component
  * ==========================
  * A comprehensive dashboard layout with sidebar, header, and content areas.
+ *
+ * Slots: nested components render in the `main` content area (`children`).
  */
 
+interface DashboardLayoutSlots {
+  children?: React.ReactNode;
+}
+
 // Get Lucide icon by name
 function getIcon(name: string | undefined): React.ElementType {
   if (!name) return LucideIcons.Circle;
@@ -410,7 +416,7 @@ function Header({
   );
 }
 
-export function DashboardLayout(props: DashboardLayoutProps) {
+export function DashboardLayout({ children, ...props }: DashboardLayoutProps & DashboardLayoutSlots) {
   const validatedProps = dashboardLayoutPropsSchema.parse(props);
 
   const {
@@ -525,12 +531,16 @@ export function DashboardLayout(props: DashboardLayoutProps) {
             </div>
           )}
 
-          {/* Placeholder for child content */}
-          <div className="bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-800 p-6 min-h-[400px]">
-            <p className="text-slate-500 dark:text-slate-400 text-center">
-              Dashboard content goes here
-            </p>
-          </div>
+          {/* Child content, or a placeholder while the main slot is empty */}
+          {children ? (
+            <div className="space-y-6">{children}</div>
+          ) : (
+            <div className="bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-800 p-6 min-h-[400px]">
+              <p className="text-slate-500 dark:text-slate-400 text-center">
+                Dashboard content goes here
+              </p>
+            </div>
+          )}
         </main>
       </div>
     </div>
@@ -15,8 +15,14 @@ import { Loader2, Eye, EyeOff } from "lucide-react";
  * Form Component
  * ==============
  * Dynamic form generation with various field types and validation.
+ *
+ * Slots: nested components render in the `actions` row (`children`).
  */
 
+interface FormSlots {
+  children?: React.ReactNode;
+}
+
 // Get Lucide icon by name
 function getIcon(name: string | undefined): React.ElementType | null {
   if (!name) return null;
@@ -372,7 +378,7 @@ function FormField({
   );
 }
 
-export function Form(props: FormProps) {
+export function Form({ children, ...props }: FormProps & FormSlots) {
   const validatedProps = formPropsSchema.parse(props);
 
   const {
@@ -540,7 +546,7 @@ export function Form(props: FormProps) {
       )}
 
       {/* Actions */}
-      {(showSubmitButton || showCancelButton) && (
+      {(showSubmitButton || showCancelButton || children) && (
         <div
           className={cn(
             "flex gap-3 mt-8 pt-6 border-t border-slate-200 dark:border-slate-700",
@@ -550,6 +556,7 @@ export function Form(props: FormProps) {
             submitPosition === "full" && "flex-col sm:flex-row"
           )}
         >
+          {children}
           {showCancelButton && (
             <button
               type="button"
@@ -11,8 +11,15 @@ import { X, AlertCircle, CheckCircle, AlertTriangle, Info, Loader2 } from "lucid
  * Modal Component
  * ===============
  * A versatile modal/dialog component with animations and multiple variants.
+ *
+ * Slots: nested components render in the body (`children`) and `footer`.
  */
 
+interface ModalSlots {
+  children?: React.ReactNode;
+  footer?: React.ReactNode;
+}
+
 // Get Lucide icon by name
 function getIcon(name: string | undefined): React.ElementType | null {
   if (!name) return null;
@@ -99,7 +106,7 @@ const variantStyles = {
   },
 };
 
-export function Modal(props: ModalProps) {
+export function Modal({ children, footer, ...props }: ModalProps & ModalSlots) {
   const validatedProps = modalPropsSchema.parse(props);
 
   const {
@@ -228,15 +235,19 @@ export function Modal(props: ModalProps) {
           )}
 
           {/* Content */}
-          {content && (
-            <div className="p-6">
-              <p className="text-slate-600 dark:text-slate-300">{content}</p>
+          {(content || children) && (
+            <div className="p-6 space-y-4">
+              {content && (
+                <p className="text-slate-600 dark:text-slate-300">{content}</p>
+              )}
+              {children}
             </div>
           )}
 
           {/* Footer */}
-          {showFooter && (primaryAction || secondaryAction) && (
+          {showFooter && (primaryAction || secondaryAction || footer) && (
             <div className="flex items-center justify-end gap-3 p-6 pt-0">
+              {footer}
               {secondaryAction && (
                 <button
                   className={cn(
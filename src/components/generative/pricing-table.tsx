@@ -14,8 +14,14 @@ import { Check, X, Sparkles } from "lucide-react";
  * Pricing Table Component
  * =======================
  * SaaS-style pricing table with multiple tiers, features, and billing toggle.
+ *
+ * Slots: nested components render in the `footer` below the tiers (`children`).
  */
 
+interface PricingTableSlots {
+  children?: React.ReactNode;
+}
+
 // Format price for display
 function formatPrice(price: number, currency: string = "USD"): string {
   return new Intl.NumberFormat("en-US", {
@@ -200,7 +206,7 @@ function TierCard({
   );
 }
 
-export function PricingTable(props: PricingTableProps) {
+export function PricingTable({ children, ...props }: PricingTableProps & PricingTableSlots) {
   const validatedProps = pricingTablePropsSchema.parse(props);
 
   const {
@@ -318,6 +324,13 @@ export function PricingTable(props: PricingTableProps) {
         ))}
       </div>
 
+      {/* Footer Slot */}
+      {children && (
+        <div className="flex flex-wrap items-center justify-center gap-3 mt-10">
+          {children}
+        </div>
+      )}
+
       {/* FAQ Section */}
       {faqItems && faqItems.length > 0 && (
         <motion.div
@@ -0,0 +1,97 @@
+/**
+ * Pipeline API client
+ * ===================
+ * Browser side of the `/api/*` routes (see src/app/api/pipeline.ts), used by
+ * the workspace to run the agent pipeline on the server.
+ */
+
+import type { PipelineEvent, PipelineResult, UISpecVersionSummary } from "@/agents/orchestrator";
+import type { UISpec } from "@/agents/types";
+
+/** A line of a streamed response: a pipeline event, or the error that stopped the run */
+export type PipelineStreamEvent = PipelineEvent | { type: "error"; message: string };
+
+export interface PipelineRun {
+    sessionId: string;
+    result: PipelineResult;
+}
+
+export interface SessionHistory {
+    sessionId: string;
+    uiSpec: UISpec | null;
+    versions: UISpecVersionSummary[];
+}
+
+/**
+ * POST to a pipeline route and read its NDJSON events as they arrive.
+ * Resolves with the result of the `pipeline_finished` event.
+ */
+export async function streamPipeline(
+    path: string,
+    body: Record<string, unknown>,
+    onEvent: (event: PipelineStreamEvent, sessionId: string) => void = () => undefined
+): Promise<PipelineRun> {
+    const response = await fetch(path, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...body, stream: true }),
+    });
+    if (!response.ok || !response.body) throw await responseError(response);
+
+    const sessionId = response.headers.get("X-Session-Id") ?? "";
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = "";
+    let result: PipelineResult | undefined;
+
+    const handleLine = (line: string) => {
+        if (!line.trim()) return;
+        const event = JSON.parse(line) as PipelineStreamEvent;
+        onEvent(event, sessionId);
+        if (event.type === "error") throw new Error(event.message);
+        if (event.type === "pipeline_finished") result = event.result;
+    };
+
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += value;
+        const lines = buffer.split("\n");
+        buffer = lines.pop()!;
+        lines.forEach(handleLine);
+    }
+    handleLine(buffer);
+
+    if (!result) throw new Error("The pipeline stopped without a result");
+    return { sessionId, result };
+}
+
+/**
+ * POST to a route that answers with JSON, e.g. `{ stream: false }` pipeline
+ * calls, /api/history and /api/approve
+ */
+export async function postJson<T>(path: string, body: Record<string, unknown>): Promise<T> {
+    const response = await fetch(path, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+    });
+    // A pipeline that ran but did not succeed answers 422 with its result
+    if (!response.ok && response.status !== 422) throw await responseError(response);
+    return response.json() as Promise<T>;
+}
+
+export async function getHistory(sessionId: string): Promise<SessionHistory> {
+    const response = await fetch(`/api/history?sessionId=${encodeURIComponent(sessionId)}`);
+    if (!response.ok) throw await responseError(response);
+    return response.json() as Promise<SessionHistory>;
+}
+
+async function responseError(response: Response): Promise<Error> {
+    try {
+        const body = await response.json() as { error?: { message?: string } };
+        if (body.error?.message) return new Error(body.error.message);
+    } catch {
+        // Not one of our JSON errors
+    }
+    return new Error(`Request failed with status ${response.status}`);
+}
@@ -0,0 +1,190 @@
+/**
+ * Accessibility Rules
+ * ===================
+ * Per-component accessibility checks shared by the Accessibility MCP server
+ * and the Accessibility Agent's offline fallback.
+ */
+
+export interface AccessibilityViolation {
+    rule: string;
+    impact: "critical" | "serious" | "moderate" | "minor";
+    description: string;
+    fix: string;
+}
+
+export interface AccessibilityWarning {
+    rule: string;
+    description: string;
+    recommendation: string;
+}
+
+export interface ComponentAccessibilityResult {
+    violations: AccessibilityViolation[];
+    warnings: AccessibilityWarning[];
+}
+
+/**
+ * Check one component's props. `location` (e.g. "index 2") only makes the
+ * messages more specific.
+ */
+export function checkComponentAccessibility(
+    componentName: string,
+    props: Record<string, unknown>,
+    location?: string
+): ComponentAccessibilityResult {
+    const result: ComponentAccessibilityResult = { violations: [], warnings: [] };
+    const at = location === undefined ? "" : ` at ${location}`;
+
+    // Check Button accessibility
+    if (componentName === "Button") {
+        // Icon-only buttons need aria-label
+        if (props.iconOnly && !props.ariaLabel && !props["aria-label"]) {
+            result.violations.push({
+                rule: "button-name",
+                impact: "critical",
+                description: `Button${at} is icon-only without accessible name`,
+                fix: "Add ariaLabel prop to the Button component",
+            });
+        }
+
+        // Check text content
+        if (!props.iconOnly && !props.text && !props.children) {
+            result.violations.push({
+                rule: "button-name",
+                impact: "critical",
+                description: `Button${at} has no text content`,
+                fix: "Add text prop or children to the Button",
+            });
+        }
+    }
+
+    // Check Form accessibility
+    if (componentName === "Form") {
+        const fields = (props.fields || props.sections) as Array<Record<string, unknown>> | undefined;
+
+        if (fields) {
+            const flatFields = Array.isArray(fields[0]?.fields)
+                ? fields.flatMap((s: Record<string, unknown>) => (s.fields as Array<Record<string, unknown>>) || [])
+                : fields;
+
+            flatFields.forEach((field: Record<string, unknown>, fieldIndex: number) => {
+                // Check for labels
+                if (!field.label && !field["aria-label"]) {
+                    result.violations.push({
+                        rule: "form-field-label",
+                        impact: "critical",
+                        description: `Form field "${field.name}" at index ${fieldIndex} has no label`,
+                        fix: `Add label prop to field "${field.name}"`,
+                    });
+                }
+
+                // Check required field indication
+                if (field.required && !field.label?.toString().includes("*")) {
+                    result.warnings.push({
+                        rule: "required-indication",
+                        description: `Required field "${field.name}" doesn't visually indicate requirement`,
+                        recommendation: "Required fields should be visually indicated (e.g., asterisk)",
+                    });
+                }
+            });
+        }
+    }
+
+    // Check Modal accessibility
+    if (componentName === "Modal") {
+        // Check for accessible name
+        if (!props.title && !props["aria-label"] && !props.ariaLabel) {
+            result.violations.push({
+                rule: "modal-name",
+                impact: "serious",
+                description: `Modal${at} has no accessible name`,
+                fix: "Add title or aria-label prop to the Modal",
+            });
+        }
+
+        // Check for close mechanism
+        if (props.showCloseButton === false && !props.closeOnEscape && !props.closeOnOverlayClick) {
+            result.violations.push({
+                rule: "modal-escape",
+                impact: "serious",
+                description: `Modal${at} has no way to close`,
+                fix: "Enable at least one close mechanism: showCloseButton, closeOnEscape, or closeOnOverlayClick",
+            });
+        }
+    }
+
+    // Check Card accessibility
+    if (componentName === "Card") {
+        // Check clickable cards for keyboard accessibility
+        if (props.clickable && !props.href && !props.onClick) {
+            result.warnings.push({
+                rule: "card-interactive",
+                description: `Clickable card${at} should have clear interactive purpose`,
+                recommendation: "Add href or ensure onClick handles keyboard events",
+            });
+        }
+
+        // Check images for alt text
+        if (props.imageUrl && !props.imageAlt) {
+            result.violations.push({
+                rule: "image-alt",
+                impact: "serious",
+                description: `Card image${at} has no alt text`,
+                fix: "Add imageAlt prop with descriptive text",
+            });
+        }
+    }
+
+    // Check Chart accessibility
+    if (componentName === "Chart") {
+        // Charts should have accessible descriptions
+        if (!props.title && !props["aria-label"]) {
+            result.violations.push({
+                rule: "chart-label",
+                impact: "serious",
+                description: `Chart${at} has no accessible label`,
+                fix: "Add title or aria-label to describe the chart data",
+            });
+        }
+    }
+
+    // Check TestimonialSection accessibility
+    if (componentName === "TestimonialSection") {
+        const testimonials = props.testimonials as Array<Record<string, unknown>> | undefined;
+
+        if (testimonials) {
+            testimonials.forEach((testimonial, tIndex) => {
+                // Check for author avatar alt text
+                if (testimonial.authorAvatarUrl && !testimonial.authorName) {
+                    result.warnings.push({
+                        rule: "image-alt",
+                        description: `Testimonial ${tIndex} has avatar without author name for alt text`,
+                        recommendation: "Ensure authorName is provided for avatar alt text",
+                    });
+                }
+            });
+        }
+    }
+
+    // Check DashboardLayout accessibility
+    if (componentName === "DashboardLayout") {
+        const sidebar = props.sidebar as Record<string, unknown> | undefined;
+        const navItems = sidebar?.navItems as Array<Record<string, unknown>> | undefined;
+
+        if (navItems) {
+            navItems.forEach((item, itemIndex) => {
+                // Check nav items for labels when using icons
+                if (item.icon && !item.label) {
+                    result.violations.push({
+                        rule: "nav-item-label",
+                        impact: "serious",
+                        description: `Navigation item ${itemIndex} has icon but no label`,
+                        fix: "Add label prop to navigation item",
+                    });
+                }
+            });
+        }
+    }
+
+    return result;
+}
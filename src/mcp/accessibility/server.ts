@@ -18,6 +18,9 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { z } from "zod";
+import { checkComponentAccessibility } from "./rules";
+import { componentSpecSchema } from "../../agents/types";
+import { describeComponentLocation, flattenComponents } from "../../agents/spec-tree";
 
 const server = new McpServer({
     name: "accessibility",
@@ -271,55 +274,16 @@ server.tool(
     {
         componentName: z.string().describe("Name of the component"),
         props: z.record(z.unknown()).describe("Component props to analyze"),
+        location: z.string().optional().describe("Where the component is in the UI (e.g. \"index 2\"), used in messages"),
     },
-    async ({ componentName, props }) => {
-        const issues: Array<{ severity: string; issue: string; fix: string }> = [];
-
-        // Check for common missing labels
-        if (componentName === "Button") {
-            const buttonProps = props as Record<string, unknown>;
-            if (buttonProps.iconOnly && !buttonProps.ariaLabel && !buttonProps["aria-label"]) {
-                issues.push({
-                    severity: "critical",
-                    issue: "Icon-only button missing aria-label",
-                    fix: 'Add ariaLabel prop (e.g., ariaLabel="Close menu")',
-                });
-            }
-        }
-
-        if (componentName === "Form") {
-            const formProps = props as Record<string, unknown>;
-            const fields = (formProps.fields || []) as Array<Record<string, unknown>>;
-            fields.forEach((field, index) => {
-                if (!field.label && !field["aria-label"]) {
-                    issues.push({
-                        severity: "critical",
-                        issue: `Form field at index ${index} missing label`,
-                        fix: "Add label prop to the field",
-                    });
-                }
-            });
-        }
-
-        if (componentName === "Modal") {
-            const modalProps = props as Record<string, unknown>;
-            if (!modalProps.title && !modalProps["aria-label"]) {
-                issues.push({
-                    severity: "serious",
-                    issue: "Modal missing title or aria-label",
-                    fix: "Add title prop or aria-label for screen readers",
-                });
-            }
-        }
-
-        // Check for images without alt text
-        if (props.imageUrl && !props.imageAlt && !props["alt"]) {
-            issues.push({
-                severity: "critical",
-                issue: "Image missing alt text",
-                fix: "Add imageAlt prop with descriptive text",
-            });
-        }
+    async ({ componentName, props, location }) => {
+        const { violations, warnings } = checkComponentAccessibility(componentName, props, location);
+        const issues = violations.map((violation) => ({
+            rule: violation.rule,
+            severity: violation.impact,
+            issue: violation.description,
+            fix: violation.fix,
+        }));
 
         return {
             content: [
@@ -329,6 +293,7 @@ server.tool(
                         componentName,
                         issuesFound: issues.length,
                         issues,
+                        warnings,
                         passed: issues.length === 0,
                     }, null, 2),
                 },
@@ -469,15 +434,13 @@ server.tool(
     "get_accessibility_report",
     "Generates a comprehensive accessibility report for a component tree",
     {
-        components: z.array(z.object({
-            name: z.string(),
-            props: z.record(z.unknown()),
-        })).describe("Array of components to analyze"),
+        components: z.array(componentSpecSchema).describe("Array of components to analyze, including nested children"),
     },
     async ({ components }) => {
+        const nodes = flattenComponents(components);
         const report = {
             summary: {
-                total: components.length,
+                total: nodes.length,
                 passed: 0,
                 failed: 0,
                 warnings: 0,
@@ -490,16 +453,9 @@ server.tool(
             recommendations: [] as string[],
         };
 
-        components.forEach((comp) => {
-            const issues: string[] = [];
-
-            // Run basic checks
-            if (comp.props.imageUrl && !comp.props.imageAlt) {
-                issues.push("Missing image alt text");
-            }
-            if (comp.name === "Button" && comp.props.iconOnly && !comp.props.ariaLabel) {
-                issues.push("Icon-only button needs aria-label");
-            }
+        nodes.forEach(({ component: comp, path }) => {
+            const issues = checkComponentAccessibility(comp.name, comp.props, describeComponentLocation(path))
+                .violations.map((violation) => violation.description);
 
             const status = issues.length === 0 ? "pass" : "fail";
             if (status === "pass") {
@@ -0,0 +1,136 @@
+/**
+ * MCP Client
+ * ==========
+ * Connects agents to the MCP servers in this directory.
+ *
+ * By default a server is spawned over stdio the first time one of its tools
+ * is called (`node --import tsx src/mcp/<server>/server.ts`). Servers that
+ * already run elsewhere can be reached over Streamable HTTP instead.
+ *
+ * The agents work without it, from their built-in rules; the CLIs pass one
+ * with `--mcp`, and the API and CLIs when `UI_SMITH_MCP=1` is set.
+ *
+ * Node-only: import this module from server code and scripts, not from the
+ * client bundle.
+ */
+
+import path from "node:path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import type { MCPToolClient, MCPToolMap, MCPToolName } from "../agents/mcp-tools";
+
+export type MCPServerName = "design-system" | "accessibility" | "ux-best-practices" | "export";
+
+/**
+ * Tool prefixes used in agent configs, mapped to the server providing them
+ */
+const SERVER_BY_PREFIX: Record<string, MCPServerName> = {
+    "design-system": "design-system",
+    design: "design-system",
+    a11y: "accessibility",
+    ux: "ux-best-practices",
+    export: "export",
+};
+
+export type MCPServerConnection =
+    | { transport: "stdio"; command?: string; args?: string[] }
+    | { transport: "http"; url: string; headers?: Record<string, string> };
+
+export interface MCPClientOptions {
+    /** How to reach each server; servers not listed are spawned over stdio */
+    servers?: Partial<Record<MCPServerName, MCPServerConnection>>;
+    /** Project root containing `src/mcp`. Default: the current working directory */
+    rootDir?: string;
+}
+
+export class MCPClientManager implements MCPToolClient {
+    private options: MCPClientOptions;
+    private clients = new Map<MCPServerName, Promise<Client>>();
+
+    constructor(options: MCPClientOptions = {}) {
+        this.options = options;
+    }
+
+    /**
+     * Call a tool by its agent-config name, e.g. "a11y:check_aria_labels",
+     * and return its parsed JSON result
+     */
+    async callTool<T extends MCPToolName>(tool: T, args: MCPToolMap[T]["args"]): Promise<MCPToolMap[T]["result"]> {
+        const separator = tool.indexOf(":");
+        const server = SERVER_BY_PREFIX[tool.slice(0, separator)];
+        if (!server) {
+            throw new Error(`Unknown MCP server for tool "${tool}"`);
+        }
+
+        const client = await this.connect(server);
+        const result = await client.callTool({ name: tool.slice(separator + 1), arguments: args });
+        const content = (result.content ?? []) as Array<{ type: string; text?: string }>;
+        const text = content.find(item => item.type === "text")?.text;
+
+        if (result.isError) {
+            throw new Error(`MCP tool "${tool}" failed: ${text ?? "no details"}`);
+        }
+        if (text === undefined) {
+            throw new Error(`MCP tool "${tool}" returned no text content`);
+        }
+
+        return JSON.parse(text);
+    }
+
+    async close(): Promise<void> {
+        const clients = Array.from(this.clients.values());
+        this.clients.clear();
+        await Promise.allSettled(clients.map(async client => (await client).close()));
+    }
+
+    /**
+     * Connect to a server once and share the connection between calls
+     */
+    private connect(server: MCPServerName): Promise<Client> {
+        let client = this.clients.get(server);
+
+        if (!client) {
+            client = this.open(server);
+            this.clients.set(server, client);
+            // Let a later call retry a connection that failed
+            client.catch(() => this.clients.delete(server));
+        }
+
+        return client;
+    }
+
+    private async open(server: MCPServerName): Promise<Client> {
+        const rootDir = path.resolve(this.options.rootDir ?? process.cwd());
+        const connection = this.options.servers?.[server] ?? { transport: "stdio" };
+        const client = new Client({ name: "ui-smith-agents", version: "1.0.0" });
+
+        const transport = connection.transport === "http"
+            ? new StreamableHTTPClientTransport(new URL(connection.url), {
+                requestInit: { headers: connection.headers },
+            })
+            : new StdioClientTransport({
+                command: connection.command ?? process.execPath,
+                args: connection.args ?? ["--import", "tsx", path.join(rootDir, "src", "mcp", server, "server.ts")],
+                cwd: rootDir,
+                stderr: "ignore",
+            });
+
+        await client.connect(transport);
+        return client;
+    }
+}
+
+export function createMCPClient(options?: MCPClientOptions): MCPClientManager {
+    return new MCPClientManager(options);
+}
+
+/**
+ * A client for the MCP servers when `UI_SMITH_MCP` is "1" or "true", otherwise
+ * undefined. Close it when done, to stop the servers it spawned.
+ */
+export function createMCPClientFromEnv(
+    env: Record<string, string | undefined> = process.env
+): MCPClientManager | undefined {
+    return env.UI_SMITH_MCP === "1" || env.UI_SMITH_MCP === "true" ? createMCPClient() : undefined;
+}
@@ -0,0 +1,138 @@
+/**
+ * Layout Rules
+ * ============
+ * Layout and composition rules shared by the Design System MCP server and
+ * the agents.
+ *
+ * `componentPairs` constrain nesting: a discouraged pair is an error at any
+ * depth, and a parent that lists recommended children warns about others.
+ */
+
+import type { ComponentPath, ComponentSpec } from "../../agents/types";
+import { describeComponentLocation, getComponentSlots, walkComponents } from "../../agents/spec-tree";
+
+export const layoutRules = {
+    composition: [
+        {
+            rule: "max-components-per-view",
+            value: 10,
+            description: "Limit to 10 major components per view to avoid cognitive overload",
+        },
+        {
+            rule: "cta-placement",
+            value: "above-fold",
+            description: "Primary CTAs should be visible without scrolling",
+        },
+        {
+            rule: "spacing-consistency",
+            value: "use-design-tokens",
+            description: "Always use spacing tokens, never arbitrary pixel values",
+        },
+        {
+            rule: "hierarchy",
+            value: "single-h1",
+            description: "Each page should have exactly one H1 heading",
+        },
+    ],
+    containers: {
+        maxWidth: {
+            prose: "65ch",
+            content: "1200px",
+            wide: "1400px",
+        },
+        minHeight: {
+            section: "400px",
+            hero: "80vh",
+        },
+    },
+    responsive: {
+        breakpoints: {
+            sm: "640px",
+            md: "768px",
+            lg: "1024px",
+            xl: "1280px",
+            "2xl": "1536px",
+        },
+        mobileFirst: true,
+    },
+    componentPairs: {
+        recommended: [
+            { parent: "DashboardLayout", children: ["Chart", "Card", "Button"] },
+            { parent: "PricingTable", children: ["Button"] },
+            { parent: "Form", children: ["Button"] },
+            { parent: "Modal", children: ["Button", "Form"] },
+        ],
+        discouraged: [
+            { parent: "Modal", children: ["Modal"], reason: "Avoid nested modals" },
+            { parent: "Form", children: ["PricingTable"], reason: "Forms should not contain pricing tables" },
+        ],
+    },
+};
+
+export interface CompositionIssue {
+    rule: "slot-support" | "unknown-slot" | "discouraged-pair" | "recommended-pair";
+    severity: "error" | "warning";
+    message: string;
+    componentPath: ComponentPath;
+}
+
+/**
+ * Check every parent/child pair in a component tree against the components'
+ * slots and `componentPairs`
+ */
+export function checkComposition(components: ComponentSpec[]): CompositionIssue[] {
+    const issues: CompositionIssue[] = [];
+    const { recommended, discouraged } = layoutRules.componentPairs;
+
+    walkComponents(components, ({ component, path, ancestors }) => {
+        const parent = ancestors[ancestors.length - 1];
+        if (!parent) return;
+
+        const at = describeComponentLocation(path);
+        const slots = getComponentSlots(parent.name);
+
+        if (slots.length === 0) {
+            issues.push({
+                rule: "slot-support",
+                severity: "error",
+                message: `${component.name} at ${at} is nested in ${parent.name}, which has no slots for children`,
+                componentPath: path,
+            });
+            return;
+        }
+
+        if (component.slot && !slots.includes(component.slot)) {
+            issues.push({
+                rule: "unknown-slot",
+                severity: "error",
+                message: `${component.name} at ${at} uses slot "${component.slot}", but ${parent.name} only has ${slots.map(slot => `"${slot}"`).join(", ")}`,
+                componentPath: path,
+            });
+        }
+
+        // Discouraged pairs apply to every enclosing component, not just the parent
+        const banned = ancestors.flatMap(ancestor =>
+            discouraged.filter(pair => pair.parent === ancestor.name && pair.children.includes(component.name))
+        );
+        banned.forEach(pair => {
+            issues.push({
+                rule: "discouraged-pair",
+                severity: "error",
+                message: `${component.name} at ${at} is inside ${pair.parent}: ${pair.reason}`,
+                componentPath: path,
+            });
+        });
+
+        const allowed = recommended.find(pair => pair.parent === parent.name);
+        if (banned.length === 0 && allowed && !allowed.children.includes(component.name)) {
+            issues.push({
+                rule: "recommended-pair",
+                severity: "warning",
+                message: `${component.name} at ${at} is not a recommended child of ${parent.name} (use ${allowed.children.join(", ")})`,
+                componentPath: path,
+            });
+        }
+    });
+
+    return issues;
+}
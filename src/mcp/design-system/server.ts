@@ -8,6 +8,7 @@
  * - get_component_list: Returns all available components
  * - get_component_schema: Returns Zod schema for a specific component
  * - validate_props: Validates props against component schema
+ * - validate_composition: Checks nested components against slots and component pairs
  * - get_layout_rules: Returns layout composition rules
  * - get_design_tokens: Returns design system tokens (colors, spacing, etc.)
  * 
@@ -24,6 +25,8 @@ import { z } from "zod";
 // Import component schemas
 import { tamboComponents } from "../../tambo/component-registry";
 import { componentRegistry } from "../../tambo/component-registry";
+import { componentSpecSchema } from "../../agents/types";
+import { checkComposition, layoutRules } from "./layout-rules";
 
 const server = new McpServer({
     name: "design-system",
@@ -112,68 +115,6 @@ const designTokens = {
     },
 };
 
-// ============================================================================
-// LAYOUT RULES
-// ============================================================================
-
-const layoutRules = {
-    composition: [
-        {
-            rule: "max-components-per-view",
-            value: 10,
-            description: "Limit to 10 major components per view to avoid cognitive overload",
-        },
-        {
-            rule: "cta-placement",
-            value: "above-fold",
-            description: "Primary CTAs should be visible without scrolling",
-        },
-        {
-            rule: "spacing-consistency",
-            value: "use-design-tokens",
-            description: "Always use spacing tokens, never arbitrary pixel values",
-        },
-        {
-            rule: "hierarchy",
-            value: "single-h1",
-            description: "Each page should have exactly one H1 heading",
-        },
-    ],
-    containers: {
-        maxWidth: {
-            prose: "65ch",
-            content: "1200px",
-            wide: "1400px",
-        },
-        minHeight: {
-            section: "400px",
-            hero: "80vh",
-        },
-    },
-    responsive: {
-        breakpoints: {
-            sm: "640px",
-            md: "768px",
-            lg: "1024px",
-            xl: "1280px",
-            "2xl": "1536px",
-        },
-        mobileFirst: true,
-    },
-    componentPairs: {
-        recommended: [
-            { parent: "DashboardLayout", children: ["Chart", "Card", "Button"] },
-            { parent: "PricingTable", children: ["Button"] },
-            { parent: "Form", children: ["Button"] },
-            { parent: "Modal", children: ["Button", "Form"] },
-        ],
-        discouraged: [
-            { parent: "Modal", children: ["Modal"], reason: "Avoid nested modals" },
-            { parent: "Form", children: ["PricingTable"], reason: "Forms should not contain pricing tables" },
-        ],
-    },
-};
-
 // ============================================================================
 // TOOLS
 // ============================================================================
@@ -323,6 +264,30 @@ server.tool(
     }
 );
 
+// Tool: Validate composition
+server.tool(
+    "validate_composition",
+    "Checks a component tree's nesting against component slots and the recommended/discouraged component pairs",
+    {
+        components: z.array(componentSpecSchema).describe("Top-level components, with nested children"),
+    },
+    async ({ components }) => {
+        const issues = checkComposition(components);
+
+        return {
+            content: [
+                {
+                    type: "text" as const,
+                    text: JSON.stringify({
+                        valid: !issues.some((issue) => issue.severity === "error"),
+                        issues,
+                    }, null, 2),
+                },
+            ],
+        };
+    }
+);
+
 // Tool: Get layout rules
 server.tool(
     "get_layout_rules",
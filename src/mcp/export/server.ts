@@ -8,6 +8,9 @@
  * - export_json_schema: Exports component tree as JSON schema
  * - export_component_tree: Exports hierarchical component structure
  * - generate_storybook_story: Generates Storybook stories for components
+ *
+ * Generated code is formatted with Prettier and typechecked against the app's
+ * components; type errors are returned as `diagnostics`.
  * 
  * Resources:
  * - export://templates: Available export templates
@@ -17,6 +20,10 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { z } from "zod";
+import { formatCode } from "../../agents/code-formatter";
+import { typecheckExportFiles } from "../../agents/export-typecheck";
+import { jsxAttributes, propsWithDefaults, toJsLiteral } from "../../agents/jsx-writer";
+import type { ExportDiagnostic } from "../../agents/types";
 
 const server = new McpServer({
     name: "export",
@@ -34,33 +41,16 @@ function generateReactCode(
     componentName: string,
     props: Record<string, unknown>,
     options: { typescript: boolean; tailwind: boolean }
-): string {
-    const propsString = Object.entries(props)
-        .filter(([_, value]) => value !== undefined && value !== null)
-        .map(([key, value]) => {
-            if (typeof value === "string") {
-                return `${key}="${value}"`;
-            } else if (typeof value === "boolean") {
-                return value ? key : `${key}={false}`;
-            } else if (typeof value === "number") {
-                return `${key}={${value}}`;
-            } else {
-                return `${key}={${JSON.stringify(value)}}`;
-            }
-        })
-        .join("\n      ");
+): Promise<string> {
+    const attributes = jsxAttributes(propsWithDefaults(componentName, props));
 
     const code = `import { ${componentName} } from "@/components/generative";
 
 export function Example${componentName}() {
-  return (
-    <${componentName}
-      ${propsString}
-    />
-  );
+  return <${componentName} ${attributes.join(" ")} />;
 }`;
 
-    return code;
+    return formatCode(code, options.typescript ? "example.tsx" : "example.jsx");
 }
 
 /**
@@ -69,30 +59,11 @@ export function Example${componentName}() {
 function generatePageCode(
     components: Array<{ name: string; props: Record<string, unknown> }>,
     options: { typescript: boolean; framework: string }
-): string {
+): Promise<string> {
     const imports = [...new Set(components.map((c) => c.name))].join(", ");
 
     const componentCode = components
-        .map((comp, index) => {
-            const propsString = Object.entries(comp.props)
-                .filter(([_, value]) => value !== undefined)
-                .map(([key, value]) => {
-                    if (typeof value === "string") {
-                        return `${key}="${value}"`;
-                    } else if (typeof value === "boolean") {
-                        return value ? key : `${key}={false}`;
-                    } else if (typeof value === "number") {
-                        return `${key}={${value}}`;
-                    } else {
-                        return `${key}={${JSON.stringify(value, null, 8).split("\n").join("\n        ")}}`;
-                    }
-                })
-                .join("\n        ");
-
-            return `      <${comp.name}
-        ${propsString}
-      />`;
-        })
+        .map((comp) => `<${comp.name} ${jsxAttributes(propsWithDefaults(comp.name, comp.props)).join(" ")} />`)
         .join("\n\n");
 
     let code = "";
@@ -123,7 +94,17 @@ ${componentCode}
 export default GeneratedPage;`;
     }
 
-    return code;
+    return formatCode(code, options.typescript ? "page.tsx" : "page.jsx");
+}
+
+/**
+ * Type errors in the TypeScript files, against the app's components
+ */
+function typecheckFiles(files: Array<{ name: string; content: string }>): ExportDiagnostic[] {
+    return typecheckExportFiles(
+        files.map((file) => ({ ...file, type: "component" as const })),
+        process.cwd()
+    );
 }
 
 /**
@@ -229,15 +210,15 @@ server.tool(
 
         if (opts.singleFile) {
             // Generate single page file
-            const pageCode = generatePageCode(components, opts);
+            const pageCode = await generatePageCode(components, opts);
             files.push({
                 filename: opts.typescript ? "page.tsx" : "page.jsx",
                 content: pageCode,
             });
         } else {
             // Generate separate files for each component
-            components.forEach((comp, index) => {
-                const code = generateReactCode(comp.name, comp.props, {
+            for (const [index, comp] of components.entries()) {
+                const code = await generateReactCode(comp.name, comp.props, {
                     typescript: opts.typescript,
                     tailwind: true,
                 });
@@ -247,7 +228,7 @@ server.tool(
                         : `${comp.name}Example${index}.jsx`,
                     content: code,
                 });
-            });
+            }
         }
 
         // Include CSS if requested
@@ -266,6 +247,7 @@ server.tool(
                     text: JSON.stringify({
                         success: true,
                         fileCount: files.length,
+                        diagnostics: typecheckFiles(files.map((f) => ({ name: f.filename, content: f.content }))),
                         files: files.map((f) => ({
                             filename: f.filename,
                             preview: f.content.substring(0, 200) + (f.content.length > 200 ? "..." : ""),
@@ -380,7 +362,7 @@ server.tool(
         })).describe("Different variants/states to showcase"),
     },
     async ({ componentName, variants }) => {
-        const story = `import type { Meta, StoryObj } from "@storybook/react";
+        const story = await formatCode(`import type { Meta, StoryObj } from "@storybook/react";
 import { ${componentName} } from "@/components/generative";
 
 const meta: Meta<typeof ${componentName}> = {
@@ -398,11 +380,11 @@ type Story = StoryObj<typeof ${componentName}>;
 ${variants
                 .map(
                     (variant) => `export const ${variant.name.replace(/\s+/g, "")}: Story = {
-  args: ${JSON.stringify(variant.props, null, 4).split("\n").join("\n  ")},
+  args: ${toJsLiteral(variant.props)},
 };`
                 )
                 .join("\n\n")}
-`;
+`, `${componentName}.stories.tsx`);
 
         return {
             content: [
@@ -412,6 +394,7 @@ ${variants
                         success: true,
                         filename: `${componentName}.stories.tsx`,
                         content: story,
+                        diagnostics: typecheckFiles([{ name: `${componentName}.stories.tsx`, content: story }]),
                     }, null, 2),
                 },
             ],
@@ -434,7 +417,7 @@ server.tool(
         const files: Array<{ path: string; content: string }> = [];
 
         // Generate main page
-        const pageCode = generatePageCode(components, {
+        const pageCode = await generatePageCode(components, {
             typescript: true,
             framework: "nextjs",
         });
@@ -505,6 +488,7 @@ Generated at ${new Date().toISOString()}
                         success: true,
                         projectName,
                         fileCount: files.length,
+                        diagnostics: typecheckFiles(files.map((f) => ({ name: f.path, content: f.content }))),
                         files: files.map((f) => ({
                             path: f.path,
                             size: f.content.length,
@@ -530,13 +514,13 @@ const exportTemplates = {
     },
     vite: {
         name: "Vite React",
-        description: "Export for Vite + React",
-        features: ["Fast HMR", "TypeScript", "Tailwind CSS"],
+        description: "Runnable Vite + React project",
+        features: ["Fast HMR", "TypeScript", "Tailwind CSS", "Only the components the UI uses"],
     },
     standalone: {
         name: "Standalone HTML",
         description: "Single HTML file with inline styles",
-        features: ["No build required", "CDN dependencies"],
+        features: ["No build required", "Inline CSS", "Vanilla JS for modals, tabs, pricing and carousels"],
     },
 };
 
@@ -556,6 +540,11 @@ const exportFormats = {
         extension: ".stories.tsx",
         description: "Storybook story files",
     },
+    html: {
+        name: "Standalone HTML",
+        extension: ".html",
+        description: "Self-contained page that renders without React",
+    },
     css: {
         name: "Tailwind CSS",
         extension: ".css",
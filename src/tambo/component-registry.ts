@@ -27,6 +27,9 @@ import { testimonialSectionPropsSchema } from "@/schemas/testimonial-section.sch
  * - description: Detailed description helping the AI understand when to use it
  * - component: The React component to render
  * - propsSchema: Zod schema defining valid props (prevents hallucination)
+ * - slots: Named regions that accept nested components; the first one is the
+ *   default slot (rendered as React children), the others are rendered through
+ *   a prop of the same name. Components without slots cannot have children.
  */
 
 export const tamboComponents: any[] = [
@@ -81,6 +84,7 @@ export const tamboComponents: any[] = [
     - Configurable padding and border radius`,
         component: Card,
         propsSchema: cardPropsSchema,
+        slots: ["body", "footer"],
     },
     {
         name: "PricingTable",
@@ -110,6 +114,7 @@ export const tamboComponents: any[] = [
     Layout options: horizontal (side-by-side) or comparison (table format)`,
         component: PricingTable,
         propsSchema: pricingTablePropsSchema,
+        slots: ["footer"],
     },
     {
         name: "DashboardLayout",
@@ -143,6 +148,7 @@ export const tamboComponents: any[] = [
     - Footer content`,
         component: DashboardLayout,
         propsSchema: dashboardLayoutPropsSchema,
+        slots: ["main"],
     },
     {
         name: "Chart",
@@ -211,6 +217,7 @@ export const tamboComponents: any[] = [
     Label positions: top, left, or floating`,
         component: Form,
         propsSchema: formPropsSchema,
+        slots: ["actions"],
     },
     {
         name: "Modal",
@@ -241,6 +248,7 @@ export const tamboComponents: any[] = [
     - Close on overlay click or escape key`,
         component: Modal,
         propsSchema: modalPropsSchema,
+        slots: ["body", "footer"],
     },
     {
         name: "TestimonialSection",
@@ -320,6 +328,14 @@ export class TamboComponentRegistry {
         return Array.from(this.components.values());
     }
 
+    /**
+     * Get the slots a component accepts nested components in.
+     * The first slot is the default one.
+     */
+    getSlots(name: string): string[] {
+        return this.components.get(name)?.slots ?? [];
+    }
+
     /**
      * Get component descriptions for AI context
      */